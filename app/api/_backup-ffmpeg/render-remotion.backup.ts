@@ -4,7 +4,7 @@ import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { getCaptionStyle, CaptionStyle } from '@/lib/captionStyles';
+import { getCaptionStyle, toAssColor, CaptionStyle } from '@/lib/captionStyles';
 
 const execAsync = promisify(exec);
 
@@ -82,12 +82,12 @@ function generateTikTokASS(wordTimings: WordTiming[], width: number, height: num
     // Get style config
     const font = captionStyleConfig.font;
     const fontSize = captionStyleConfig.fontSize;
-    const primaryColor = captionStyleConfig.primaryColor;
-    const outlineColor = captionStyleConfig.outlineColor;
-    const shadowColor = captionStyleConfig.shadowColor;
+    const primaryColor = toAssColor(captionStyleConfig.textColor);
+    const outlineColor = toAssColor(captionStyleConfig.outlineColor);
+    const shadowColor = toAssColor(captionStyleConfig.shadowColor, captionStyleConfig.shadowOpacity);
     const outlineWidth = captionStyleConfig.outlineWidth;
     const shadowDepth = captionStyleConfig.shadowDepth;
-    const bold = captionStyleConfig.bold ? 1 : 0;
+    const bold = captionStyleConfig.fontWeight >= 600 ? 1 : 0;
 
     // Premium ASS Header with dynamic font from style
     let ass = `[Script Info]
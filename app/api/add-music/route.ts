@@ -4,6 +4,13 @@ import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import {
+    buildFfmpegVolumeExpression,
+    buildMusicKeyframes,
+    getSpeechRegions,
+    resolveBackgroundMusic,
+    validateMusicOptions
+} from '@/lib/backgroundMusic';
 
 const execAsync = promisify(exec);
 
@@ -71,10 +78,14 @@ export async function POST(request: NextRequest) {
     const tempDir = path.join(os.tmpdir(), `post-process-${Date.now()}`);
 
     try {
-        const { videoUrl, enableBackgroundMusic, wordTimings } = await request.json() as {
+        const { videoUrl, enableBackgroundMusic, wordTimings, musicUrl, musicVolume, ducking } = await request.json() as {
             videoUrl: string;
             enableBackgroundMusic?: boolean;
             wordTimings?: WordTiming[];
+            // Track from the music library (defaults to the bundled track)
+            musicUrl?: string;
+            musicVolume?: number;
+            ducking?: boolean;
         };
 
         if (!videoUrl) {
@@ -84,6 +95,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const musicError = validateMusicOptions({ volume: musicVolume, ducking });
+        if (musicError) {
+            return NextResponse.json({ error: musicError }, { status: 400 });
+        }
+
         const hasCaptions = wordTimings && wordTimings.length > 0;
         console.log(`Post-processing video: ${hasCaptions ? `captions (${wordTimings.length} words)` : 'no captions'}, ${enableBackgroundMusic ? 'with music' : 'no music'}`);
 
@@ -104,10 +120,19 @@ export async function POST(request: NextRequest) {
         }
 
         // Background music path
-        const bgMusicPath = path.join(process.cwd(), 'public', 'Feeling Blue.mp3');
+        let bgMusicPath = path.join(process.cwd(), 'public', 'Feeling Blue.mp3');
         let bgMusicExists = false;
 
-        if (enableBackgroundMusic) {
+        if (enableBackgroundMusic && musicUrl) {
+            const musicResponse = await fetch(musicUrl);
+            if (musicResponse.ok) {
+                bgMusicPath = path.join(tempDir, 'music' + (path.extname(new URL(musicUrl).pathname) || '.mp3'));
+                await fs.writeFile(bgMusicPath, Buffer.from(await musicResponse.arrayBuffer()));
+                bgMusicExists = true;
+            } else {
+                console.warn('Could not download background music:', musicUrl);
+            }
+        } else if (enableBackgroundMusic) {
             try {
                 await fs.access(bgMusicPath);
                 bgMusicExists = true;
@@ -116,6 +141,17 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        // Music level follows the same fade and ducking envelope as the renders
+        let musicFilter = '';
+        if (bgMusicExists) {
+            const { stdout } = await execAsync(`ffprobe -v error -show_entries format=duration -of csv=p=0 "${videoPath}"`);
+            const videoDuration = parseFloat(stdout.trim()) || 0;
+            const music = resolveBackgroundMusic(true, bgMusicPath, { volume: musicVolume, ducking })!;
+            const regions = getSpeechRegions([{ duration: videoDuration, wordTimings }]);
+            const expression = buildFfmpegVolumeExpression(buildMusicKeyframes(music, regions, videoDuration));
+            musicFilter = `[1:a]volume='${expression}':eval=frame[music]`;
+        }
+
         // Output path
         const outputPath = path.join(tempDir, 'output.mp4');
 
@@ -131,7 +167,7 @@ export async function POST(request: NextRequest) {
             ffmpegCmd = `ffmpeg -y \
                 -i "${videoPath}" \
                 -stream_loop -1 -i "${bgMusicPath}" \
-                -filter_complex "[0:a]volume=1.0[voice];[1:a]volume=0.15[music];[voice][music]amix=inputs=2:duration=first:dropout_transition=2[aout]" \
+                -filter_complex "[0:a]volume=1.0[voice];${musicFilter};[voice][music]amix=inputs=2:duration=first:dropout_transition=2[aout]" \
                 -map 0:v -map "[aout]" \
                 -vf "ass='${assPath}'" \
                 -c:v libx264 -preset fast -crf 23 \
@@ -157,7 +193,7 @@ export async function POST(request: NextRequest) {
             ffmpegCmd = `ffmpeg -y \
                 -i "${videoPath}" \
                 -stream_loop -1 -i "${bgMusicPath}" \
-                -filter_complex "[0:a]volume=1.0[voice];[1:a]volume=0.15[music];[voice][music]amix=inputs=2:duration=first:dropout_transition=2[aout]" \
+                -filter_complex "[0:a]volume=1.0[voice];${musicFilter};[voice][music]amix=inputs=2:duration=first:dropout_transition=2[aout]" \
                 -map 0:v -map "[aout]" \
                 -c:v copy \
                 -c:a aac -b:a 128k \
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { addCredits } from '@/lib/supabase';
+import { addCredits } from '@/lib/creditLedger';
 
 export async function POST(req: NextRequest) {
     try {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { listReplayablePaymentEvents, processPaymentEvent } from '@/lib/paymentEvents';
+
+const MAX_REPLAY_BATCH = 50;
+
+// Re-process failed DodoPayments events, and events left 'processing' by a
+// crashed attempt (see STALE_PROCESSING_MINUTES).
+// Body: { eventId } to replay one event, or {} to replay all of them.
+export async function POST(req: NextRequest) {
+    try {
+        if (!(await isAdminRequest())) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const body = await req.json().catch(() => ({}));
+        const { eventId } = body as { eventId?: string };
+
+        let eventIds: string[];
+        if (eventId) {
+            eventIds = [eventId];
+        } else {
+            eventIds = await listReplayablePaymentEvents(MAX_REPLAY_BATCH);
+        }
+
+        const results = [];
+        for (const id of eventIds) {
+            const result = await processPaymentEvent(id, 'replay');
+            console.log(`[PaymentReplay] Event ${id}: ${result.skipped ? 'skipped, ' : ''}${result.status}`);
+            results.push({ eventId: id, ...result });
+        }
+
+        return NextResponse.json({ replayed: results.length, results });
+    } catch (e) {
+        console.error('[PaymentReplay] Error:', e);
+        return NextResponse.json({ error: e instanceof Error ? e.message : 'Replay failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { getStuckProviderTasks, type ProviderName } from '@/lib/providerTasks';
+
+const DEFAULT_STUCK_MINUTES = 15;
+const PROVIDERS: ProviderName[] = ['json2video', 'remotion-lambda', 'local', 'wavespeed'];
+
+// List provider calls that have been pending too long.
+// Query: ?minutes=15 (age threshold), ?provider=wavespeed, ?limit=100
+export async function GET(req: NextRequest) {
+    try {
+        if (!(await isAdminRequest())) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const params = req.nextUrl.searchParams;
+        const minutes = Number(params.get('minutes') || DEFAULT_STUCK_MINUTES);
+        const limit = Number(params.get('limit') || 100);
+        const provider = params.get('provider');
+
+        if (!Number.isFinite(minutes) || minutes < 0) {
+            return NextResponse.json({ error: 'minutes must be a non-negative number' }, { status: 400 });
+        }
+        if (provider && !PROVIDERS.includes(provider as ProviderName)) {
+            return NextResponse.json({ error: `provider must be one of: ${PROVIDERS.join(', ')}` }, { status: 400 });
+        }
+
+        const tasks = await getStuckProviderTasks({
+            olderThanMinutes: minutes,
+            provider: (provider as ProviderName) || undefined,
+            limit: Math.min(Math.max(1, limit || 100), 500)
+        });
+
+        return NextResponse.json({ count: tasks.length, tasks });
+    } catch (e) {
+        console.error('[ProviderTasks] Stuck tasks error:', e);
+        return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed to load provider tasks' }, { status: 500 });
+    }
+}
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase-admin';
 import { v4 as uuidv4 } from 'uuid';
+import { VIDEO_ASSET_MIME_TYPES, getVideoExtension } from '@/lib/clipAssets';
 
-// Max file size: 10MB
+// Max file size: 10MB for images, 100MB for video clips
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_VIDEO_FILE_SIZE = 100 * 1024 * 1024;
 const ALLOWED_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
 
 export async function POST(request: NextRequest) {
@@ -21,17 +23,18 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate file type
-        if (!ALLOWED_TYPES.includes(file.type)) {
+        const isVideo = VIDEO_ASSET_MIME_TYPES.includes(file.type);
+        if (!ALLOWED_TYPES.includes(file.type) && !isVideo) {
             return NextResponse.json(
-                { error: 'Invalid file type. Allowed: JPG, PNG, WebP' },
+                { error: 'Invalid file type. Allowed: JPG, PNG, WebP, MP4, WebM, MOV' },
                 { status: 400 }
             );
         }
 
         // Validate file size
-        if (file.size > MAX_FILE_SIZE) {
+        if (file.size > (isVideo ? MAX_VIDEO_FILE_SIZE : MAX_FILE_SIZE)) {
             return NextResponse.json(
-                { error: 'File too large. Maximum size is 10MB' },
+                { error: `File too large. Maximum size is ${isVideo ? '100MB' : '10MB'}` },
                 { status: 400 }
             );
         }
@@ -39,7 +42,10 @@ export async function POST(request: NextRequest) {
         const supabase = getSupabaseAdmin();
 
         // Generate unique filename
-        const ext = file.type.split('/')[1] === 'jpeg' ? 'jpg' : file.type.split('/')[1];
+        // Clips keep a video extension so renders can tell them apart (lib/clipAssets.ts)
+        const ext = isVideo
+            ? getVideoExtension(file.type)
+            : file.type.split('/')[1] === 'jpeg' ? 'jpg' : file.type.split('/')[1];
         const fileName = `user-assets/${userId}/${uuidv4()}.${ext}`;
 
         // Convert File to Buffer
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { validateCustomCaptionStyle, CustomCaptionStyleInput } from '@/lib/captionStyles';
+import { deleteCaptionStyle, toCaptionStyle, updateCaptionStyle } from '@/lib/customCaptionStyles';
+
+async function getUser() {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) return null;
+
+    const currentUserData = await currentUser();
+    return getOrCreateUser(
+        clerkId,
+        currentUserData?.emailAddresses[0]?.emailAddress || '',
+        currentUserData?.firstName || undefined,
+        currentUserData?.imageUrl || undefined
+    );
+}
+
+/**
+ * Update a custom caption style: { name?, definition? }
+ * Jobs already queued keep the style they were created with.
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { name, definition } = await request.json();
+        const updates: { name?: string; definition?: CustomCaptionStyleInput } = {};
+
+        if (name !== undefined) {
+            if (typeof name !== 'string' || !name.trim() || name.length > 60) {
+                return NextResponse.json({ error: 'name must be 1-60 characters' }, { status: 400 });
+            }
+            updates.name = name.trim();
+        }
+        if (definition !== undefined) {
+            const validationError = validateCustomCaptionStyle(definition);
+            if (validationError) {
+                return NextResponse.json({ error: validationError }, { status: 400 });
+            }
+            updates.definition = definition as CustomCaptionStyleInput;
+        }
+
+        const row = await updateCaptionStyle(user.id, id, updates);
+        if (!row) {
+            return NextResponse.json({ error: 'Caption style not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ style: { ...row, style: toCaptionStyle(row) } });
+    } catch (error: unknown) {
+        console.error('Caption style update error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to update caption style';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const deleted = await deleteCaptionStyle(user.id, id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Caption style not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: unknown) {
+        console.error('Caption style delete error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to delete caption style';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getOrCreateUser } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+
+// Max font size: 5MB
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+// Formats that ffmpeg/libass, Chromium (Remotion) and JSON2Video all read
+const ALLOWED_EXTENSIONS: Record<string, string> = {
+    ttf: 'font/ttf',
+    otf: 'font/otf'
+};
+
+/**
+ * Read the family name (name ID 1) from a TTF/OTF 'name' table.
+ * libass matches fonts by this internal name, so the style must use it.
+ */
+function readFontFamily(buffer: Buffer): string | null {
+    try {
+        const numTables = buffer.readUInt16BE(4);
+        for (let i = 0; i < numTables; i++) {
+            const record = 12 + i * 16;
+            if (buffer.toString('latin1', record, record + 4) !== 'name') continue;
+
+            const tableOffset = buffer.readUInt32BE(record + 8);
+            const count = buffer.readUInt16BE(tableOffset + 2);
+            const stringOffset = tableOffset + buffer.readUInt16BE(tableOffset + 4);
+            let macName: string | null = null;
+
+            for (let j = 0; j < count; j++) {
+                const entry = tableOffset + 6 + j * 12;
+                const platformId = buffer.readUInt16BE(entry);
+                const nameId = buffer.readUInt16BE(entry + 6);
+                if (nameId !== 1) continue;
+
+                const length = buffer.readUInt16BE(entry + 8);
+                const start = stringOffset + buffer.readUInt16BE(entry + 10);
+                const raw = buffer.subarray(start, start + length);
+
+                if (platformId === 3 || platformId === 0) {
+                    // UTF-16BE
+                    const swapped = Buffer.from(raw);
+                    swapped.swap16();
+                    return swapped.toString('utf16le').trim() || null;
+                }
+                if (platformId === 1) {
+                    macName = raw.toString('latin1').trim();
+                }
+            }
+            return macName || null;
+        }
+    } catch (err) {
+        console.warn('Could not read font name table:', err);
+    }
+    return null;
+}
+
+/**
+ * Upload a brand font for custom caption styles.
+ * Returns the public URL and the font's family name to save with the style.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+
+        if (!file) {
+            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+
+        const ext = file.name.split('.').pop()?.toLowerCase() || '';
+        const contentType = ALLOWED_EXTENSIONS[ext];
+        if (!contentType) {
+            return NextResponse.json({ error: 'Invalid font type. Allowed: TTF, OTF' }, { status: 400 });
+        }
+
+        if (file.size > MAX_FILE_SIZE) {
+            return NextResponse.json({ error: 'Font too large. Maximum size is 5MB' }, { status: 400 });
+        }
+
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const family = readFontFamily(buffer);
+        if (!family) {
+            return NextResponse.json({ error: 'Could not read the font family name from this file' }, { status: 400 });
+        }
+
+        const supabase = getSupabaseAdmin();
+        const fileName = `fonts/${user.id}/${uuidv4()}.${ext}`;
+
+        const { error: uploadError } = await supabase.storage
+            .from('videos')
+            .upload(fileName, buffer, { contentType, upsert: false });
+
+        if (uploadError) {
+            console.error('Font upload error:', uploadError);
+            return NextResponse.json({ error: `Upload failed: ${uploadError.message}` }, { status: 500 });
+        }
+
+        const { data: urlData } = supabase.storage.from('videos').getPublicUrl(fileName);
+
+        console.log(`✅ Font uploaded: ${urlData.publicUrl}`);
+
+        return NextResponse.json({ url: urlData.publicUrl, family });
+    } catch (error: unknown) {
+        console.error('Font upload error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to upload font';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
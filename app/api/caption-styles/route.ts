@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { validateCustomCaptionStyle, CustomCaptionStyleInput } from '@/lib/captionStyles';
+import { createCaptionStyle, listCaptionStyles, toCaptionStyle } from '@/lib/customCaptionStyles';
+
+const MAX_STYLES_PER_USER = 50;
+
+async function getUser() {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) return null;
+
+    const currentUserData = await currentUser();
+    return getOrCreateUser(
+        clerkId,
+        currentUserData?.emailAddresses[0]?.emailAddress || '',
+        currentUserData?.firstName || undefined,
+        currentUserData?.imageUrl || undefined
+    );
+}
+
+/**
+ * List the user's custom caption styles (resolved, ready to preview)
+ */
+export async function GET() {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const rows = await listCaptionStyles(user.id);
+        return NextResponse.json({
+            styles: rows.map(row => ({ ...row, style: toCaptionStyle(row) }))
+        });
+    } catch (error: unknown) {
+        console.error('Caption styles list error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to list caption styles';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Save a custom caption style: { name, definition }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { name, definition } = await request.json();
+
+        if (typeof name !== 'string' || !name.trim() || name.length > 60) {
+            return NextResponse.json({ error: 'name is required (max 60 characters)' }, { status: 400 });
+        }
+        const validationError = validateCustomCaptionStyle(definition);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const existing = await listCaptionStyles(user.id);
+        if (existing.length >= MAX_STYLES_PER_USER) {
+            return NextResponse.json({ error: `You can save up to ${MAX_STYLES_PER_USER} caption styles` }, { status: 400 });
+        }
+
+        const row = await createCaptionStyle(user.id, name.trim(), definition as CustomCaptionStyleInput);
+        if (!row) {
+            return NextResponse.json({ error: 'Failed to save caption style' }, { status: 500 });
+        }
+
+        console.log(`✅ Caption style saved: ${row.id} (${row.name})`);
+        return NextResponse.json({ style: { ...row, style: toCaptionStyle(row) } });
+    } catch (error: unknown) {
+        console.error('Caption style create error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to save caption style';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
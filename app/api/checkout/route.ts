@@ -66,7 +66,6 @@ export async function POST(request: NextRequest) {
                 user_id: user.id,
                 clerk_id: clerkId,
                 package_id: packageId,
-                credits: String(selectedPackage.credits + selectedPackage.bonus),
             }
         });
 
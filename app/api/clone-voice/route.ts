@@ -5,6 +5,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { getOrCreateUser } from '@/lib/supabase';
 import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { describeRejectedSample, screenVoiceSample, VoiceSampleReport } from '@/lib/voiceAnalysis';
+import { storeCleanedSample } from '@/lib/voiceLibrary';
 
 export const maxDuration = 300;
 
@@ -13,7 +15,10 @@ const FAL_KEY = process.env.FAL_KEY;
 /**
  * Voice cloning route using Qwen (Replacing MiniMax).
  * 
- * Creates a speaker embedding from audio and saves to DB.
+ * Creates a speaker embedding from audio and saves to DB. New samples are
+ * quality-checked first (lib/voiceAnalysis) and rejected with 422 and the
+ * analysis report if they would make a poor clone, then cleaned
+ * (lib/voicePreprocessing) and cloned from the cleaned copy.
  */
 export async function POST(request: NextRequest) {
     try {
@@ -71,6 +76,35 @@ export async function POST(request: NextRequest) {
             originalName = audioFile.name;
         }
 
+        // 1b. Quality-check new samples. Re-cloning one of the user's stored
+        // samples skips this so existing voices keep working.
+        let sampleReport: VoiceSampleReport | null = null;
+        let isStoredSample = false;
+        let cleanedSampleUrl: string | null = null;
+        if (audioUrlForCloning) {
+            const { data: existing } = await supabaseAdmin
+                .from('voices')
+                .select('id, cleaned_sample_url')
+                .eq('user_id', user.id)
+                .eq('voice_sample_url', audioUrlForCloning)
+                .limit(1);
+            isStoredSample = Boolean(existing && existing.length > 0);
+            cleanedSampleUrl = existing?.[0]?.cleaned_sample_url || null;
+        }
+        if (!isStoredSample) {
+            sampleReport = await screenVoiceSample(audioBuffer, originalName);
+            if (sampleReport && !sampleReport.canClone) {
+                return NextResponse.json({
+                    error: describeRejectedSample(sampleReport),
+                    code: 'VOICE_SAMPLE_REJECTED',
+                    report: sampleReport
+                }, { status: 422 });
+            }
+
+            // Trim, denoise and normalise; falls back to the original on failure
+            cleanedSampleUrl = await storeCleanedSample(user.id, { buffer: audioBuffer, fileName: originalName });
+        }
+
         // 2. Upload to FAL storage to get a public URL for Qwen (if not already a URL)
         // Even if we have a URL, uploading to Fal ensures it's accessible to Fal services
         console.log('📤 Uploading to FAL storage...');
@@ -82,8 +116,8 @@ export async function POST(request: NextRequest) {
         audioUrlForCloning = storageUrl;
 
         // 3. Call Qwen Voice Clone
-        console.log('🧬 Calling Qwen voice-clone API...');
-        const { embeddingUrl, fileName, fileSize } = await cloneVoiceWithQwen(audioUrlForCloning);
+        console.log(`🧬 Calling Qwen voice-clone API (${cleanedSampleUrl ? 'cleaned' : 'original'} sample)...`);
+        const { embeddingUrl, fileName, fileSize } = await cloneVoiceWithQwen(cleanedSampleUrl || audioUrlForCloning);
 
         console.log('✅ Qwen voice cloned:', embeddingUrl);
 
@@ -125,6 +159,8 @@ export async function POST(request: NextRequest) {
                 voice_id: customVoiceId,
                 voice_sample_url: supabaseUrl, // Backup URL
                 qwen_embedding_url: embeddingUrl,
+                cleaned_sample_url: cleanedSampleUrl,
+                embedding_source: cleanedSampleUrl ? 'cleaned' : 'original',
                 tts_provider: 'qwen', // Still setting it for clarity in DB even if unused in code
                 is_active: true,
                 name: 'Cloned Voice (Qwen)'
@@ -142,6 +178,7 @@ export async function POST(request: NextRequest) {
             previewUrl: storageUrl, // Use audio as preview
             supabaseUrl: supabaseUrl,
             savedVoice: newVoice, // Include the saved voice object for client use
+            sampleReport, // Non-blocking warnings for the client to show
             message: 'Voice cloned with Qwen.'
         });
 
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase, getOrCreateUser, getUserCredits, deductCredits } from '@/lib/supabase';
+import { supabase, getOrCreateUser, getUserCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { CREDIT_COSTS } from '@/lib/credits';
 
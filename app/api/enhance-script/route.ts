@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getOrCreateUser, hasEnoughCredits, deductCredits } from '@/lib/supabase';
+import { getOrCreateUser, hasEnoughCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { CREDIT_COSTS } from '@/lib/credits';
 
 const MANUS_API_URL = 'https://api.manus.ai';
@@ -1,697 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
-import { getSupabaseAdmin } from '@/lib/supabase-admin';
-import { addCredits } from '@/lib/supabase';
-import { convertFaceVideoToJson2VideoFormat, FaceSceneInput } from '@/lib/json2video';
-import { generateSceneTTS, cloneVoiceWithQwen, generateImage } from '@/lib/fal';
-import { getWavespeedApiKey, getJson2VideoApiKey } from '@/lib/config';
+import { runJobTick } from '@/lib/jobs/worker';
 
 // Timeout for serverless function
 export const maxDuration = 55;
 
-// Configuration
-const POLL_INTERVAL_MS = 4000;
-const MAX_POLL_TIME_MS = 45000; // 45 seconds max polling
-const INTERNAL_RETRY_DELAY_MS = 5000;
-
-const WAVESPEED_API_URL = 'https://api.wavespeed.ai/api/v3/wavespeed-ai/infinitetalk';
-
-function getAppBaseUrl(request: NextRequest): string {
-    const configured = process.env.NEXT_PUBLIC_APP_URL?.trim();
-    if (configured) {
-        return configured.replace(/\/$/, '');
-    }
-    return request.nextUrl.origin.replace(/\/$/, '');
-}
-
-function queueNextFaceProcess(request: NextRequest, jobId: string): void {
-    const baseUrl = getAppBaseUrl(request);
-    const url = `${baseUrl}/api/face-video/process`;
-
-    void fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ jobId }),
-        cache: 'no-store'
-    })
-        .then(() => {
-            console.log(`🔁 [AutoQueue] Triggered next face-process tick for job ${jobId}`);
-        })
-        .catch((err) => {
-            console.error(`❌ [AutoQueue] Failed to trigger next face-process tick for job ${jobId}:`, err);
-        });
-}
-
-interface SceneInput {
-    text: string;
-    type: 'face' | 'asset';
-    assetUrl?: string;
-}
-
-interface ProcessedScene {
-    index: number;
-    type: 'face' | 'asset';
-    clipUrl: string;
-    audioUrl?: string;
-    duration: number;
-    text: string;
-}
-
-interface PendingSceneState {
-    predictionId: string;
-    sceneIndex: number;
-    audioUrl: string;
-    duration: number;
-    text: string;
-    startedAt: number;
-}
-
-// NEW: Pending render state for async JSON2Video
-interface PendingRenderState {
-    projectId: string;
-    startedAt: number;
-}
-
-interface JobInputData {
-    scenes: SceneInput[];
-    faceImageUrl: string;
-    voiceId: string;  // Legacy - kept for backward compat
-    voiceSampleUrl?: string;  // New - for Chatterbox TTS
-    enableBackgroundMusic: boolean;
-    enableCaptions: boolean;
-    creditsCharged?: number;
-    pendingScene?: PendingSceneState | null;
-    pendingRender?: PendingRenderState | null;  // NEW
-}
-
-// Refund credits when a job fails
-async function refundCreditsForJob(jobId: string, userId: string, creditsCharged: number | undefined) {
-    if (!creditsCharged || creditsCharged <= 0) {
-        console.log(`[Refund] No credits to refund for job ${jobId}`);
-        return;
-    }
-    try {
-        const result = await addCredits(userId, creditsCharged, 'refund', `Refund for failed face video job`, {
-            jobId,
-            reason: 'job_failed'
-        });
-        if (result.success) {
-            console.log(`💰 [Refund] Refunded ${creditsCharged} credits to user ${userId} for job ${jobId}`);
-        } else {
-            console.error(`❌ [Refund] Failed to refund credits for job ${jobId}`);
-        }
-    } catch (err) {
-        console.error(`❌ [Refund] Error refunding credits for job ${jobId}:`, err);
-    }
-}
-
-// Start WaveSpeed
-async function startWaveSpeed(imageDataUrl: string, audioUrl: string): Promise<string> {
-    console.log(`🚀 Starting WaveSpeed...`);
-    const audioResponse = await axios.get(audioUrl, { responseType: 'arraybuffer', timeout: 15000 });
-    const audioBase64 = Buffer.from(audioResponse.data).toString('base64');
-
-    const response = await axios.post(WAVESPEED_API_URL, {
-        image: imageDataUrl,
-        audio: `data:audio/mpeg;base64,${audioBase64}`,
-        resolution: '480p',
-        seed: -1
-    }, {
-        headers: { 'Authorization': `Bearer ${getWavespeedApiKey()}`, 'Content-Type': 'application/json' },
-        timeout: 30000
-    });
-
-    const predictionId = (response.data.data || response.data).id;
-    console.log(`📋 WaveSpeed ID: ${predictionId}`);
-    return predictionId;
-}
-
-// Poll WaveSpeed
-async function pollWaveSpeed(predictionId: string): Promise<{ completed: boolean; videoUrl?: string; failed?: boolean }> {
-    console.log(`🔍 Polling WaveSpeed: ${predictionId}`);
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < MAX_POLL_TIME_MS) {
-        try {
-            const resp = await axios.get(
-                `https://api.wavespeed.ai/api/v3/predictions/${predictionId}/result?_t=${Date.now()}`,
-                { headers: { 'Authorization': `Bearer ${getWavespeedApiKey()}` }, timeout: 10000 }
-            );
-            const data = resp.data.data || resp.data;
-            console.log(`📊 Status: ${data.status}`);
-
-            if (data.status === 'completed' && (data.output?.video || data.outputs?.[0])) {
-                return { completed: true, videoUrl: data.output?.video || data.outputs[0] };
-            }
-            if (data.status === 'failed') return { completed: false, failed: true };
-
-            await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
-        } catch (e) {
-            console.log(`⚠️ Poll error:`, e instanceof Error ? e.message : e);
-            await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
-        }
-    }
-    return { completed: false };
-}
-
-// Start JSON2Video render (returns project ID immediately)
-async function startJson2VideoRender(
-    jobId: string,
-    processedScenes: ProcessedScene[],
-    enableCaptions: boolean,
-    enableBackgroundMusic: boolean
-): Promise<string> {
-    console.log(`🎬 Starting JSON2Video render...`);
-
-    const faceScenes: FaceSceneInput[] = processedScenes.map(ps => ({
-        url: ps.clipUrl,
-        duration: ps.duration,
-        text: ps.text,
-        sceneType: ps.type,
-        audioUrl: ps.audioUrl
-    }));
-
-    const moviePayload = convertFaceVideoToJson2VideoFormat({
-        scenes: faceScenes,
-        enableCaptions: enableCaptions ?? true,
-        captionStyle: 'bold-classic',
-        enableBackgroundMusic: enableBackgroundMusic ?? false,
-    });
-
-    // Pass Job ID for webhook to identify this job
-    moviePayload.id = jobId;
-
-    // Add webhook if available
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL;
-    if (appUrl) {
-        // Ensure "exports" exists
-        if (!moviePayload.exports) moviePayload.exports = [];
-        if (moviePayload.exports.length === 0) moviePayload.exports.push({ destinations: [] });
-
-        // Add webhook destination
-        moviePayload.exports[0].destinations = moviePayload.exports[0].destinations || [];
-        moviePayload.exports[0].destinations.push({
-            type: 'webhook',
-            endpoint: `${appUrl}/api/webhooks/json2video`
-        });
-        console.log(`🪝 Component Webhook added: ${appUrl}/api/webhooks/json2video`);
-    }
-
-    const response = await axios.post('https://api.json2video.com/v2/movies', moviePayload, {
-        headers: { 'x-api-key': getJson2VideoApiKey(), 'Content-Type': 'application/json' }
-    });
-
-    const projectId = response.data.project;
-    console.log(`📽️ JSON2Video project: ${projectId}`);
-    return projectId;
-}
-
-// Poll JSON2Video with detailed logging and fetch
-// Poll JSON2Video (Single check with timestamp cache busting)
-async function pollJson2Video(projectId: string): Promise<{ completed: boolean; videoUrl?: string; duration?: number; failed?: boolean; status?: string }> {
-    console.log(`\n🔍 === CHECKING JSON2VIDEO: ${projectId} ===`);
-
-    try {
-        const url = `https://api.json2video.com/v2/movies?project=${projectId}&_t=${Date.now()}`;
-        console.log(`📡 Requesting: ${url}`);
-
-        const resp = await fetch(url, {
-            headers: { 'x-api-key': getJson2VideoApiKey() },
-            cache: 'no-store'
-        });
-
-        if (!resp.ok) {
-            console.log(`⚠️ HTTP Error: ${resp.status}`);
-            return { completed: false, status: `HTTP ${resp.status}` };
-        }
-
-        const status = await resp.json();
-        const debugStatus = JSON.stringify(status).substring(0, 500);
-        console.log(`📊 Response: ${debugStatus}`);
-
-        if (status.movie && status.movie.status === 'done') {
-            console.log(`✅ RENDER DONE! Video URL: ${status.movie.url}`);
-            return { completed: true, videoUrl: status.movie.url, duration: status.movie.duration || 30 };
-        }
-
-        if (status.movie && status.movie.status === 'error') {
-            console.error(`❌ JSON2Video error:`, status.movie.message);
-            return { completed: false, failed: true, status: status.movie.message };
-        }
-
-        if (status.status === 'done' && status.movie) {
-            console.log(`✅ RENDER DONE! Video URL: ${status.movie}`);
-            return { completed: true, videoUrl: status.movie, duration: status.duration || 30 };
-        }
-        if (status.status === 'error') {
-            console.error(`❌ JSON2Video error:`, status.message || status);
-            return { completed: false, failed: true, status: status.message };
-        }
-
-        const debugInfo = status.status || `Keys:${Object.keys(status).join(',')}`;
-        return { completed: false, status: `[${projectId.substring(0, 6)}] ${debugInfo}` };
-
-    } catch (e) {
-        console.error(`⚠️ Poll error:`, e instanceof Error ? e.message : e);
-        return { completed: false, status: 'connection error' };
-    }
-}
-
-
-// Upload to Supabase
-async function uploadToSupabase(videoUrl: string, fileName: string): Promise<string> {
-    try {
-        // Need to use admin client here too? 
-        // Actually, for storage upload, if bucket is public/authenticated, logic is same.
-        // But let's use the admin client from getSupabaseAdmin() if possible, but uploaded buffer needs supabase-js client
-        // We will stick to 'getSupabaseAdmin()' here to be safe and consistent.
-
-        let supabase;
-        try {
-            supabase = getSupabaseAdmin();
-        } catch (e) {
-            console.error("Storage upload auth failed", e);
-            return videoUrl;
-        }
-
-        const response = await axios.get(videoUrl, { responseType: 'arraybuffer', timeout: 60000 });
-        const { error } = await supabase.storage.from('videos').upload(`clips/${fileName}`, Buffer.from(response.data), {
-            contentType: 'video/mp4', upsert: true
-        });
-        if (error) return videoUrl;
-        return supabase.storage.from('videos').getPublicUrl(`clips/${fileName}`).data.publicUrl;
-    } catch {
-        return videoUrl;
-    }
-}
-
-// Prepare face image
-async function prepareFaceImage(url: string): Promise<string> {
-    if (url.startsWith('data:')) return url;
-    const resp = await axios.get(url, { responseType: 'arraybuffer', timeout: 15000 });
-    return `data:${resp.headers['content-type'] || 'image/jpeg'};base64,${Buffer.from(resp.data).toString('base64')}`;
-}
-
+// Runs one queued tick for a face job. The job queue worker drains jobs
+// on its own; this lets the dashboard poller advance its job sooner.
 export async function POST(request: NextRequest) {
-    let jobId: string | null = null;
-    let userId: string | null = null;
-    let creditsCharged: number | undefined;
-
     try {
-        const { jobId: reqJobId } = await request.json();
-        jobId = reqJobId;
+        const { jobId } = await request.json();
         if (!jobId) return NextResponse.json({ error: 'Missing job ID' }, { status: 400 });
 
-        console.log(`\n========== JOB: ${jobId} ==========`);
-
-        let supabase;
-        try {
-            supabase = getSupabaseAdmin();
-        } catch (e) {
-            console.error('Init Error:', e);
-            const msg = e instanceof Error ? e.message : 'Unknown config error';
-            return NextResponse.json({ error: 'Configuration Error', details: msg }, { status: 500 });
-        }
-
-        // Fetch job
-        const { data: job, error: fetchErr } = await supabase.from('video_jobs').select('*').eq('id', jobId).single();
-        if (fetchErr || !job) return NextResponse.json({ error: 'Job not found' }, { status: 404 });
-
-        // CRITICAL: Only process face/faceless jobs, NOT typography
-        // Typography jobs have different input structure and use different render pipeline
-        if (job.job_type === 'typography') {
-            console.log(`⚠️ Skipping typography job ${jobId} - wrong endpoint`);
-            return NextResponse.json({
-                skipped: true,
-                reason: 'Typography jobs use /api/render-typography, not face-video/process'
-            });
-        }
-
-        if (job.status === 'completed' || job.status === 'failed') {
-            return NextResponse.json({ message: `Already ${job.status}`, status: job.status });
-        }
-
-        // Lock check - use timestamp-based stale detection
-        const lockAge = Date.now() - new Date(job.updated_at).getTime();
-        if (job.is_processing && lockAge < 60000) { // 60 second lock (more aggressive)
-            console.log(`🔒 Locked (${Math.round(lockAge / 1000)}s ago), skipping`);
-            return NextResponse.json({ skipped: true, lockAge: Math.round(lockAge / 1000) });
-        }
-
-        // Acquire lock unconditionally (stale locks will be overwritten)
-        console.log(`🔓 Acquiring lock for job ${jobId}...`);
-        await supabase.from('video_jobs')
-            .update({ is_processing: true, updated_at: new Date().toISOString() })
-            .eq('id', jobId);
-
-        // Re-fetch to get latest state
-        const { data: freshJob } = await supabase.from('video_jobs').select('*').eq('id', jobId).single();
-        if (!freshJob) return NextResponse.json({ error: 'Job gone' }, { status: 404 });
-
-
-        const inputData = freshJob.input_data as JobInputData;
-        const { scenes, faceImageUrl, voiceId, voiceSampleUrl, enableBackgroundMusic, enableCaptions, pendingScene, pendingRender } = inputData;
-        creditsCharged = inputData.creditsCharged;
-        const totalScenes = scenes.length;
-        const currentIndex = freshJob.current_scene_index || 0;
-        let processedScenes: ProcessedScene[] = freshJob.processed_scenes || [];
-
-        console.log(`State: ${currentIndex}/${totalScenes}, pending: ${pendingScene?.predictionId || 'none'}, render: ${pendingRender?.projectId || 'none'}`);
-
-        // ======== FETCH VOICE EMBEDDING ========
-        // Look up qwen_embedding_url from voices table (instead of using raw voiceSampleUrl)
-        userId = freshJob.user_uuid || freshJob.user_id;
-        const { data: voiceData } = await supabase
-            .from('voices')
-            .select('qwen_embedding_url, voice_sample_url')
-            .eq('user_id', userId)
-            .eq('is_active', true)
-            .single();
-
-        let embeddingUrl = voiceData?.qwen_embedding_url;
-
-        // JIT Cloning: If we have a sample URL but no Qwen embedding, clone it now
-        if (!embeddingUrl && voiceData?.voice_sample_url) {
-            console.log('⚠️ No Qwen embedding found, triggering JIT cloning...');
-            try {
-                const { embeddingUrl: newUrl } = await cloneVoiceWithQwen(voiceData.voice_sample_url);
-                embeddingUrl = newUrl;
-                // Save the embedding to DB so we don't clone again
-                await supabase.from('voices')
-                    .update({ qwen_embedding_url: embeddingUrl })
-                    .eq('user_id', userId)
-                    .eq('is_active', true);
-                console.log('✅ JIT Cloning successful:', embeddingUrl);
-            } catch (cloneError) {
-                console.error('❌ JIT Cloning failed:', cloneError);
-            }
-        }
-
-        // Fail early if no voice
-        if (!embeddingUrl) {
-            throw new Error('No cloned voice found. Please upload a voice sample first.');
-        }
-
-        console.log(`🎤 Using voice embedding: ${embeddingUrl.substring(0, 60)}...`);
-
-        // ======== CASE A: Pending render - poll JSON2Video ========
-        if (pendingRender) {
-            console.log(`\n📽️ CHECKING PENDING RENDER: ${pendingRender.projectId}`);
-
-            // Throttle provider polling to avoid tight recursive loops.
-            await new Promise(resolve => setTimeout(resolve, INTERNAL_RETRY_DELAY_MS));
-            const result = await pollJson2Video(pendingRender.projectId);
-
-            if (result.completed && result.videoUrl) {
-                console.log(`✅ RENDER COMPLETE: ${result.videoUrl}`);
-
-                const clipAssets = processedScenes.filter(ps => ps.type === 'face').map(ps => ({ url: ps.clipUrl, source: 'wavespeed' }));
-
-                await supabase.from('video_jobs').update({
-                    status: 'completed',
-                    progress: 100,
-                    progress_message: 'Video ready!',
-                    result_data: { videoUrl: result.videoUrl, duration: result.duration, clipAssets },
-                    input_data: { ...inputData, pendingRender: null },
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-
-                // Save to permanent 'videos' table
-                try {
-                    // Extract script from processed scenes
-                    const script = processedScenes.map(ps => ps.text).join('\n\n');
-                    // Get thumbnail from first face scene
-                    const thumbnailUrl = processedScenes.find(ps => ps.type === 'face')?.clipUrl || null;
-                    // Auto-generate topic from first 5 words of script
-                    const topicWords = script.trim().split(/\s+/).slice(0, 5);
-                    const topic = topicWords.join(' ') + (topicWords.length >= 5 ? '...' : '');
-
-                    const { data: videoData, error: videoError } = await supabase.from('videos').insert({
-                        user_id: job.user_uuid || job.user_id,
-                        video_url: result.videoUrl,
-                        script: script,
-                        mode: 'face',
-                        topic: topic,
-                        duration: Math.round(result.duration || 0), // Convert to integer for DB
-                        has_captions: inputData.enableCaptions || false,
-                        has_music: inputData.enableBackgroundMusic || false,
-                        assets: clipAssets,
-                        thumbnail_url: thumbnailUrl
-                    }).select();
-
-                    if (videoError) {
-                        console.error('❌ Failed to save face video to history:', videoError.message, videoError.code, videoError.details);
-                    } else {
-                        console.log('✅ Face video saved to history:', videoData);
-                    }
-                } catch (saveErr) {
-                    console.error('❌ Exception saving face video to history:', saveErr);
-                }
-
-                return NextResponse.json({ success: true, completed: true, videoUrl: result.videoUrl });
-            }
-
-            if (result.failed || Date.now() - pendingRender.startedAt > 1200000) { // 20 mins timeout
-                console.log(`❌ Render failed or timed out`);
-                await supabase.from('video_jobs').update({
-                    input_data: { ...inputData, pendingRender: null },
-                    progress_message: `Render failed: ${result.status || 'timeout'}`,
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-                queueNextFaceProcess(request, jobId);
-                return NextResponse.json({ retry: true });
-            }
-
-            // Still rendering
-            const statusMsg = result.status ? `Rendering: ${result.status}` : 'Rendering final video...';
-            // Only update DB if message changed (to save writes)
-            if (freshJob.progress_message !== statusMsg) {
-                await supabase.from('video_jobs').update({
-                    progress_message: statusMsg,
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-            } else {
-                // But always release lock!
-                await supabase.from('video_jobs').update({
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-            }
-
-            queueNextFaceProcess(request, jobId);
-            return NextResponse.json({ stillRendering: true, status: result.status });
-        }
-
-        // ======== CASE B: Pending scene - poll WaveSpeed ========
-        if (pendingScene && pendingScene.sceneIndex === currentIndex) {
-            console.log(`\n🔍 CHECKING SCENE ${currentIndex + 1}: ${pendingScene.predictionId}`);
-
-            const result = await pollWaveSpeed(pendingScene.predictionId);
-
-            if (result.completed && result.videoUrl) {
-                console.log(`✅ SCENE ${currentIndex + 1} DONE`);
-                const clipUrl = await uploadToSupabase(result.videoUrl, `clip_${jobId}_${currentIndex}.mp4`);
-                processedScenes.push({
-                    index: currentIndex, type: 'face', clipUrl,
-                    duration: pendingScene.duration, text: pendingScene.text
-                });
-
-                await supabase.from('video_jobs').update({
-                    current_scene_index: currentIndex + 1,
-                    processed_scenes: processedScenes,
-                    input_data: { ...inputData, pendingScene: null },
-                    progress: Math.floor(10 + ((currentIndex + 1) / totalScenes) * 70),
-                    progress_message: `Scene ${currentIndex + 1}/${totalScenes} done`,
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-
-                queueNextFaceProcess(request, jobId);
-                return NextResponse.json({ sceneCompleted: currentIndex + 1 });
-            }
-
-            if (result.failed || Date.now() - pendingScene.startedAt > 600000) {
-                await supabase.from('video_jobs').update({
-                    input_data: { ...inputData, pendingScene: null },
-                    progress_message: `Scene ${currentIndex + 1} failed, retrying...`,
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-                queueNextFaceProcess(request, jobId);
-                return NextResponse.json({ retry: true });
-            }
-
-            await supabase.from('video_jobs').update({
-                progress_message: `Generating scene ${currentIndex + 1}/${totalScenes}...`,
-                is_processing: false,
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-            queueNextFaceProcess(request, jobId);
-            return NextResponse.json({ stillProcessing: true });
-        }
-
-        // ======== CASE C: All scenes done - start render ========
-        if (currentIndex >= totalScenes) {
-            console.log(`\n📽️ STARTING FINAL RENDER`);
-
-            await supabase.from('video_jobs').update({
-                progress: 80,
-                progress_message: 'Starting final render...',
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-
-            const projectId = await startJson2VideoRender(jobId, processedScenes, enableCaptions, enableBackgroundMusic);
-
-            await supabase.from('video_jobs').update({
-                input_data: { ...inputData, pendingRender: { projectId, startedAt: Date.now() } },
-                progress: 85,
-                progress_message: 'Rendering final video...',
-                is_processing: false,
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-
-            queueNextFaceProcess(request, jobId);
-            return NextResponse.json({ renderStarted: true, projectId });
-        }
-
-        // ======== CASE D: Start new scene ========
-        console.log(`\n🆕 STARTING SCENE ${currentIndex + 1}/${totalScenes}`);
-
-        await supabase.from('video_jobs').update({
-            status: 'processing',
-            progress: Math.floor(10 + (currentIndex / totalScenes) * 70),
-            progress_message: `Starting scene ${currentIndex + 1}...`,
-            updated_at: new Date().toISOString()
-        }).eq('id', jobId);
-
-        const scene = scenes[currentIndex];
-        // Use the qwen_embedding_url fetched earlier (with JIT cloning fallback)
-        const { audioUrl, audioUrls, duration } = await generateSceneTTS(scene.text, embeddingUrl);
-
-        // ======== AUTO-SPLIT: If TTS produced multiple audio chunks for a face scene ========
-        // Qwen TTS has a ~15s output cap. Long text gets chunked into ~200-char segments,
-        // each producing a separate audio file. We need to split this single scene into
-        // multiple sub-scenes (alternating face/asset) so each WaveSpeed call gets short audio.
-        if (scene.type === 'face' && audioUrls && audioUrls.length > 1) {
-            console.log(`🔀 AUTO-SPLIT: Scene has ${audioUrls.length} audio chunks. Splitting into alternating face/asset sub-scenes...`);
-
-            await supabase.from('video_jobs').update({
-                progress_message: `Splitting long scene into ${audioUrls.length} sub-scenes...`,
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-
-            // Build new sub-scenes to replace the current scene in the scenes array
-            const subScenes: SceneInput[] = [];
-            // Estimate per-chunk duration
-            const perChunkDuration = duration / audioUrls.length;
-
-            // Split the text proportionally for display/logging
-            // (the audio is already split by Qwen, text is just for metadata)
-            const words = scene.text.split(/\s+/);
-            const wordsPerChunk = Math.ceil(words.length / audioUrls.length);
-
-            for (let k = 0; k < audioUrls.length; k++) {
-                const chunkWords = words.slice(k * wordsPerChunk, (k + 1) * wordsPerChunk);
-                const chunkText = chunkWords.join(' ');
-
-                if (k % 2 === 0) {
-                    // Face scene (odd sub-scenes: 1st, 3rd, 5th...)
-                    subScenes.push({ text: chunkText, type: 'face' });
-                } else {
-                    // Asset scene (even sub-scenes: 2nd, 4th, 6th...)
-                    // Generate an AI image for this asset scene
-                    let assetUrl = faceImageUrl; // Fallback to face image
-                    try {
-                        console.log(`  🎨 Generating AI image for sub-scene ${k + 1}...`);
-                        const imagePrompt = `Create a photorealistic, cinematic vertical image. Scene content: "${chunkText}". Requirements: Vertical 9:16 aspect ratio, photorealistic, high-quality, vibrant colors, no text or watermarks, professional broadcast quality.`;
-                        assetUrl = await generateImage(imagePrompt, '9:16');
-                        console.log(`  ✅ AI image generated for sub-scene ${k + 1}`);
-                    } catch (imgErr) {
-                        console.warn(`  ⚠️ AI image generation failed for sub-scene ${k + 1}, using face image fallback:`, imgErr);
-                    }
-                    subScenes.push({ text: chunkText, type: 'asset', assetUrl });
-                }
-            }
-
-            // Replace the current single scene with the expanded sub-scenes
-            const updatedScenes = [
-                ...scenes.slice(0, currentIndex),
-                ...subScenes,
-                ...scenes.slice(currentIndex + 1)
-            ];
-
-            console.log(`🔀 AUTO-SPLIT complete: ${scenes.length} scenes → ${updatedScenes.length} scenes`);
-
-            // Save the expanded scenes back to the job and restart processing from currentIndex
-            await supabase.from('video_jobs').update({
-                input_data: { ...inputData, scenes: updatedScenes },
-                progress_message: `Split into ${updatedScenes.length} scenes. Processing...`,
-                is_processing: false,
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-
-            // Queue next tick to process the first sub-scene
-            queueNextFaceProcess(request, jobId);
-            return NextResponse.json({ autoSplit: true, newSceneCount: updatedScenes.length });
-        }
-
-        if (scene.type === 'face') {
-            const imageDataUrl = await prepareFaceImage(faceImageUrl);
-            const predictionId = await startWaveSpeed(imageDataUrl, audioUrl);
-
-            await supabase.from('video_jobs').update({
-                input_data: { ...inputData, pendingScene: { predictionId, sceneIndex: currentIndex, audioUrl, duration, text: scene.text, startedAt: Date.now() } },
-                progress_message: `Generating scene ${currentIndex + 1}/${totalScenes}...`,
-                is_processing: false,
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-
-            queueNextFaceProcess(request, jobId);
-            return NextResponse.json({ sceneStarted: currentIndex + 1 });
-        } else {
-            processedScenes.push({
-                index: currentIndex, type: scene.type,
-                clipUrl: scene.assetUrl || faceImageUrl,
-                audioUrl, duration, text: scene.text
-            });
-
-            await supabase.from('video_jobs').update({
-                current_scene_index: currentIndex + 1,
-                processed_scenes: processedScenes,
-                progress: Math.floor(10 + ((currentIndex + 1) / totalScenes) * 70),
-                progress_message: `Scene ${currentIndex + 1}/${totalScenes} done`,
-                is_processing: false,
-                updated_at: new Date().toISOString()
-            }).eq('id', jobId);
-
-            queueNextFaceProcess(request, jobId);
-            return NextResponse.json({ sceneCompleted: currentIndex + 1 });
-        }
-
+        const result = await runJobTick(jobId, 'face', 'http:face-video/process');
+        return NextResponse.json(result.body, { status: result.httpStatus ?? 200 });
     } catch (error) {
         console.error(`❌ ERROR:`, error);
-        if (jobId) {
-            let supabase;
-            try {
-                supabase = getSupabaseAdmin();
-                await supabase.from('video_jobs').update({
-                    status: 'failed',
-                    error: error instanceof Error ? error.message : 'Unknown',
-                    progress_message: 'Failed',
-                    is_processing: false,
-                    updated_at: new Date().toISOString()
-                }).eq('id', jobId);
-            } catch (e2) {
-                console.error("Failed to update job status to failed", e2);
-            }
-            // Refund credits when job fails
-            if (userId) {
-                await refundCreditsForJob(jobId, userId, creditsCharged);
-            }
-        }
         return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown' }, { status: 500 });
     }
 }
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase, getOrCreateUser, hasEnoughCredits, deductCredits } from '@/lib/supabase';
+import { supabase, getOrCreateUser, hasEnoughCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { estimateTotalCredits, CREDIT_COSTS } from '@/lib/credits';
+import { enqueueJob } from '@/lib/jobs/queue';
 
 interface SceneInput {
     text: string;
@@ -90,6 +92,7 @@ export async function POST(request: NextRequest) {
             .from('video_jobs')
             .insert({
                 user_id: user.id, // Use authenticated user ID
+                job_type: 'face',
                 status: 'pending',
                 input_data: {
                     scenes,
@@ -118,15 +121,19 @@ export async function POST(request: NextRequest) {
 
         console.log(`✅ Job created: ${job.id}`);
 
-        // Trigger processing asynchronously (fire and forget)
-        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
-        fetch(`${baseUrl}/api/face-video/process`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ jobId: job.id })
-        }).catch(err => {
-            console.log('Process trigger sent (async):', err ? 'with warning' : 'ok');
-        });
+        // Hand the job to the queue; the worker picks it up from here
+        if (!(await enqueueJob(job.id, 'face'))) {
+            await supabase.from('video_jobs').update({
+                status: 'failed',
+                error: 'Failed to queue job',
+                progress_message: 'Failed',
+                updated_at: new Date().toISOString()
+            }).eq('id', job.id);
+            return NextResponse.json(
+                { error: 'Failed to queue video job' },
+                { status: 500 }
+            );
+        }
 
         // Return immediately with job ID
         return NextResponse.json({
@@ -43,12 +43,18 @@ export async function GET(
         // Extract scene progress for checklist UI
         const inputData = job.input_data as {
             scenes?: unknown[];
-            pendingRender?: { projectId: string } | null;
+            pendingRender?: { renderId: string } | null;
+            pendingScenes?: { sceneIndex: number }[];
+            pendingScene?: { sceneIndex: number } | null;
         } | null;
         const totalScenes = inputData?.scenes?.length || 0;
         const currentSceneIndex = job.current_scene_index || 0;
         const processedScenes = job.processed_scenes || [];
         const isRendering = inputData?.pendingRender !== null && inputData?.pendingRender !== undefined;
+        // Scenes finish out of order when generated in parallel
+        const completedScenes = processedScenes.map((scene: { index: number }) => scene.index);
+        const activeScenes = (inputData?.pendingScenes || (inputData?.pendingScene ? [inputData.pendingScene] : []))
+            .map(pending => pending.sceneIndex);
 
         // Return job status and result
         return NextResponse.json({
@@ -64,6 +70,8 @@ export async function GET(
             totalScenes,
             currentSceneIndex,
             processedScenesCount: processedScenes.length,
+            completedScenes,
+            activeScenes,
             isRendering
         });
 
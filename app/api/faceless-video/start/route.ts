@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase, getOrCreateUser, hasEnoughCredits, deductCredits } from '@/lib/supabase';
+import { supabase, getOrCreateUser, hasEnoughCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { estimateTotalCredits } from '@/lib/credits';
+import { enqueueJob } from '@/lib/jobs/queue';
+import { isCustomCaptionStyleId, DEFAULT_CAPTION_STYLE } from '@/lib/captionStyles';
+import { resolveCaptionStyle } from '@/lib/customCaptionStyles';
+import { validateSceneVoiceSettings, SceneVoiceSettings } from '@/lib/sceneVoice';
 
 interface SceneTiming {
     text: string;
@@ -15,7 +20,7 @@ interface WordTiming {
     endTime: number;
 }
 
-interface FacelessSceneInput {
+interface FacelessSceneInput extends SceneVoiceSettings {
     text: string;
     assetUrl: string;
     assetType?: 'image' | 'video';
@@ -59,6 +64,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        for (let i = 0; i < scenes.length; i++) {
+            const sceneError = validateSceneVoiceSettings(scenes[i]);
+            if (sceneError) {
+                return NextResponse.json({ error: `Scene ${i + 1}: ${sceneError}` }, { status: 400 });
+            }
+        }
+
         // 1. Get user and check credits
         const currentUserData = await currentUser();
         const user = await getOrCreateUser(
@@ -72,6 +84,15 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'User not found' }, { status: 404 });
         }
 
+        // Custom styles are snapshotted on the job (see caption_styles_migration.sql)
+        const resolvedCaptionStyle = await resolveCaptionStyle(user.id, captionStyle);
+        if (!resolvedCaptionStyle) {
+            return NextResponse.json(
+                { error: `Unknown caption style: ${captionStyle}` },
+                { status: 400 }
+            );
+        }
+
         // Calculate cost based on script length (audio gen) + fixed render cost
         const scriptCharCount = scenes.reduce((acc, scene) => acc + (scene.text?.length || 0), 0);
         const cost = estimateTotalCredits({
@@ -99,13 +120,15 @@ export async function POST(request: NextRequest) {
             .from('video_jobs')
             .insert({
                 user_id: user.id, // Use authenticated user ID
+                job_type: 'faceless',
                 status: 'pending',
                 input_data: {
                     jobType: 'faceless', // Store job type in input_data
                     scenes,
                     voiceId,
                     aspectRatio,
-                    captionStyle: captionStyle ?? 'bold-classic',
+                    captionStyle: captionStyle ?? DEFAULT_CAPTION_STYLE,
+                    captionStyleDefinition: isCustomCaptionStyleId(captionStyle) ? resolvedCaptionStyle : undefined,
                     enableBackgroundMusic: enableBackgroundMusic ?? false,
                     enableCaptions: enableCaptions ?? true,
                     backgroundMusicUrl,
@@ -130,15 +153,19 @@ export async function POST(request: NextRequest) {
 
         console.log(`✅ Faceless job created: ${job.id}`);
 
-        // Trigger processing asynchronously (fire and forget)
-        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
-        fetch(`${baseUrl}/api/faceless-video/process`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ jobId: job.id })
-        }).catch(err => {
-            console.log('Faceless process trigger sent (async):', err ? 'with warning' : 'ok');
-        });
+        // Hand the job to the queue; the worker picks it up from here
+        if (!(await enqueueJob(job.id, 'faceless'))) {
+            await supabase.from('video_jobs').update({
+                status: 'failed',
+                error: 'Failed to queue job',
+                progress_message: 'Failed',
+                updated_at: new Date().toISOString()
+            }).eq('id', job.id);
+            return NextResponse.json(
+                { error: 'Failed to queue video job' },
+                { status: 500 }
+            );
+        }
 
         // Return immediately with job ID
         return NextResponse.json({
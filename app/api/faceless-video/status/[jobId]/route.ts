@@ -42,6 +42,9 @@ export async function GET(
             currentSceneIndex: job.input_data?.currentSceneIndex,
             totalScenes: job.input_data?.scenes?.length,
             processedScenesCount: job.input_data?.processedScenes?.length,
+            // Scenes finish out of order when processed in parallel
+            completedScenes: (job.input_data?.processedScenes || []).map((scene: { index: number }) => scene.index),
+            activeScenes: job.input_data?.activeSceneIndexes || [],
             isRendering: !!job.input_data?.pendingRender
         };
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fal } from '@fal-ai/client';
-import { supabase, getOrCreateUser, getUserCredits, deductCredits } from '@/lib/supabase';
+import { getOrCreateUser, getUserCredits } from '@/lib/supabase';
+import { cachedImage } from '@/lib/generationCache';
+import { deductCredits } from '@/lib/creditLedger';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { CREDIT_COSTS } from '@/lib/credits';
 
@@ -14,6 +16,17 @@ interface Scene {
     keywords?: string[];
 }
 
+const SCENE_IMAGE_MODEL = 'fal-ai/nano-banana-pro';
+
+// Model inputs, which also make up the image's cache key (lib/generationCache.ts)
+const sceneImageInput = (prompt: string) => ({
+    prompt,
+    aspect_ratio: '9:16',
+    resolution: '2K',
+    output_format: 'png',
+    num_images: 1,
+});
+
 interface GeneratedImage {
     sceneIndex: number;
     imageUrl: string;
@@ -68,6 +81,7 @@ export async function POST(request: NextRequest) {
         console.log(`  💳 Total credits: ${totalCost}`);
 
         const generatedImages: GeneratedImage[] = [];
+        let cachedCount = 0;
 
         // Generate images for each scene
         for (let i = 0; i < scenes.length; i++) {
@@ -91,68 +105,38 @@ Requirements:
             console.log(`[Motion Images] Generating image ${i + 1}/${scenes.length}...`);
 
             try {
-                const result = await fal.subscribe('fal-ai/nano-banana-pro', {
-                    input: {
-                        prompt,
-                        aspect_ratio: '9:16',
-                        resolution: '2K',
-                        output_format: 'png',
-                        num_images: 1,
-                    },
-                    logs: false,
+                // Reuses the image when the same prompt was generated before
+                const { imageUrl, cached } = await cachedImage(SCENE_IMAGE_MODEL, sceneImageInput(prompt), async () => {
+                    const result = await fal.subscribe(SCENE_IMAGE_MODEL, {
+                        input: sceneImageInput(prompt),
+                        logs: false,
+                    });
+                    const url = result.data?.images?.[0]?.url;
+                    if (!url) throw new Error('No image URL from nano-banana-pro');
+                    return url;
                 });
 
-                const imageUrl = result.data?.images?.[0]?.url;
-
-                if (imageUrl) {
-                    // Upload to Supabase storage for persistence
-                    let finalUrl = imageUrl;
-                    try {
-                        const imageResponse = await fetch(imageUrl);
-                        const imageBuffer = await imageResponse.arrayBuffer();
-                        const buffer = Buffer.from(imageBuffer);
-
-                        const fileName = `motion-images/${dbUser.id}/${Date.now()}_scene_${i}.png`;
-
-                        const { error: uploadError } = await supabase.storage
-                            .from('videos')
-                            .upload(fileName, buffer, {
-                                contentType: 'image/png',
-                                upsert: true
-                            });
-
-                        if (!uploadError) {
-                            const { data } = supabase.storage.from('videos').getPublicUrl(fileName);
-                            finalUrl = data.publicUrl;
-                        }
-                    } catch (uploadErr) {
-                        console.warn(`[Motion Images] Failed to persist image ${i}:`, uploadErr);
-                        // Continue with temporary URL
-                    }
-
-                    generatedImages.push({
-                        sceneIndex: i,
-                        imageUrl: finalUrl,
-                    });
+                generatedImages.push({
+                    sceneIndex: i,
+                    imageUrl,
+                });
+                if (cached) cachedCount++;
 
-                    console.log(`  ✅ Scene ${i + 1} image generated`);
-                } else {
-                    console.error(`[Motion Images] No image generated for scene ${i}`);
-                }
+                console.log(`  ✅ Scene ${i + 1} image ${cached ? 'reused from cache' : 'generated'}`);
             } catch (genError) {
                 console.error(`[Motion Images] Failed to generate scene ${i}:`, genError);
                 // Continue with other scenes
             }
         }
 
-        // === DEDUCT CREDITS (only for successfully generated images) ===
-        const actualCost = generatedImages.length * CREDIT_COSTS.MOTION_SCENE_IMAGE;
+        // === DEDUCT CREDITS (only for images generated now, not cache hits) ===
+        const actualCost = (generatedImages.length - cachedCount) * CREDIT_COSTS.MOTION_SCENE_IMAGE;
         if (actualCost > 0) {
             const deductResult = await deductCredits(
                 dbUser.id,
                 actualCost,
                 'Motion Scene Image Generation',
-                { sceneCount: generatedImages.length, topic: topic.substring(0, 50) }
+                { sceneCount: generatedImages.length, cachedCount, topic: topic.substring(0, 50) }
             );
 
             if (!deductResult.success) {
@@ -166,6 +150,7 @@ Requirements:
             success: true,
             images: generatedImages,
             creditsUsed: actualCost,
+            cachedCount,
         });
 
     } catch (error: unknown) {
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getOrCreateUser, hasEnoughCredits, deductCredits, supabase, updateQwenEmbedding, createAuthenticatedClient } from '@/lib/supabase';
+import { getOrCreateUser, hasEnoughCredits, supabase, updateQwenEmbedding, createAuthenticatedClient } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { calculateAudioCredits } from '@/lib/credits';
 import { cloneVoiceWithQwen, generateSpeechWithQwen } from '@/lib/fal';
+import { cloneSampleUrl } from '@/lib/voicePreprocessing';
 
 
 
@@ -152,7 +154,7 @@ export async function POST(request: NextRequest) {
 
         const { data: voiceData } = await supabase
             .from('voices')
-            .select('id, qwen_embedding_url, voice_sample_url, ref_text')
+            .select('id, qwen_embedding_url, voice_sample_url, cleaned_sample_url, ref_text')
             .eq('user_id', user.id)
             .eq('is_active', true)
             .single();
@@ -166,7 +168,7 @@ export async function POST(request: NextRequest) {
             console.log('⚠️ No Qwen embedding found, but voice sample exists. Triggering JIT cloning...');
             try {
                 const embeddingUrl = await cloneVoiceWithQwenForUser(
-                    voiceData.voice_sample_url,
+                    cloneSampleUrl(voiceData),
                     user.id,
                     voiceData.id,
                     authClient,
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { drainJobQueue } from '@/lib/jobs/worker';
+
+// Allow several ticks per invocation
+export const maxDuration = 300;
+
+// Leave headroom under maxDuration for the last tick to settle its lease
+const DRAIN_BUDGET_MS = 240000;
+
+// Job queue worker entrypoint, invoked by cron (see vercel.json).
+// Authenticated with CRON_SECRET instead of a Clerk session.
+export async function GET(req: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        console.error('[JobWorker] CRON_SECRET is not configured');
+        return NextResponse.json({ error: 'Worker not configured' }, { status: 500 });
+    }
+
+    if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const workerId = `cron:${crypto.randomUUID()}`;
+        const result = await drainJobQueue(workerId, DRAIN_BUDGET_MS);
+        return NextResponse.json({ success: true, ...result });
+    } catch (e: any) {
+        console.error('[JobWorker] Drain failed:', e);
+        return NextResponse.json({ error: 'Worker failed', details: e.message }, { status: 500 });
+    }
+}
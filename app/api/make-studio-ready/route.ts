@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fal } from '@fal-ai/client';
-import { getOrCreateUser, getUserCredits, deductCredits } from '@/lib/supabase';
+import { getOrCreateUser, getUserCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { getSupabaseAdmin } from '@/lib/supabase-admin';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { CREDIT_COSTS } from '@/lib/credits';
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { deleteMusicTrack } from '@/lib/musicLibrary';
+
+async function getUser() {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) return null;
+
+    const currentUserData = await currentUser();
+    return getOrCreateUser(
+        clerkId,
+        currentUserData?.emailAddresses[0]?.emailAddress || '',
+        currentUserData?.firstName || undefined,
+        currentUserData?.imageUrl || undefined
+    );
+}
+
+/**
+ * Delete one of the user's uploaded tracks and its file
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const deleted = await deleteMusicTrack(user.id, id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: unknown) {
+        console.error('Music delete error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to delete track';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
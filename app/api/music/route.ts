@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { listMusicTracks, normalizeMusicTags, uploadMusicTrack, MUSIC_TITLE_MAX } from '@/lib/musicLibrary';
+
+// Max track size: 20MB
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+const MAX_TRACKS_PER_USER = 50;
+// Formats every render backend (ffmpeg, Chromium, JSON2Video) plays
+const ALLOWED_EXTENSIONS: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg'
+};
+
+async function getUser() {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) return null;
+
+    const currentUserData = await currentUser();
+    return getOrCreateUser(
+        clerkId,
+        currentUserData?.emailAddresses[0]?.emailAddress || '',
+        currentUserData?.firstName || undefined,
+        currentUserData?.imageUrl || undefined
+    );
+}
+
+// Comma-separated form field -> tags
+function parseTagField(value: FormDataEntryValue | null): string[] | null {
+    if (value === null) return [];
+    return normalizeMusicTags(String(value).split(','));
+}
+
+/**
+ * List the music catalogue plus the user's uploads (?mood=&genre= filters)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const tracks = await listMusicTracks(user.id, {
+            mood: searchParams.get('mood') || undefined,
+            genre: searchParams.get('genre') || undefined
+        });
+        return NextResponse.json({ tracks });
+    } catch (error: unknown) {
+        console.error('Music list error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to list music';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Upload a track: FormData file, title, optional artist, duration (seconds),
+ * bpm, and comma-separated moods and genres
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+        if (!file) {
+            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+
+        const ext = file.name.split('.').pop()?.toLowerCase() || '';
+        const contentType = ALLOWED_EXTENSIONS[ext];
+        if (!contentType) {
+            return NextResponse.json({ error: 'Invalid audio type. Allowed: MP3, M4A, WAV, OGG' }, { status: 400 });
+        }
+        if (file.size > MAX_FILE_SIZE) {
+            return NextResponse.json({ error: 'Track too large. Maximum size is 20MB' }, { status: 400 });
+        }
+
+        const title = String(formData.get('title') || file.name.replace(/\.[^.]+$/, '')).trim();
+        if (!title || title.length > MUSIC_TITLE_MAX) {
+            return NextResponse.json({ error: `title is required (max ${MUSIC_TITLE_MAX} characters)` }, { status: 400 });
+        }
+
+        const moods = parseTagField(formData.get('moods'));
+        const genres = parseTagField(formData.get('genres'));
+        if (!moods || !genres) {
+            return NextResponse.json({ error: 'Too many or too long mood/genre tags' }, { status: 400 });
+        }
+
+        const bpmField = formData.get('bpm');
+        const bpm = bpmField ? Number(bpmField) : undefined;
+        if (bpm !== undefined && (!Number.isInteger(bpm) || bpm < 20 || bpm > 300)) {
+            return NextResponse.json({ error: 'bpm must be a whole number between 20 and 300' }, { status: 400 });
+        }
+
+        const durationField = formData.get('duration');
+        const duration = durationField ? Number(durationField) : undefined;
+        if (duration !== undefined && (!Number.isFinite(duration) || duration <= 0)) {
+            return NextResponse.json({ error: 'duration must be a positive number of seconds' }, { status: 400 });
+        }
+
+        const existing = await listMusicTracks(user.id);
+        if (existing.filter(track => track.user_id === user.id).length >= MAX_TRACKS_PER_USER) {
+            return NextResponse.json({ error: `You can upload up to ${MAX_TRACKS_PER_USER} tracks` }, { status: 400 });
+        }
+
+        const artist = formData.get('artist');
+        const track = await uploadMusicTrack(
+            user.id,
+            { buffer: Buffer.from(await file.arrayBuffer()), fileName: file.name, contentType },
+            {
+                title,
+                artist: typeof artist === 'string' && artist.trim() ? artist.trim().slice(0, MUSIC_TITLE_MAX) : undefined,
+                duration,
+                bpm,
+                moods,
+                genres
+            }
+        );
+        if (!track) {
+            return NextResponse.json({ error: 'Failed to save track' }, { status: 500 });
+        }
+
+        return NextResponse.json({ track });
+    } catch (error: unknown) {
+        console.error('Music upload error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to upload music';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
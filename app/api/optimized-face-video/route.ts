@@ -5,7 +5,8 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import axios from 'axios';
-import { supabase, getOrCreateUser, getUserCredits, deductCredits } from '@/lib/supabase';
+import { supabase, getOrCreateUser, getUserCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { CREDIT_COSTS } from '@/lib/credits';
 
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getOrCreateUser, hasEnoughCredits, deductCredits, supabase, saveVoice } from '@/lib/supabase';
+import { getOrCreateUser, hasEnoughCredits, supabase, saveVoice } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { calculateAudioCredits } from '@/lib/credits';
 import { cloneVoiceWithQwen } from '@/lib/fal';
+import { storeCleanedSample } from '@/lib/voiceLibrary';
 
 const FAL_KEY = process.env.FAL_KEY;
 
@@ -52,7 +54,17 @@ export async function POST(request: NextRequest) {
 
         console.log('🎙️ Qwen 3 TTS: Cloning voice from', audio_url);
 
-        const embeddingResult = await cloneVoiceWithQwen(audio_url, reference_text);
+        // Clone from a cleaned copy (trimmed, denoised, normalised) when possible
+        let cleanedSampleUrl: string | null = null;
+        const audioResponse = await fetch(audio_url);
+        if (audioResponse.ok) {
+            cleanedSampleUrl = await storeCleanedSample(user.id, {
+                buffer: Buffer.from(await audioResponse.arrayBuffer()),
+                fileName: new URL(audio_url).pathname.split('/').pop() || 'audio.mp3'
+            });
+        }
+
+        const embeddingResult = await cloneVoiceWithQwen(cleanedSampleUrl || audio_url, reference_text);
 
         const voice = await saveVoice(
             user.id,
@@ -62,7 +74,9 @@ export async function POST(request: NextRequest) {
             undefined,
             reference_text,
             {
-                qwenEmbeddingUrl: embeddingResult.embeddingUrl
+                qwenEmbeddingUrl: embeddingResult.embeddingUrl,
+                cleanedSampleUrl: cleanedSampleUrl || undefined,
+                embeddingSource: cleanedSampleUrl ? 'cleaned' : 'original'
             }
         );
 
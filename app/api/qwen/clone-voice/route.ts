@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { getOrCreateUser, hasEnoughCredits, deductCredits, supabase } from '@/lib/supabase';
+import { getOrCreateUser, hasEnoughCredits, supabase } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { calculateAudioCredits } from '@/lib/credits';
 import { fal } from '@fal-ai/client';
 
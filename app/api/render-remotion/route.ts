@@ -4,16 +4,15 @@ import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { getCaptionStyle, CaptionStyle } from '@/lib/captionStyles';
+import { getCaptionStyle, isCustomCaptionStyleId, CaptionStyle, DEFAULT_CAPTION_STYLE } from '@/lib/captionStyles';
+import { generateAss } from '@/lib/captionExport';
+import type { WordTiming } from '@/lib/wordTimings';
+import { resolveCaptionStyle } from '@/lib/customCaptionStyles';
+import { getUserByClerkId } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
 
 const execAsync = promisify(exec);
 
-interface WordTiming {
-    word: string;
-    start: number;
-    end: number;
-}
-
 // Scene timing interface for scene-based styling
 interface SceneTimingForCaptions {
     sceneIndex: number;
@@ -31,14 +30,6 @@ const SCENE_STYLES = [
     { highlight: 'FF7F00', base: 'FFFFFF', name: 'DeepSky' },   // Deep Sky Blue
 ];
 
-// Format time for ASS subtitles (H:MM:SS.CC format)
-function formatASSTime(seconds: number): string {
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = seconds % 60;
-    return `${h}:${String(m).padStart(2, '0')}:${s.toFixed(2).padStart(5, '0')}`;
-}
-
 // Get scene index for a given time
 function getSceneIndexForTime(time: number, sceneTimings: SceneTimingForCaptions[]): number {
     for (const scene of sceneTimings) {
@@ -49,106 +40,14 @@ function getSceneIndexForTime(time: number, sceneTimings: SceneTimingForCaptions
     return 0; // Default to first scene style
 }
 
-// Group words into phrases (3-5 words for smooth reading)
-function createCaptionPhrases(wordTimings: WordTiming[], wordsPerPhrase: number = 4): { words: WordTiming[], start: number, end: number, text: string }[] {
-    const phrases: { words: WordTiming[], start: number, end: number, text: string }[] = [];
-
-    for (let i = 0; i < wordTimings.length; i += wordsPerPhrase) {
-        const phraseWords = wordTimings.slice(i, i + wordsPerPhrase);
-        if (phraseWords.length > 0) {
-            const phraseText = phraseWords
-                .map(w => w.word.replace(/[{}\\]/g, ''))
-                .join(' ');
-            phrases.push({
-                words: phraseWords,
-                start: phraseWords[0].start,
-                end: phraseWords[phraseWords.length - 1].end,
-                text: phraseText
-            });
-        }
-    }
-
-    return phrases;
-}
-
-// Generate ASS content with smooth gliding phrase transitions
+// Generate ASS content with the caption style compiled from the registry
 function generateTikTokASS(wordTimings: WordTiming[], width: number, height: number, sceneTimings: SceneTimingForCaptions[] = [], captionStyleConfig: CaptionStyle): string {
-    // 4 words per phrase for natural reading
-    const phrases = createCaptionPhrases(wordTimings, 4);
-
-    // Position captions at BOTTOM of screen (200px from bottom edge for better visibility)
-    const marginV = 200;
-
-    // Get style config
-    const font = captionStyleConfig.font;
-    const fontSize = captionStyleConfig.fontSize;
-    const primaryColor = captionStyleConfig.primaryColor;
-    const outlineColor = captionStyleConfig.outlineColor;
-    const shadowColor = captionStyleConfig.shadowColor;
-    const outlineWidth = captionStyleConfig.outlineWidth;
-    const shadowDepth = captionStyleConfig.shadowDepth;
-    const bold = captionStyleConfig.bold ? 1 : 0;
-
-    // Premium ASS Header with dynamic font from style
-    let ass = `[Script Info]
-Title: Styled Captions - ${captionStyleConfig.name}
-ScriptType: v4.00+
-PlayResX: ${width}
-PlayResY: ${height}
-WrapStyle: 0
-ScaledBorderAndShadow: yes
-Collisions: Normal
-
-[V4+ Styles]
-Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
-Style: Default,${font},${fontSize},${primaryColor},${primaryColor},${outlineColor},${shadowColor},${bold},0,0,0,100,100,2,0,1,${outlineWidth},${shadowDepth},2,50,50,${marginV},1
-Style: FadeIn,${font},${fontSize},${primaryColor},${primaryColor},${outlineColor},${shadowColor},${bold},0,0,0,100,100,2,0,1,${outlineWidth},${shadowDepth},2,50,50,${marginV},1
-
-[Events]
-Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
-`;
-
-    const hasSceneTimings = sceneTimings.length > 0;
-    if (hasSceneTimings) {
+    if (sceneTimings.length > 0) {
         console.log(`[ASS] Using dynamic scene-based styling with ${sceneTimings.length} scenes`);
     }
 
-    // Generate smooth gliding phrases with animation based on style
-    for (let phraseIdx = 0; phraseIdx < phrases.length; phraseIdx++) {
-        const phrase = phrases[phraseIdx];
-        const phraseStart = phrase.start;
-        // Phrase ends when next phrase starts, or with buffer at end
-        const phraseEnd = phraseIdx < phrases.length - 1
-            ? phrases[phraseIdx + 1].start
-            : phrase.end + 0.5;
-
-        // Create animation based on style
-        let fadeEffect = '';
-        switch (captionStyleConfig.animation) {
-            case 'pop':
-                fadeEffect = `{\\fad(150,100)\\t(0,100,\\fscx105\\fscy105)\\t(100,200,\\fscx100\\fscy100)}`;
-                break;
-            case 'bounce':
-                fadeEffect = `{\\fad(100,100)\\t(0,80,\\fscx110\\fscy110)\\t(80,160,\\fscx95\\fscy95)\\t(160,240,\\fscx100\\fscy100)}`;
-                break;
-            case 'glow':
-                fadeEffect = `{\\fad(200,150)\\blur2\\t(0,200,\\blur0)}`;
-                break;
-            case 'slide':
-                fadeEffect = `{\\fad(100,100)\\move(${width / 2 - 50},${marginV},${width / 2},${marginV},0,150)}`;
-                break;
-            case 'fade':
-            default:
-                fadeEffect = `{\\fad(200,150)}`;
-                break;
-        }
-
-        const text = `${fadeEffect}${phrase.text}`;
-
-        ass += `Dialogue: 0,${formatASSTime(phraseStart)},${formatASSTime(phraseEnd)},Default,,0,0,0,,${text}\n`;
-    }
-
-    console.log(`[ASS] Generated ${phrases.length} phrases with ${captionStyleConfig.name} style`);
+    const ass = generateAss(wordTimings, captionStyleConfig, { width, height });
+    console.log(`[ASS] Generated captions with ${captionStyleConfig.name} style`);
 
     return ass;
 }
@@ -174,7 +73,7 @@ export async function POST(request: NextRequest) {
             aspectRatio = '9:16',
             enableBackgroundMusic = false,
             sceneTimings = [],
-            captionStyle = 'bold-classic'
+            captionStyle = DEFAULT_CAPTION_STYLE
         } = await request.json() as {
             audioBase64: string;
             wordTimings: WordTiming[];
@@ -186,8 +85,17 @@ export async function POST(request: NextRequest) {
             captionStyle?: string;
         };
 
-        // Get the caption style configuration
-        const captionStyleConfig = getCaptionStyle(captionStyle);
+        // Get the caption style configuration (custom styles belong to the signed-in user)
+        let captionStyleConfig = getCaptionStyle(captionStyle);
+        if (isCustomCaptionStyleId(captionStyle)) {
+            const { userId: clerkId } = await auth();
+            const user = clerkId ? await getUserByClerkId(clerkId) : null;
+            const resolved = user ? await resolveCaptionStyle(user.id, captionStyle) : null;
+            if (!resolved) {
+                return NextResponse.json({ error: `Unknown caption style: ${captionStyle}` }, { status: 400 });
+            }
+            captionStyleConfig = resolved;
+        }
 
         if (!audioBase64) {
             return NextResponse.json({ error: 'No audio provided' }, { status: 400 });
@@ -471,6 +379,18 @@ export async function POST(request: NextRequest) {
                 console.warn('Failed to copy custom font:', err);
             }
 
+            // Uploaded brand font for custom styles (libass finds it via fontsdir).
+            // libass would silently fall back to another font, so a missing file fails the render.
+            if (captionStyleConfig.fontUrl) {
+                const fontResponse = await fetch(captionStyleConfig.fontUrl);
+                if (!fontResponse.ok) {
+                    throw new Error(`Failed to download caption font ${captionStyleConfig.font}: HTTP ${fontResponse.status}`);
+                }
+                const fontExt = captionStyleConfig.fontUrl.toLowerCase().endsWith('.otf') ? 'otf' : 'ttf';
+                await fs.writeFile(path.join(tempDir, `custom-caption-font.${fontExt}`), Buffer.from(await fontResponse.arrayBuffer()));
+                console.log(`Downloaded caption font ${captionStyleConfig.font}`);
+            }
+
             // Escape paths for FFmpeg
             const escapedAssPath = assPath.replace(/:/g, '\\:').replace(/'/g, "'\\''");
             const escapedFontsDir = tempDir.replace(/:/g, '\\:').replace(/'/g, "'\\''");
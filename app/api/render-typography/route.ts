@@ -1,54 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { renderMediaOnLambda, getRenderProgress } from '@remotion/lambda/client';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { supabase, getOrCreateUser, createAuthenticatedClient } from '@/lib/supabase';
 import { auth, currentUser } from '@clerk/nextjs/server';
+import { enqueueJob } from '@/lib/jobs/queue';
+import { startRender } from '@/lib/render';
+import { REMOTION_AWS_REGION, REMOTION_BUCKET_NAME as BUCKET_NAME } from '@/lib/render/remotionLambda';
+import { toFrameTimings } from '@/lib/wordTimings';
 
-// Type definitions
-interface WordTiming {
-    word: string;
-    start: number;
-    end: number;
-}
-
-interface TypographyWord {
-    text: string;
-    startFrame: number;
-    endFrame: number;
-}
-
-// Convert word timings (seconds) to frame-based timing for Remotion
-function convertToFrameTimings(wordTimings: WordTiming[], fps: number = 30): TypographyWord[] {
-    return wordTimings.map((wt, index) => {
-        const startFrame = Math.max(0, Math.round(wt.start * fps));
-        let endFrame = Math.max(0, Math.round(wt.end * fps));
-
-        // Gap Filling: Extend this word to the next word's start, if the gap is small (< 1s)
-        // This prevents the highlight from turning off during natural pauses, making it feel smoother/more synced.
-        if (index < wordTimings.length - 1) {
-            const nextStartFrame = Math.max(0, Math.round(wordTimings[index + 1].start * fps));
-            const gap = nextStartFrame - endFrame;
-            if (gap > 0 && gap < 30) { // If gap is less than 1 second (30 frames)
-                endFrame = nextStartFrame;
-            }
-        }
-
-        return {
-            text: wt.word,
-            startFrame,
-            endFrame,
-        };
-    });
-}
-
-// Lambda configuration
-const REMOTION_AWS_REGION = process.env.REMOTION_AWS_REGION || 'eu-north-1';
-const FUNCTION_NAME = 'remotion-render-4-0-410-mem3008mb-disk2048mb-900sec'; // Upgraded to 15min timeout
-const SERVE_URL = 'https://remotionlambda-eunorth1-uzdpd4m8du.s3.eu-north-1.amazonaws.com/sites/typography-site-v13/index.html';
-const BUCKET_NAME = 'remotionlambda-eunorth1-uzdpd4m8du'; // Hardcoded since getOrCreateBucket is not in client
 export const maxDuration = 300; // Allow 5 minutes (initiation only, render is async)
 
 export async function POST(request: NextRequest) {
@@ -206,7 +167,7 @@ export async function POST(request: NextRequest) {
         const fps = 30;
 
         // Convert word timings to frame-based format
-        const typographyWords = convertToFrameTimings(wordTimings, fps);
+        const typographyWords = toFrameTimings(wordTimings, fps);
         console.log('[Typography API] Converted', typographyWords.length, 'words to frame timings');
 
         // Calculate total duration from last word
@@ -217,37 +178,23 @@ export async function POST(request: NextRequest) {
         }
         console.log('[Typography API] Duration in frames:', durationInFrames, '(', durationInFrames / fps, 's)');
 
-        // Render on Lambda (Async Start)
-        console.log('[Typography API] ===== CALLING LAMBDA (ASYNC) =====');
+        // Start the render (Async Start) on the configured backend
+        console.log('[Typography API] ===== STARTING RENDER (ASYNC) =====');
         console.log('[Typography API] Audio URL:', finalAudioUrl);
 
-        // Increase framesPerLambda to reduce concurrency and avoid Rate Exceeded
-        // 1048 frames / 600 = ~2 lambdas. Much safer than 80 (~13 lambdas).
-        const FRAMES_PER_LAMBDA = 600;
-
-        const renderResult = await renderMediaOnLambda({
-            region: REMOTION_AWS_REGION as any,
-            functionName: FUNCTION_NAME,
-            serveUrl: SERVE_URL,
-            composition: 'TypographyComposition',
-            inputProps: {
-                audioUrl: finalAudioUrl,
-                words: typographyWords,
-                wordsPerGroup,
-                animationStyle,
-            },
-            codec: 'h264',
-            framesPerLambda: FRAMES_PER_LAMBDA,
-            privacy: 'public',
-            downloadBehavior: {
-                type: 'download',
-                fileName: 'typography-video.mp4',
-            },
-        });
+        const render = await startRender({
+            kind: 'typography',
+            audioUrl: finalAudioUrl,
+            words: typographyWords,
+            wordsPerGroup,
+            animationStyle,
+            fps,
+            durationInFrames
+        }, { jobId: dbJobId || `typography-${Date.now()}` });
 
-        console.log('[Typography API] ===== LAMBDA STARTED =====');
-        console.log('[Typography API] Render ID:', renderResult.renderId);
-        console.log('[Typography API] Bucket:', renderResult.bucketName);
+        console.log('[Typography API] ===== RENDER STARTED =====');
+        console.log('[Typography API] Backend:', render.backend);
+        console.log('[Typography API] Render ID:', render.renderId);
 
         // Update DB Job with Render Details (so we can poll it)
         if (dbJobId) {
@@ -262,16 +209,18 @@ export async function POST(request: NextRequest) {
                     progress_message: 'Rendering started...',
                     // Store render details in result_data (or input, but result is cleaner for interim state?)
                     result_data: {
-                        renderId: renderResult.renderId,
-                        bucketName: renderResult.bucketName,
-                        region: REMOTION_AWS_REGION,
-                        functionName: FUNCTION_NAME,
+                        render,
                         duration: durationInFrames / fps
                     }
                 })
                 .eq('id', dbJobId);
 
             if (updateError) console.error('[Typography API] Failed to save render state:', updateError);
+
+            // The queue worker polls the render and finishes the job even if the client goes away
+            if (!(await enqueueJob(dbJobId, 'typography', 5))) {
+                throw new Error('Failed to queue render');
+            }
         }
 
         // Clean up temp dir immediately since we are not waiting
@@ -283,7 +232,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
             jobId: dbJobId,
             status: 'processing',
-            renderId: renderResult.renderId,
+            renderId: render.renderId,
             duration: durationInFrames / fps
         });
 
@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRenderProgress } from '@remotion/lambda/client';
-import { supabase, createAuthenticatedClient, getOrCreateUser } from '@/lib/supabase';
+import { supabase, createAuthenticatedClient } from '@/lib/supabase';
 import { auth } from '@clerk/nextjs/server';
-
-const REMOTION_AWS_REGION = process.env.REMOTION_AWS_REGION || 'eu-north-1';
-const FUNCTION_NAME = 'remotion-render-4-0-410-mem3008mb-disk2048mb-900sec';
+import { runJobTick } from '@/lib/jobs/worker';
 
 export async function POST(request: NextRequest) {
     try {
@@ -47,150 +44,24 @@ export async function POST(request: NextRequest) {
         if (job.status === 'failed') {
             return NextResponse.json({
                 done: true,
-                error: job.error_message,
+                error: job.error,
                 status: 'failed'
             });
         }
 
-        // If processing, check Remotion
-        // We expect render details in result_data (from our start route)
-        // Note: result_data is JSONB
-        const renderData = job.result_data as any; // { renderId, bucketName, ... }
-
-        if (!renderData || !renderData.renderId || !renderData.bucketName) {
-            // Internal error: processing but no render info?
-            return NextResponse.json({ error: 'Invalid job state: missing render info' }, { status: 500 });
-        }
-
-        console.log(`[Typography Status] Checking progress for ${jobId} (Render: ${renderData.renderId})`);
-
-        const progress = await getRenderProgress({
-            region: REMOTION_AWS_REGION as any,
-            functionName: FUNCTION_NAME,
-            bucketName: renderData.bucketName,
-            renderId: renderData.renderId,
-        });
-
-        if (progress.done) {
-            console.log('[Typography Status] Render complete!');
-            const outputUrl = progress.outputFile || '';
-
-            // Update Job to Completed
-            // CRITICAL: Use admin client to bypass RLS for UPDATE
-            // Store videoUrl in result_data since output_url column doesn't exist
-            const existingResultData = (job.result_data as Record<string, unknown>) || {};
-
-            console.log('[Typography Status] Updating job to completed with videoUrl:', outputUrl);
-
-            // Use service role client
-            const { getSupabaseAdmin } = await import('@/lib/supabase-admin');
-            const supabaseAdmin = getSupabaseAdmin();
-
-            const { error: updateError } = await supabaseAdmin
-                .from('video_jobs')
-                .update({
-                    status: 'completed',
-                    progress: 100,
-                    progress_message: 'Video rendered successfully',
-                    updated_at: new Date().toISOString(),
-                    result_data: {
-                        ...existingResultData,
-                        videoUrl: outputUrl,
-                        completedAt: new Date().toISOString(),
-                    }
-                })
-                .eq('id', jobId);
-
-            if (updateError) {
-                console.error('[Typography Status] Failed to update job completion:', updateError);
-                // Still return success to frontend - the video was rendered, just DB update failed
-            } else {
-                console.log('[Typography Status] Job marked as completed in DB:', jobId);
-
-                // Save to history (videos table) using admin client
-                // This ensures it shows up even if user closes tab
-                const inputData = job.input_data as any || {};
-                const resultData = job.result_data as any || {}; // Contains duration from start
-                const script = inputData.script || inputData.text || ''; // Fallback to text if script empty
-
-                if (script) {
-                    const duration = resultData.duration || 0;
-                    // Auto-generate topic
-                    const topic = script.split(/\s+/).slice(0, 5).join(' ') + (script.length > 30 ? '...' : '');
-
-                    const { error: videoInsertError } = await supabaseAdmin
-                        .from('videos')
-                        .insert({
-                            user_id: job.user_uuid || job.user_id, // Prefer UUID
-                            video_url: outputUrl,
-                            script,
-                            topic,
-                            mode: 'faceless', // Typography is subset of faceless in schema
-                            duration: Math.round(duration),
-                            has_captions: false, // Text is burned in
-                            has_music: false, // For now
-                            created_at: new Date().toISOString()
-                        });
-
-                    if (videoInsertError) {
-                        console.error('[Typography Status] Failed to save video history:', videoInsertError);
-                    } else {
-                        console.log('[Typography Status] Video saved to history');
-                    }
-                }
-            }
-
-            // Note: The 'saveVideo' (inserting to public.videos) was typically done by Frontend upon receiving success.
-            // We can rely on Frontend to call 'saveVideo' upon receiving done=true here.
-            // OR we can do it here. 
-            // 'Faceless' does it in backend. Typography used to rely on Frontend.
-            // Let's keep relying on Frontend to trigger the saveVideo call to keep it simple,
-            // OR frontend uses the returned videoUrl.
-
-            return NextResponse.json({
-                done: true,
-                videoUrl: outputUrl,
-                status: 'completed'
-            });
-
-        } else if (progress.fatalErrorEncountered) {
-            console.error('[Typography Status] Fatal error:', progress.errors);
-            const errorMsg = JSON.stringify(progress.errors);
-
-            await supabase
-                .from('video_jobs')
-                .update({
-                    status: 'failed',
-                    error_message: errorMsg
-                })
-                .eq('id', jobId);
-
-            return NextResponse.json({
-                done: true,
-                error: errorMsg,
-                status: 'failed'
-            });
-        } else {
-            // Still going
-            const pct = Math.round((progress.overallProgress || 0) * 100);
-            // Update progress in DB moderately (dont spam DB every poll)
-            if (pct > (job.progress || 0) + 5) {
-                await supabase
-                    .from('video_jobs')
-                    .update({
-                        progress: pct,
-                        progress_message: `Rendering: ${pct}%`
-                    })
-                    .eq('id', jobId);
-            }
-
+        // Still processing: advance the job through the queue. If the worker
+        // currently holds the lease, report the last known progress instead.
+        const result = await runJobTick(jobId, 'typography', 'http:render-typography/status');
+        if (result.body.skipped) {
             return NextResponse.json({
                 done: false,
-                progress: pct,
+                progress: job.progress || 0,
                 status: 'processing'
             });
         }
 
+        return NextResponse.json(result.body, { status: result.httpStatus ?? 200 });
+
     } catch (e) {
         console.error('[Typography Status] Error:', e);
         return NextResponse.json({ error: String(e) }, { status: 500 });
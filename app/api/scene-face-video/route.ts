@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { fal } from '@fal-ai/client';
-import { supabase, getOrCreateUser, getUserCredits, deductCredits } from '@/lib/supabase';
+import { supabase, getOrCreateUser, getUserCredits } from '@/lib/supabase';
+import { deductCredits } from '@/lib/creditLedger';
 import { convertFaceVideoToJson2VideoFormat, FaceSceneInput, Json2VideoMovie } from '@/lib/json2video';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { CREDIT_COSTS } from '@/lib/credits';
 import { cloneVoiceWithQwen, generateSpeechWithQwen } from '@/lib/fal';
+import { cloneSampleUrl } from '@/lib/voicePreprocessing';
 
 fal.config({
     credentials: process.env.FAL_KEY
@@ -248,7 +250,7 @@ export async function POST(request: NextRequest) {
         // Look up qwen_embedding_url using voice_sample_url
         const { data: voiceData } = await supabase
             .from('voices')
-            .select('qwen_embedding_url, voice_sample_url')
+            .select('qwen_embedding_url, voice_sample_url, cleaned_sample_url')
             .eq('user_id', dbUser.id)
             .eq('is_active', true)
             .single();
@@ -259,7 +261,7 @@ export async function POST(request: NextRequest) {
         if (!embeddingUrl && voiceData?.voice_sample_url) {
             console.log('⚠️ No Qwen embedding found, but voice sample exists. Triggering JIT cloning...');
             try {
-                embeddingUrl = await cloneVoiceWithQwenForUser(voiceData.voice_sample_url, dbUser.id);
+                embeddingUrl = await cloneVoiceWithQwenForUser(cloneSampleUrl(voiceData), dbUser.id);
 
                 // Save the new ID to the database so we don't clone again
                 await supabase
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { listSoundEffects } from '@/lib/sfxLibrary';
+
+/**
+ * List the sound effects library (whooshes, risers, clicks and impacts)
+ */
+export async function GET() {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const effects = await listSoundEffects();
+        return NextResponse.json({ effects });
+    } catch (error: unknown) {
+        console.error('Sound effects list error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to list sound effects';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
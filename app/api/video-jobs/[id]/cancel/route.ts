@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { cancelVideoJob } from '@/lib/jobs/cancel';
+
+/**
+ * Cancel a running video job
+ * POST /api/video-jobs/[id]/cancel
+ *
+ * Stops further processing, cancels the in-flight render where the backend
+ * allows it and refunds the credits of the scenes not yet processed.
+ */
+export async function POST(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const { id } = await params;
+        const supabase = getSupabaseAdmin();
+        const { data: job } = await supabase
+            .from('video_jobs')
+            .select('id')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        if (!job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        const result = await cancelVideoJob(id);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 409 });
+        }
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Cancel job error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to cancel job' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,40 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase-admin';
 import { auth } from '@clerk/nextjs/server';
-import { getUserCredits, deductCredits, addCredits } from '@/lib/supabase';
-import { CREDIT_COSTS } from '@/lib/credits';
+import { reserveCredits, releaseReservation, jobReservationKey } from '@/lib/creditLedger';
+import { CREDIT_COSTS, VIDEO_JOB_RENDER_FEE } from '@/lib/credits';
+import { enqueueJob } from '@/lib/jobs/queue';
+import { isCustomCaptionStyleId, CaptionStyle } from '@/lib/captionStyles';
+import { resolveCaptionStyle } from '@/lib/customCaptionStyles';
+import { validateSceneVoiceSettings } from '@/lib/sceneVoice';
+import { validateMusicOptions } from '@/lib/backgroundMusic';
+import { getMusicTrack } from '@/lib/musicLibrary';
+import { validateSceneSfxSettings, type SoundEffect } from '@/lib/soundEffects';
+import { validateSceneTransition } from '@/lib/sceneTransitions';
+import { validateSceneKenBurns } from '@/lib/kenBurns';
+import { validateSceneClipSettings } from '@/lib/clipAssets';
+import { resolveSfxLibrary } from '@/lib/sfxLibrary';
+import { reusableScenes, JOB_STATE_FIELDS, type ProjectScene, type VideoProject } from '@/lib/videoProject';
 import crypto from 'crypto';
 
-function getAppBaseUrl(req: NextRequest): string {
-    const configured = process.env.NEXT_PUBLIC_APP_URL?.trim();
-    if (configured) {
-        return configured.replace(/\/$/, '');
-    }
-    return req.nextUrl.origin.replace(/\/$/, '');
-}
+// Spec fields the server resolves or copies from the source video; never
+// taken from the client
+const SERVER_INPUT_FIELDS = [
+    'voiceEmbeddingUrl',
+    'language',
+    'parentVideoId',
+    'renderBackend',
+    'captionStyleDefinition',
+    'backgroundMusicDuration',
+    'sfxLibrary'
+];
 
-function triggerBackgroundJobProcessing(req: NextRequest, jobId: string, jobType: string): void {
-    const endpoint = jobType === 'face'
-        ? '/api/face-video/process'
-        : jobType === 'faceless'
-            ? '/api/faceless-video/process'
-            : null;
-
-    if (!endpoint) return;
-
-    const url = `${getAppBaseUrl(req)}${endpoint}`;
-    void fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ jobId }),
-        cache: 'no-store'
-    })
-        .then(() => {
-            console.log(`[video-jobs/create] Triggered background processing for job ${jobId} (${jobType})`);
-        })
-        .catch((err) => {
-            console.error(`[video-jobs/create] Failed to trigger background processing for job ${jobId}:`, err);
-        });
+// The client's input_data without processing state or server-set fields,
+// so a request can't seed processed ("cached") scenes, renders or voices
+function clientInputData(inputData: unknown): Record<string, any> {
+    const input: Record<string, any> = inputData && typeof inputData === 'object' ? { ...inputData } : {};
+    for (const field of [...JOB_STATE_FIELDS, ...SERVER_INPUT_FIELDS]) delete input[field];
+    return input;
 }
 
 export async function POST(req: NextRequest) {
@@ -48,10 +48,13 @@ export async function POST(req: NextRequest) {
         const body = await req.json();
         const {
             job_type,
-            input_data,
             user_id, // This is the UUID
             // We use the UUID from body, but verify ownership via Clerk ID
         } = body;
+        const sourceVideoId: string | undefined = typeof body.input_data?.sourceVideoId === 'string'
+            ? body.input_data.sourceVideoId
+            : undefined;
+        const input_data = clientInputData(body.input_data);
 
         const supabase = getSupabaseAdmin();
 
@@ -72,7 +75,95 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: 'Unauthorized: User mismatch' }, { status: 403 });
         }
 
-        // 2. Calculate credit cost based on job_type
+        // Resolve the caption style now so custom styles are snapshotted on the
+        // job (later edits or deletes don't change queued renders)
+        let captionStyleDefinition: CaptionStyle | undefined;
+        if (input_data?.captionStyle) {
+            const resolved = await resolveCaptionStyle(user_id, input_data.captionStyle);
+            if (!resolved) {
+                return NextResponse.json({ error: `Unknown caption style: ${input_data.captionStyle}` }, { status: 400 });
+            }
+            captionStyleDefinition = isCustomCaptionStyleId(input_data.captionStyle) ? resolved : undefined;
+        }
+
+        // Per-scene voice, speed, pause, style and clip audio settings (faceless)
+        if (job_type === 'faceless' && Array.isArray(input_data?.scenes)) {
+            for (let i = 0; i < input_data.scenes.length; i++) {
+                const sceneError = validateSceneVoiceSettings(input_data.scenes[i] || {})
+                    || validateSceneClipSettings(input_data.scenes[i] || {});
+                if (sceneError) {
+                    return NextResponse.json({ error: `Scene ${i + 1}: ${sceneError}` }, { status: 400 });
+                }
+            }
+        }
+
+        // Per-scene sound effects, transitions and Ken Burns (both job types); the SFX library is snapshotted
+        // on the job like the caption style
+        let sfxLibrary: SoundEffect[] | undefined;
+        if ((job_type === 'faceless' || job_type === 'face') && Array.isArray(input_data?.scenes)) {
+            for (let i = 0; i < input_data.scenes.length; i++) {
+                const sfxError = validateSceneSfxSettings(input_data.scenes[i] || {})
+                    || validateSceneTransition(input_data.scenes[i] || {})
+                    || validateSceneKenBurns(input_data.scenes[i] || {});
+                if (sfxError) {
+                    return NextResponse.json({ error: `Scene ${i + 1}: ${sfxError}` }, { status: 400 });
+                }
+            }
+            const resolved = await resolveSfxLibrary(input_data.scenes.map((scene: unknown) => scene || {}));
+            if (resolved.error) {
+                return NextResponse.json({ error: resolved.error }, { status: 400 });
+            }
+            // An empty table (migration not run) keeps the default click
+            sfxLibrary = resolved.library.length > 0 ? resolved.library : undefined;
+        }
+
+        // Resolve the picked music track to its URL and length now, like the
+        // caption style, so the worker never looks it up
+        const musicError = validateMusicOptions(input_data?.music);
+        if (musicError) {
+            return NextResponse.json({ error: musicError }, { status: 400 });
+        }
+        let backgroundMusicUrl: string | undefined = input_data?.backgroundMusicUrl;
+        let backgroundMusicDuration: number | undefined;
+        if (input_data?.music?.trackId) {
+            const track = await getMusicTrack(user_id, input_data.music.trackId);
+            if (!track) {
+                return NextResponse.json({ error: `Unknown music track: ${input_data.music.trackId}` }, { status: 400 });
+            }
+            backgroundMusicUrl = track.url;
+            backgroundMusicDuration = track.duration ?? undefined;
+        }
+
+        // Re-render of an edited video: keep its voice, language and dub source,
+        // and reuse the processed scenes that didn't change (see lib/videoProject.ts)
+        let projectInput: Record<string, unknown> = {};
+        let reusedScenes: ProjectScene[] = [];
+        if (sourceVideoId && (job_type === 'faceless' || job_type === 'face')) {
+            const { data: sourceVideo } = await supabase
+                .from('videos')
+                .select('id, project')
+                .eq('id', sourceVideoId)
+                .eq('user_id', user_id)
+                .maybeSingle();
+
+            if (!sourceVideo) {
+                return NextResponse.json({ error: 'Source video not found' }, { status: 404 });
+            }
+
+            const project = sourceVideo.project as VideoProject | null;
+            if (project) {
+                projectInput = {
+                    sourceVideoId,
+                    voiceEmbeddingUrl: project.input.voiceEmbeddingUrl || undefined,
+                    language: project.input.language || undefined,
+                    parentVideoId: project.input.parentVideoId || undefined
+                };
+                reusedScenes = reusableScenes(project, job_type, { ...input_data, ...projectInput });
+                console.log(`[video-jobs/create] Re-render of video ${sourceVideo.id}: reusing ${reusedScenes.length}/${input_data.scenes?.length || 0} scenes`);
+            }
+        }
+
+        // 2. Calculate credit cost based on job_type (reused scenes are free)
         let creditCost = 0;
         let creditDescription = '';
         let sceneCount = 0;
@@ -80,15 +171,17 @@ export async function POST(req: NextRequest) {
         if (job_type === 'faceless') {
             // Faceless video: Number of scenes × 30 credits/scene + 80 render fee
             sceneCount = input_data?.scenes?.length || 1;
-            creditCost = (sceneCount * CREDIT_COSTS.AUDIO_PER_1000_CHARS) + CREDIT_COSTS.VIDEO_RENDER;
-            creditDescription = `Faceless video (${sceneCount} scenes)`;
-            console.log(`[video-jobs/create] Faceless video cost: ${sceneCount} scenes × ${CREDIT_COSTS.AUDIO_PER_1000_CHARS} + ${CREDIT_COSTS.VIDEO_RENDER} render = ${creditCost} credits`);
+            const chargedScenes = sceneCount - reusedScenes.length;
+            creditCost = (chargedScenes * CREDIT_COSTS.AUDIO_PER_1000_CHARS) + VIDEO_JOB_RENDER_FEE;
+            creditDescription = `Faceless video (${sceneCount} scenes${reusedScenes.length > 0 ? `, ${reusedScenes.length} reused` : ''})`;
+            console.log(`[video-jobs/create] Faceless video cost: ${chargedScenes} scenes × ${CREDIT_COSTS.AUDIO_PER_1000_CHARS} + ${VIDEO_JOB_RENDER_FEE} render = ${creditCost} credits`);
         } else if (job_type === 'face') {
             // Face video: Face scenes × 100 credits/scene + 80 render fee
             sceneCount = input_data?.scenes?.length || 1;
-            creditCost = (sceneCount * CREDIT_COSTS.FACE_VIDEO_SCENE) + CREDIT_COSTS.VIDEO_RENDER;
-            creditDescription = `Face video (${sceneCount} scenes)`;
-            console.log(`[video-jobs/create] Face video cost: ${sceneCount} scenes × 100 + 80 render = ${creditCost} credits`);
+            const chargedScenes = sceneCount - reusedScenes.length;
+            creditCost = (chargedScenes * CREDIT_COSTS.FACE_VIDEO_SCENE) + VIDEO_JOB_RENDER_FEE;
+            creditDescription = `Face video (${sceneCount} scenes${reusedScenes.length > 0 ? `, ${reusedScenes.length} reused` : ''})`;
+            console.log(`[video-jobs/create] Face video cost: ${chargedScenes} scenes × ${CREDIT_COSTS.FACE_VIDEO_SCENE} + ${VIDEO_JOB_RENDER_FEE} render = ${creditCost} credits`);
         } else {
             console.warn(`[video-jobs/create] Unknown job_type: ${job_type}, no credits charged`);
         }
@@ -96,38 +189,55 @@ export async function POST(req: NextRequest) {
         // Generate UUID for the job upfront so we can link it in credit metadata
         const jobId = crypto.randomUUID();
 
-        // 3. Check if user has enough credits
-        if (creditCost > 0) {
-            const creditsData = await getUserCredits(user_id);
-            const userCredits = creditsData?.balance ?? 0;
-            console.log(`[video-jobs/create] User ${user_id} has ${userCredits} credits, needs ${creditCost}`);
-
-            if (userCredits < creditCost) {
-                return NextResponse.json({
-                    error: 'Insufficient credits',
-                    required: creditCost,
-                    available: userCredits
-                }, { status: 402 });
-            }
+        // Clients may send an Idempotency-Key so a retried request reuses the
+        // original reservation (and job) instead of charging twice
+        const requestKey = req.headers.get('idempotency-key')?.trim();
+        const reservationKey = requestKey
+            ? `video_job_request:${user_id}:${requestKey}`
+            : jobReservationKey(jobId);
 
-            // 4. Deduct credits with Job ID metadata
-            console.log(`[video-jobs/create] Deducting ${creditCost} credits for: ${creditDescription}`);
-            const deductResult = await deductCredits(user_id, creditCost, creditDescription, {
+        // 3. Reserve credits atomically (balance check + hold in one DB call)
+        if (creditCost > 0) {
+            console.log(`[video-jobs/create] Reserving ${creditCost} credits for: ${creditDescription}`);
+            const reservation = await reserveCredits(user_id, creditCost, {
+                idempotencyKey: reservationKey,
                 jobId,
-                jobType: job_type,
-                sceneCount
+                description: creditDescription,
+                metadata: { jobId, jobType: job_type, sceneCount }
             });
 
-            if (!deductResult.success) {
-                console.error(`[video-jobs/create] Credit deduction failed:`, deductResult.error);
+            if (!reservation.success) {
+                if (reservation.error?.startsWith('Insufficient credits')) {
+                    return NextResponse.json({
+                        error: 'Insufficient credits',
+                        required: creditCost,
+                        available: reservation.balance
+                    }, { status: 402 });
+                }
+                console.error(`[video-jobs/create] Credit reservation failed:`, reservation.error);
                 return NextResponse.json({
-                    error: 'Failed to deduct credits',
-                    details: deductResult.error
+                    error: 'Failed to reserve credits',
+                    details: reservation.error
                 }, { status: 500 });
             }
+
+            // Replayed request: hand back the job created the first time
+            if (reservation.duplicate) {
+                const { data: existingJob } = await supabase
+                    .from('video_jobs')
+                    .select('*')
+                    .eq('id', reservation.jobId)
+                    .single();
+
+                if (!existingJob) {
+                    return NextResponse.json({ error: 'A previous request with this Idempotency-Key failed' }, { status: 409 });
+                }
+                console.log(`[video-jobs/create] Idempotent replay, returning existing job ${existingJob.id}`);
+                return NextResponse.json({ job: existingJob, creditsCharged: existingJob.input_data?.creditsCharged ?? creditCost });
+            }
         }
 
-        // 5. Insert the job as Admin (include creditsCharged for refund on failure)
+        // 4. Insert the job as Admin (include the reservation so it can be captured or released)
         const { data: job, error: insertError } = await supabase
             .from('video_jobs')
             .insert({
@@ -136,7 +246,19 @@ export async function POST(req: NextRequest) {
                 user_uuid: user_id,
                 job_type,
                 status: 'pending',
-                input_data: { ...input_data, creditsCharged: creditCost },
+                input_data: {
+                    ...input_data,
+                    ...projectInput,
+                    // Faceless jobs keep their processed scenes in input_data, face jobs in processed_scenes
+                    ...(job_type === 'faceless' && reusedScenes.length > 0 ? { processedScenes: reusedScenes } : {}),
+                    captionStyleDefinition,
+                    backgroundMusicUrl,
+                    backgroundMusicDuration,
+                    sfxLibrary,
+                    creditsCharged: creditCost,
+                    creditReservationKey: creditCost > 0 ? reservationKey : undefined
+                },
+                ...(job_type === 'face' && reusedScenes.length > 0 ? { processed_scenes: reusedScenes } : {}),
                 progress: 0,
                 progress_message: 'Initializing...'
             })
@@ -145,19 +267,35 @@ export async function POST(req: NextRequest) {
 
         if (insertError) {
             console.error('Error creating job:', insertError);
-            // Refund credits if they were deducted
+            // Release the reservation if credits were held
             if (creditCost > 0) {
-                console.log(`[video-jobs/create] Refunding ${creditCost} credits due to failed job insert`);
-                await addCredits(user_id, creditCost, 'refund', `Refund: failed to create ${job_type} video job`, {
-                    jobId,
+                console.log(`[video-jobs/create] Releasing ${creditCost} credits due to failed job insert`);
+                await releaseReservation(reservationKey, `Refund: failed to create ${job_type} video job`, {
                     reason: 'job_insert_failed'
                 });
             }
             return NextResponse.json({ error: 'Failed to create job', details: insertError }, { status: 400 });
         }
 
-        triggerBackgroundJobProcessing(req, job.id, job_type);
-        console.log(`[video-jobs/create] Job created successfully: ${job.id}, charged ${creditCost} credits`);
+        // Hand the job to the queue; the worker picks it up from here. A job
+        // that never reaches the queue would hold its credits forever.
+        if ((job_type === 'face' || job_type === 'faceless') && !(await enqueueJob(job.id, job_type))) {
+            await supabase.from('video_jobs').update({
+                status: 'failed',
+                error: 'Failed to queue job',
+                progress_message: 'Failed',
+                updated_at: new Date().toISOString()
+            }).eq('id', job.id);
+            if (creditCost > 0) {
+                console.log(`[video-jobs/create] Releasing ${creditCost} credits due to failed enqueue`);
+                await releaseReservation(reservationKey, `Refund: failed to queue ${job_type} video job`, {
+                    jobId: job.id,
+                    reason: 'job_enqueue_failed'
+                });
+            }
+            return NextResponse.json({ error: 'Failed to queue job' }, { status: 500 });
+        }
+        console.log(`[video-jobs/create] Job created successfully: ${job.id}, reserved ${creditCost} credits`);
         return NextResponse.json({ job, creditsCharged: creditCost });
     } catch (e: any) {
         console.error('Server error creating job:', e);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { getCaptionStyle } from '@/lib/captionStyles';
+import { exportCaptions, isCaptionFormat, CAPTION_FORMATS } from '@/lib/captionExport';
+import { getVideoDimensions } from '@/lib/render/compositions';
+
+/**
+ * Download captions for a finished video
+ * GET /api/videos/[id]/captions?format=srt|vtt|ass|json
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const format = request.nextUrl.searchParams.get('format') || 'srt';
+        if (!isCaptionFormat(format)) {
+            return NextResponse.json({ error: `format must be one of: ${CAPTION_FORMATS.join(', ')}` }, { status: 400 });
+        }
+
+        const { id } = await params;
+        const supabase = getSupabaseAdmin();
+        const { data: video, error } = await supabase
+            .from('videos')
+            .select('id, topic, word_timings, caption_style, aspect_ratio')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        if (error || !video) {
+            return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+        }
+        if (!Array.isArray(video.word_timings) || video.word_timings.length === 0) {
+            return NextResponse.json({ error: 'Captions are not available for this video' }, { status: 404 });
+        }
+
+        const { body, contentType } = exportCaptions(
+            format,
+            video.word_timings,
+            getCaptionStyle(video.caption_style),
+            // Face videos are saved as 9:16, so the stored ratio covers both kinds
+            getVideoDimensions({ kind: 'faceless', aspectRatio: video.aspect_ratio })
+        );
+
+        // Topic makes a friendlier file name than the UUID
+        const baseName = (video.topic || 'captions')
+            .replace(/\.\.\.$/, '')
+            .replace(/[^a-z0-9]+/gi, '-')
+            .replace(/^-+|-+$/g, '')
+            .toLowerCase()
+            .slice(0, 60) || 'captions';
+
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Disposition': `attachment; filename="${baseName}.${format}"`
+            }
+        });
+    } catch (error: unknown) {
+        console.error('Caption export error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to export captions';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
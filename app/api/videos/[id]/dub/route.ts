@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import crypto from 'crypto';
+import { getOrCreateUser } from '@/lib/supabase';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { reserveCredits, releaseReservation, jobReservationKey } from '@/lib/creditLedger';
+import { CREDIT_COSTS, VIDEO_JOB_RENDER_FEE } from '@/lib/credits';
+import { enqueueJob } from '@/lib/jobs/queue';
+import { getCaptionStyle } from '@/lib/captionStyles';
+import { translateScenes } from '@/lib/translation';
+import { isDubLanguage, DUB_LANGUAGES } from '@/lib/dubbing';
+import type { VideoProject } from '@/lib/videoProject';
+
+/**
+ * Dub a finished faceless video into another language
+ * POST /api/videos/[id]/dub { language }
+ *
+ * Reserves the credits, translates each scene, then queues a faceless job
+ * that re-narrates the translations in the original voice. Videos with a
+ * project (lib/videoProject.ts) keep their whole spec: visual cuts, music,
+ * per-scene settings and caption style; older videos are rebuilt from their
+ * scene assets. Scene durations follow the new narration. The result is
+ * saved as a new video linked to this one via parent_video_id.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const { language } = await request.json();
+        if (!isDubLanguage(language)) {
+            return NextResponse.json({ error: `language must be one of: ${DUB_LANGUAGES.join(', ')}` }, { status: 400 });
+        }
+
+        const { id } = await params;
+        const supabase = getSupabaseAdmin();
+        const { data: video, error: videoError } = await supabase
+            .from('videos')
+            .select('*')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        if (videoError || !video) {
+            return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+        }
+        if (video.language === language) {
+            return NextResponse.json({ error: `This video is already in ${language}` }, { status: 400 });
+        }
+
+        // Faceless videos keep one asset per scene with its narration; face
+        // videos are lip-synced to the original audio and can't be reused
+        const project = video.project as VideoProject | null;
+        const sourceScenes: Record<string, any>[] = project?.jobType === 'faceless' && Array.isArray(project.input.scenes)
+            ? project.input.scenes
+            : ((video.assets || []) as { url?: string; text?: string }[])
+                .filter(asset => asset.url && asset.text?.trim())
+                .map(asset => ({ text: asset.text, assetUrl: asset.url }));
+        if (video.mode !== 'faceless' || sourceScenes.length === 0) {
+            return NextResponse.json({ error: 'Only faceless videos with scene assets can be dubbed' }, { status: 400 });
+        }
+
+        // Same pricing as a new faceless video
+        const creditCost = (sourceScenes.length * CREDIT_COSTS.AUDIO_PER_1000_CHARS) + VIDEO_JOB_RENDER_FEE;
+        const jobId = crypto.randomUUID();
+        const reservationKey = jobReservationKey(jobId);
+
+        const reservation = await reserveCredits(user.id, creditCost, {
+            idempotencyKey: reservationKey,
+            jobId,
+            description: `${language} dub (${sourceScenes.length} scenes)`,
+            metadata: { jobId, jobType: 'faceless', sceneCount: sourceScenes.length, parentVideoId: id, language }
+        });
+        if (!reservation.success) {
+            if (reservation.error?.startsWith('Insufficient credits')) {
+                return NextResponse.json({
+                    error: 'Insufficient credits',
+                    required: creditCost,
+                    available: reservation.balance
+                }, { status: 402 });
+            }
+            return NextResponse.json({ error: 'Failed to reserve credits', details: reservation.error }, { status: 500 });
+        }
+
+        // Translation is a paid call, so it only runs once the credits are held
+        let translations: string[];
+        try {
+            console.log(`🌍 [Dub] Translating ${sourceScenes.length} scenes of video ${id} into ${language}`);
+            translations = await translateScenes(sourceScenes.map(scene => scene.text as string), language);
+        } catch (translationError) {
+            console.error('[Dub] Translation failed:', translationError);
+            await releaseReservation(reservationKey, `Refund: failed to translate ${language} dub`, {
+                reason: 'translation_failed'
+            });
+            return NextResponse.json({ error: 'Failed to translate the video' }, { status: 502 });
+        }
+
+        const captionStyle = getCaptionStyle(video.caption_style);
+        const { data: job, error: insertError } = await supabase
+            .from('video_jobs')
+            .insert({
+                id: jobId,
+                user_id: user.id,
+                user_uuid: user.id,
+                job_type: 'faceless',
+                status: 'pending',
+                input_data: {
+                    // The original spec (cuts, music, SFX), when the video has one
+                    ...(project?.jobType === 'faceless' ? project.input : {}),
+                    scenes: sourceScenes.map((scene, index) => ({ ...scene, text: translations[index] })),
+                    aspectRatio: project?.input.aspectRatio || video.aspect_ratio || '9:16',
+                    captionStyle: captionStyle.id,
+                    captionStyleDefinition: captionStyle,
+                    enableCaptions: video.has_captions,
+                    enableBackgroundMusic: video.has_music,
+                    language,
+                    voiceEmbeddingUrl: project?.input.voiceEmbeddingUrl || video.voice_embedding_url || undefined,
+                    parentVideoId: id,
+                    creditsCharged: creditCost,
+                    creditReservationKey: reservationKey
+                },
+                progress: 0,
+                progress_message: `Dubbing into ${language}...`
+            })
+            .select()
+            .single();
+
+        if (insertError || !job) {
+            console.error('[Dub] Failed to create job:', insertError);
+            await releaseReservation(reservationKey, `Refund: failed to create ${language} dub`, {
+                reason: 'job_insert_failed'
+            });
+            return NextResponse.json({ error: 'Failed to create dub job' }, { status: 500 });
+        }
+
+        if (!(await enqueueJob(job.id, 'faceless'))) {
+            await supabase.from('video_jobs').update({
+                status: 'failed',
+                error: 'Failed to queue job',
+                progress_message: 'Failed',
+                updated_at: new Date().toISOString()
+            }).eq('id', job.id);
+            await releaseReservation(reservationKey, `Refund: failed to queue ${language} dub`, {
+                jobId: job.id,
+                reason: 'job_enqueue_failed'
+            });
+            return NextResponse.json({ error: 'Failed to queue dub job' }, { status: 500 });
+        }
+        console.log(`✅ [Dub] Job ${job.id} queued for video ${id} (${language}), reserved ${creditCost} credits`);
+
+        return NextResponse.json({ jobId: job.id, language, creditsCharged: creditCost });
+    } catch (error: unknown) {
+        console.error('Dub error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to dub video';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { getOwnedVoice, regenerateVoiceEmbedding } from '@/lib/voiceLibrary';
+
+export const maxDuration = 300;
+
+/**
+ * Re-clone a voice from its stored sample into a new Qwen embedding
+ * (e.g. after the old embedding file expired). Optional JSON
+ * { source: 'original' | 'cleaned' } picks the sample to clone from;
+ * defaults to the cleaned one when it exists.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const { id } = await params;
+        const voice = await getOwnedVoice(user.id, id);
+        if (!voice) {
+            return NextResponse.json({ error: 'Voice not found' }, { status: 404 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (body.source !== undefined && body.source !== 'original' && body.source !== 'cleaned') {
+            return NextResponse.json({ error: "source must be 'original' or 'cleaned'" }, { status: 400 });
+        }
+
+        const updated = await regenerateVoiceEmbedding(voice, body.source);
+        if (!updated) {
+            return NextResponse.json({ error: 'Failed to regenerate voice embedding' }, { status: 500 });
+        }
+
+        return NextResponse.json({ voice: updated });
+    } catch (error: unknown) {
+        console.error('Voice embedding error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to regenerate voice embedding';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { getOwnedVoice, generateVoicePreview } from '@/lib/voiceLibrary';
+
+export const maxDuration = 300;
+
+/**
+ * Generate the standard preview clip for a voice (clones it first if
+ * it has no embedding yet)
+ */
+export async function POST(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const { id } = await params;
+        const voice = await getOwnedVoice(user.id, id);
+        if (!voice) {
+            return NextResponse.json({ error: 'Voice not found' }, { status: 404 });
+        }
+
+        const updated = await generateVoicePreview(voice);
+        if (!updated) {
+            return NextResponse.json({ error: 'Failed to generate voice preview' }, { status: 500 });
+        }
+
+        return NextResponse.json({ voice: updated });
+    } catch (error: unknown) {
+        console.error('Voice preview error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to generate voice preview';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import {
+    deleteVoiceWithFiles,
+    getOwnedVoice,
+    normalizeVoiceTags,
+    updateVoiceDetails,
+    VOICE_NAME_MAX,
+    VOICE_TAGS_MAX,
+    VOICE_TAG_MAX_LENGTH
+} from '@/lib/voiceLibrary';
+
+async function getUser() {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) return null;
+
+    const currentUserData = await currentUser();
+    return getOrCreateUser(
+        clerkId,
+        currentUserData?.emailAddresses[0]?.emailAddress || '',
+        currentUserData?.firstName || undefined,
+        currentUserData?.imageUrl || undefined
+    );
+}
+
+/**
+ * Rename or re-tag a voice: { name?, tags? }
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { name, tags } = await request.json();
+        const updates: { name?: string; tags?: string[] } = {};
+
+        if (name !== undefined) {
+            if (typeof name !== 'string' || !name.trim() || name.length > VOICE_NAME_MAX) {
+                return NextResponse.json({ error: `name must be 1-${VOICE_NAME_MAX} characters` }, { status: 400 });
+            }
+            updates.name = name.trim();
+        }
+        if (tags !== undefined) {
+            const normalized = normalizeVoiceTags(tags);
+            if (!normalized) {
+                return NextResponse.json({
+                    error: `tags must be at most ${VOICE_TAGS_MAX} strings of up to ${VOICE_TAG_MAX_LENGTH} characters`
+                }, { status: 400 });
+            }
+            updates.tags = normalized;
+        }
+
+        const voice = await getOwnedVoice(user.id, id);
+        if (!voice) {
+            return NextResponse.json({ error: 'Voice not found' }, { status: 404 });
+        }
+
+        const updated = await updateVoiceDetails(voice, updates);
+        if (!updated) {
+            return NextResponse.json({ error: 'Failed to update voice' }, { status: 500 });
+        }
+
+        return NextResponse.json({ voice: updated });
+    } catch (error: unknown) {
+        console.error('Voice update error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to update voice';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Delete a voice and its stored sample and preview.
+ * Videos already rendered keep their narration.
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const voice = await getOwnedVoice(user.id, id);
+        if (!voice) {
+            return NextResponse.json({ error: 'Voice not found' }, { status: 404 });
+        }
+
+        const deleted = await deleteVoiceWithFiles(voice);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Failed to delete voice' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: unknown) {
+        console.error('Voice delete error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to delete voice';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
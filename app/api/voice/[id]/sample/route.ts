@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { generateVoicePreview, getOwnedVoice, replaceVoiceSample } from '@/lib/voiceLibrary';
+import { describeRejectedSample, screenVoiceSample } from '@/lib/voiceAnalysis';
+
+export const maxDuration = 300;
+
+// Max sample size: 20MB
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Re-record a voice: replace its sample (FormData 'audio' + optional
+ * 'refText', or JSON { audioUrl, refText }), re-clone it and regenerate
+ * its preview. The voice keeps its id, name, tags and active state.
+ * Samples that fail the quality check (lib/voiceAnalysis) are rejected
+ * with 422 and the analysis report.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const { id } = await params;
+        const voice = await getOwnedVoice(user.id, id);
+        if (!voice) {
+            return NextResponse.json({ error: 'Voice not found' }, { status: 404 });
+        }
+
+        let sample: { buffer: Buffer; fileName: string; contentType: string };
+        let refText: string | undefined;
+
+        if (request.headers.get('content-type')?.includes('application/json')) {
+            const body = await request.json();
+            if (!body.audioUrl) {
+                return NextResponse.json({ error: 'audioUrl is required in JSON body' }, { status: 400 });
+            }
+            const audioResponse = await fetch(body.audioUrl);
+            if (!audioResponse.ok) {
+                return NextResponse.json({ error: 'Could not download audioUrl' }, { status: 400 });
+            }
+            sample = {
+                buffer: Buffer.from(await audioResponse.arrayBuffer()),
+                fileName: new URL(body.audioUrl).pathname.split('/').pop() || 'audio.mp3',
+                contentType: audioResponse.headers.get('content-type') || 'audio/mpeg'
+            };
+            refText = typeof body.refText === 'string' ? body.refText : undefined;
+        } else {
+            const formData = await request.formData();
+            const audioFile = formData.get('audio') as File | null;
+            if (!audioFile) {
+                return NextResponse.json({ error: 'Audio file or audioUrl is required' }, { status: 400 });
+            }
+            sample = {
+                buffer: Buffer.from(await audioFile.arrayBuffer()),
+                fileName: audioFile.name || 'audio.mp3',
+                contentType: audioFile.type || 'audio/mpeg'
+            };
+            const formRefText = formData.get('refText');
+            refText = typeof formRefText === 'string' && formRefText.trim() ? formRefText : undefined;
+        }
+
+        if (sample.buffer.length > MAX_FILE_SIZE) {
+            return NextResponse.json({ error: 'Sample too large. Maximum size is 20MB' }, { status: 400 });
+        }
+
+        const sampleReport = await screenVoiceSample(sample.buffer, sample.fileName);
+        if (sampleReport && !sampleReport.canClone) {
+            return NextResponse.json({ error: describeRejectedSample(sampleReport), report: sampleReport }, { status: 422 });
+        }
+
+        console.log(`🎙️ Replacing sample for voice ${voice.id} (${sample.fileName}, ${sample.buffer.length} bytes)`);
+        let updated = await replaceVoiceSample(voice, sample, refText);
+        if (!updated) {
+            return NextResponse.json({ error: 'Failed to update voice' }, { status: 500 });
+        }
+
+        // The preview is a convenience; the new sample is already usable
+        try {
+            updated = await generateVoicePreview(updated) || updated;
+        } catch (previewError) {
+            console.error('⚠️ Preview generation failed after sample replace:', previewError);
+        }
+
+        return NextResponse.json({ voice: updated, sampleReport });
+    } catch (error: unknown) {
+        console.error('Voice sample replace error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to replace voice sample';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { analyzeVoiceSample } from '@/lib/voiceAnalysis';
+
+export const maxDuration = 60;
+
+// Max sample size: 20MB
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Check a voice sample before cloning (FormData 'audio' or JSON { audioUrl }).
+ * Returns loudness, clipping, noise, silence and speech metrics plus the
+ * issues that would block or degrade a clone.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        let buffer: Buffer;
+        let fileName: string;
+
+        if (request.headers.get('content-type')?.includes('application/json')) {
+            const body = await request.json();
+            if (!body.audioUrl) {
+                return NextResponse.json({ error: 'audioUrl is required in JSON body' }, { status: 400 });
+            }
+            const audioResponse = await fetch(body.audioUrl);
+            if (!audioResponse.ok) {
+                return NextResponse.json({ error: 'Could not download audioUrl' }, { status: 400 });
+            }
+            buffer = Buffer.from(await audioResponse.arrayBuffer());
+            fileName = new URL(body.audioUrl).pathname.split('/').pop() || 'audio.mp3';
+        } else {
+            const formData = await request.formData();
+            const audioFile = formData.get('audio') as File | null;
+            if (!audioFile) {
+                return NextResponse.json({ error: 'Audio file or audioUrl is required' }, { status: 400 });
+            }
+            buffer = Buffer.from(await audioFile.arrayBuffer());
+            fileName = audioFile.name || 'audio.webm';
+        }
+
+        if (buffer.length > MAX_FILE_SIZE) {
+            return NextResponse.json({ error: 'Sample too large. Maximum size is 20MB' }, { status: 400 });
+        }
+
+        const report = await analyzeVoiceSample(buffer, fileName);
+        return NextResponse.json(report);
+
+    } catch (error: unknown) {
+        console.error('Error analyzing voice sample:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to analyze voice sample' },
+            { status: 500 }
+        );
+    }
+}
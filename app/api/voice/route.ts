@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/supabase';
+import { listVoices } from '@/lib/voiceLibrary';
+
+/**
+ * List the user's voices, newest first
+ */
+export async function GET() {
+    try {
+        const { userId: clerkId } = await auth();
+        if (!clerkId) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const currentUserData = await currentUser();
+        const user = await getOrCreateUser(
+            clerkId,
+            currentUserData?.emailAddresses[0]?.emailAddress || '',
+            currentUserData?.firstName || undefined,
+            currentUserData?.imageUrl || undefined
+        );
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const voices = await listVoices(user.id);
+        return NextResponse.json({ voices });
+    } catch (error: unknown) {
+        console.error('Voice list error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to list voices';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -1,57 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { addCredits } from '@/lib/supabase';
+import { verifyDodoWebhook } from '@/lib/dodo';
+import { recordPaymentEvent, processPaymentEvent } from '@/lib/paymentEvents';
 
 // Webhook handler for DodoPayments events
 export async function POST(request: NextRequest) {
-    try {
-        const body = await request.json();
-        console.log('[DodoWebhook] Full Payload:', JSON.stringify(body, null, 2));
-
-        console.log('[DodoWebhook] Received event:', body.type || 'unknown');
-
-        // Handle payment success event
-        // DodoPayments sends various event types - we care about successful payments
-        const eventType = body.type || body.event_type;
+    // Signature is computed over the exact bytes, so read the raw body
+    const rawBody = await request.text();
+    const webhookId = request.headers.get('webhook-id');
 
-        if (eventType === 'payment.succeeded' || eventType === 'payment_intent.succeeded' || eventType === 'checkout.completed') {
-            const metadata = body.data?.metadata || body.metadata || {};
-            const userId = metadata.user_id;
-            const packageId = metadata.package_id;
-            const credits = parseInt(metadata.credits, 10);
-
-            if (!userId || !credits || isNaN(credits)) {
-                console.error('[DodoWebhook] Missing required metadata:', { userId, packageId, credits });
-                return NextResponse.json({ error: 'Invalid metadata' }, { status: 400 });
-            }
+    let event;
+    try {
+        event = verifyDodoWebhook(rawBody, request.headers);
+    } catch (error) {
+        console.error('[DodoWebhook] Signature verification failed:', error instanceof Error ? error.message : error);
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
 
-            console.log(`[DodoWebhook] Adding ${credits} credits to user ${userId} for package ${packageId}`);
+    if (!webhookId) {
+        return NextResponse.json({ error: 'Missing webhook-id' }, { status: 400 });
+    }
 
-            // Add credits to user account
-            const result = await addCredits(
-                userId,
-                credits,
-                'purchase',
-                `Purchased ${packageId} package`,
-                {
-                    package_id: packageId,
-                    payment_id: body.data?.payment_id || body.id,
-                    event_type: eventType
-                }
-            );
+    try {
+        console.log(`[DodoWebhook] Received event: ${event.type} (${webhookId})`);
 
-            if (!result.success) {
-                console.error('[DodoWebhook] Failed to add credits');
-                return NextResponse.json({ error: 'Failed to add credits' }, { status: 500 });
-            }
+        const stored = await recordPaymentEvent(webhookId, event);
+        if (!stored) {
+            // Not stored: let Dodo retry the delivery
+            return NextResponse.json({ error: 'Failed to store event' }, { status: 500 });
+        }
 
-            console.log(`[DodoWebhook] Successfully added credits. New balance: ${result.balance}`);
+        const result = await processPaymentEvent(stored.id);
+        if (result.skipped) {
+            console.log(`[DodoWebhook] Event ${webhookId} already ${result.status}`);
+            return NextResponse.json({ received: true, status: result.status });
+        }
 
-            return NextResponse.json({ success: true, balance: result.balance });
+        if (result.status === 'failed') {
+            // Stored as failed; Dodo's retry (or an admin replay) processes it again
+            return NextResponse.json({ error: result.error }, { status: 500 });
         }
 
-        // Acknowledge other events without processing
-        console.log('[DodoWebhook] Ignoring event type:', eventType);
-        return NextResponse.json({ received: true });
+        return NextResponse.json({ received: true, status: result.status });
 
     } catch (error) {
         console.error('[DodoWebhook] Error:', error);
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyProviderWebhook } from '@/lib/providerTasks';
+
+// WaveSpeed calls this when a face clip prediction finishes. The job is
+// found through its provider task by prediction ID; the face worker picks
+// up the clip on its next tick instead of polling WaveSpeed.
+export async function POST(req: NextRequest) {
+    console.log("🔔 [Webhook] WaveSpeed callback received");
+    try {
+        const body = await req.json();
+        const prediction = body.data || body;
+        const { id, status } = prediction;
+
+        if (!id) {
+            console.warn("⚠️ [Webhook] Missing prediction ID", body);
+            return NextResponse.json({ message: "Invalid payload" }, { status: 400 });
+        }
+
+        // Only final states settle the task
+        if (status !== 'completed' && status !== 'failed') {
+            return NextResponse.json({ received: true, ignored: status });
+        }
+
+        const outputUrl: string | undefined = prediction.output?.video || prediction.outputs?.[0];
+        const completed = status === 'completed' && !!outputUrl;
+        const result = await applyProviderWebhook(
+            'wavespeed',
+            String(id),
+            req.nextUrl.searchParams.get('sig'),
+            completed
+                ? { status: 'completed', outputUrl }
+                : { status: 'failed', error: prediction.error || 'Prediction failed' },
+            body
+        );
+
+        if (result.status === 'invalid_signature') {
+            console.warn(`⚠️ [Webhook] Invalid signature for WaveSpeed prediction ${id}`);
+            return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+        }
+        if (result.status === 'not_found') {
+            console.error(`❌ [Webhook] No job for WaveSpeed prediction ${id}`);
+            return NextResponse.json({ message: "Job not found" }, { status: 404 });
+        }
+
+        console.log(`✅ [Webhook] WaveSpeed prediction ${id}: ${result.status === 'duplicate' ? 'already settled' : status}`);
+        return NextResponse.json({ received: true, duplicate: result.status === 'duplicate' });
+
+    } catch (e) {
+        console.error("💥 [Webhook] Error:", e);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
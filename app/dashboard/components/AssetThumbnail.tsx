@@ -0,0 +1,23 @@
+import React from 'react';
+import { isVideoAssetUrl } from '@/lib/clipAssets';
+
+interface AssetThumbnailProps {
+    src: string;
+    alt?: string;
+    className?: string;
+}
+
+// Image asset, or the first frame of a video clip with a clip badge
+export const AssetThumbnail: React.FC<AssetThumbnailProps> = ({ src, alt, className }) => {
+    if (!isVideoAssetUrl(src)) {
+        return <img src={src} alt={alt} className={className} />;
+    }
+    return (
+        <>
+            <video src={src} muted playsInline preload="metadata" className={className} />
+            <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[9px] font-bold pointer-events-none">
+                ▶ CLIP
+            </span>
+        </>
+    );
+};
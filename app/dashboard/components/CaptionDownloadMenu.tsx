@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { CAPTION_FORMATS, CaptionFormat } from '@/lib/captionExport';
+
+const FORMAT_LABELS: Record<CaptionFormat, string> = {
+    srt: 'SRT (YouTube, LinkedIn)',
+    vtt: 'VTT (Web)',
+    ass: 'ASS (Styled)',
+    json: 'JSON (Word timings)'
+};
+
+interface CaptionDownloadMenuProps {
+    onDownload: (format: CaptionFormat) => void;
+    className?: string;
+}
+
+export const CaptionDownloadMenu: React.FC<CaptionDownloadMenuProps> = ({ onDownload, className = '' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="relative" onClick={(e) => e.stopPropagation()}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={className}
+                title="Download Captions"
+            >
+                <span className="text-[10px] font-black leading-none">CC</span>
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                    <div className="absolute right-0 top-full mt-1 z-50 w-44 py-1 bg-white rounded-lg border-2 border-black shadow-[2px_2px_0px_#000]">
+                        {CAPTION_FORMATS.map(format => (
+                            <button
+                                key={format}
+                                onClick={() => { setIsOpen(false); onDownload(format); }}
+                                className="w-full px-3 py-1.5 text-left text-xs font-medium text-[var(--text-primary)] hover:bg-[var(--surface-2)]"
+                            >
+                                {FORMAT_LABELS[format]}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
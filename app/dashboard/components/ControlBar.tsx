@@ -4,6 +4,7 @@ import { ClockIcon } from './icons';
 import { PhotoSelector } from './selectors/PhotoSelector';
 import { VoiceSelector } from './selectors/VoiceSelector';
 import { DbVoice } from '@/lib/supabase';
+import { VoiceLibraryActions } from './selectors/VoiceLibraryEditor';
 
 interface ControlBarProps {
     mode: 'face' | 'faceless';
@@ -35,6 +36,7 @@ interface ControlBarProps {
     onVoiceSelect: (voice: DbVoice) => void;
     hasClonedVoice: boolean;
     voiceFile: File | null;
+    voiceLibrary: VoiceLibraryActions;
 }
 
 const DURATIONS = [
@@ -73,7 +75,8 @@ export const ControlBar: React.FC<ControlBarProps> = ({
     handleVoiceUpload,
     onVoiceSelect,
     hasClonedVoice,
-    voiceFile
+    voiceFile,
+    voiceLibrary
 }) => {
     const [showDurationPicker, setShowDurationPicker] = useState(false);
 
@@ -105,6 +108,7 @@ export const ControlBar: React.FC<ControlBarProps> = ({
                             onVoiceSelect={onVoiceSelect}
                             hasClonedVoice={hasClonedVoice}
                             voiceFile={voiceFile}
+                            {...voiceLibrary}
                         />
                     </>
                 )}
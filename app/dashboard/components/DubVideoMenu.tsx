@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { DUB_LANGUAGES, DubLanguage } from '@/lib/dubbing';
+
+interface DubVideoMenuProps {
+    onDub: (language: DubLanguage) => void;
+    className?: string;
+}
+
+export const DubVideoMenu: React.FC<DubVideoMenuProps> = ({ onDub, className = '' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="relative" onClick={(e) => e.stopPropagation()}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={className}
+                title="Dub into another language"
+            >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10" /><line x1="2" y1="12" x2="22" y2="12" />
+                    <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
+                </svg>
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                    <div className="absolute right-0 top-full mt-1 z-50 w-36 max-h-64 overflow-y-auto py-1 bg-white rounded-lg border-2 border-black shadow-[2px_2px_0px_#000]">
+                        <div className="px-3 py-1 text-[10px] font-black text-[var(--text-tertiary)] uppercase tracking-wider">Dub into</div>
+                        {DUB_LANGUAGES.map(language => (
+                            <button
+                                key={language}
+                                onClick={() => { setIsOpen(false); onDub(language); }}
+                                className="w-full px-3 py-1.5 text-left text-xs font-medium text-[var(--text-primary)] hover:bg-[var(--surface-2)]"
+                            >
+                                {language}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,10 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { DbVideo } from '@/lib/supabase';
+import { CaptionFormat } from '@/lib/captionExport';
+import { CaptionDownloadMenu } from './CaptionDownloadMenu';
+import { DubVideoMenu } from './DubVideoMenu';
+import { DubLanguage } from '@/lib/dubbing';
 
 // Icon Components (Localized to keep this file self-contained or import from a shared icons file later)
 const ClockIcon = () => (
@@ -21,12 +25,22 @@ const DownloadIcon = () => (
     </svg>
 );
 
+const EditIcon = () => (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <path d="M12 20h9" /><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+    </svg>
+);
+
 interface HistoryPanelProps {
     videos: DbVideo[];
     onDelete: (id: string) => void;
+    onDownloadCaptions: (id: string, format: CaptionFormat) => void;
+    onDub: (id: string, language: DubLanguage) => void;
+    // Reopen a rendered video's project in the editor
+    onEdit: (video: DbVideo) => void;
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ videos, onDelete }) => {
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ videos, onDelete, onDownloadCaptions, onDub, onEdit }) => {
     return (
         <div className="h-full flex flex-col bg-[var(--surface-2)] border-l border-[var(--border-subtle)] w-80 lg:w-96 shadow-xl z-30">
             <div className="p-6 border-b border-[var(--border-subtle)] flex items-center justify-between bg-[var(--surface-2)]">
@@ -63,6 +77,11 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ videos, onDelete })
                                             <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider ${video.mode === 'face' ? 'bg-[var(--surface-3)] text-[var(--text-primary)] border border-[var(--border-subtle)]' : 'bg-[var(--brand-primary)] text-black border border-black'}`}>
                                                 {video.mode === 'face' ? 'Face' : 'Faceless'}
                                             </span>
+                                            {video.language && (
+                                                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider bg-[var(--surface-3)] text-[var(--text-secondary)] border border-[var(--border-subtle)]">
+                                                    {video.language}
+                                                </span>
+                                            )}
                                         </div>
                                         <p className="text-sm font-medium leading-snug text-[var(--text-primary)] line-clamp-2" title={video.script}>
                                             {video.script}
@@ -89,6 +108,25 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ videos, onDelete })
                                 >
                                     <TrashIcon />
                                 </button>
+                                {video.job_id && (
+                                    <button
+                                        onClick={() => onEdit(video)}
+                                        className="p-1.5 rounded-md hover:bg-[var(--brand-primary)] text-[var(--text-secondary)] hover:text-black transition-colors"
+                                        title="Edit Video"
+                                    >
+                                        <EditIcon />
+                                    </button>
+                                )}
+                                <CaptionDownloadMenu
+                                    onDownload={(format) => onDownloadCaptions(video.id, format)}
+                                    className="w-7 h-7 flex items-center justify-center rounded-md hover:bg-[var(--brand-primary)] text-[var(--text-secondary)] hover:text-black transition-colors"
+                                />
+                                {video.mode === 'faceless' && (
+                                    <DubVideoMenu
+                                        onDub={(language) => onDub(video.id, language)}
+                                        className="w-7 h-7 flex items-center justify-center rounded-md hover:bg-[var(--brand-primary)] text-[var(--text-secondary)] hover:text-black transition-colors"
+                                    />
+                                )}
                             </div>
                         </motion.div>
                     ))
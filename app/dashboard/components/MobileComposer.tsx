@@ -14,6 +14,8 @@ interface MobileComposerProps {
     sceneProgress?: {
         totalScenes: number;
         processedScenesCount: number;
+        completedScenes?: number[];
+        activeScenes?: number[];
         currentSceneIndex: number;
         isRendering: boolean;
     } | null;
@@ -149,8 +151,9 @@ export const MobileComposer: React.FC<MobileComposerProps> = ({
                     {sceneProgress && sceneProgress.totalScenes > 0 ? (
                         <div className="space-y-1.5 mb-3">
                             {Array.from({ length: sceneProgress.totalScenes }, (_, i) => {
-                                const isCompleted = i < sceneProgress.processedScenesCount;
-                                const isCurrent = i === sceneProgress.currentSceneIndex && !sceneProgress.isRendering;
+                                // Scenes run in parallel, so prefer the indexes over the count
+                                const isCompleted = sceneProgress.completedScenes ? sceneProgress.completedScenes.includes(i) : i < sceneProgress.processedScenesCount;
+                                const isCurrent = !isCompleted && !sceneProgress.isRendering && (sceneProgress.activeScenes?.length ? sceneProgress.activeScenes.includes(i) : i === sceneProgress.currentSceneIndex);
                                 return (
                                     <div
                                         key={i}
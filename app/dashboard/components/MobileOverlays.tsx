@@ -3,6 +3,7 @@
 import React, { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CloseIcon, MicIcon, ImageIcon, ClockIcon, VideoIcon, SparklesIcon } from './icons';
+import { AssetThumbnail } from './AssetThumbnail';
 
 // ========== TYPES ==========
 export type MobileSheetType =
@@ -179,6 +180,28 @@ export const MobileOverlays: React.FC<MobileOverlaysProps> = ({
     const isDropUp = ['voice', 'duration', 'aspect', 'editType'].includes(activeSheet || '');
     const isFullScreen = ['face', 'script', 'assets', 'storyboard', 'video', 'history'].includes(activeSheet || '');
 
+    // State for playing voice previews
+    const [playingVoiceId, setPlayingVoiceId] = useState<string | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+
+    const handlePlayVoice = (voiceId: string, previewUrl?: string) => {
+        if (playingVoiceId === voiceId) {
+            // Stop playing
+            audioRef.current?.pause();
+            setPlayingVoiceId(null);
+        } else {
+            // Start playing
+            audioRef.current?.pause();
+            if (previewUrl) {
+                const audio = new Audio(previewUrl);
+                audioRef.current = audio;
+                audio.play();
+                audio.onended = () => setPlayingVoiceId(null);
+                setPlayingVoiceId(voiceId);
+            }
+        }
+    };
+
     return (
         <AnimatePresence>
             {activeSheet && (
@@ -208,28 +231,6 @@ export const MobileOverlays: React.FC<MobileOverlaysProps> = ({
 
                             {/* Voice Selection */}
                             {activeSheet === 'voice' && (() => {
-                                // State for playing audio
-                                const [playingVoiceId, setPlayingVoiceId] = React.useState<string | null>(null);
-                                const audioRef = useRef<HTMLAudioElement | null>(null);
-
-                                const handlePlayVoice = (voiceId: string, previewUrl?: string) => {
-                                    if (playingVoiceId === voiceId) {
-                                        // Stop playing
-                                        audioRef.current?.pause();
-                                        setPlayingVoiceId(null);
-                                    } else {
-                                        // Start playing
-                                        audioRef.current?.pause();
-                                        if (previewUrl) {
-                                            const audio = new Audio(previewUrl);
-                                            audioRef.current = audio;
-                                            audio.play();
-                                            audio.onended = () => setPlayingVoiceId(null);
-                                            setPlayingVoiceId(voiceId);
-                                        }
-                                    }
-                                };
-
                                 return (
                                     <div className="p-4 pb-8">
                                         <h3 className="text-lg font-black mb-4 text-center">Choose Voice</h3>
@@ -246,7 +247,7 @@ export const MobileOverlays: React.FC<MobileOverlaysProps> = ({
                                                             Clone your voice!
                                                         </h4>
                                                         <p className="text-xs text-green-700">
-                                                            Record 10-30 seconds reading any text naturally. We'll clone your voice for all future videos.
+                                                            Record 10-30 seconds reading any text naturally. We&apos;ll clone your voice for all future videos.
                                                         </p>
                                                     </div>
                                                 </div>
@@ -550,10 +551,10 @@ export const MobileOverlays: React.FC<MobileOverlaysProps> = ({
                                                         </div>
                                                         <div>
                                                             <h4 className="font-bold text-purple-800 text-sm mb-1">
-                                                                Let's get you studio ready!
+                                                                Let&apos;s get you studio ready!
                                                             </h4>
                                                             <p className="text-xs text-purple-700">
-                                                                Upload your photo and we'll transform it into a professional AI-ready avatar. <strong>This is a one-time setup.</strong>
+                                                                Upload your photo and we&apos;ll transform it into a professional AI-ready avatar. <strong>This is a one-time setup.</strong>
                                                             </p>
                                                         </div>
                                                     </div>
@@ -698,7 +699,7 @@ export const MobileOverlays: React.FC<MobileOverlaysProps> = ({
                                                         <span className="text-4xl">📷</span>
                                                     </div>
                                                     <h3 className="text-lg font-bold mb-2">Upload Your Photo</h3>
-                                                    <p className="text-sm text-gray-500 mb-4">We'll transform it into an AI-ready avatar</p>
+                                                    <p className="text-sm text-gray-500 mb-4">We&apos;ll transform it into an AI-ready avatar</p>
                                                     <label className="inline-flex items-center gap-2 px-6 py-3 bg-black text-white font-bold rounded-xl cursor-pointer hover:bg-gray-800 transition-colors">
                                                         <span>Choose Photo</span>
                                                         <input type="file" accept="image/*" onChange={(e) => { onUploadAvatar(e); setMode('face'); }} className="hidden" />
@@ -752,15 +753,15 @@ export const MobileOverlays: React.FC<MobileOverlaysProps> = ({
                                     <div>
                                         <label className="flex items-center justify-center gap-2 p-4 mb-4 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-gray-400">
                                             <ImageIcon className="w-5 h-5 text-gray-400" />
-                                            <span className="font-bold text-gray-500">Upload Images</span>
-                                            <input type="file" accept="image/*" multiple onChange={onUploadAsset} className="hidden" />
+                                            <span className="font-bold text-gray-500">Upload Images or Clips</span>
+                                            <input type="file" accept="image/*,video/mp4,video/webm,video/quicktime" multiple onChange={onUploadAsset} className="hidden" />
                                         </label>
 
                                         {assets.length > 0 ? (
                                             <div className="grid grid-cols-3 gap-2">
                                                 {assets.map((asset, i) => (
                                                     <div key={i} className="relative aspect-square rounded-xl overflow-hidden">
-                                                        <img src={asset.thumbnail} className="w-full h-full object-cover" />
+                                                        <AssetThumbnail src={asset.thumbnail} className="w-full h-full object-cover" />
                                                         <button
                                                             onClick={() => onRemoveAsset(i)}
                                                             className="absolute top-1 right-1 w-6 h-6 bg-black/60 rounded-full flex items-center justify-center"
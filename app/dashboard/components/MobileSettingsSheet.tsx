@@ -3,6 +3,9 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MicIcon, ClockIcon, VideoIcon, CloseIcon } from './icons';
+import { CaptionStyleSelector } from './selectors/CaptionStyleSelector';
+import { SavedCaptionStyle } from '@/lib/apiClient';
+import { CustomCaptionStyleInput } from '@/lib/captionStyles';
 
 interface MobileSettingsSheetProps {
     isOpen: boolean;
@@ -25,6 +28,14 @@ interface MobileSettingsSheetProps {
     // Aspect Ratio
     aspectRatio: string;
     setAspectRatio: (r: string) => void;
+
+    // Captions
+    captionStyle: string;
+    setCaptionStyle: (style: string) => void;
+    customCaptionStyles: SavedCaptionStyle[];
+    onSaveCaptionStyle: (name: string, definition: CustomCaptionStyleInput) => Promise<SavedCaptionStyle | null>;
+    onDeleteCaptionStyle: (id: string) => void;
+    onUploadCaptionFont: (file: File) => Promise<{ url: string; family: string } | null>;
 }
 
 export const MobileSettingsSheet: React.FC<MobileSettingsSheetProps> = ({
@@ -39,7 +50,13 @@ export const MobileSettingsSheet: React.FC<MobileSettingsSheetProps> = ({
     duration,
     setDuration,
     aspectRatio,
-    setAspectRatio
+    setAspectRatio,
+    captionStyle,
+    setCaptionStyle,
+    customCaptionStyles,
+    onSaveCaptionStyle,
+    onDeleteCaptionStyle,
+    onUploadCaptionFont
 }) => {
     const durations = [15, 30, 60];
     const aspectRatios = [
@@ -191,6 +208,19 @@ export const MobileSettingsSheet: React.FC<MobileSettingsSheetProps> = ({
                                 </div>
                             </section>
 
+                            {/* Captions */}
+                            <section>
+                                <h3 className="text-sm font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-3">Captions</h3>
+                                <CaptionStyleSelector
+                                    captionStyle={captionStyle}
+                                    setCaptionStyle={setCaptionStyle}
+                                    customStyles={customCaptionStyles}
+                                    onSaveStyle={onSaveCaptionStyle}
+                                    onDeleteStyle={onDeleteCaptionStyle}
+                                    onUploadFont={onUploadCaptionFont}
+                                />
+                            </section>
+
                         </div>
 
                         {/* Bottom padding for safe area */}
@@ -69,6 +69,8 @@ interface StudioLayoutProps {
     sceneProgress?: {
         totalScenes: number;
         processedScenesCount: number;
+        completedScenes?: number[];
+        activeScenes?: number[];
         currentSceneIndex: number;
         isRendering: boolean;
     } | null;
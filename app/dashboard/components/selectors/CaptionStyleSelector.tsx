@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import {
+    CAPTION_ANIMATIONS,
+    CAPTION_POSITIONS,
+    CAPTION_STYLES,
+    DEFAULT_CAPTION_STYLE,
+    getCaptionStyle,
+    CaptionAnimation,
+    CaptionPosition,
+    CaptionStyle,
+    CaptionStyleId,
+    CustomCaptionStyleInput
+} from '@/lib/captionStyles';
+import { SavedCaptionStyle } from '@/lib/apiClient';
+
+interface CaptionStyleSelectorProps {
+    captionStyle: string;
+    setCaptionStyle: (style: string) => void;
+    customStyles: SavedCaptionStyle[];
+    onSaveStyle: (name: string, definition: CustomCaptionStyleInput) => Promise<SavedCaptionStyle | null>;
+    onDeleteStyle: (id: string) => void;
+    onUploadFont: (file: File) => Promise<{ url: string; family: string } | null>;
+}
+
+// Registers uploaded fonts with the page so previews match the render
+const loadedFonts = new Set<string>();
+function loadPreviewFont(family: string, url: string) {
+    if (loadedFonts.has(url) || typeof FontFace === 'undefined') return;
+    loadedFonts.add(url);
+    new FontFace(family, `url(${url})`).load()
+        .then(face => document.fonts.add(face))
+        .catch(err => console.warn('[CaptionStyles] Preview font failed to load:', err));
+}
+
+const StyleSwatch: React.FC<{ style: CaptionStyle }> = ({ style }) => (
+    <span
+        className="block truncate text-lg leading-tight"
+        style={{
+            fontFamily: `"${style.font}", ${style.fontFallback}`,
+            fontWeight: style.fontWeight,
+            color: style.textColor,
+            WebkitTextStroke: style.outlineWidth > 0 ? `1px ${style.outlineColor}` : undefined,
+            textTransform: style.allCaps ? 'uppercase' : 'none'
+        }}
+    >
+        <span style={{ color: style.highlightColor }}>Hello</span> world
+    </span>
+);
+
+const EMPTY_FORM: CustomCaptionStyleInput & { name: string } = {
+    name: '',
+    baseStyle: DEFAULT_CAPTION_STYLE
+};
+
+export const CaptionStyleSelector: React.FC<CaptionStyleSelectorProps> = ({
+    captionStyle,
+    setCaptionStyle,
+    customStyles,
+    onSaveStyle,
+    onDeleteStyle,
+    onUploadFont
+}) => {
+    const [showForm, setShowForm] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [isUploadingFont, setIsUploadingFont] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        customStyles.forEach(({ style }) => {
+            if (style.fontUrl) loadPreviewFont(style.font, style.fontUrl);
+        });
+    }, [customStyles]);
+
+    const base = getCaptionStyle(form.baseStyle);
+    const { name, ...definition } = form;
+    const preview: CaptionStyle = {
+        ...base,
+        ...Object.fromEntries(Object.entries(definition).filter(([, v]) => v !== undefined)),
+        id: base.id
+    };
+
+    const update = (changes: Partial<typeof form>) => setForm(prev => ({ ...prev, ...changes }));
+
+    const handleFontChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsUploadingFont(true);
+        const result = await onUploadFont(file);
+        setIsUploadingFont(false);
+        if (result) {
+            loadPreviewFont(result.family, result.url);
+            update({ font: result.family, fontUrl: result.url });
+        }
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        setIsSaving(true);
+        const saved = await onSaveStyle(name.trim(), definition);
+        setIsSaving(false);
+        if (saved) {
+            setCaptionStyle(saved.style.id);
+            setForm(EMPTY_FORM);
+            setShowForm(false);
+        }
+    };
+
+    const options: Array<{ style: CaptionStyle; savedId?: string }> = [
+        ...CAPTION_STYLES.map(style => ({ style })),
+        ...customStyles.map(saved => ({ style: saved.style, savedId: saved.id }))
+    ];
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+                {options.map(({ style, savedId }) => (
+                    <div
+                        key={style.id}
+                        onClick={() => setCaptionStyle(style.id)}
+                        className={`group relative p-3 rounded-xl border-2 cursor-pointer transition-all bg-gray-900 ${captionStyle === style.id ? 'border-[var(--brand-primary)] shadow-[2px_2px_0px_#000]' : 'border-transparent hover:border-gray-500'}`}
+                    >
+                        <StyleSwatch style={style} />
+                        <span className="block mt-1 text-[10px] font-bold text-gray-400 truncate">{style.name}</span>
+                        {savedId && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onDeleteStyle(savedId); }}
+                                className="absolute top-1 right-1 w-5 h-5 bg-red-500 text-white rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {!showForm ? (
+                <button
+                    onClick={() => setShowForm(true)}
+                    className="w-full py-3 rounded-xl border-2 border-dashed border-gray-300 hover:border-[var(--brand-primary)] text-sm font-bold text-[var(--text-secondary)] transition-colors"
+                >
+                    + Custom Style
+                </button>
+            ) : (
+                <div className="p-4 rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] space-y-3">
+                    <div className="p-4 rounded-lg bg-gray-900 text-center">
+                        <StyleSwatch style={preview} />
+                    </div>
+
+                    <input
+                        value={name}
+                        onChange={(e) => update({ name: e.target.value })}
+                        placeholder="Style name"
+                        maxLength={60}
+                        className="w-full px-3 py-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-sm"
+                    />
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs font-bold text-[var(--text-secondary)]">
+                            Based on
+                            <select
+                                value={form.baseStyle}
+                                onChange={(e) => update({ baseStyle: e.target.value as CaptionStyleId })}
+                                className="mt-1 w-full px-2 py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-sm font-normal"
+                            >
+                                {CAPTION_STYLES.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-xs font-bold text-[var(--text-secondary)]">
+                            Font
+                            <span className="mt-1 flex items-center justify-center w-full px-2 py-1.5 rounded-lg border border-dashed border-[var(--border-subtle)] bg-[var(--surface-2)] text-sm font-normal truncate cursor-pointer">
+                                {isUploadingFont ? 'Uploading...' : form.font || 'Upload TTF/OTF'}
+                            </span>
+                            <input type="file" accept=".ttf,.otf,font/ttf,font/otf" onChange={handleFontChange} className="hidden" />
+                        </label>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                        {([
+                            ['textColor', 'Text'],
+                            ['highlightColor', 'Highlight'],
+                            ['outlineColor', 'Outline']
+                        ] as const).map(([key, label]) => (
+                            <label key={key} className="text-xs font-bold text-[var(--text-secondary)]">
+                                {label}
+                                <input
+                                    type="color"
+                                    value={(form[key] || base[key]).slice(0, 7)}
+                                    onChange={(e) => update({ [key]: e.target.value.toUpperCase() })}
+                                    className="mt-1 w-full h-8 rounded-lg border border-[var(--border-subtle)] cursor-pointer"
+                                />
+                            </label>
+                        ))}
+                    </div>
+
+                    <label className="block text-xs font-bold text-[var(--text-secondary)]">
+                        Outline width: {preview.outlineWidth}
+                        <input
+                            type="range" min={0} max={12}
+                            value={preview.outlineWidth}
+                            onChange={(e) => update({ outlineWidth: Number(e.target.value) })}
+                            className="w-full"
+                        />
+                    </label>
+
+                    <label className="block text-xs font-bold text-[var(--text-secondary)]">
+                        Words per line: {preview.maxWordsPerLine}
+                        <input
+                            type="range" min={1} max={8}
+                            value={preview.maxWordsPerLine}
+                            onChange={(e) => update({ maxWordsPerLine: Number(e.target.value) })}
+                            className="w-full"
+                        />
+                    </label>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs font-bold text-[var(--text-secondary)]">
+                            Position
+                            <select
+                                value={preview.position}
+                                onChange={(e) => update({ position: e.target.value as CaptionPosition })}
+                                className="mt-1 w-full px-2 py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-sm font-normal capitalize"
+                            >
+                                {CAPTION_POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-xs font-bold text-[var(--text-secondary)]">
+                            Animation
+                            <select
+                                value={preview.animation}
+                                onChange={(e) => update({ animation: e.target.value as CaptionAnimation })}
+                                className="mt-1 w-full px-2 py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-sm font-normal capitalize"
+                            >
+                                {CAPTION_ANIMATIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => { setForm(EMPTY_FORM); setShowForm(false); }}
+                            className="flex-1 py-2 rounded-lg border border-[var(--border-subtle)] text-sm font-bold text-[var(--text-secondary)]"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={!name.trim() || isSaving || isUploadingFont}
+                            className="flex-1 py-2 rounded-lg bg-black text-white text-sm font-bold disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Save Style'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlayIcon } from '../icons';
+import { MUSIC_VOLUME_MAX, type MusicTrack } from '@/lib/backgroundMusic';
+
+export interface MusicLibraryActions {
+    onSelectTrack: (trackId: string | null) => void;
+    onVolumeChange: (volume: number) => void;
+    onDuckingChange: (ducking: boolean) => void;
+    onUploadTrack: (file: File, details: { title: string; bpm?: number; moods?: string[]; genres?: string[] }) => Promise<MusicTrack | null>;
+    onDeleteTrack: (trackId: string) => void;
+}
+
+interface MusicLibraryPickerProps extends MusicLibraryActions {
+    tracks: MusicTrack[];
+    // null = the default catalogue track
+    selectedTrackId: string | null;
+    volume: number;
+    ducking: boolean;
+}
+
+const parseTags = (value: string) => value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+
+const formatDuration = (seconds: number | null) =>
+    seconds ? `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}` : null;
+
+/**
+ * Browse, filter, preview and upload background music, and set its level and ducking
+ */
+export const MusicLibraryPicker: React.FC<MusicLibraryPickerProps> = ({
+    tracks,
+    selectedTrackId,
+    volume,
+    ducking,
+    onSelectTrack,
+    onVolumeChange,
+    onDuckingChange,
+    onUploadTrack,
+    onDeleteTrack
+}) => {
+    const [mood, setMood] = useState<string | null>(null);
+    const [genre, setGenre] = useState<string | null>(null);
+    const [playingId, setPlayingId] = useState<string | null>(null);
+    const [uploadFile, setUploadFile] = useState<File | null>(null);
+    const [uploadTitle, setUploadTitle] = useState('');
+    const [uploadMoods, setUploadMoods] = useState('');
+    const [uploadGenres, setUploadGenres] = useState('');
+    const [uploadBpm, setUploadBpm] = useState('');
+    const [isUploading, setIsUploading] = useState(false);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Stop the preview when the picker closes
+    useEffect(() => () => audioRef.current?.pause(), []);
+
+    const activeId = selectedTrackId ?? tracks.find(t => !t.user_id)?.id ?? null;
+    const moods = Array.from(new Set(tracks.flatMap(t => t.moods))).sort();
+    const genres = Array.from(new Set(tracks.flatMap(t => t.genres))).sort();
+    const visibleTracks = tracks.filter(t => (!mood || t.moods.includes(mood)) && (!genre || t.genres.includes(genre)));
+
+    const togglePlay = (track: MusicTrack) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+
+        if (playingId === track.id) {
+            audio.pause();
+            setPlayingId(null);
+            return;
+        }
+        audio.src = track.url;
+        audio.play().catch(e => console.error('Play error:', e));
+        setPlayingId(track.id);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setUploadFile(file);
+        setUploadTitle(file.name.replace(/\.[^.]+$/, ''));
+    };
+
+    const handleUpload = async () => {
+        if (!uploadFile) return;
+        setIsUploading(true);
+        const track = await onUploadTrack(uploadFile, {
+            title: uploadTitle.trim(),
+            bpm: uploadBpm ? Number(uploadBpm) : undefined,
+            moods: parseTags(uploadMoods),
+            genres: parseTags(uploadGenres)
+        });
+        setIsUploading(false);
+        if (track) {
+            setUploadFile(null);
+            setUploadMoods('');
+            setUploadGenres('');
+            setUploadBpm('');
+        }
+    };
+
+    const chipClass = (active: boolean) =>
+        `px-2.5 py-1 rounded-full border text-[10px] font-bold capitalize transition-colors ${active ? 'bg-black text-white border-black' : 'bg-[var(--surface-1)] text-[var(--text-secondary)] border-[var(--border-subtle)] hover:bg-[var(--surface-3)]'}`;
+    const inputClass = 'w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] text-xs text-[var(--text-primary)]';
+
+    return (
+        <div className="space-y-4">
+            {/* Mood / genre filters */}
+            {(moods.length > 0 || genres.length > 0) && (
+                <div className="space-y-2">
+                    <div className="flex flex-wrap gap-1.5">
+                        {moods.map(m => (
+                            <button key={m} onClick={() => setMood(mood === m ? null : m)} className={chipClass(mood === m)}>{m}</button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {genres.map(g => (
+                            <button key={g} onClick={() => setGenre(genre === g ? null : g)} className={chipClass(genre === g)}>{g}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Track list */}
+            <div className="space-y-2">
+                {visibleTracks.length === 0 && (
+                    <p className="text-xs text-[var(--text-secondary)]">No tracks match these filters.</p>
+                )}
+                {visibleTracks.map(track => (
+                    <div
+                        key={track.id}
+                        onClick={() => onSelectTrack(track.id)}
+                        className={`flex items-center gap-3 p-3 rounded-xl border-2 cursor-pointer transition-all ${activeId === track.id ? 'border-black bg-[var(--surface-1)] shadow-[3px_3px_0px_#000]' : 'border-[var(--border-subtle)] hover:border-gray-300'}`}
+                    >
+                        <button
+                            onClick={(e) => { e.stopPropagation(); togglePlay(track); }}
+                            className="w-9 h-9 rounded-full bg-[#0F172A] text-white flex items-center justify-center shrink-0 hover:scale-105 active:scale-95 transition-all"
+                        >
+                            {playingId === track.id ? (
+                                <svg width="12" height="12" fill="currentColor" viewBox="0 0 24 24"><path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" /></svg>
+                            ) : (
+                                <PlayIcon className="w-4 h-4 ml-0.5" />
+                            )}
+                        </button>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-sm text-[var(--text-primary)] truncate">{track.title}</p>
+                            <p className="text-[10px] text-[var(--text-secondary)] capitalize truncate">
+                                {[
+                                    track.artist,
+                                    ...track.moods,
+                                    ...track.genres,
+                                    track.bpm ? `${track.bpm} BPM` : null,
+                                    formatDuration(track.duration)
+                                ].filter(Boolean).join(' • ')}
+                            </p>
+                        </div>
+                        {track.user_id && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onDeleteTrack(track.id); }}
+                                className="text-[10px] font-bold text-red-500 hover:underline"
+                            >
+                                Delete
+                            </button>
+                        )}
+                    </div>
+                ))}
+                <audio ref={audioRef} onEnded={() => setPlayingId(null)} />
+            </div>
+
+            {/* Level and ducking */}
+            <div className="p-3 space-y-3 rounded-lg bg-[var(--surface-2)] border border-[var(--border-subtle)]">
+                <label className="block space-y-1">
+                    <span className="flex justify-between text-xs font-bold text-[var(--text-primary)]">
+                        Music volume <span className="text-[var(--text-secondary)]">{Math.round(volume * 100)}%</span>
+                    </span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={MUSIC_VOLUME_MAX}
+                        step={0.01}
+                        value={volume}
+                        onChange={(e) => onVolumeChange(Number(e.target.value))}
+                        className="w-full"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-3 cursor-pointer">
+                    <span>
+                        <span className="block text-xs font-bold text-[var(--text-primary)]">Duck under narration</span>
+                        <span className="block text-[10px] text-[var(--text-secondary)]">Lowers the music while someone is speaking</span>
+                    </span>
+                    <input type="checkbox" checked={ducking} onChange={(e) => onDuckingChange(e.target.checked)} />
+                </label>
+            </div>
+
+            {/* Upload */}
+            <div className="p-3 space-y-2 rounded-lg bg-[var(--surface-2)] border border-[var(--border-subtle)]">
+                <input ref={fileInputRef} type="file" accept=".mp3,.m4a,.wav,.ogg,audio/*" className="hidden" onChange={handleFileChange} />
+                {!uploadFile ? (
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="w-full py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] hover:bg-[var(--surface-3)] text-xs font-bold text-[var(--text-secondary)]"
+                    >
+                        Upload your own track
+                    </button>
+                ) : (
+                    <>
+                        <input value={uploadTitle} onChange={(e) => setUploadTitle(e.target.value)} placeholder="Title" maxLength={80} className={inputClass} />
+                        <input value={uploadMoods} onChange={(e) => setUploadMoods(e.target.value)} placeholder="Moods, comma separated (calm, inspiring)" className={inputClass} />
+                        <input value={uploadGenres} onChange={(e) => setUploadGenres(e.target.value)} placeholder="Genres, comma separated (lo-fi, ambient)" className={inputClass} />
+                        <input value={uploadBpm} onChange={(e) => setUploadBpm(e.target.value.replace(/\D/g, ''))} placeholder="BPM (optional)" className={inputClass} />
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setUploadFile(null)}
+                                disabled={isUploading}
+                                className="flex-1 py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] text-xs font-bold text-[var(--text-secondary)] disabled:opacity-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleUpload}
+                                disabled={isUploading || !uploadTitle.trim()}
+                                className="flex-1 py-1.5 rounded-lg bg-black text-white text-xs font-bold disabled:opacity-50"
+                            >
+                                {isUploading ? 'Uploading...' : 'Upload'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import { DbVoice } from '@/lib/supabase';
+import type { VoiceSampleSource } from '@/lib/voicePreprocessing';
+
+export interface VoiceLibraryActions {
+    onUpdateVoice: (voiceId: string, updates: { name?: string; tags?: string[] }) => Promise<DbVoice | null>;
+    onReplaceVoiceSample: (voiceId: string, file: File) => Promise<DbVoice | null>;
+    onRegenerateVoiceEmbedding: (voiceId: string, source?: VoiceSampleSource) => Promise<DbVoice | null>;
+    onGenerateVoicePreview: (voiceId: string) => Promise<DbVoice | null>;
+    onDeleteVoice: (voiceId: string) => void;
+}
+
+interface VoiceLibraryEditorProps extends VoiceLibraryActions {
+    voice: DbVoice;
+}
+
+type BusyAction = 'save' | 'sample' | 'embedding' | 'preview' | null;
+
+const parseTags = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+/**
+ * Rename, tag, re-record, re-clone, preview and delete one voice
+ */
+export const VoiceLibraryEditor: React.FC<VoiceLibraryEditorProps> = ({
+    voice,
+    onUpdateVoice,
+    onReplaceVoiceSample,
+    onRegenerateVoiceEmbedding,
+    onGenerateVoicePreview,
+    onDeleteVoice
+}) => {
+    const [name, setName] = useState(voice.name || '');
+    const [tags, setTags] = useState((voice.tags || []).join(', '));
+    const [busy, setBusy] = useState<BusyAction>(null);
+    const [cloneSource, setCloneSource] = useState<VoiceSampleSource>(voice.cleaned_sample_url ? 'cleaned' : 'original');
+    const sampleInputRef = useRef<HTMLInputElement>(null);
+
+    const isDirty = name.trim() !== (voice.name || '') || parseTags(tags).join(',') !== (voice.tags || []).join(',');
+
+    const run = async (action: BusyAction, task: () => Promise<DbVoice | null>) => {
+        setBusy(action);
+        await task();
+        setBusy(null);
+    };
+
+    const handleSampleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) run('sample', () => onReplaceVoiceSample(voice.id, file));
+    };
+
+    const actionClass = 'flex-1 py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] hover:bg-[var(--surface-3)] text-[10px] font-bold text-[var(--text-secondary)] disabled:opacity-50';
+
+    return (
+        <div className="p-3 space-y-2 rounded-lg bg-[var(--surface-2)] border border-[var(--border-subtle)]" onClick={(e) => e.stopPropagation()}>
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Voice name"
+                maxLength={60}
+                className="w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] text-xs text-[var(--text-primary)]"
+            />
+            <input
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Tags, comma separated (narrator, calm)"
+                className="w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] text-xs text-[var(--text-primary)]"
+            />
+            {isDirty && (
+                <button
+                    onClick={() => run('save', () => onUpdateVoice(voice.id, { name: name.trim(), tags: parseTags(tags) }))}
+                    disabled={busy !== null || !name.trim()}
+                    className="w-full py-1.5 rounded-lg bg-black text-white text-xs font-bold disabled:opacity-50"
+                >
+                    {busy === 'save' ? 'Saving...' : 'Save'}
+                </button>
+            )}
+
+            {/* Original vs cleaned sample, and which one the current clone used */}
+            <div className="space-y-1">
+                <div className="flex items-center justify-between text-[10px] font-bold text-[var(--text-secondary)]">
+                    <span>Samples</span>
+                    {voice.embedding_source && <span>Cloned from {voice.embedding_source}</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="w-12 text-[10px] text-[var(--text-secondary)]">Original</span>
+                    <audio src={voice.voice_sample_url} controls preload="none" className="flex-1 h-8" />
+                </div>
+                {voice.cleaned_sample_url && (
+                    <div className="flex items-center gap-2">
+                        <span className="w-12 text-[10px] text-[var(--text-secondary)]">Cleaned</span>
+                        <audio src={voice.cleaned_sample_url} controls preload="none" className="flex-1 h-8" />
+                    </div>
+                )}
+                <select
+                    value={cloneSource}
+                    onChange={(e) => setCloneSource(e.target.value as VoiceSampleSource)}
+                    className="w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-1)] text-[10px] text-[var(--text-primary)]"
+                >
+                    <option value="cleaned">Re-clone from cleaned sample{voice.cleaned_sample_url ? '' : ' (clean first)'}</option>
+                    <option value="original">Re-clone from original sample</option>
+                </select>
+            </div>
+
+            <div className="flex gap-1">
+                <button onClick={() => sampleInputRef.current?.click()} disabled={busy !== null} className={actionClass} title="Replace the sample with a new recording">
+                    {busy === 'sample' ? 'Uploading...' : 'Re-record'}
+                </button>
+                <button onClick={() => run('embedding', () => onRegenerateVoiceEmbedding(voice.id, cloneSource))} disabled={busy !== null} className={actionClass} title={`Clone the voice again from its ${cloneSource} sample`}>
+                    {busy === 'embedding' ? 'Cloning...' : 'Re-clone'}
+                </button>
+                <button onClick={() => run('preview', () => onGenerateVoicePreview(voice.id))} disabled={busy !== null} className={actionClass} title="Generate a standard preview clip">
+                    {busy === 'preview' ? 'Generating...' : voice.preview_url ? 'New Preview' : 'Preview'}
+                </button>
+                <button
+                    onClick={() => onDeleteVoice(voice.id)}
+                    disabled={busy !== null}
+                    className="px-2 py-1.5 rounded-lg border border-red-200 text-[10px] font-bold text-red-500 hover:bg-red-50 disabled:opacity-50"
+                >
+                    Delete
+                </button>
+            </div>
+            <input ref={sampleInputRef} type="file" accept="audio/*" onChange={handleSampleChange} className="hidden" />
+        </div>
+    );
+};
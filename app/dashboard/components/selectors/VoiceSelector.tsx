@@ -1,8 +1,9 @@
 import React, { useRef, useState } from 'react';
 import { MicIcon, PlayIcon, PauseIcon } from '../icons';
 import { DbVoice } from '@/lib/supabase';
+import { VoiceLibraryActions, VoiceLibraryEditor } from './VoiceLibraryEditor';
 
-interface VoiceSelectorProps {
+interface VoiceSelectorProps extends VoiceLibraryActions {
     allVoices: DbVoice[];
     savedVoice: DbVoice | null;
     isRecording: boolean;
@@ -21,10 +22,16 @@ export const VoiceSelector: React.FC<VoiceSelectorProps> = ({
     handleVoiceUpload,
     onVoiceSelect,
     hasClonedVoice,
-    voiceFile
+    voiceFile,
+    ...libraryActions
 }) => {
     const [showDropdown, setShowDropdown] = useState(false);
     const [playingVoiceId, setPlayingVoiceId] = useState<string | null>(null);
+    const [editingVoiceId, setEditingVoiceId] = useState<string | null>(null);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+    const allTags = Array.from(new Set(allVoices.flatMap(v => v.tags || []))).sort();
+    const visibleVoices = tagFilter ? allVoices.filter(v => v.tags?.includes(tagFilter)) : allVoices;
     const audioRef = useRef<HTMLAudioElement | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -67,25 +74,56 @@ export const VoiceSelector: React.FC<VoiceSelectorProps> = ({
                         {allVoices.length > 0 && (
                             <>
                                 <p className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-[var(--text-tertiary)]">Your Voices</p>
-                                {allVoices.map((voice) => (
-                                    <div key={voice.id}
-                                        onClick={() => { onVoiceSelect(voice); setShowDropdown(false); }}
-                                        className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-[var(--radius-md)] text-left transition-all cursor-pointer group ${voice.is_active ? 'bg-[var(--brand-primary)]/30 border border-[var(--brand-primary)]' : 'hover:bg-[var(--surface-3)]'}`}
-                                    >
-                                        <div className="w-8 h-8 rounded-full flex items-center justify-center bg-black text-[var(--brand-primary)] text-xs shrink-0"><MicIcon /></div>
-                                        <div className="flex-1 min-w-0"><p className="text-sm font-bold truncate text-[var(--text-primary)]">{voice.name || 'My Voice'}</p></div>
+                                {allTags.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 px-3 pb-2">
+                                        {allTags.map(tag => (
+                                            <button
+                                                key={tag}
+                                                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                                                className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${tagFilter === tag ? 'bg-black text-white border-black' : 'border-[var(--border-subtle)] text-[var(--text-secondary)]'}`}
+                                            >
+                                                {tag}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {visibleVoices.map((voice) => (
+                                    <React.Fragment key={voice.id}>
+                                        <div
+                                            onClick={() => { onVoiceSelect(voice); setShowDropdown(false); }}
+                                            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-[var(--radius-md)] text-left transition-all cursor-pointer group ${voice.is_active ? 'bg-[var(--brand-primary)]/30 border border-[var(--brand-primary)]' : 'hover:bg-[var(--surface-3)]'}`}
+                                        >
+                                            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-black text-[var(--brand-primary)] text-xs shrink-0"><MicIcon /></div>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm font-bold truncate text-[var(--text-primary)]">{voice.name || 'My Voice'}</p>
+                                                {voice.tags && voice.tags.length > 0 && (
+                                                    <p className="text-[10px] truncate text-[var(--text-tertiary)]">{voice.tags.join(' · ')}</p>
+                                                )}
+                                            </div>
+
+                                            {voice.preview_url && (
+                                                <button
+                                                    onClick={(e) => handlePlayVoice(e, voice.preview_url!, voice.id)}
+                                                    className={`p-1.5 rounded-full hover:bg-black/10 transition-colors ${playingVoiceId === voice.id ? 'text-black' : 'text-[var(--text-tertiary)] group-hover:text-[var(--text-secondary)]'}`}
+                                                >
+                                                    {playingVoiceId === voice.id ? <PauseIcon /> : <PlayIcon />}
+                                                </button>
+                                            )}
 
-                                        {voice.preview_url && (
                                             <button
-                                                onClick={(e) => handlePlayVoice(e, voice.preview_url!, voice.id)}
-                                                className={`p-1.5 rounded-full hover:bg-black/10 transition-colors ${playingVoiceId === voice.id ? 'text-black' : 'text-[var(--text-tertiary)] group-hover:text-[var(--text-secondary)]'}`}
+                                                onClick={(e) => { e.stopPropagation(); setEditingVoiceId(editingVoiceId === voice.id ? null : voice.id); }}
+                                                className="p-1.5 rounded-full hover:bg-black/10 text-[var(--text-tertiary)] group-hover:text-[var(--text-secondary)]"
+                                                title="Manage voice"
                                             >
-                                                {playingVoiceId === voice.id ? <PauseIcon /> : <PlayIcon />}
+                                                <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor"><circle cx="5" cy="12" r="2" /><circle cx="12" cy="12" r="2" /><circle cx="19" cy="12" r="2" /></svg>
                                             </button>
-                                        )}
 
-                                        {voice.is_active && <span className="text-black">✓</span>}
-                                    </div>
+                                            {voice.is_active && <span className="text-black">✓</span>}
+                                        </div>
+                                        {editingVoiceId === voice.id && (
+                                            <VoiceLibraryEditor key={voice.updated_at || voice.id} voice={voice} {...libraryActions} />
+                                        )}
+                                    </React.Fragment>
                                 ))}
                                 <div className="my-2 h-px bg-[var(--border-subtle)]" />
                             </>
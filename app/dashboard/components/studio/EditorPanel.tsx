@@ -16,7 +16,10 @@ interface EditorPanelProps {
     isProcessing: boolean;
     processingMessage: string;
     processingStep: number;
-    sceneProgress?: { totalScenes: number; currentSceneIndex: number; processedScenesCount: number; isRendering: boolean } | null;
+    sceneProgress?: { totalScenes: number; currentSceneIndex: number; processedScenesCount: number; completedScenes?: number[]; activeScenes?: number[]; isRendering: boolean } | null;
+    // Cancel the running job; omitted when there is no job to cancel yet
+    onCancelVideo?: () => void;
+    isCancelling?: boolean;
 
     // Context / Config Data (For Pills)
     voiceName: string;
@@ -58,6 +61,8 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
     processingMessage,
     processingStep,
     sceneProgress,
+    onCancelVideo,
+    isCancelling,
     voiceName,
     avatarUrl,
     aspectRatio,
@@ -187,8 +192,9 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
                             {sceneProgress && sceneProgress.totalScenes > 0 ? (
                                 <div className="space-y-2 mb-4">
                                     {Array.from({ length: sceneProgress.totalScenes }, (_, i) => {
-                                        const isCompleted = i < sceneProgress.processedScenesCount;
-                                        const isCurrent = i === sceneProgress.currentSceneIndex && !sceneProgress.isRendering;
+                                        // Scenes run in parallel, so prefer the indexes over the count
+                                        const isCompleted = sceneProgress.completedScenes ? sceneProgress.completedScenes.includes(i) : i < sceneProgress.processedScenesCount;
+                                        const isCurrent = !isCompleted && !sceneProgress.isRendering && (sceneProgress.activeScenes?.length ? sceneProgress.activeScenes.includes(i) : i === sceneProgress.currentSceneIndex);
                                         return (
                                             <div
                                                 key={i}
@@ -240,6 +246,16 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
                             )}
 
                             <p className="font-medium text-[var(--text-secondary)] text-center text-sm">{processingMessage}</p>
+
+                            {onCancelVideo && (
+                                <button
+                                    onClick={onCancelVideo}
+                                    disabled={isCancelling}
+                                    className="mt-4 w-full py-2 rounded-lg border-2 border-black font-bold text-sm bg-white hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isCancelling ? 'Cancelling...' : 'Cancel video'}
+                                </button>
+                            )}
                         </motion.div>
                     )}
 
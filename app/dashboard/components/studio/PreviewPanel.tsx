@@ -3,6 +3,23 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { DbVoice, DbAvatar } from '@/lib/supabase';
 import { MicIcon, PlayIcon, ImageIcon, SparklesIcon, VideoIcon, DownloadIcon } from '../icons';
 import { CREDIT_COSTS, estimateTotalCredits } from '@/lib/credits';
+import { CaptionStyleSelector } from '../selectors/CaptionStyleSelector';
+import { SavedCaptionStyle } from '@/lib/apiClient';
+import { CustomCaptionStyleInput } from '@/lib/captionStyles';
+import { SceneVoiceSettings } from '@/lib/sceneVoice';
+import { SceneVoiceControls } from './SceneVoiceControls';
+import { SceneSfxControls } from './SceneSfxControls';
+import { SceneTransitionSelect } from './SceneTransitionSelect';
+import { SceneKenBurnsSelect } from './SceneKenBurnsSelect';
+import { AssetThumbnail } from '../AssetThumbnail';
+import { SceneClipAudioToggle } from './SceneClipAudioToggle';
+import type { SceneSfxSettings, SoundEffect } from '@/lib/soundEffects';
+import type { SceneTransitionSettings } from '@/lib/sceneTransitions';
+import type { SceneKenBurnsSettings } from '@/lib/kenBurns';
+import { isVideoAssetUrl, type SceneClipSettings } from '@/lib/clipAssets';
+import { VoiceLibraryActions, VoiceLibraryEditor } from '../selectors/VoiceLibraryEditor';
+import { MusicLibraryActions, MusicLibraryPicker } from '../selectors/MusicLibraryPicker';
+import type { MusicTrack } from '@/lib/backgroundMusic';
 
 
 // Define the modes this panel can be in
@@ -34,6 +51,7 @@ interface PreviewPanelProps {
 
     // Voice
     allVoices: DbVoice[];
+    voiceLibrary: VoiceLibraryActions;
     savedVoice: DbVoice | null;
     isRecording: boolean;
     startRecording: () => void;
@@ -58,7 +76,10 @@ interface PreviewPanelProps {
     setInputText?: (text: string) => void;
     onEnhance?: () => void;
     isEnhancing?: boolean;
-    scenes?: Array<{ text: string; visual?: string }>;
+    scenes?: Array<{ text: string; visual?: string } & SceneVoiceSettings & SceneSfxSettings & SceneTransitionSettings & SceneKenBurnsSettings & SceneClipSettings>;
+    // Per-scene voice, speed, pause and style (faceless only)
+    onUpdateScene?: (index: number, changes: SceneVoiceSettings & SceneSfxSettings & SceneTransitionSettings & SceneKenBurnsSettings & SceneClipSettings) => void;
+    soundEffects?: SoundEffect[];
     onRegenerateScenes?: () => void;
     isRegeneratingScenes?: boolean;
 
@@ -67,10 +88,19 @@ interface PreviewPanelProps {
     setEnableCaptions: (enabled: boolean) => void;
     captionStyle: string;
     setCaptionStyle: (style: string) => void;
+    customCaptionStyles: SavedCaptionStyle[];
+    onSaveCaptionStyle: (name: string, definition: CustomCaptionStyleInput) => Promise<SavedCaptionStyle | null>;
+    onDeleteCaptionStyle: (id: string) => void;
+    onUploadCaptionFont: (file: File) => Promise<{ url: string; family: string } | null>;
 
     // Music
     enableBackgroundMusic: boolean;
     setEnableBackgroundMusic: (enabled: boolean) => void;
+    musicTracks: MusicTrack[];
+    selectedMusicTrackId: string | null;
+    musicVolume: number;
+    musicDucking: boolean;
+    musicLibrary: MusicLibraryActions;
 
     // Credit Estimation (for storyboard preview)
     creditBalance?: number | null;
@@ -91,7 +121,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
     savedAvatars, onSelectAvatar,
 
     // Voice
-    allVoices, savedVoice, onVoiceSelect,
+    allVoices, savedVoice, onVoiceSelect, voiceLibrary,
     isRecording, startRecording, stopRecording, handleVoiceUpload,
     voiceFile, onClearVoice, onConfirmVoice, isConfirmingVoice,
 
@@ -104,35 +134,25 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
     onEnhance,
     isEnhancing,
     scenes,
+    onUpdateScene,
+    soundEffects = [],
     onRegenerateScenes,
     isRegeneratingScenes,
 
     // Captions
     enableCaptions, setEnableCaptions,
     captionStyle, setCaptionStyle,
+    customCaptionStyles, onSaveCaptionStyle, onDeleteCaptionStyle, onUploadCaptionFont,
     enableBackgroundMusic, setEnableBackgroundMusic,
+    musicTracks, selectedMusicTrackId, musicVolume, musicDucking, musicLibrary,
 
     // Credit Estimation
     creditBalance, faceImageUrl
 }) => {
     const [playingVoice, setPlayingVoice] = useState<string | null>(null);
+    const [editingVoiceId, setEditingVoiceId] = useState<string | null>(null);
     const audioRef = React.useRef<HTMLAudioElement | null>(null);
 
-    // Music State
-    const musicAudioRef = useRef<HTMLAudioElement | null>(null);
-    const [isMusicPlaying, setIsMusicPlaying] = useState(false);
-
-    // Stop music when switching modes or disabling
-    useEffect(() => {
-        if (previewMode !== 'music' || !enableBackgroundMusic) {
-            if (musicAudioRef.current) {
-                musicAudioRef.current.pause();
-                musicAudioRef.current.currentTime = 0;
-            }
-            setIsMusicPlaying(false);
-        }
-    }, [previewMode, enableBackgroundMusic]);
-
     const togglePreview = (url: string | undefined, id: string) => {
         if (!url) return;
 
@@ -250,10 +270,10 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                         </div>
                                         <div>
                                             <h4 className="font-bold text-blue-800 dark:text-blue-200 text-sm mb-1">
-                                                Now let's clone your voice!
+                                                Now let&apos;s clone your voice!
                                             </h4>
                                             <p className="text-xs text-blue-700 dark:text-blue-300">
-                                                Record or upload a voice sample (10+ seconds) and we'll create your personal AI voice. <strong>This is a one-time setup.</strong>
+                                                Record or upload a voice sample (10+ seconds) and we&apos;ll create your personal AI voice. <strong>This is a one-time setup.</strong>
                                             </p>
                                         </div>
                                     </div>
@@ -342,38 +362,57 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                 {allVoices.map(voice => {
                                     const isPlaying = playingVoice === voice.id;
                                     const isSelected = savedVoice?.id === voice.id;
+                                    const isEditing = editingVoiceId === voice.id;
                                     return (
-                                        <div
-                                            key={voice.id}
-                                            onClick={() => onVoiceSelect(voice)}
-                                            className={`group flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-all ${isSelected ? 'border-black bg-black text-white shadow-md' : 'border-transparent hover:bg-[var(--surface-2)] text-[var(--text-primary)]'}`}
-                                        >
-                                            {/* Icon */}
-                                            <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-xs border flex-shrink-0 ${isSelected ? 'bg-[var(--brand-primary)] text-black border-black' : 'bg-[var(--surface-3)] text-[var(--text-secondary)] border-transparent'}`}>
-                                                {voice.name?.[0] || 'V'}
-                                            </div>
+                                        <div key={voice.id} className="space-y-1">
+                                            <div
+                                                onClick={() => onVoiceSelect(voice)}
+                                                className={`group flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-all ${isSelected ? 'border-black bg-black text-white shadow-md' : 'border-transparent hover:bg-[var(--surface-2)] text-[var(--text-primary)]'}`}
+                                            >
+                                                {/* Icon */}
+                                                <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-xs border flex-shrink-0 ${isSelected ? 'bg-[var(--brand-primary)] text-black border-black' : 'bg-[var(--surface-3)] text-[var(--text-secondary)] border-transparent'}`}>
+                                                    {voice.name?.[0] || 'V'}
+                                                </div>
 
-                                            {/* Name */}
-                                            <div className="flex-1 min-w-0">
-                                                <div className="text-xs font-bold truncate">{voice.name}</div>
-                                                <div className={`text-[10px] truncate ${isSelected ? 'text-gray-400' : 'text-[var(--text-tertiary)]'}`}>Custom Voice</div>
-                                            </div>
+                                                {/* Name */}
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-xs font-bold truncate">{voice.name}</div>
+                                                    <div className={`text-[10px] truncate ${isSelected ? 'text-gray-400' : 'text-[var(--text-tertiary)]'}`}>
+                                                        {voice.tags && voice.tags.length > 0 ? voice.tags.join(' · ') : 'Custom Voice'}
+                                                    </div>
+                                                </div>
 
-                                            {/* Play Button (RIGHT SIDE) */}
-                                            <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    togglePreview(voice.preview_url, voice.id);
-                                                }}
-                                                className={`w-8 h-8 flex items-center justify-center rounded-full transition-all flex-shrink-0 ${isSelected ? 'hover:bg-gray-800 text-gray-400 hover:text-white' : 'hover:bg-gray-200 text-gray-400 hover:text-black'}`}
-                                                title="Preview Voice"
-                                            >
-                                                {isPlaying ? (
-                                                    <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>
-                                                ) : (
-                                                    <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 3 19 12 5 21 5 3"></polygon></svg>
-                                                )}
-                                            </button>
+                                                {/* Play Button (RIGHT SIDE) */}
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        togglePreview(voice.preview_url, voice.id);
+                                                    }}
+                                                    className={`w-8 h-8 flex items-center justify-center rounded-full transition-all flex-shrink-0 ${isSelected ? 'hover:bg-gray-800 text-gray-400 hover:text-white' : 'hover:bg-gray-200 text-gray-400 hover:text-black'}`}
+                                                    title="Preview Voice"
+                                                >
+                                                    {isPlaying ? (
+                                                        <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>
+                                                    ) : (
+                                                        <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 3 19 12 5 21 5 3"></polygon></svg>
+                                                    )}
+                                                </button>
+
+                                                {/* Manage Button */}
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        setEditingVoiceId(isEditing ? null : voice.id);
+                                                    }}
+                                                    className={`w-8 h-8 flex items-center justify-center rounded-full transition-all flex-shrink-0 ${isSelected ? 'hover:bg-gray-800 text-gray-400 hover:text-white' : 'hover:bg-gray-200 text-gray-400 hover:text-black'}`}
+                                                    title="Manage Voice"
+                                                >
+                                                    <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><circle cx="5" cy="12" r="2" /><circle cx="12" cy="12" r="2" /><circle cx="19" cy="12" r="2" /></svg>
+                                                </button>
+                                            </div>
+                                            {isEditing && (
+                                                <VoiceLibraryEditor key={voice.updated_at || voice.id} voice={voice} {...voiceLibrary} />
+                                            )}
                                         </div>
                                     )
                                 })}
@@ -402,10 +441,10 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                         </div>
                                         <div>
                                             <h4 className="font-bold text-purple-800 dark:text-purple-200 text-sm mb-1">
-                                                Let's get you studio ready!
+                                                Let&apos;s get you studio ready!
                                             </h4>
                                             <p className="text-xs text-purple-700 dark:text-purple-300">
-                                                Upload your photo and we'll transform it into a professional AI-ready avatar. <strong>This is a one-time setup.</strong>
+                                                Upload your photo and we&apos;ll transform it into a professional AI-ready avatar. <strong>This is a one-time setup.</strong>
                                             </p>
                                         </div>
                                     </div>
@@ -595,7 +634,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                 Upload
                                 <input
                                     type="file"
-                                    accept="image/*"
+                                    accept="image/*,video/mp4,video/webm,video/quicktime"
                                     multiple
                                     className="hidden"
                                     onChange={onUploadAsset}
@@ -617,7 +656,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                 <div className="grid grid-cols-2 gap-3">
                                     {collectedAssets.map((asset, idx) => (
                                         <div key={idx} className="relative aspect-video rounded-xl overflow-hidden border-2 border-gray-200 hover:border-black transition-colors group">
-                                            <img
+                                            <AssetThumbnail
                                                 src={asset.thumbnail || asset.url}
                                                 className="w-full h-full object-cover"
                                             />
@@ -648,7 +687,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                             <span className="text-white text-xl">🖼️</span>
                                         </div>
                                         <h4 className="font-bold text-orange-800 dark:text-orange-200 text-sm mb-2">
-                                            Let's add some visuals!
+                                            Let&apos;s add some visuals!
                                         </h4>
                                         <p className="text-xs text-orange-700 dark:text-orange-300 mb-4">
                                             Faceless videos need images. Upload your own or use <strong>Collect</strong> to find images from the web.
@@ -658,10 +697,10 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
                                                     <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                                                 </svg>
-                                                Upload Images
+                                                Upload Images or Clips
                                                 <input
                                                     type="file"
-                                                    accept="image/*"
+                                                    accept="image/*,video/mp4,video/webm,video/quicktime"
                                                     multiple
                                                     className="hidden"
                                                     onChange={onUploadAsset}
@@ -804,7 +843,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                                 {/* Thumbnail */}
                                                 <div className="flex-shrink-0 w-16 h-16 rounded-lg overflow-hidden bg-gray-100 border border-gray-200 relative">
                                                     {thumbnailUrl ? (
-                                                        <img src={thumbnailUrl} alt={`Scene ${idx + 1}`} className="w-full h-full object-cover" />
+                                                        <AssetThumbnail src={thumbnailUrl} alt={`Scene ${idx + 1}`} className="w-full h-full object-cover" />
                                                     ) : (
                                                         <div className="w-full h-full flex items-center justify-center text-gray-400">
                                                             <ImageIcon className="w-6 h-6" />
@@ -826,6 +865,40 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                                     <p className="text-xs text-[var(--text-primary)] line-clamp-2 leading-relaxed">
                                                         {scene.text}
                                                     </p>
+                                                    {idx > 0 && onUpdateScene && (
+                                                        <SceneTransitionSelect
+                                                            settings={scene}
+                                                            onChange={(changes) => onUpdateScene(idx, changes)}
+                                                        />
+                                                    )}
+                                                    {/* Face videos alternate face/asset scenes; only the assets (2, 4, ...) have images */}
+                                                    {(!isFaceMode || idx % 2 === 1) && onUpdateScene && (
+                                                        <SceneKenBurnsSelect
+                                                            settings={scene}
+                                                            onChange={(changes) => onUpdateScene(idx, changes)}
+                                                        />
+                                                    )}
+                                                    {!isFaceMode && asset && isVideoAssetUrl(asset.url) && onUpdateScene && (
+                                                        <SceneClipAudioToggle
+                                                            settings={scene}
+                                                            onChange={(changes) => onUpdateScene(idx, changes)}
+                                                        />
+                                                    )}
+                                                    {!isFaceMode && onUpdateScene && (
+                                                        <SceneVoiceControls
+                                                            settings={scene}
+                                                            allVoices={allVoices}
+                                                            onChange={(changes) => onUpdateScene(idx, changes)}
+                                                        />
+                                                    )}
+                                                    {onUpdateScene && (
+                                                        <SceneSfxControls
+                                                            settings={scene}
+                                                            soundEffects={soundEffects}
+                                                            hasCuts={!isFaceMode}
+                                                            onChange={(changes) => onUpdateScene(idx, changes)}
+                                                        />
+                                                    )}
                                                 </div>
                                             </div>
                                         );
@@ -850,18 +923,12 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                             <h3 className="font-bold text-lg text-[var(--text-primary)]">Captions</h3>
                         </div>
 
-                        <div className="flex-1 p-6 custom-scrollbar">
+                        <div className="flex-1 p-6 overflow-y-auto custom-scrollbar">
                             <div className="flex flex-col gap-4">
                                 {/* Main Toggle Card */}
                                 <div
                                     className={`flex items-center justify-between p-4 rounded-xl border-2 transition-all cursor-pointer ${enableCaptions ? 'border-black bg-[var(--surface-1)] shadow-[4px_4px_0px_#000]' : 'border-gray-200 bg-gray-50 hover:border-gray-300'}`}
-                                    onClick={() => {
-                                        const newState = !enableCaptions;
-                                        setEnableCaptions(newState);
-                                        if (newState) {
-                                            setCaptionStyle('bold-classic'); // Enforce Bangers style
-                                        }
-                                    }}
+                                    onClick={() => setEnableCaptions(!enableCaptions)}
                                 >
                                     <div className="flex items-center gap-4">
                                         <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-colors ${enableCaptions ? 'bg-[var(--brand-primary)] text-black' : 'bg-gray-200 text-gray-400'}`}>
@@ -874,7 +941,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                         <div>
                                             <h4 className="font-bold text-[var(--text-primary)] mb-0.5">Dynamic Captions</h4>
                                             <p className="text-xs text-[var(--text-secondary)]">
-                                                {enableCaptions ? 'Enabled (Pop Style)' : 'Add engaging captions to your video'}
+                                                {enableCaptions ? 'Enabled - pick a style below' : 'Add engaging captions to your video'}
                                             </p>
                                         </div>
                                     </div>
@@ -885,30 +952,16 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                     </div>
                                 </div>
 
-                                {/* Preview Visual (Only when enabled) */}
+                                {/* Style Picker (Only when enabled) */}
                                 {enableCaptions && (
-                                    <div className="mt-2 p-8 bg-black/90 rounded-xl border border-gray-800 flex items-center justify-center aspect-video relative overflow-hidden">
-                                        <div className="absolute inset-0 bg-gradient-to-br from-purple-500/20 to-blue-500/20" />
-                                        <div className="text-center z-10 animate-in zoom-in duration-300">
-                                            <span
-                                                className="text-4xl font-black text-white leading-tight block transform -rotate-2"
-                                                style={{
-                                                    fontFamily: '"Impact", "Arial Black", sans-serif',
-                                                    textShadow: '3px 3px 0 #000, -1px -1px 0 #000'
-                                                }}
-                                            >
-                                                <span className="text-[#FFD700]">DYNAMIC</span> CAPTIONS
-                                            </span>
-                                            <span
-                                                className="text-xl font-bold text-white mt-2 block"
-                                                style={{
-                                                    textShadow: '2px 2px 0 #000'
-                                                }}
-                                            >
-                                                ARE ENABLED!
-                                            </span>
-                                        </div>
-                                    </div>
+                                    <CaptionStyleSelector
+                                        captionStyle={captionStyle}
+                                        setCaptionStyle={setCaptionStyle}
+                                        customStyles={customCaptionStyles}
+                                        onSaveStyle={onSaveCaptionStyle}
+                                        onDeleteStyle={onDeleteCaptionStyle}
+                                        onUploadFont={onUploadCaptionFont}
+                                    />
                                 )}
                             </div>
                         </div>
@@ -951,56 +1004,15 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                     </div>
                                 </div>
 
-                                {/* Preview Card */}
+                                {/* Track picker, level and ducking */}
                                 {enableBackgroundMusic && (
-                                    <div className="mt-2 p-6 bg-[#0F172A] rounded-xl border border-gray-800 text-white shadow-lg animate-in zoom-in duration-200">
-                                        <div className="flex items-center gap-5">
-                                            {/* Album Art */}
-                                            <div className="w-20 h-20 rounded-lg bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shrink-0 shadow-inner">
-                                                <span className="text-4xl filter drop-shadow-md">🎵</span>
-                                            </div>
-
-                                            {/* Info & Controls */}
-                                            <div className="flex-1 min-w-0">
-                                                <h4 className="font-bold text-lg mb-0.5 text-white">Feeling Blue</h4>
-                                                <p className="text-xs text-indigo-200 mb-3">Upbeat • Pop • Energetic</p>
-
-                                                <div className="flex items-center gap-3">
-                                                    <button
-                                                        onClick={(e) => {
-                                                            e.stopPropagation();
-                                                            const audio = musicAudioRef.current;
-                                                            if (!audio) return;
-
-                                                            if (isMusicPlaying) {
-                                                                audio.pause();
-                                                                setIsMusicPlaying(false);
-                                                            } else {
-                                                                audio.play().catch(e => console.error("Play error:", e));
-                                                                setIsMusicPlaying(true);
-                                                            }
-                                                        }}
-                                                        className="w-10 h-10 rounded-full bg-white text-indigo-900 flex items-center justify-center hover:scale-105 active:scale-95 transition-all shadow shadow-indigo-500/20"
-                                                    >
-                                                        {isMusicPlaying ? (
-                                                            <svg width="14" height="14" fill="currentColor" viewBox="0 0 24 24"><path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" /></svg>
-                                                        ) : (
-                                                            <PlayIcon className="w-5 h-5 ml-1" />
-                                                        )}
-                                                    </button>
-
-                                                    {/* Audio Element */}
-                                                    <audio
-                                                        ref={musicAudioRef}
-                                                        src="/Feeling Blue.mp3"
-                                                        onEnded={() => setIsMusicPlaying(false)}
-                                                        onPause={() => setIsMusicPlaying(false)}
-                                                        onPlay={() => setIsMusicPlaying(true)}
-                                                    />
-                                                </div>
-                                            </div>
-                                        </div>
-                                    </div>
+                                    <MusicLibraryPicker
+                                        tracks={musicTracks}
+                                        selectedTrackId={selectedMusicTrackId}
+                                        volume={musicVolume}
+                                        ducking={musicDucking}
+                                        {...musicLibrary}
+                                    />
                                 )}
                             </div>
                         </div>
@@ -2,6 +2,9 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { DbVoice, DbAvatar } from '@/lib/supabase';
 import { MicIcon, PlayIcon, ImageIcon, SparklesIcon, VideoIcon } from '../icons';
+import { CaptionStyleSelector } from '../selectors/CaptionStyleSelector';
+import { SavedCaptionStyle } from '@/lib/apiClient';
+import { CustomCaptionStyleInput } from '@/lib/captionStyles';
 
 interface PropertiesPanelProps {
     // Core
@@ -13,6 +16,12 @@ interface PropertiesPanelProps {
     setAspectRatio: (ar: '9:16' | '16:9' | '1:1') => void;
     enableCaptions: boolean;
     setEnableCaptions: (v: boolean) => void;
+    captionStyle: string;
+    setCaptionStyle: (style: string) => void;
+    customCaptionStyles: SavedCaptionStyle[];
+    onSaveCaptionStyle: (name: string, definition: CustomCaptionStyleInput) => Promise<SavedCaptionStyle | null>;
+    onDeleteCaptionStyle: (id: string) => void;
+    onUploadCaptionFont: (file: File) => Promise<{ url: string; family: string } | null>;
     enableBackgroundMusic: boolean;
     setEnableBackgroundMusic: (v: boolean) => void;
     handleCreateVideo: () => void;
@@ -56,6 +65,8 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     duration, setDuration,
     aspectRatio, setAspectRatio,
     enableCaptions, setEnableCaptions,
+    captionStyle, setCaptionStyle,
+    customCaptionStyles, onSaveCaptionStyle, onDeleteCaptionStyle, onUploadCaptionFont,
     enableBackgroundMusic, setEnableBackgroundMusic,
     handleCreateVideo, canGenerate, isProcessing,
 
@@ -293,6 +304,21 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                             </div>
                         </div>
                     )}
+
+                    {/* Caption Style */}
+                    {enableCaptions && (
+                        <div className="space-y-3">
+                            <div className="text-xs font-bold text-[var(--text-tertiary)] uppercase tracking-wider">Caption Style</div>
+                            <CaptionStyleSelector
+                                captionStyle={captionStyle}
+                                setCaptionStyle={setCaptionStyle}
+                                customStyles={customCaptionStyles}
+                                onSaveStyle={onSaveCaptionStyle}
+                                onDeleteStyle={onDeleteCaptionStyle}
+                                onUploadFont={onUploadCaptionFont}
+                            />
+                        </div>
+                    )}
                 </div>
             </div>
         );
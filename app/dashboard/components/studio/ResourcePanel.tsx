@@ -6,6 +6,10 @@ import { UserButton, useUser } from '@clerk/nextjs';
 import { motion, AnimatePresence } from 'framer-motion';
 import { DbVideo } from '@/lib/supabase';
 import { ClockIcon, PlusIcon } from '../icons';
+import { CaptionDownloadMenu } from '../CaptionDownloadMenu';
+import { DubVideoMenu } from '../DubVideoMenu';
+import { CaptionFormat } from '@/lib/captionExport';
+import { DubLanguage } from '@/lib/dubbing';
 import { CreditsDisplay } from '../CreditsDisplay';
 import SocialBonusCard from '../SocialBonusCard';
 
@@ -13,6 +17,9 @@ interface ResourcePanelProps {
     videoHistory: DbVideo[];
     onSelectVideo: (video: DbVideo) => void;
     onDeleteVideo: (id: string) => void;
+    onDownloadCaptions: (id: string, format: CaptionFormat) => void;
+    onDubVideo: (id: string, language: DubLanguage) => void;
+    onEditVideo: (video: DbVideo) => void;
     onNewProject: () => void;
 }
 
@@ -20,6 +27,9 @@ export const ResourcePanel: React.FC<ResourcePanelProps> = ({
     videoHistory,
     onSelectVideo,
     onDeleteVideo,
+    onDownloadCaptions,
+    onDubVideo,
+    onEditVideo,
     onNewProject
 }) => {
     const { user } = useUser();
@@ -71,6 +81,32 @@ export const ResourcePanel: React.FC<ResourcePanelProps> = ({
                                 <h4 className="font-medium text-sm text-[var(--text-primary)] truncate">
                                     {video.topic || video.script?.substring(0, 30) || "Untitled Project"}
                                 </h4>
+                                {video.language && (
+                                    <span className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-wider">{video.language} dub</span>
+                                )}
+                            </div>
+
+                            {/* Edit, Caption Download and Dub (Hidden by default, visible on hover) */}
+                            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                {video.job_id && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onEditVideo(video); }}
+                                        className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                                        title="Edit Project"
+                                    >
+                                        <svg width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M12 20h9M16.5 3.5a2.121 2.121 0 013 3L7 19l-4 1 1-4L16.5 3.5z" /></svg>
+                                    </button>
+                                )}
+                                {video.mode === 'faceless' && (
+                                    <DubVideoMenu
+                                        onDub={(language) => onDubVideo(video.id, language)}
+                                        className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                                    />
+                                )}
+                                <CaptionDownloadMenu
+                                    onDownload={(format) => onDownloadCaptions(video.id, format)}
+                                    className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                                />
                             </div>
 
                             {/* Delete Action (Hidden by default, visible on hover) */}
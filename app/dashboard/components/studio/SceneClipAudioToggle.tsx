@@ -0,0 +1,19 @@
+import React from 'react';
+import { SceneClipSettings } from '@/lib/clipAssets';
+
+interface SceneClipAudioToggleProps {
+    settings: SceneClipSettings;
+    onChange: (changes: SceneClipSettings) => void;
+}
+
+// Keep the original sound of a scene's video clips under the narration
+export const SceneClipAudioToggle: React.FC<SceneClipAudioToggleProps> = ({ settings, onChange }) => (
+    <label className="mt-2 flex items-center gap-2 text-[10px] font-bold text-[var(--text-secondary)] cursor-pointer">
+        <input
+            type="checkbox"
+            checked={settings.clipAudio === 'keep'}
+            onChange={(e) => onChange({ clipAudio: e.target.checked ? 'keep' : undefined })}
+        />
+        Keep clip audio
+    </label>
+);
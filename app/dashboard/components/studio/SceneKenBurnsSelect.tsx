@@ -0,0 +1,29 @@
+import React from 'react';
+import { KEN_BURNS_CHOICES, KEN_BURNS_EFFECTS, SceneKenBurnsSettings } from '@/lib/kenBurns';
+
+interface SceneKenBurnsSelectProps {
+    settings: SceneKenBurnsSettings;
+    onChange: (changes: SceneKenBurnsSettings) => void;
+}
+
+// Ken Burns motion on a scene's images; Default keeps the rotation by scene
+export const SceneKenBurnsSelect: React.FC<SceneKenBurnsSelectProps> = ({ settings, onChange }) => (
+    <label className="mt-2 flex items-center gap-2 text-[10px] font-bold text-[var(--text-secondary)]">
+        Motion
+        <select
+            value={settings.kenBurns || ''}
+            onChange={(e) => {
+                const kenBurns = e.target.value as SceneKenBurnsSettings['kenBurns'] | '';
+                onChange({ kenBurns: kenBurns || undefined });
+            }}
+            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs font-normal"
+        >
+            <option value="">Default</option>
+            {KEN_BURNS_CHOICES.map(choice => (
+                <option key={choice} value={choice}>
+                    {choice === 'auto' ? 'Auto (follow subject)' : KEN_BURNS_EFFECTS[choice].label}
+                </option>
+            ))}
+        </select>
+    </label>
+);
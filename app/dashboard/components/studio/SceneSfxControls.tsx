@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { SFX_CATEGORIES, SceneSfxSettings, SoundEffect } from '@/lib/soundEffects';
+
+interface SceneSfxControlsProps {
+    settings: SceneSfxSettings;
+    soundEffects: SoundEffect[];
+    // Faceless scenes are split into several visual cuts; face scenes aren't
+    hasCuts: boolean;
+    onChange: (changes: SceneSfxSettings) => void;
+}
+
+// Short summary shown on the collapsed toggle, e.g. "Whoosh · no cut sounds"
+function summarize(settings: SceneSfxSettings, soundEffects: SoundEffect[], hasCuts: boolean): string {
+    const describe = (choice?: string) =>
+        choice === 'none' ? 'none' : soundEffects.find(e => e.id === choice)?.name;
+    const parts: string[] = [];
+    const transition = describe(settings.transitionSfx);
+    if (transition) parts.push(transition === 'none' ? 'no transition sound' : transition);
+    const cut = hasCuts ? describe(settings.cutSfx) : undefined;
+    if (cut) parts.push(cut === 'none' ? 'no cut sounds' : `${cut} on cuts`);
+    return parts.join(' · ');
+}
+
+export const SceneSfxControls: React.FC<SceneSfxControlsProps> = ({ settings, soundEffects, hasCuts, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const summary = summarize(settings, soundEffects, hasCuts);
+
+    const preview = (choice?: string) => {
+        const effect = soundEffects.find(e => e.id === choice);
+        if (!effect || !audioRef.current) return;
+        audioRef.current.src = effect.url;
+        audioRef.current.volume = effect.volume;
+        audioRef.current.play().catch(e => console.error('Play error:', e));
+    };
+
+    const renderSelect = (key: keyof SceneSfxSettings, label: string) => (
+        <label className="block text-[10px] font-bold text-[var(--text-secondary)]">
+            {label}
+            <div className="mt-1 flex gap-1">
+                <select
+                    value={settings[key] || 'auto'}
+                    onChange={(e) => {
+                        const choice = e.target.value;
+                        onChange({ [key]: choice === 'auto' ? undefined : choice });
+                        preview(choice);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs font-normal"
+                >
+                    <option value="auto">Auto</option>
+                    <option value="none">None</option>
+                    {SFX_CATEGORIES.map(category => {
+                        const effects = soundEffects.filter(e => e.category === category);
+                        return effects.length > 0 && (
+                            <optgroup key={category} label={category.charAt(0).toUpperCase() + category.slice(1)}>
+                                {effects.map(effect => (
+                                    <option key={effect.id} value={effect.id}>{effect.name}</option>
+                                ))}
+                            </optgroup>
+                        );
+                    })}
+                </select>
+                <button
+                    onClick={() => preview(settings[key])}
+                    disabled={!soundEffects.some(e => e.id === settings[key])}
+                    className="px-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs disabled:opacity-40"
+                    title="Preview"
+                >
+                    ▶
+                </button>
+            </div>
+        </label>
+    );
+
+    return (
+        <div className="mt-2">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1 text-[10px] font-bold text-[var(--text-secondary)] hover:text-[var(--text-primary)] max-w-full"
+            >
+                <span>{isOpen ? '▾' : '▸'} Sound effects</span>
+                {summary && <span className="font-medium text-[var(--text-tertiary)] truncate">{summary}</span>}
+            </button>
+
+            {isOpen && (
+                <div className="mt-2 space-y-2">
+                    {renderSelect('transitionSfx', 'Transition into this scene')}
+                    {hasCuts && renderSelect('cutSfx', 'Cuts within this scene')}
+                    <audio ref={audioRef} />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { SCENE_TRANSITIONS, SCENE_TRANSITION_TYPES, SceneTransitionSettings } from '@/lib/sceneTransitions';
+
+interface SceneTransitionSelectProps {
+    settings: SceneTransitionSettings;
+    onChange: (changes: SceneTransitionSettings) => void;
+}
+
+// Transition into a scene from the one before it (not shown on the first scene)
+export const SceneTransitionSelect: React.FC<SceneTransitionSelectProps> = ({ settings, onChange }) => (
+    <label className="mt-2 flex items-center gap-2 text-[10px] font-bold text-[var(--text-secondary)]">
+        Transition in
+        <select
+            value={settings.transition || 'cut'}
+            onChange={(e) => {
+                const transition = e.target.value as SceneTransitionSettings['transition'];
+                onChange({ transition: transition === 'cut' ? undefined : transition });
+            }}
+            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs font-normal"
+        >
+            {SCENE_TRANSITION_TYPES.map(type => (
+                <option key={type} value={type}>{SCENE_TRANSITIONS[type].label}</option>
+            ))}
+        </select>
+    </label>
+);
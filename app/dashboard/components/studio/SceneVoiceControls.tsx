@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { DbVoice } from '@/lib/supabase';
+import {
+    QWEN_VOICE_PRESETS,
+    SCENE_PAUSE_MAX,
+    SCENE_SPEED_MAX,
+    SCENE_SPEED_MIN,
+    SCENE_STYLE_HINT_MAX,
+    SceneVoiceSettings
+} from '@/lib/sceneVoice';
+
+interface SceneVoiceControlsProps {
+    settings: SceneVoiceSettings;
+    allVoices: DbVoice[];
+    onChange: (changes: SceneVoiceSettings) => void;
+}
+
+// Short summary shown on the collapsed toggle, e.g. "Ryan · 1.2x"
+function summarize(settings: SceneVoiceSettings, allVoices: DbVoice[]): string {
+    const parts: string[] = [];
+    if (settings.voice) {
+        const cloned = allVoices.find(v => v.id === settings.voice);
+        parts.push(cloned ? (cloned.name || 'My voice') : settings.voice.replace('_', ' '));
+    }
+    if (settings.speed && settings.speed !== 1) parts.push(`${settings.speed}x`);
+    if (settings.pauseBefore || settings.pauseAfter) parts.push('pauses');
+    if (settings.styleHint) parts.push(settings.styleHint);
+    return parts.join(' · ');
+}
+
+export const SceneVoiceControls: React.FC<SceneVoiceControlsProps> = ({ settings, allVoices, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const summary = summarize(settings, allVoices);
+
+    return (
+        <div className="mt-2">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1 text-[10px] font-bold text-[var(--text-secondary)] hover:text-[var(--text-primary)] max-w-full"
+            >
+                <span>{isOpen ? '▾' : '▸'} Voice</span>
+                {summary && <span className="font-medium text-[var(--text-tertiary)] truncate">{summary}</span>}
+            </button>
+
+            {isOpen && (
+                <div className="mt-2 space-y-2">
+                    <select
+                        value={settings.voice || ''}
+                        onChange={(e) => onChange({ voice: e.target.value || undefined })}
+                        className="w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs"
+                    >
+                        <option value="">Default voice</option>
+                        {allVoices.length > 0 && (
+                            <optgroup label="My voices">
+                                {allVoices.map(voice => (
+                                    <option key={voice.id} value={voice.id}>{voice.name || 'My voice'}</option>
+                                ))}
+                            </optgroup>
+                        )}
+                        <optgroup label="Presets">
+                            {QWEN_VOICE_PRESETS.map(preset => (
+                                <option key={preset} value={preset}>{preset.replace('_', ' ')}</option>
+                            ))}
+                        </optgroup>
+                    </select>
+
+                    <label className="block text-[10px] font-bold text-[var(--text-secondary)]">
+                        Speed: {(settings.speed ?? 1).toFixed(2)}x
+                        <input
+                            type="range" min={SCENE_SPEED_MIN} max={SCENE_SPEED_MAX} step={0.05}
+                            value={settings.speed ?? 1}
+                            onChange={(e) => {
+                                const speed = Number(e.target.value);
+                                onChange({ speed: speed === 1 ? undefined : speed });
+                            }}
+                            className="w-full"
+                        />
+                    </label>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        {([
+                            ['pauseBefore', 'Pause before (s)'],
+                            ['pauseAfter', 'Pause after (s)']
+                        ] as const).map(([key, label]) => (
+                            <label key={key} className="text-[10px] font-bold text-[var(--text-secondary)]">
+                                {label}
+                                <input
+                                    type="number" min={0} max={SCENE_PAUSE_MAX} step={0.25}
+                                    value={settings[key] ?? 0}
+                                    onChange={(e) => {
+                                        const seconds = Math.min(SCENE_PAUSE_MAX, Math.max(0, Number(e.target.value) || 0));
+                                        onChange({ [key]: seconds || undefined });
+                                    }}
+                                    className="mt-1 w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs font-normal"
+                                />
+                            </label>
+                        ))}
+                    </div>
+
+                    <input
+                        value={settings.styleHint || ''}
+                        onChange={(e) => onChange({ styleHint: e.target.value || undefined })}
+                        placeholder="Style, e.g. excited, whispering, calm"
+                        maxLength={SCENE_STYLE_HINT_MAX}
+                        className="w-full px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs"
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -24,8 +24,34 @@ import {
     Scene,
     SceneTiming,
     generateSceneBasedSpeech,
-    createTypographyVideo
+    createTypographyVideo,
+    getCaptionStyles,
+    saveCaptionStyle,
+    removeCaptionStyle,
+    uploadCaptionFont,
+    SavedCaptionStyle,
+    downloadCaptions,
+    dubVideo,
+    getVoiceLibrary,
+    updateVoiceDetails,
+    replaceVoiceSample,
+    regenerateVoiceEmbedding,
+    generateVoicePreview,
+    removeVoice,
+    getMusicTracks,
+    uploadMusicTrack,
+    removeMusicTrack,
+    getSoundEffects,
+    cancelVideoJob,
+    VideoJobCancelledError
 } from '@/lib/apiClient';
+import type { DubLanguage } from '@/lib/dubbing';
+import type { CaptionFormat } from '@/lib/captionExport';
+import type { VoiceSampleSource } from '@/lib/voicePreprocessing';
+import { CustomCaptionStyleInput, DEFAULT_CAPTION_STYLE } from '@/lib/captionStyles';
+import { DEFAULT_MUSIC_VOLUME, type MusicOptions, type MusicTrack } from '@/lib/backgroundMusic';
+import type { SoundEffect } from '@/lib/soundEffects';
+import { editedFaceScenes, type VideoProject } from '@/lib/videoProject';
 import { useCredits } from '../context/CreditsContext';
 import { CREDIT_COSTS, estimateTotalCredits, calculateFacelessVideoCredits, calculateFaceVideoCredits } from '@/lib/credits';
 import {
@@ -38,7 +64,6 @@ import {
     deleteVideo,
     getAvatars,
     deleteAvatar,
-    deleteVoice,
     saveDraft,
     updateDraft,
     uploadVoiceSample,
@@ -53,9 +78,22 @@ import { useSupabase } from "@/app/context/SupabaseProvider";
 import { convertToMp3, needsConversion } from '@/lib/audioConverter';
 import { showToast } from '@/lib/toast';
 
+// Length of an audio file in seconds (undefined if the browser can't read it)
+const getAudioFileDuration = (file: File): Promise<number | undefined> => new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (duration?: number) => {
+        URL.revokeObjectURL(url);
+        resolve(duration && Number.isFinite(duration) ? duration : undefined);
+    };
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done();
+    audio.src = url;
+});
+
 export const useDashboardState = () => {
     const { user, isLoaded: isUserLoaded } = useUser();
-    const { checkCredits, checkCreditsWithContext } = useCredits();
+    const { checkCredits, checkCreditsWithContext, refetch: refetchCredits, openBuyModal } = useCredits();
 
     // Get single Supabase instance from context
     const supabaseClient = useSupabase();
@@ -74,8 +112,16 @@ export const useDashboardState = () => {
     const [inputText, setInputText] = useState('');
     const [isEnhanced, setIsEnhanced] = useState(false);
     const [enableCaptions, setEnableCaptions] = useState(true);
-    const [captionStyle, setCaptionStyle] = useState('bold-classic');
+    const [captionStyle, setCaptionStyle] = useState<string>(DEFAULT_CAPTION_STYLE);
+    const [customCaptionStyles, setCustomCaptionStyles] = useState<SavedCaptionStyle[]>([]);
     const [enableBackgroundMusic, setEnableBackgroundMusic] = useState(true);
+    // Music library: picked track (null = default track), level and ducking
+    const [musicTracks, setMusicTracks] = useState<MusicTrack[]>([]);
+    const [selectedMusicTrackId, setSelectedMusicTrackId] = useState<string | null>(null);
+    const [musicVolume, setMusicVolume] = useState(DEFAULT_MUSIC_VOLUME);
+    const [musicDucking, setMusicDucking] = useState(true);
+    // Sound effects the storyboard can assign to transitions and cuts
+    const [soundEffects, setSoundEffects] = useState<SoundEffect[]>([]);
     const [aspectRatio, setAspectRatio] = useState<'9:16' | '16:9' | '1:1'>('9:16');
     const [currentDraftId, setCurrentDraftId] = useState<string | null>(null);
     const [originalTopic, setOriginalTopic] = useState(''); // Store the topic before enhancement
@@ -103,11 +149,16 @@ export const useDashboardState = () => {
     const [processingStep, setProcessingStep] = useState(0);
     const [error, setError] = useState('');
     // Scene progress for checklist UI
-    const [sceneProgress, setSceneProgress] = useState<{ totalScenes: number; currentSceneIndex: number; processedScenesCount: number; isRendering: boolean } | null>(null);
+    const [sceneProgress, setSceneProgress] = useState<{ totalScenes: number; currentSceneIndex: number; processedScenesCount: number; completedScenes?: number[]; activeScenes?: number[]; isRendering: boolean } | null>(null);
+    // Job being polled, so the progress view can cancel it
+    const [activeJobId, setActiveJobId] = useState<string | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
 
     // UI state
     const [showHistory, setShowHistory] = useState(false);
     const [selectedVideo, setSelectedVideo] = useState<DbVideo | null>(null);
+    // Video reopened for editing; the next render reuses its unchanged scenes
+    const [editingVideo, setEditingVideo] = useState<{ id: string; project: VideoProject } | null>(null);
 
     // Collected assets state
     const [collectedAssets, setCollectedAssets] = useState<CollectedAsset[]>([]);
@@ -143,6 +194,11 @@ export const useDashboardState = () => {
         }
     }, [isUserLoaded, user, getSupabase]);
 
+    // The job can't be cancelled once the progress view closes
+    useEffect(() => {
+        if (!isProcessing) setActiveJobId(null);
+    }, [isProcessing]);
+
     const initializeUser = async () => {
         try {
             if (!user) return;
@@ -185,6 +241,17 @@ export const useDashboardState = () => {
                     }
                 }
 
+                // Custom caption styles are served by the API (service-role table)
+                getCaptionStyles()
+                    .then(setCustomCaptionStyles)
+                    .catch(err => console.warn('[Dashboard] Failed to load caption styles:', err));
+                getMusicTracks()
+                    .then(setMusicTracks)
+                    .catch(err => console.warn('[Dashboard] Failed to load music tracks:', err));
+                getSoundEffects()
+                    .then(setSoundEffects)
+                    .catch(err => console.warn('[Dashboard] Failed to load sound effects:', err));
+
                 // Check for and resume any in-progress video jobs
                 checkForActiveJobs(existing.id);
             } else {
@@ -241,6 +308,7 @@ export const useDashboardState = () => {
                 setProcessingStep(Math.floor((job.progress / 100) * 6));
 
                 // Resume polling for this job based on type
+                setActiveJobId(job.id);
                 try {
                     if (jobType === 'faceless') {
                         console.log('[Resume] Resuming faceless video job...');
@@ -270,6 +338,7 @@ export const useDashboardState = () => {
                     setPreviewMode('video');
                     await refreshVideoHistory();
                 } catch (err) {
+                    if (err instanceof VideoJobCancelledError) return;
                     console.error('[Resume] Job failed:', err);
                     setError(`Failed to resume video: ${err instanceof Error ? err.message : 'Unknown error'}`);
                 } finally {
@@ -289,7 +358,7 @@ export const useDashboardState = () => {
                 const sb = await getSupabase();
                 const { data: videos, error } = await sb
                     .from('videos')
-                    .select('id, user_id, script, topic, mode, duration, has_captions, has_music, thumbnail_url, created_at')
+                    .select('id, user_id, script, topic, mode, duration, has_captions, has_music, thumbnail_url, language, parent_video_id, job_id, created_at')
                     .eq('user_id', dbUser.id)
                     .order('created_at', { ascending: false })
                     .limit(20);
@@ -485,6 +554,7 @@ export const useDashboardState = () => {
         setWordTimings([]); setError(''); setProcessingStep(0);
         setCollectedAssets([]); setShowAssetGallery(false); setAssetSearchTerms([]);
         setStudioReadyUrl(''); setUseStudioImage(false);
+        setEditingVideo(null);
     };
 
     const handleMakeStudioReady = async (style: string = 'professional') => {
@@ -683,16 +753,17 @@ export const useDashboardState = () => {
         }
     };
 
-    // Delete voice handler
+    // Delete voice handler (removes the stored sample and preview too)
     const handleDeleteVoice = async (voiceDbId: string) => {
         if (!confirmDeletion('Delete this voice permanently?')) return;
 
         try {
-            await deleteVoice(voiceDbId);
-            setAllVoices(prev => prev.filter(v => v.id !== voiceDbId));
-            // Clear selected voice if it was deleted
+            await removeVoice(voiceDbId);
+            // The server activates the next voice if the active one was deleted
+            const voices = await getVoiceLibrary();
+            setAllVoices(voices);
             if (savedVoice?.id === voiceDbId) {
-                setSavedVoice(null);
+                setSavedVoice(voices.find(v => v.is_active) || null);
             }
             showToast({ type: 'success', message: 'Voice deleted.' });
         } catch (err) {
@@ -702,6 +773,187 @@ export const useDashboardState = () => {
         }
     };
 
+    // Keep the voice list and the selected voice in sync after a library change
+    const applyVoiceUpdate = (voice: DbVoice) => {
+        setAllVoices(prev => prev.map(v => v.id === voice.id ? voice : v));
+        setSavedVoice(prev => prev?.id === voice.id ? voice : prev);
+    };
+
+    const handleUpdateVoice = async (voiceDbId: string, updates: { name?: string; tags?: string[] }) => {
+        try {
+            const voice = await updateVoiceDetails(voiceDbId, updates);
+            applyVoiceUpdate(voice);
+            return voice;
+        } catch (err) {
+            console.error('Update voice failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    const handleReplaceVoiceSample = async (voiceDbId: string, file: File) => {
+        try {
+            const sample = needsConversion(file) ? await convertToMp3(file) : file;
+            const voice = await replaceVoiceSample(voiceDbId, sample);
+            applyVoiceUpdate(voice);
+            showToast({ type: 'success', message: 'Voice re-recorded.' });
+            return voice;
+        } catch (err) {
+            console.error('Replace voice sample failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    const handleRegenerateVoiceEmbedding = async (voiceDbId: string, source?: VoiceSampleSource) => {
+        try {
+            const voice = await regenerateVoiceEmbedding(voiceDbId, source);
+            applyVoiceUpdate(voice);
+            showToast({ type: 'success', message: `Voice re-cloned from the ${voice.embedding_source || 'original'} sample.` });
+            return voice;
+        } catch (err) {
+            console.error('Regenerate voice embedding failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    const handleGenerateVoicePreview = async (voiceDbId: string) => {
+        try {
+            const voice = await generateVoicePreview(voiceDbId);
+            applyVoiceUpdate(voice);
+            return voice;
+        } catch (err) {
+            console.error('Generate voice preview failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    // Custom caption style handlers
+    const handleSaveCaptionStyle = async (name: string, definition: CustomCaptionStyleInput) => {
+        try {
+            const saved = await saveCaptionStyle(name, definition);
+            setCustomCaptionStyles(prev => [saved, ...prev]);
+            showToast({ type: 'success', message: 'Caption style saved.' });
+            return saved;
+        } catch (err) {
+            console.error('Save caption style failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    const handleDeleteCaptionStyle = async (styleId: string) => {
+        if (!confirmDeletion('Delete this caption style?')) return;
+
+        try {
+            await removeCaptionStyle(styleId);
+            const deleted = customCaptionStyles.find(s => s.id === styleId);
+            setCustomCaptionStyles(prev => prev.filter(s => s.id !== styleId));
+            if (deleted && captionStyle === deleted.style.id) {
+                setCaptionStyle(DEFAULT_CAPTION_STYLE);
+            }
+            showToast({ type: 'success', message: 'Caption style deleted.' });
+        } catch (err) {
+            console.error('Delete caption style failed:', err);
+            showToast({ type: 'error', message: 'Failed to delete caption style.' });
+        }
+    };
+
+    const handleUploadCaptionFont = async (file: File) => {
+        try {
+            return await uploadCaptionFont(file);
+        } catch (err) {
+            console.error('Font upload failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    // Music library handlers
+    const handleUploadMusicTrack = async (
+        file: File,
+        details: { title: string; artist?: string; bpm?: number; moods?: string[]; genres?: string[] }
+    ) => {
+        try {
+            const track = await uploadMusicTrack(file, { ...details, duration: await getAudioFileDuration(file) });
+            setMusicTracks(prev => [...prev, track]);
+            setSelectedMusicTrackId(track.id);
+            showToast({ type: 'success', message: 'Track uploaded.' });
+            return track;
+        } catch (err) {
+            console.error('Music upload failed:', err);
+            showToast({ type: 'error', message: handleApiError(err).message });
+            return null;
+        }
+    };
+
+    const handleDeleteMusicTrack = async (trackId: string) => {
+        if (!confirmDeletion('Delete this track?')) return;
+
+        try {
+            await removeMusicTrack(trackId);
+            setMusicTracks(prev => prev.filter(t => t.id !== trackId));
+            if (selectedMusicTrackId === trackId) {
+                setSelectedMusicTrackId(null);
+            }
+            showToast({ type: 'success', message: 'Track deleted.' });
+        } catch (err) {
+            console.error('Delete music track failed:', err);
+            showToast({ type: 'error', message: 'Failed to delete track.' });
+        }
+    };
+
+    // Music choice sent with both job types
+    const musicOptions: MusicOptions = {
+        trackId: selectedMusicTrackId || undefined,
+        volume: musicVolume,
+        ducking: musicDucking
+    };
+
+    // Caption file download for a finished video
+    const handleDownloadCaptions = async (videoId: string, format: CaptionFormat) => {
+        try {
+            await downloadCaptions(videoId, format);
+        } catch (err) {
+            console.error('Caption download failed:', err);
+            const notAvailable = handleApiError(err).code === '404';
+            showToast({
+                type: 'error',
+                message: notAvailable ? 'Captions are not available for this video.' : 'Failed to download captions.'
+            });
+        }
+    };
+
+    // Dub a finished video; the dubbed copy appears in history when ready
+    const handleDubVideo = async (videoId: string, language: DubLanguage) => {
+        try {
+            const { jobId } = await dubVideo(videoId, language);
+            refetchCredits();
+            showToast({ type: 'success', message: `Dubbing into ${language}. It will appear in your history when ready.` });
+
+            pollFacelessVideoJob(jobId)
+                .then(() => {
+                    refreshVideoHistory();
+                    showToast({ type: 'success', message: `${language} version is ready.` });
+                })
+                .catch(err => {
+                    console.error('Dub failed:', err);
+                    refetchCredits();
+                    showToast({ type: 'error', message: `${language} dub failed: ${handleApiError(err).message}` });
+                });
+        } catch (err) {
+            console.error('Dub request failed:', err);
+            const apiError = handleApiError(err);
+            if (apiError.code === '402') {
+                openBuyModal();
+                return;
+            }
+            showToast({ type: 'error', message: apiError.message });
+        }
+    };
+
     // Load video details from history (fetches full video data on-demand)
     const handleSelectVideo = async (video: DbVideo) => {
         // Set metadata immediately for fast UI response
@@ -779,6 +1031,65 @@ export const useDashboardState = () => {
         setPreviewMode('video');
     };
 
+    // Reopen a rendered video's project in the editor. Creating the video
+    // again re-renders it, regenerating only the scenes that were edited.
+    const handleEditVideo = async (video: DbVideo) => {
+        const fullVideo = await getVideoById(video.id);
+        const project = fullVideo?.project;
+        if (!project) {
+            showToast({ type: 'error', message: 'This video was made before editing was available and cannot be reopened.' });
+            return;
+        }
+
+        const input = project.input;
+        const projectScenes: Record<string, any>[] = input.scenes || [];
+        const loadedScenes: Scene[] = projectScenes.map(({ type, assetUrl, ...settings }) => ({
+            ...settings,
+            text: settings.text,
+            keywords: []
+        }));
+
+        setMode(project.jobType);
+        setEditType(project.jobType === 'face' ? 'minimal' : 'motion');
+        setScenes(loadedScenes);
+        // Scene texts joined like the stale-scene check in handleCreateVideo expects
+        setInputText(loadedScenes.map(scene => scene.text).join(' '));
+        setOriginalTopic(fullVideo.topic || '');
+        setIsEnhanced(true);
+
+        const assetUrls: string[] = input.allAssets?.length
+            ? input.allAssets
+            : projectScenes.map(scene => scene.assetUrl).filter(Boolean);
+        setCollectedAssets(assetUrls.map(url => ({
+            url,
+            thumbnail: url,
+            title: 'Loaded from project',
+            source: 'history',
+            searchTerm: ''
+        })));
+
+        if (input.captionStyle) setCaptionStyle(input.captionStyle);
+        if (input.aspectRatio) setAspectRatio(input.aspectRatio);
+        setEnableCaptions(input.enableCaptions ?? true);
+        setEnableBackgroundMusic(input.enableBackgroundMusic ?? false);
+        setSelectedMusicTrackId(input.music?.trackId || null);
+        setMusicVolume(input.music?.volume ?? DEFAULT_MUSIC_VOLUME);
+        setMusicDucking(input.music?.ducking ?? true);
+
+        if (project.jobType === 'face' && input.faceImageUrl) {
+            setPhotoFile(null);
+            setPhotoPreview(input.faceImageUrl);
+            setUseStudioImage(false);
+        }
+
+        setEditingVideo({ id: fullVideo.id, project });
+        setSelectedVideo(fullVideo);
+        setVideoUrl('');
+        setError('');
+        setPreviewMode('storyboard');
+        showToast({ type: 'success', message: 'Project loaded. Unchanged scenes are reused when you create the video.' });
+    };
+
 
 
     const handleConfirmVoice = async () => {
@@ -831,7 +1142,9 @@ export const useDashboardState = () => {
             }
         } catch (error) {
             console.error('Failed to confirm voice:', error);
-            setError('Failed to save voice. Please try again.');
+            // 422 means the sample failed the quality check; say why
+            const apiError = handleApiError(error);
+            setError(apiError.code === '422' ? apiError.message : 'Failed to save voice. Please try again.');
         } finally {
             setIsConfirmingVoice(false);
             setProcessingMessage('');
@@ -1071,7 +1384,19 @@ export const useDashboardState = () => {
                 // USE workingScenes (which includes auto-parsed scenes) instead of stale 'scenes' state
                 const facelessScenes = workingScenes.length > 0 ? workingScenes.map((scene, index) => ({
                     text: scene.text,
-                    assetUrl: collectedAssets[index % collectedAssets.length]?.url || collectedAssets[0]?.url
+                    assetUrl: collectedAssets[index % collectedAssets.length]?.url || collectedAssets[0]?.url,
+                    // Per-scene voice, speed, pauses and style from the storyboard
+                    voice: scene.voice,
+                    speed: scene.speed,
+                    pauseBefore: scene.pauseBefore,
+                    pauseAfter: scene.pauseAfter,
+                    styleHint: scene.styleHint,
+                    // Sound effects and visual transition into the scene, sounds on its cuts
+                    transitionSfx: scene.transitionSfx,
+                    cutSfx: scene.cutSfx,
+                    transition: scene.transition,
+                    kenBurns: scene.kenBurns,
+                    clipAudio: scene.clipAudio
                 })) : (() => {
                     // Fallback only if workingScenes is somehow empty
                     return [{ text: inputText, assetUrl: collectedAssets[0]?.url }];
@@ -1104,8 +1429,10 @@ export const useDashboardState = () => {
                             aspectRatio,
                             captionStyle,
                             enableBackgroundMusic,
+                            music: musicOptions,
                             enableCaptions,
-                            allAssets: collectedAssets.map(a => a.url)
+                            allAssets: collectedAssets.map(a => a.url),
+                            sourceVideoId: editingVideo?.id
                         }
                     })
                 });
@@ -1120,6 +1447,7 @@ export const useDashboardState = () => {
                 if (!videoJob) throw new Error('Failed to create video job.');
 
                 const jobId = videoJob.id;
+                setActiveJobId(jobId);
 
                 setProcessingMessage('Rendering video (this may take a few minutes)...');
 
@@ -1135,6 +1463,8 @@ export const useDashboardState = () => {
 
                 setVideoUrl(videoResult.videoUrl);
 
+                setEditingVideo(null);
+
                 // Video is saved server-side by faceless-video/process.
                 // Just refresh the history list.
                 if (dbUser) {
@@ -1294,7 +1624,10 @@ export const useDashboardState = () => {
             // Determine which assets to use for alternating scenes
             let assetsForAlternating: { url: string }[] = [];
 
-            if (editType === 'motion' && workingScenes.length > 1) {
+            if (editingVideo?.project.jobType === 'face') {
+                // EDITED VIDEO: keep each scene's face/asset layout so unchanged scenes are reused
+                sceneInputs.push(...editedFaceScenes(editingVideo.project, workingScenes) as FaceVideoSceneInput[]);
+            } else if (editType === 'motion' && workingScenes.length > 1) {
                 // MOTION EDITING: Generate AI images for alternating (even) scenes
                 setProcessingMessage('Generating AI visuals for motion editing...');
 
@@ -1334,7 +1667,9 @@ export const useDashboardState = () => {
                 assetsForAlternating = collectedAssets;
             }
 
-            if (assetsForAlternating.length === 0 && editType !== 'motion') {
+            if (sceneInputs.length > 0) {
+                console.log('Face mode: Using the scene layout of the edited video');
+            } else if (assetsForAlternating.length === 0 && editType !== 'motion') {
                 // NO ASSETS & MINIMAL: Single continuous face scene with entire script
                 console.log('Face mode: No assets collected - generating single continuous face video');
                 sceneInputs.push({
@@ -1352,7 +1687,10 @@ export const useDashboardState = () => {
                         type: isAssetScene ? 'asset' : 'face',
                         assetUrl: isAssetScene
                             ? assetsForAlternating[assetIndex % assetsForAlternating.length].url
-                            : undefined
+                            : undefined,
+                        transitionSfx: workingScenes[i].transitionSfx,
+                        transition: workingScenes[i].transition,
+                        kenBurns: isAssetScene ? workingScenes[i].kenBurns : undefined
                     });
                     if (isAssetScene) assetIndex++;
                 }
@@ -1417,7 +1755,10 @@ export const useDashboardState = () => {
                         voiceId: selectedVoiceId, // Legacy - kept for backward compat
                         voiceSampleUrl: savedVoice?.voice_sample_url, // New - for Chatterbox TTS
                         enableBackgroundMusic,
-                        enableCaptions
+                        music: musicOptions,
+                        enableCaptions,
+                        captionStyle,
+                        sourceVideoId: editingVideo?.id
                     }
                 })
             });
@@ -1432,6 +1773,7 @@ export const useDashboardState = () => {
             if (!videoJob) throw new Error('Failed to create video job.');
 
             const jobId = videoJob.id;
+            setActiveJobId(jobId);
 
             setProcessingMessage('Processing video (this may take a few minutes)...');
 
@@ -1447,6 +1789,7 @@ export const useDashboardState = () => {
 
             const finalVideoUrl = sceneResult.videoUrl;
             setVideoUrl(finalVideoUrl);
+            setEditingVideo(null);
 
             // Video is saved server-side by face-video/process.
             // Just refresh the history list.
@@ -1456,13 +1799,38 @@ export const useDashboardState = () => {
             setIsProcessing(false);
             setProcessingStep(0);
         } catch (err) {
-            setError(handleApiError(err).message);
+            if (!(err instanceof VideoJobCancelledError)) {
+                setError(handleApiError(err).message);
+            }
             setIsProcessing(false);
         } finally {
             if (!error) setPreviewMode('video');
         }
     };
 
+    // Cancel the job in the progress view; its poller stops once the job
+    // reports cancelled
+    const handleCancelVideo = async () => {
+        if (!activeJobId || isCancelling) return;
+        setIsCancelling(true);
+        try {
+            const { creditsRefunded } = await cancelVideoJob(activeJobId);
+            refetchCredits();
+            setProcessingMessage('Cancelling...');
+            showToast({
+                type: 'success',
+                message: creditsRefunded > 0
+                    ? `Video cancelled. ${creditsRefunded} credits refunded.`
+                    : 'Video cancelled.'
+            });
+        } catch (err) {
+            console.error('Cancel failed:', err);
+            showToast({ type: 'error', message: `Could not cancel: ${handleApiError(err).message}` });
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
     return {
         // State
         isDark, setIsDark,
@@ -1473,7 +1841,13 @@ export const useDashboardState = () => {
         isEnhanced, setIsEnhanced,
         enableCaptions, setEnableCaptions,
         captionStyle, setCaptionStyle,
+        customCaptionStyles,
         enableBackgroundMusic, setEnableBackgroundMusic,
+        musicTracks,
+        selectedMusicTrackId, setSelectedMusicTrackId,
+        musicVolume, setMusicVolume,
+        musicDucking, setMusicDucking,
+        soundEffects,
         aspectRatio, setAspectRatio,
         photoFile, setPhotoFile,
         photoPreview, setPhotoPreview,
@@ -1487,6 +1861,8 @@ export const useDashboardState = () => {
         processingMessage,
         processingStep,
         sceneProgress,
+        activeJobId,
+        isCancelling,
         error, setError,
         showHistory, setShowHistory,
         collectedAssets, setCollectedAssets,
@@ -1519,9 +1895,22 @@ export const useDashboardState = () => {
         handleMakeStudioReady,
         handleCollectAssets,
         handleDeleteVideo,
+        handleDownloadCaptions,
+        handleDubVideo,
+        handleEditVideo,
         handleDeleteAvatar,
         handleDeleteVoice,
+        handleUpdateVoice,
+        handleReplaceVoiceSample,
+        handleRegenerateVoiceEmbedding,
+        handleGenerateVoicePreview,
+        handleSaveCaptionStyle,
+        handleDeleteCaptionStyle,
+        handleUploadCaptionFont,
+        handleUploadMusicTrack,
+        handleDeleteMusicTrack,
         handleCreateVideo,
+        handleCancelVideo,
         handleSelectVideo,
         addUserAsset, // New: upload user assets immediately
         selectedVideo, setSelectedVideo,
@@ -8,6 +8,7 @@ import { PaymentVerification } from './components/PaymentVerification';
 import { ResourcePanel } from './components/studio/ResourcePanel';
 import { EditorPanel } from './components/studio/EditorPanel';
 import { PreviewPanel } from './components/studio/PreviewPanel';
+import { AssetThumbnail } from './components/AssetThumbnail';
 import { CloseIcon, ImageIcon } from './components/icons';
 import { useCredits } from './context/CreditsContext';
 import { CREDIT_COSTS } from '@/lib/credits';
@@ -129,6 +130,23 @@ export default function Dashboard() {
         }
     };
 
+    // Voice library management (rename, tag, re-record, re-clone, preview, delete)
+    const voiceLibrary = {
+        onUpdateVoice: state.handleUpdateVoice,
+        onReplaceVoiceSample: state.handleReplaceVoiceSample,
+        onRegenerateVoiceEmbedding: state.handleRegenerateVoiceEmbedding,
+        onGenerateVoicePreview: state.handleGenerateVoicePreview,
+        onDeleteVoice: state.handleDeleteVoice
+    };
+
+    const musicLibrary = {
+        onSelectTrack: state.setSelectedMusicTrackId,
+        onVolumeChange: state.setMusicVolume,
+        onDuckingChange: state.setMusicDucking,
+        onUploadTrack: state.handleUploadMusicTrack,
+        onDeleteTrack: state.handleDeleteMusicTrack
+    };
+
     return (
         <>
             <Suspense fallback={null}>
@@ -155,6 +173,9 @@ export default function Dashboard() {
                         videoHistory={state.videoHistory}
                         onSelectVideo={state.handleSelectVideo}
                         onDeleteVideo={state.handleDeleteVideo}
+                        onDownloadCaptions={state.handleDownloadCaptions}
+                        onDubVideo={state.handleDubVideo}
+                        onEditVideo={state.handleEditVideo}
                         onNewProject={state.handleReset}
                     />
                 }
@@ -171,6 +192,8 @@ export default function Dashboard() {
                         processingMessage={state.processingMessage}
                         processingStep={state.processingStep}
                         sceneProgress={state.sceneProgress}
+                        onCancelVideo={state.activeJobId ? state.handleCancelVideo : undefined}
+                        isCancelling={state.isCancelling}
                         voiceName={state.savedVoice?.name ?? 'Select Voice'}
                         avatarUrl={state.useStudioImage ? state.studioReadyUrl : state.photoPreview}
                         aspectRatio={state.aspectRatio}
@@ -215,6 +238,7 @@ export default function Dashboard() {
                         savedAvatars={state.savedAvatars}
                         onSelectAvatar={handleSelectAvatar}
                         allVoices={state.allVoices}
+                        voiceLibrary={voiceLibrary}
                         savedVoice={state.savedVoice}
                         isRecording={state.isRecording}
                         startRecording={state.startRecording}
@@ -236,14 +260,25 @@ export default function Dashboard() {
                         onEnhance={handleEnhance}
                         isEnhancing={isEnhancing}
                         scenes={state.scenes}
+                        onUpdateScene={(index, changes) => state.setScenes(prev => prev.map((scene, i) => i === index ? { ...scene, ...changes } : scene))}
+                        soundEffects={state.soundEffects}
                         onRegenerateScenes={state.handleRegenerateScenes}
                         isRegeneratingScenes={state.isRegeneratingScenes}
                         enableCaptions={state.enableCaptions}
                         setEnableCaptions={state.setEnableCaptions}
                         captionStyle={state.captionStyle}
                         setCaptionStyle={state.setCaptionStyle}
+                        customCaptionStyles={state.customCaptionStyles}
+                        onSaveCaptionStyle={state.handleSaveCaptionStyle}
+                        onDeleteCaptionStyle={state.handleDeleteCaptionStyle}
+                        onUploadCaptionFont={state.handleUploadCaptionFont}
                         enableBackgroundMusic={state.enableBackgroundMusic}
                         setEnableBackgroundMusic={state.setEnableBackgroundMusic}
+                        musicTracks={state.musicTracks}
+                        selectedMusicTrackId={state.selectedMusicTrackId}
+                        musicVolume={state.musicVolume}
+                        musicDucking={state.musicDucking}
+                        musicLibrary={musicLibrary}
                         creditBalance={balance}
                         faceImageUrl={state.useStudioImage ? state.studioReadyUrl : state.photoPreview}
                     />
@@ -343,7 +378,7 @@ export default function Dashboard() {
                                 <div className="grid grid-cols-4 md:grid-cols-5 xl:grid-cols-6 gap-4 pr-2">
                                     {state.collectedAssets.map((asset, i) => (
                                         <div key={i} className="aspect-square rounded-lg overflow-hidden relative group">
-                                            <img src={asset.thumbnail} alt={asset.title} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
+                                            <AssetThumbnail src={asset.thumbnail} alt={asset.title} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
                                             <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center text-white text-xs px-2 text-center">
                                                 {asset.title}
                                             </div>
@@ -224,7 +224,7 @@ export default function LandingPage() {
                             You know you should be creating content...
                         </h2>
                         <p className="text-xl font-medium text-[var(--text-secondary)]">
-                            But let's face it, the traditional way is <span className="line-through decoration-4 decoration-[var(--brand-primary)]">exhausting</span>.
+                            But let&apos;s face it, the traditional way is <span className="line-through decoration-4 decoration-[var(--brand-primary)]">exhausting</span>.
                         </p>
                     </div>
 
@@ -0,0 +1,25 @@
+-- Custom Caption Styles Migration
+-- Run this in your Supabase SQL Editor
+
+-- ============================================
+-- CAPTION STYLES TABLE
+-- ============================================
+
+-- Per-user caption styles. definition holds the overrides applied on top of
+-- a built-in style (see CustomCaptionStyleInput in lib/captionStyles.ts).
+-- Uploaded fonts live in the 'videos' bucket under fonts/<user_id>/.
+-- Jobs reference them as 'custom:<id>' and snapshot the resolved style, so
+-- editing or deleting a style never changes videos already queued.
+CREATE TABLE IF NOT EXISTS caption_styles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    definition JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_styles_user ON caption_styles(user_id);
+
+-- Only the service role (API routes) reads and writes caption styles
+ALTER TABLE caption_styles ENABLE ROW LEVEL SECURITY;
@@ -47,10 +47,10 @@ export default function TopicInput({ onTopicSubmit, isLoading = false }: TopicIn
                 transition={{ duration: 0.5 }}
             >
                 <h2 className="text-3xl font-bold mb-2 gradient-text text-center">
-                    What's Your Topic?
+                    What&apos;s Your Topic?
                 </h2>
                 <p className="text-[var(--text-secondary)] text-center mb-8">
-                    Tell us what you'd like to talk about
+                    Tell us what you&apos;d like to talk about
                 </p>
 
                 <div className="glass-strong p-8">
@@ -5,6 +5,40 @@ import { useDropzone } from 'react-dropzone';
 import { validateAudioFile, getAudioDuration } from '@/lib/fileUpload';
 import { validateAudioDuration } from '@/lib/validation';
 import { motion, AnimatePresence } from 'framer-motion';
+import { analyzeVoiceSample } from '@/lib/apiClient';
+import type { VoiceSampleReport } from '@/lib/voiceAnalysis';
+
+function SampleQualityReport({ report, isAnalyzing }: { report: VoiceSampleReport | null; isAnalyzing: boolean }) {
+    if (isAnalyzing) {
+        return <p className="text-sm text-[var(--text-secondary)] mb-4">Checking sample quality...</p>;
+    }
+    if (!report) return null;
+
+    const { metrics } = report;
+    return (
+        <div className="mb-4 p-3 bg-[var(--surface-2)] border border-[var(--border-subtle)] rounded-lg text-left text-sm">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[var(--text-secondary)] mb-2">
+                <span>{metrics.loudnessLufs} LUFS</span>
+                <span>Noise {metrics.noiseFloorDbfs} dBFS</span>
+                <span>Speech {Math.round(metrics.speechRatio * 100)}%</span>
+                <span>Silence {Math.round(metrics.silenceRatio * 100)}%</span>
+                <span>Clipping {(metrics.clippingRatio * 100).toFixed(2)}%</span>
+                <span>{(metrics.sampleRate / 1000).toFixed(1)} kHz</span>
+            </div>
+            {report.issues.length === 0 ? (
+                <p className="text-green-500">✓ Sample quality looks good</p>
+            ) : (
+                <ul className="space-y-1">
+                    {report.issues.map(issue => (
+                        <li key={issue.code} className={issue.severity === 'error' ? 'text-red-500' : 'text-yellow-600'}>
+                            {issue.severity === 'error' ? '✕' : '⚠'} {issue.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
 
 interface VoiceRecorderProps {
     onVoiceReady: (audioFile: File) => void;
@@ -20,6 +54,31 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
     const [error, setError] = useState('');
     const [mode, setMode] = useState<'record' | 'upload'>('record');
     const [audioDuration, setAudioDuration] = useState<number>(0);
+    const [sampleReport, setSampleReport] = useState<VoiceSampleReport | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const analysisIdRef = useRef(0);
+
+    // Check quality as soon as there's a sample so it can be fixed before cloning
+    const analyzeSample = useCallback(async (file: File) => {
+        const analysisId = ++analysisIdRef.current;
+        setSampleReport(null);
+        setIsAnalyzing(true);
+        try {
+            const report = await analyzeVoiceSample(file);
+            if (analysisId === analysisIdRef.current) setSampleReport(report);
+        } catch (err) {
+            // The clone endpoint runs the same check, so don't block here
+            console.warn('Voice sample analysis unavailable:', err);
+        } finally {
+            if (analysisId === analysisIdRef.current) setIsAnalyzing(false);
+        }
+    }, []);
+
+    const resetAnalysis = () => {
+        analysisIdRef.current++;
+        setSampleReport(null);
+        setIsAnalyzing(false);
+    };
 
     // Cleanup object URL to prevent memory leaks
     useEffect(() => {
@@ -59,6 +118,7 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
             mediaRecorder.onstop = () => {
                 const blob = new Blob(chunksRef.current, { type: 'audio/wav' });
                 setAudioBlob(blob);
+                analyzeSample(new File([blob], 'recording.wav', { type: 'audio/wav' }));
 
                 // Stop all tracks
                 stream.getTracks().forEach(track => track.stop());
@@ -118,10 +178,11 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
             }
 
             setAudioFile(file);
+            analyzeSample(file);
         } catch (err) {
             setError('Could not read audio file');
         }
-    }, []);
+    }, [analyzeSample]);
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
@@ -173,6 +234,7 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
     const minDuration = 10;
     const isRecordingValidLength = recordingTime >= minDuration;
     const isUploadValidLength = audioDuration >= minDuration;
+    const isSampleBlocked = isAnalyzing || (sampleReport !== null && !sampleReport.canClone);
 
     return (
         <div className="w-full max-w-2xl mx-auto">
@@ -185,7 +247,7 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
                     Record Your Voice
                 </h2>
                 <p className="text-[var(--text-secondary)] text-center mb-8">
-                    We'll clone your voice to narrate the script
+                    We&apos;ll clone your voice to narrate the script
                 </p>
 
                 {/* Mode selector */}
@@ -266,11 +328,14 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
                                                 className="w-full mb-4"
                                             />
 
+                                            <SampleQualityReport report={sampleReport} isAnalyzing={isAnalyzing} />
+
                                             <div className="flex gap-3">
                                                 <button
                                                     onClick={() => {
                                                         setAudioBlob(null);
                                                         setRecordingTime(0);
+                                                        resetAnalysis();
                                                     }}
                                                     className="flex-1 btn-secondary"
                                                 >
@@ -278,7 +343,7 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
                                                 </button>
                                             <button
                                                 onClick={handleRecordedAudioConfirm}
-                                                disabled={!isRecordingValidLength || isProcessing}
+                                                disabled={!isRecordingValidLength || isSampleBlocked || isProcessing}
                                                 className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
                                             >
                                                 {isProcessing ? (
@@ -357,11 +422,14 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
                                             className="w-full mb-4"
                                         />
 
+                                        <SampleQualityReport report={sampleReport} isAnalyzing={isAnalyzing} />
+
                                         <div className="flex gap-3">
                                             <button
                                                 onClick={() => {
                                                     setAudioFile(null);
                                                     setAudioDuration(0);
+                                                    resetAnalysis();
                                                 }}
                                                 className="flex-1 btn-secondary"
                                             >
@@ -369,7 +437,7 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
                                             </button>
                                                 <button
                                                     onClick={handleUploadedAudioConfirm}
-                                                    disabled={!isUploadValidLength || isProcessing}
+                                                    disabled={!isUploadValidLength || isSampleBlocked || isProcessing}
                                                     className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
                                                 >
                                                     {isProcessing ? (
@@ -402,7 +470,8 @@ export default function VoiceRecorder({ onVoiceReady, isProcessing = false }: Vo
                     <div className="mt-6 p-4 bg-[var(--surface-2)] border-2 border-black rounded-lg">
                         <p className="text-sm text-[var(--text-secondary)]">
                             <strong>💡 Tip:</strong> For best results, speak clearly in a quiet environment.
-                            The audio must be at least {minDuration} seconds long.
+                            The audio must be at least {minDuration} seconds long. Samples that are too quiet,
+                            clipped, noisy or mostly silence can&apos;t be cloned.
                         </p>
                     </div>
                 </div>
@@ -0,0 +1,236 @@
+-- Credit Ledger Migration
+-- Run this in your Supabase SQL Editor (after credits_migration.sql)
+--
+-- Every balance change goes through apply_credit_operation(), which locks
+-- the user's credit row, applies the change and writes the transaction in
+-- one statement. Operations carry an idempotency key so retries are safe.
+
+-- ============================================
+-- IDEMPOTENCY KEYS ON TRANSACTIONS
+-- ============================================
+
+ALTER TABLE credit_transactions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_idempotency
+    ON credit_transactions(idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- ============================================
+-- CREDIT RESERVATIONS TABLE
+-- ============================================
+
+-- Credits held for a video job: deducted from the balance on creation,
+-- captured when the job completes or released back when it fails.
+CREATE TABLE IF NOT EXISTS credit_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    job_id UUID,
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'captured', 'released')),
+    idempotency_key TEXT NOT NULL UNIQUE,
+    description TEXT,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_user ON credit_reservations(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_job ON credit_reservations(job_id);
+
+-- Only the service role (which bypasses RLS) touches reservations
+ALTER TABLE credit_reservations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- LEDGER FUNCTION
+-- ============================================
+
+-- p_operation:
+--   'debit'   - spend credits immediately (usage)
+--   'credit'  - add credits (p_type: purchase | refund | bonus)
+--   'reserve' - hold credits for a job, keyed by p_idempotency_key
+--   'capture' - finalize the reservation keyed by p_idempotency_key
+--   'release' - return the reservation keyed by p_idempotency_key
+--
+-- Returns { success, balance, duplicate, error, reservation_id, job_id }.
+-- Replaying an operation with the same key returns the original outcome
+-- with duplicate = true instead of applying it twice.
+CREATE OR REPLACE FUNCTION apply_credit_operation(
+    p_operation TEXT,
+    p_idempotency_key TEXT,
+    p_user_id UUID DEFAULT NULL,
+    p_amount INTEGER DEFAULT 0,
+    p_type TEXT DEFAULT NULL,
+    p_description TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb,
+    p_job_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_balance INTEGER;
+    v_reservation credit_reservations%ROWTYPE;
+    v_existing credit_transactions%ROWTYPE;
+    v_reservation_id UUID;
+BEGIN
+    -- ---------- capture / release an existing reservation ----------
+    IF p_operation IN ('capture', 'release') THEN
+        SELECT * INTO v_reservation FROM credit_reservations
+        WHERE idempotency_key = p_idempotency_key
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RETURN jsonb_build_object('success', false, 'error', 'reservation_not_found');
+        END IF;
+
+        SELECT balance INTO v_balance FROM user_credits
+        WHERE user_id = v_reservation.user_id
+        FOR UPDATE;
+
+        IF v_reservation.status <> 'held' THEN
+            RETURN jsonb_build_object(
+                'success', v_reservation.status = CASE p_operation WHEN 'capture' THEN 'captured' ELSE 'released' END,
+                'duplicate', true,
+                'balance', v_balance,
+                'reservation_id', v_reservation.id,
+                'job_id', v_reservation.job_id,
+                'error', 'reservation_already_' || v_reservation.status
+            );
+        END IF;
+
+        IF p_operation = 'capture' THEN
+            UPDATE credit_reservations SET status = 'captured', updated_at = NOW()
+            WHERE id = v_reservation.id;
+
+            UPDATE user_credits
+            SET lifetime_used = COALESCE(lifetime_used, 0) + v_reservation.amount,
+                updated_at = NOW()
+            WHERE user_id = v_reservation.user_id;
+        ELSE
+            UPDATE credit_reservations SET status = 'released', updated_at = NOW()
+            WHERE id = v_reservation.id;
+
+            UPDATE user_credits
+            SET balance = balance + v_reservation.amount,
+                updated_at = NOW()
+            WHERE user_id = v_reservation.user_id
+            RETURNING balance INTO v_balance;
+
+            INSERT INTO credit_transactions (user_id, amount, balance_after, type, description, metadata, idempotency_key)
+            VALUES (
+                v_reservation.user_id,
+                v_reservation.amount,
+                v_balance,
+                'refund',
+                COALESCE(p_description, 'Released reserved credits'),
+                COALESCE(v_reservation.metadata, '{}'::jsonb) || COALESCE(p_metadata, '{}'::jsonb)
+                    || jsonb_build_object('reservation_id', v_reservation.id),
+                'release:' || p_idempotency_key
+            );
+        END IF;
+
+        RETURN jsonb_build_object(
+            'success', true,
+            'duplicate', false,
+            'balance', v_balance,
+            'reservation_id', v_reservation.id,
+            'job_id', v_reservation.job_id
+        );
+    END IF;
+
+    IF p_operation NOT IN ('debit', 'credit', 'reserve') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'unknown_operation');
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'invalid_amount');
+    END IF;
+
+    -- Lock the balance row first so concurrent calls with the same key
+    -- serialize here and the second one sees the first one's transaction
+    SELECT balance INTO v_balance FROM user_credits
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'no_credit_account');
+    END IF;
+
+    -- ---------- idempotent replay ----------
+    IF p_idempotency_key IS NOT NULL THEN
+        SELECT * INTO v_existing FROM credit_transactions
+        WHERE idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            SELECT * INTO v_reservation FROM credit_reservations
+            WHERE idempotency_key = p_idempotency_key;
+
+            RETURN jsonb_build_object(
+                'success', true,
+                'duplicate', true,
+                'balance', v_balance,
+                'reservation_id', v_reservation.id,
+                'job_id', v_reservation.job_id
+            );
+        END IF;
+    END IF;
+
+    -- ---------- debit / reserve ----------
+    IF p_operation IN ('debit', 'reserve') THEN
+        IF v_balance < p_amount THEN
+            RETURN jsonb_build_object('success', false, 'error', 'insufficient_credits', 'balance', v_balance);
+        END IF;
+
+        UPDATE user_credits
+        SET balance = balance - p_amount,
+            lifetime_used = COALESCE(lifetime_used, 0) + CASE WHEN p_operation = 'debit' THEN p_amount ELSE 0 END,
+            updated_at = NOW()
+        WHERE user_id = p_user_id
+        RETURNING balance INTO v_balance;
+
+        IF p_operation = 'reserve' THEN
+            INSERT INTO credit_reservations (user_id, job_id, amount, idempotency_key, description, metadata)
+            VALUES (p_user_id, p_job_id, p_amount, p_idempotency_key, p_description, COALESCE(p_metadata, '{}'::jsonb))
+            RETURNING id INTO v_reservation_id;
+        END IF;
+
+        INSERT INTO credit_transactions (user_id, amount, balance_after, type, description, metadata, idempotency_key)
+        VALUES (
+            p_user_id,
+            -p_amount,
+            v_balance,
+            'usage',
+            p_description,
+            COALESCE(p_metadata, '{}'::jsonb)
+                || CASE WHEN v_reservation_id IS NOT NULL
+                        THEN jsonb_build_object('reservation_id', v_reservation_id)
+                        ELSE '{}'::jsonb END,
+            p_idempotency_key
+        );
+
+    -- ---------- credit ----------
+    ELSE
+        IF p_type NOT IN ('purchase', 'refund', 'bonus') THEN
+            RETURN jsonb_build_object('success', false, 'error', 'invalid_type');
+        END IF;
+
+        UPDATE user_credits
+        SET balance = balance + p_amount,
+            lifetime_purchased = COALESCE(lifetime_purchased, 0) + CASE WHEN p_type = 'purchase' THEN p_amount ELSE 0 END,
+            updated_at = NOW()
+        WHERE user_id = p_user_id
+        RETURNING balance INTO v_balance;
+
+        INSERT INTO credit_transactions (user_id, amount, balance_after, type, description, metadata, idempotency_key)
+        VALUES (p_user_id, p_amount, v_balance, p_type, p_description, COALESCE(p_metadata, '{}'::jsonb), p_idempotency_key);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'duplicate', false,
+        'balance', v_balance,
+        'reservation_id', v_reservation_id,
+        'job_id', p_job_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Balance changes are server-only
+REVOKE EXECUTE ON FUNCTION apply_credit_operation(TEXT, TEXT, UUID, INTEGER, TEXT, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_credit_operation(TEXT, TEXT, UUID, INTEGER, TEXT, TEXT, JSONB, UUID) TO service_role;
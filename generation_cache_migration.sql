@@ -0,0 +1,32 @@
+-- Generation Cache Migration
+-- Run this in your Supabase SQL Editor (after job_finalize_migration.sql)
+
+-- ============================================
+-- GENERATION CACHE TABLE
+-- ============================================
+
+-- One row per generated artifact, keyed by a hash of everything that went
+-- into it (see lib/generationCache.ts): TTS narration (text, voice, model),
+-- generated images (prompt, aspect ratio, model) and InfiniteTalk clips
+-- (face image and narration audio). The files themselves are copied to the
+-- 'videos' storage bucket under cache/<kind>/, since provider URLs expire.
+-- Regenerating a video with one edited scene reuses the other scenes and
+-- only charges for the cache misses.
+CREATE TABLE IF NOT EXISTS generation_cache (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kind TEXT NOT NULL CHECK (kind IN ('tts', 'image', 'clip')),
+    cache_key TEXT NOT NULL UNIQUE,
+    model TEXT NOT NULL,
+    -- Public URL of the stored file (the first chunk for multi-chunk TTS)
+    output_url TEXT NOT NULL,
+    -- Kind-specific details, e.g. { "duration": 4.2, "urls": [...] } for TTS (urls only for multi-chunk audio)
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_cache_kind ON generation_cache(kind, created_at);
+
+-- Only the service role (which bypasses RLS) reads or writes the cache
+ALTER TABLE generation_cache ENABLE ROW LEVEL SECURITY;
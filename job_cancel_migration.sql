@@ -0,0 +1,17 @@
+-- Job Cancel Migration
+-- Run this in your Supabase SQL Editor (after job_queue_migration.sql)
+
+-- ============================================
+-- CANCELLED AND PAUSED JOBS
+-- ============================================
+
+-- A cancelled job stops for good and refunds the credits of the scenes it
+-- never processed. A paused job stops between ticks and keeps its progress
+-- until it is resumed (see /api/video-jobs/[id]/cancel, pause and resume).
+ALTER TABLE video_jobs DROP CONSTRAINT IF EXISTS video_jobs_status_check;
+ALTER TABLE video_jobs ADD CONSTRAINT video_jobs_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'paused'));
+
+-- When and how much was refunded on cancel
+ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS credits_refunded INTEGER;
@@ -0,0 +1,13 @@
+-- Job Finalize Migration
+-- Run this in your Supabase SQL Editor (after provider_tasks_migration.sql)
+
+-- ============================================
+-- ONE VIDEO PER JOB
+-- ============================================
+
+-- A finished job is saved by whichever of its worker or the render webhook
+-- sees the render first (see lib/jobs/finalize.ts). The unique job_id lets
+-- the second one find the row instead of saving the video twice.
+-- Videos saved before this migration keep a NULL job_id.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES video_jobs(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS videos_job_id_key ON videos(job_id);
@@ -0,0 +1,167 @@
+-- Job Queue Migration
+-- Run this in your Supabase SQL Editor
+--
+-- Durable queue that drives video_jobs forward. Every job has one row here;
+-- workers lease a row, run one processing tick, then reschedule, complete or
+-- retry it. Leases that are not settled before lease_expires_at become
+-- visible again, so a crashed or timed-out tick is simply picked up again.
+
+-- ============================================
+-- JOB QUEUE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS job_queue (
+    job_id UUID PRIMARY KEY REFERENCES video_jobs(id) ON DELETE CASCADE,
+    job_type TEXT NOT NULL CHECK (job_type IN ('face', 'faceless', 'typography')),
+    state TEXT NOT NULL DEFAULT 'queued' CHECK (state IN ('queued', 'leased', 'done', 'dead')),
+    run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    lease_token UUID,
+    leased_by TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    attempts INTEGER NOT NULL DEFAULT 0, -- consecutive failed or abandoned ticks
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for finding due work
+CREATE INDEX IF NOT EXISTS idx_job_queue_due ON job_queue(run_at) WHERE state IN ('queued', 'leased');
+
+-- Typography jobs were previously rejected by the job_type check
+ALTER TABLE video_jobs DROP CONSTRAINT IF EXISTS video_jobs_job_type_check;
+ALTER TABLE video_jobs ADD CONSTRAINT video_jobs_job_type_check
+    CHECK (job_type IN ('face', 'faceless', 'typography'));
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Only the service role (which bypasses RLS) touches the queue
+ALTER TABLE job_queue ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- ENQUEUE
+-- ============================================
+
+-- Adds a job to the queue, or re-arms a finished one. A row that is
+-- currently leased is left alone; its holder settles it.
+CREATE OR REPLACE FUNCTION enqueue_video_job(
+    p_job_id UUID,
+    p_job_type TEXT,
+    p_delay_seconds INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO job_queue (job_id, job_type, run_at)
+    VALUES (p_job_id, p_job_type, NOW() + make_interval(secs => p_delay_seconds))
+    ON CONFLICT (job_id) DO UPDATE
+        SET state = 'queued',
+            run_at = EXCLUDED.run_at,
+            attempts = 0,
+            last_error = NULL,
+            updated_at = NOW()
+        WHERE job_queue.state <> 'leased';
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- CLAIM
+-- ============================================
+
+-- Leases up to p_limit due jobs. Expired leases are reclaimed and count
+-- as an attempt, so a tick that keeps crashing eventually dead-letters.
+CREATE OR REPLACE FUNCTION claim_video_jobs(
+    p_worker TEXT,
+    p_limit INTEGER DEFAULT 1,
+    p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF job_queue AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE job_queue q
+    SET state = 'leased',
+        lease_token = uuid_generate_v4(),
+        leased_by = p_worker,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = q.attempts + 1,
+        updated_at = NOW()
+    WHERE q.job_id IN (
+        SELECT job_id FROM job_queue
+        WHERE (state = 'queued' AND run_at <= NOW())
+           OR (state = 'leased' AND lease_expires_at < NOW())
+        ORDER BY run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Leases one specific job if it is due. Jobs created before the queue
+-- existed are enqueued on first sight.
+CREATE OR REPLACE FUNCTION claim_video_job(
+    p_job_id UUID,
+    p_job_type TEXT,
+    p_worker TEXT,
+    p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF job_queue AS $$
+BEGIN
+    INSERT INTO job_queue (job_id, job_type)
+    VALUES (p_job_id, p_job_type)
+    ON CONFLICT (job_id) DO NOTHING;
+
+    RETURN QUERY
+    UPDATE job_queue q
+    SET state = 'leased',
+        lease_token = uuid_generate_v4(),
+        leased_by = p_worker,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = q.attempts + 1,
+        updated_at = NOW()
+    WHERE q.job_id = p_job_id
+      AND ((q.state = 'queued' AND q.run_at <= NOW())
+        OR (q.state = 'leased' AND q.lease_expires_at < NOW()))
+    RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SETTLE
+-- ============================================
+
+-- Releases a lease held by p_lease_token. p_state is 'queued' (run again
+-- after p_delay_seconds), 'done' or 'dead'. Returns false if the lease was
+-- lost to another worker in the meantime.
+CREATE OR REPLACE FUNCTION settle_video_job(
+    p_job_id UUID,
+    p_lease_token UUID,
+    p_state TEXT,
+    p_delay_seconds INTEGER DEFAULT 0,
+    p_error TEXT DEFAULT NULL,
+    p_reset_attempts BOOLEAN DEFAULT TRUE
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE job_queue
+    SET state = p_state,
+        run_at = NOW() + make_interval(secs => p_delay_seconds),
+        lease_token = NULL,
+        leased_by = NULL,
+        lease_expires_at = NULL,
+        attempts = CASE WHEN p_reset_attempts THEN 0 ELSE attempts END,
+        last_error = p_error,
+        updated_at = NOW()
+    WHERE job_id = p_job_id AND lease_token = p_lease_token;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill jobs that are already in flight
+INSERT INTO job_queue (job_id, job_type)
+SELECT id, COALESCE(job_type, 'faceless')
+FROM video_jobs
+WHERE status IN ('pending', 'processing')
+ON CONFLICT (job_id) DO NOTHING;
@@ -0,0 +1,17 @@
+import { auth } from '@clerk/nextjs/server';
+
+/**
+ * Admin check for server routes. Admins are the Clerk user IDs listed
+ * (comma-separated) in ADMIN_CLERK_IDS.
+ */
+export async function isAdminRequest(): Promise<boolean> {
+    const { userId } = await auth();
+    if (!userId) return false;
+
+    const adminIds = (process.env.ADMIN_CLERK_IDS || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+
+    return adminIds.includes(userId);
+}
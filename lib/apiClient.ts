@@ -1,5 +1,17 @@
 import axios from 'axios';
-import { supabase } from '@/lib/supabase';
+import { supabase, type DbVoice } from '@/lib/supabase';
+import { estimateWordTimings, type WordTiming } from '@/lib/wordTimings';
+import type { CaptionStyle, CustomCaptionStyleInput } from '@/lib/captionStyles';
+import type { CaptionFormat } from '@/lib/captionExport';
+import type { DubLanguage } from '@/lib/dubbing';
+import type { SceneVoiceSettings } from '@/lib/sceneVoice';
+import type { VoiceSampleReport } from '@/lib/voiceAnalysis';
+import type { VoiceSampleSource } from '@/lib/voicePreprocessing';
+import type { MusicTrack } from '@/lib/backgroundMusic';
+import type { SceneSfxSettings, SoundEffect } from '@/lib/soundEffects';
+import type { SceneTransitionSettings } from '@/lib/sceneTransitions';
+import type { SceneKenBurnsSettings } from '@/lib/kenBurns';
+import type { SceneClipSettings } from '@/lib/clipAssets';
 
 export interface ApiError {
     message: string;
@@ -10,7 +22,7 @@ export interface ApiError {
 /**
  * Scene structure for video generation
  */
-export interface Scene {
+export interface Scene extends SceneVoiceSettings, SceneSfxSettings, SceneTransitionSettings, SceneKenBurnsSettings, SceneClipSettings {
     text: string;
     keywords: string[];
 }
@@ -21,7 +33,7 @@ export interface Scene {
 export const handleApiError = (error: unknown): ApiError => {
     if (axios.isAxiosError(error)) {
         return {
-            message: error.response?.data?.message || error.message || 'An error occurred',
+            message: error.response?.data?.message || error.response?.data?.error || error.message || 'An error occurred',
             code: error.response?.status?.toString(),
             details: error.response?.data
         };
@@ -243,11 +255,7 @@ export const pollVideoStatus = async (predictionId: string): Promise<{
 /**
  * Word timing data for captions
  */
-export interface WordTiming {
-    word: string;
-    start: number;
-    end: number;
-}
+export type { WordTiming };
 
 /**
  * Scene timing data for scene-based video generation
@@ -304,7 +312,9 @@ export const generateFacelessSpeech = async (
     try {
         // Call Whisper API to get exact word-level timestamps
         const whisperResponse = await axios.post('/api/transcribe-audio', {
-            audioUrl: audioUrl // Use the original TTS audio URL
+            audioUrl: audioUrl, // Use the original TTS audio URL
+            text: script,       // Align to the script so captions match it word for word
+            duration: actualDuration > 0 ? actualDuration : undefined
         });
 
         if (whisperResponse.data.wordTimings && whisperResponse.data.wordTimings.length > 0) {
@@ -335,40 +345,6 @@ export const generateFacelessSpeech = async (
     };
 };
 
-// Helper to estimate syllables for timing (moved up for use in estimateWordTimings)
-function estimateSyllables(word: string): number {
-    const cleaned = word.replace(/[^a-zA-Z]/g, '').toLowerCase();
-    if (cleaned.length <= 2) return 1;
-    const vowelGroups = cleaned.match(/[aeiouy]+/gi);
-    return Math.max(1, vowelGroups ? vowelGroups.length : Math.ceil(cleaned.length / 3));
-}
-
-// Fallback estimation function (used when Whisper fails)
-function estimateWordTimings(script: string, duration?: number): WordTiming[] {
-    const words = script.split(/\s+/).filter(w => w.length > 0);
-
-    const wordSyllables = words.map(estimateSyllables);
-    const totalSyllables = wordSyllables.reduce((a, b) => a + b, 0);
-
-    const finalDuration = duration || (totalSyllables / 3.5);
-    const timePerSyllable = finalDuration / totalSyllables;
-
-    const wordTimings: WordTiming[] = [];
-    let currentTime = 0;
-
-    for (let i = 0; i < words.length; i++) {
-        const wordDuration = wordSyllables[i] * timePerSyllable;
-        wordTimings.push({
-            word: words[i],
-            start: currentTime,
-            end: currentTime + wordDuration
-        });
-        currentTime += wordDuration;
-    }
-
-    return wordTimings;
-}
-
 // Helper to convert blob to base64
 async function blobToBase64(blob: Blob): Promise<string> {
     const buffer = await blob.arrayBuffer();
@@ -657,19 +633,24 @@ export const createTypographyVideo = async (
 };
 
 /**
- * Post-process a video to add background music and/or captions
+ * Post-process a video to add background music and/or captions. The music
+ * defaults to the bundled track at the default volume, ducked under speech.
  */
 export const postProcessVideo = async (
     videoUrl: string,
     enableBackgroundMusic: boolean = false,
-    wordTimings: WordTiming[] = []
+    wordTimings: WordTiming[] = [],
+    music: { url?: string; volume?: number; ducking?: boolean } = {}
 ): Promise<{
     videoUrl: string;
 }> => {
     const response = await axios.post('/api/add-music', {
         videoUrl,
         enableBackgroundMusic,
-        wordTimings
+        wordTimings,
+        musicUrl: music.url,
+        musicVolume: music.volume,
+        ducking: music.ducking
     });
 
     return {
@@ -954,7 +935,7 @@ export const createCaptionVideoCloud = async (
 /**
  * Scene input for face video job
  */
-export interface FaceVideoSceneInput {
+export interface FaceVideoSceneInput extends SceneSfxSettings, SceneTransitionSettings, SceneKenBurnsSettings {
     text: string;
     type: 'face' | 'asset';
     assetUrl?: string;
@@ -965,7 +946,7 @@ export interface FaceVideoSceneInput {
  */
 export interface FaceVideoJobStatus {
     jobId: string;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'paused';
     progress: number;
     progressMessage: string;
     result?: {
@@ -978,6 +959,8 @@ export interface FaceVideoJobStatus {
     totalScenes?: number;
     currentSceneIndex?: number;
     processedScenesCount?: number;
+    completedScenes?: number[];
+    activeScenes?: number[];
     isRendering?: boolean;
 }
 
@@ -1035,7 +1018,7 @@ export const triggerFaceVideoProcess = async (jobId: string): Promise<void> => {
  */
 export const pollFaceVideoJob = async (
     jobId: string,
-    onProgress?: (progress: number, message: string, sceneData?: { totalScenes: number; currentSceneIndex: number; processedScenesCount: number; isRendering: boolean }) => void,
+    onProgress?: (progress: number, message: string, sceneData?: { totalScenes: number; currentSceneIndex: number; processedScenesCount: number; completedScenes?: number[]; activeScenes?: number[]; isRendering: boolean }) => void,
     pollIntervalMs: number = 2000, // Poll status every 2s
     maxPollTimeMs: number = 900000 // 15 minutes max for complex videos
 ): Promise<{
@@ -1069,6 +1052,8 @@ export const pollFaceVideoJob = async (
                     totalScenes: status.totalScenes || 0,
                     currentSceneIndex: status.currentSceneIndex || 0,
                     processedScenesCount: status.processedScenesCount || 0,
+                    completedScenes: status.completedScenes,
+                    activeScenes: status.activeScenes,
                     isRendering: status.isRendering || false
                 });
             }
@@ -1090,6 +1075,11 @@ export const pollFaceVideoJob = async (
                 throw new Error(status.error || 'Video generation failed');
             }
 
+            // Check for cancellation
+            if (status.status === 'cancelled') {
+                throw new VideoJobCancelledError(jobId);
+            }
+
             // Re-trigger processing frequently to drive scene-by-scene
             // Server has mutex lock + stale lock detection, so safe to trigger often
             if ((status.status === 'pending' || status.status === 'processing') &&
@@ -1098,6 +1088,7 @@ export const pollFaceVideoJob = async (
                 lastTriggerTime = Date.now();
             }
         } catch (pollError) {
+            if (pollError instanceof VideoJobCancelledError) throw pollError;
             consecutiveErrors++;
             console.error(`[FaceVideo] Poll error (${consecutiveErrors}):`, pollError);
 
@@ -1121,7 +1112,7 @@ export const pollFaceVideoJob = async (
  */
 export interface FacelessVideoJobStatus {
     jobId: string;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'paused';
     progress: number;
     progressMessage: string;
     result?: {
@@ -1133,6 +1124,8 @@ export interface FacelessVideoJobStatus {
     totalScenes?: number;
     currentSceneIndex?: number;
     processedScenesCount?: number;
+    completedScenes?: number[];
+    activeScenes?: number[];
     isRendering?: boolean;
 }
 
@@ -1190,7 +1183,7 @@ export const triggerFacelessVideoProcess = async (jobId: string): Promise<void>
  */
 export const pollFacelessVideoJob = async (
     jobId: string,
-    onProgress?: (progress: number, message: string, sceneData?: { totalScenes: number; currentSceneIndex: number; processedScenesCount: number; isRendering: boolean }) => void,
+    onProgress?: (progress: number, message: string, sceneData?: { totalScenes: number; currentSceneIndex: number; processedScenesCount: number; completedScenes?: number[]; activeScenes?: number[]; isRendering: boolean }) => void,
     pollIntervalMs: number = 3000,
     maxPollTimeMs: number = 600000 // 10 minutes max
 ): Promise<{
@@ -1222,6 +1215,8 @@ export const pollFacelessVideoJob = async (
                     totalScenes: status.totalScenes || 0,
                     currentSceneIndex: status.currentSceneIndex || 0,
                     processedScenesCount: status.processedScenesCount || 0,
+                    completedScenes: status.completedScenes,
+                    activeScenes: status.activeScenes,
                     isRendering: status.isRendering || false
                 });
             }
@@ -1240,6 +1235,11 @@ export const pollFacelessVideoJob = async (
                 throw new Error(status.error || 'Video generation failed');
             }
 
+            // Check for cancellation
+            if (status.status === 'cancelled') {
+                throw new VideoJobCancelledError(jobId);
+            }
+
             // Retrigger processing periodically
             if (status.status === 'processing' &&
                 Date.now() - lastTriggerTime > RETRIGGER_INTERVAL_MS) {
@@ -1247,6 +1247,7 @@ export const pollFacelessVideoJob = async (
                 lastTriggerTime = Date.now();
             }
         } catch (pollError) {
+            if (pollError instanceof VideoJobCancelledError) throw pollError;
             consecutiveErrors++;
             console.error(`[FacelessVideo] Poll error (${consecutiveErrors}):`, pollError);
 
@@ -1261,3 +1262,241 @@ export const pollFacelessVideoJob = async (
 
     throw new Error('Video generation timed out after 10 minutes');
 };
+
+// ============ VIDEO JOB CONTROL ============
+
+/**
+ * Thrown by the job pollers when the job was cancelled
+ */
+export class VideoJobCancelledError extends Error {
+    constructor(public jobId: string) {
+        super('Video generation was cancelled');
+        this.name = 'VideoJobCancelledError';
+    }
+}
+
+/**
+ * Cancel a running video job. Credits for the scenes not yet processed
+ * are refunded.
+ */
+export const cancelVideoJob = async (jobId: string): Promise<{ status: string; creditsRefunded: number }> => {
+    const response = await axios.post(`/api/video-jobs/${jobId}/cancel`);
+    return response.data;
+};
+
+/**
+ * Pause a running video job; it keeps its progress
+ */
+export const pauseVideoJob = async (jobId: string): Promise<{ status: string }> => {
+    const response = await axios.post(`/api/video-jobs/${jobId}/pause`);
+    return response.data;
+};
+
+/**
+ * Resume a paused video job
+ */
+export const resumeVideoJob = async (jobId: string): Promise<{ status: string }> => {
+    const response = await axios.post(`/api/video-jobs/${jobId}/resume`);
+    return response.data;
+};
+
+// ============================================
+// Custom caption styles
+// ============================================
+
+/**
+ * A saved custom caption style, with the resolved style used for previews
+ */
+export interface SavedCaptionStyle {
+    id: string;
+    name: string;
+    definition: CustomCaptionStyleInput;
+    style: CaptionStyle;
+    created_at: string;
+}
+
+/**
+ * List the current user's custom caption styles
+ */
+export const getCaptionStyles = async (): Promise<SavedCaptionStyle[]> => {
+    const response = await axios.get('/api/caption-styles');
+    return response.data.styles || [];
+};
+
+/**
+ * Save a new custom caption style
+ */
+export const saveCaptionStyle = async (name: string, definition: CustomCaptionStyleInput): Promise<SavedCaptionStyle> => {
+    const response = await axios.post('/api/caption-styles', { name, definition });
+    return response.data.style;
+};
+
+/**
+ * Delete a custom caption style (queued videos keep their snapshot)
+ */
+export const removeCaptionStyle = async (id: string): Promise<void> => {
+    await axios.delete(`/api/caption-styles/${id}`);
+};
+
+/**
+ * Upload a TTF/OTF brand font; returns its public URL and internal family name
+ */
+export const uploadCaptionFont = async (file: File): Promise<{ url: string; family: string }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await axios.post('/api/caption-styles/fonts', formData);
+    return response.data;
+};
+
+// ============================================
+// Background music library
+// ============================================
+
+/**
+ * List the music catalogue and the user's uploads, optionally by mood or genre
+ */
+export const getMusicTracks = async (filters: { mood?: string; genre?: string } = {}): Promise<MusicTrack[]> => {
+    const response = await axios.get('/api/music', { params: filters });
+    return response.data.tracks || [];
+};
+
+/**
+ * Upload a background music track with its mood and genre tags
+ */
+export const uploadMusicTrack = async (
+    file: File,
+    details: { title: string; artist?: string; duration?: number; bpm?: number; moods?: string[]; genres?: string[] }
+): Promise<MusicTrack> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('title', details.title);
+    if (details.artist) formData.append('artist', details.artist);
+    if (details.duration) formData.append('duration', String(details.duration));
+    if (details.bpm) formData.append('bpm', String(details.bpm));
+    formData.append('moods', (details.moods || []).join(','));
+    formData.append('genres', (details.genres || []).join(','));
+    const response = await axios.post('/api/music', formData);
+    return response.data.track;
+};
+
+/**
+ * Delete one of the user's uploaded tracks
+ */
+export const removeMusicTrack = async (id: string): Promise<void> => {
+    await axios.delete(`/api/music/${id}`);
+};
+
+// ============================================
+// Sound effects library
+// ============================================
+
+/**
+ * List the whooshes, risers, clicks and impacts scenes can use
+ */
+export const getSoundEffects = async (): Promise<SoundEffect[]> => {
+    const response = await axios.get('/api/sfx');
+    return response.data.effects || [];
+};
+
+// ============================================
+// Caption export
+// ============================================
+
+/**
+ * Download a finished video's captions as a file (srt, vtt, ass or json)
+ */
+export const downloadCaptions = async (videoId: string, format: CaptionFormat): Promise<void> => {
+    const response = await axios.get(`/api/videos/${videoId}/captions`, {
+        params: { format },
+        responseType: 'blob'
+    });
+
+    const disposition: string = response.headers['content-disposition'] || '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `captions.${format}`;
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+// ============================================
+// Dubbing
+// ============================================
+
+/**
+ * Start dubbing a finished video into another language.
+ * Returns the faceless job that renders the dubbed copy.
+ */
+export const dubVideo = async (videoId: string, language: DubLanguage): Promise<{ jobId: string; creditsCharged: number }> => {
+    const response = await axios.post(`/api/videos/${videoId}/dub`, { language });
+    return response.data;
+};
+
+// ============================================
+// Voice library
+// ============================================
+
+/**
+ * List the current user's voices, newest first
+ */
+export const getVoiceLibrary = async (): Promise<DbVoice[]> => {
+    const response = await axios.get('/api/voice');
+    return response.data.voices || [];
+};
+
+/**
+ * Rename or re-tag a voice
+ */
+export const updateVoiceDetails = async (voiceId: string, updates: { name?: string; tags?: string[] }): Promise<DbVoice> => {
+    const response = await axios.patch(`/api/voice/${voiceId}`, updates);
+    return response.data.voice;
+};
+
+/**
+ * Re-record a voice: replace its sample, re-clone it and regenerate its preview
+ */
+export const replaceVoiceSample = async (voiceId: string, audio: File, refText?: string): Promise<DbVoice> => {
+    const formData = new FormData();
+    formData.append('audio', audio);
+    if (refText) formData.append('refText', refText);
+    const response = await axios.post(`/api/voice/${voiceId}/sample`, formData);
+    return response.data.voice;
+};
+
+/**
+ * Re-clone a voice from its stored sample (cleaned by default, or the original)
+ */
+export const regenerateVoiceEmbedding = async (voiceId: string, source?: VoiceSampleSource): Promise<DbVoice> => {
+    const response = await axios.post(`/api/voice/${voiceId}/embedding`, source ? { source } : {});
+    return response.data.voice;
+};
+
+/**
+ * Generate the standard preview clip for a voice
+ */
+export const generateVoicePreview = async (voiceId: string): Promise<DbVoice> => {
+    const response = await axios.post(`/api/voice/${voiceId}/preview`);
+    return response.data.voice;
+};
+
+/**
+ * Check a voice sample's loudness, clipping, noise and speech before cloning
+ */
+export const analyzeVoiceSample = async (audio: File): Promise<VoiceSampleReport> => {
+    const formData = new FormData();
+    formData.append('audio', audio);
+    const response = await axios.post('/api/voice/analyze', formData);
+    return response.data;
+};
+
+/**
+ * Delete a voice and its stored sample and preview
+ */
+export const removeVoice = async (voiceId: string): Promise<void> => {
+    await axios.delete(`/api/voice/${voiceId}`);
+};
@@ -0,0 +1,248 @@
+/**
+ * Background music settings and ducking (see music_library_migration.sql)
+ *
+ * Client-safe. Every render backend turns the same settings into the same
+ * volume envelope: the music plays at `volume`, dips to `duckedVolume` while
+ * the narration is speaking, fades in over the first second and out over
+ * the last two. Remotion samples the envelope per frame, ffmpeg receives it
+ * as a volume expression and JSON2Video as constant-volume segments.
+ */
+
+// A row of music_tracks. Built-in catalogue tracks have no user_id.
+export interface MusicTrack {
+    id: string;
+    user_id: string | null;
+    title: string;
+    artist: string | null;
+    url: string;
+    duration: number | null;
+    bpm: number | null;
+    moods: string[];
+    genres: string[];
+    created_at: string;
+}
+
+// Suggested tags for the picker filters and uploads (tags are free-form)
+export const MUSIC_MOODS = ['upbeat', 'energetic', 'happy', 'calm', 'chill', 'inspiring', 'dramatic', 'epic', 'dark', 'sad'] as const;
+export const MUSIC_GENRES = ['pop', 'electronic', 'lo-fi', 'hip-hop', 'cinematic', 'ambient', 'acoustic', 'rock', 'corporate'] as const;
+
+// Music choice sent with a job (input_data.music)
+export interface MusicOptions {
+    trackId?: string;
+    volume?: number;
+    ducking?: boolean;
+}
+
+// Resolved settings every render backend receives
+export interface BackgroundMusicSettings {
+    url: string;
+    // Level with no narration (0-1)
+    volume: number;
+    ducking: boolean;
+    // Level under the narration when ducking (0-1)
+    duckedVolume: number;
+    // Track length in seconds, so segmented renders keep the loop position
+    trackDuration?: number;
+}
+
+export interface SpeechRegion {
+    start: number;
+    end: number;
+}
+
+export interface MusicKeyframe {
+    time: number;
+    volume: number;
+}
+
+export interface MusicSegment {
+    start: number;
+    end: number;
+    volume: number;
+}
+
+export const DEFAULT_MUSIC_VOLUME = 0.25;
+export const MUSIC_VOLUME_MAX = 1;
+// Ducked level as a fraction of the normal level
+export const MUSIC_DUCKING_RATIO = 0.4;
+
+const FADE_IN_SECONDS = 1;
+const FADE_OUT_SECONDS = 2;
+// How quickly the music dips before speech and recovers after it
+const DUCK_ATTACK_SECONDS = 0.25;
+const DUCK_RELEASE_SECONDS = 0.5;
+// Pauses shorter than this stay ducked instead of pumping the music
+const SPEECH_MERGE_GAP_SECONDS = 0.8;
+
+export function validateMusicOptions(options: unknown): string | null {
+    if (options === undefined || options === null) return null;
+    if (typeof options !== 'object' || Array.isArray(options)) return 'music must be an object';
+
+    const { trackId, volume, ducking } = options as Record<string, unknown>;
+    if (trackId !== undefined && (typeof trackId !== 'string' || !trackId)) {
+        return 'music.trackId must be a track id';
+    }
+    if (volume !== undefined && (typeof volume !== 'number' || !Number.isFinite(volume) || volume < 0 || volume > MUSIC_VOLUME_MAX)) {
+        return `music.volume must be between 0 and ${MUSIC_VOLUME_MAX}`;
+    }
+    if (ducking !== undefined && typeof ducking !== 'boolean') {
+        return 'music.ducking must be true or false';
+    }
+    return null;
+}
+
+/**
+ * Settings for a render, or undefined when music is off
+ */
+export function resolveBackgroundMusic(
+    enabled: boolean | undefined,
+    url: string | undefined,
+    options: MusicOptions = {},
+    trackDuration?: number
+): BackgroundMusicSettings | undefined {
+    if (!enabled || !url) return undefined;
+    const volume = options.volume ?? DEFAULT_MUSIC_VOLUME;
+    return {
+        url,
+        volume,
+        ducking: options.ducking ?? true,
+        duckedVolume: volume * MUSIC_DUCKING_RATIO,
+        trackDuration: trackDuration && trackDuration > 0 ? trackDuration : undefined
+    };
+}
+
+/**
+ * Where the narration is speaking on the video timeline. Uses each scene's
+ * word timings (relative to the scene start); scenes without them count as
+ * speech from the narration start to the scene end, scenes with no text as
+ * silence. Short pauses are merged so the music doesn't pump between words.
+ */
+export function getSpeechRegions(
+    scenes: Array<{ duration: number; text?: string; audioOffset?: number; wordTimings?: Array<{ start: number; end: number }> }>
+): SpeechRegion[] {
+    const regions: SpeechRegion[] = [];
+    let sceneStart = 0;
+
+    for (const scene of scenes) {
+        const words = (scene.wordTimings || []).filter(w => w.end > w.start);
+        if (words.length > 0) {
+            for (const word of words) {
+                regions.push({
+                    start: sceneStart + Math.max(0, word.start),
+                    end: sceneStart + Math.min(scene.duration, word.end)
+                });
+            }
+        } else if (scene.text === undefined || scene.text.trim()) {
+            regions.push({ start: sceneStart + (scene.audioOffset || 0), end: sceneStart + scene.duration });
+        }
+        sceneStart += scene.duration;
+    }
+
+    regions.sort((a, b) => a.start - b.start);
+    const merged: SpeechRegion[] = [];
+    for (const region of regions) {
+        const last = merged[merged.length - 1];
+        if (last && region.start - last.end < SPEECH_MERGE_GAP_SECONDS) {
+            last.end = Math.max(last.end, region.end);
+        } else if (region.end > region.start) {
+            merged.push({ ...region });
+        }
+    }
+    return merged;
+}
+
+/**
+ * Constant-level stretches of music: normal level between speech, ducked
+ * level under it. Without ducking this is a single segment.
+ */
+export function planMusicSegments(settings: BackgroundMusicSettings, regions: SpeechRegion[], duration: number): MusicSegment[] {
+    if (!settings.ducking || regions.length === 0) {
+        return [{ start: 0, end: duration, volume: settings.volume }];
+    }
+
+    const segments: MusicSegment[] = [];
+    let cursor = 0;
+    for (const region of regions) {
+        const start = Math.max(cursor, Math.min(duration, region.start));
+        const end = Math.min(duration, region.end);
+        if (start > cursor) segments.push({ start: cursor, end: start, volume: settings.volume });
+        if (end > start) segments.push({ start, end, volume: settings.duckedVolume });
+        cursor = Math.max(cursor, end);
+    }
+    if (cursor < duration) segments.push({ start: cursor, end: duration, volume: settings.volume });
+    return segments;
+}
+
+function fadeGain(time: number, duration: number): number {
+    return Math.max(0, Math.min(1, time / FADE_IN_SECONDS, (duration - time) / FADE_OUT_SECONDS));
+}
+
+/**
+ * Piecewise-linear volume envelope (ducking plus the fades)
+ */
+export function buildMusicKeyframes(settings: BackgroundMusicSettings, regions: SpeechRegion[], duration: number): MusicKeyframe[] {
+    // Ducking curve breakpoints
+    const duck: MusicKeyframe[] = [{ time: 0, volume: settings.volume }];
+    if (settings.ducking) {
+        for (const region of regions) {
+            duck.push(
+                { time: Math.max(0, region.start - DUCK_ATTACK_SECONDS), volume: settings.volume },
+                { time: region.start, volume: settings.duckedVolume },
+                { time: region.end, volume: settings.duckedVolume },
+                { time: region.end + DUCK_RELEASE_SECONDS, volume: settings.volume }
+            );
+        }
+    }
+    const duckAt = (time: number) => interpolateKeyframes(duck, time);
+
+    const times = new Set<number>([0, Math.min(FADE_IN_SECONDS, duration), Math.max(0, duration - FADE_OUT_SECONDS), duration]);
+    for (const point of duck) {
+        if (point.time > 0 && point.time < duration) times.add(point.time);
+    }
+
+    return Array.from(times)
+        .sort((a, b) => a - b)
+        .map(time => ({
+            time: Number(time.toFixed(3)),
+            volume: Number((duckAt(time) * fadeGain(time, duration)).toFixed(4))
+        }));
+}
+
+function interpolateKeyframes(keyframes: MusicKeyframe[], time: number): number {
+    if (keyframes.length === 0) return 0;
+    if (time <= keyframes[0].time) return keyframes[0].volume;
+    for (let i = 1; i < keyframes.length; i++) {
+        const next = keyframes[i];
+        if (time <= next.time) {
+            const prev = keyframes[i - 1];
+            const span = next.time - prev.time;
+            return span > 0 ? prev.volume + (next.volume - prev.volume) * (time - prev.time) / span : next.volume;
+        }
+    }
+    return keyframes[keyframes.length - 1].volume;
+}
+
+/**
+ * Music volume at a point in the video
+ */
+export function musicVolumeAt(keyframes: MusicKeyframe[], time: number): number {
+    return interpolateKeyframes(keyframes, time);
+}
+
+/**
+ * The envelope as an ffmpeg `volume` expression (use with eval=frame). A
+ * flat sum of clipped ramps, so long videos don't nest deeply.
+ */
+export function buildFfmpegVolumeExpression(keyframes: MusicKeyframe[]): string {
+    if (keyframes.length === 0) return '0';
+    const terms = [keyframes[0].volume.toString()];
+    for (let i = 1; i < keyframes.length; i++) {
+        const prev = keyframes[i - 1];
+        const next = keyframes[i];
+        const delta = Number((next.volume - prev.volume).toFixed(4));
+        const span = next.time - prev.time;
+        if (delta === 0 || span <= 0) continue;
+        terms.push(`${delta}*clip((t-${prev.time})/${Number(span.toFixed(3))},0,1)`);
+    }
+    return terms.join('+').replace(/\+-/g, '-');
+}
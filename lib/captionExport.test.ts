@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { exportCaptions, formatAssTime, generateAss, generateSrt, generateVtt, groupCaptionPhrases } from './captionExport';
+import { compileAssAnimation, getCaptionStyle } from './captionStyles';
+import type { WordTiming } from './wordTimings';
+
+const WORDS: WordTiming[] = [
+    { word: 'Hello', start: 0, end: 0.4 },
+    { word: 'there,', start: 0.45, end: 0.9 },
+    { word: 'how', start: 1.2, end: 1.4 },
+    { word: 'are', start: 1.4, end: 1.55 },
+    { word: 'you?', start: 1.6, end: 2.05 }
+];
+
+const SIZE = { width: 1080, height: 1920 };
+const STYLE = { ...getCaptionStyle('modern-pop'), maxWordsPerLine: 2 };
+
+// Start and end of each Dialogue line
+function dialogueTimes(ass: string): string[][] {
+    return ass.split('\n')
+        .filter(line => line.startsWith('Dialogue:'))
+        .map(line => line.split(',').slice(1, 3));
+}
+
+describe('groupCaptionPhrases', () => {
+    it('groups words into phrases spanning their first and last word', () => {
+        expect(groupCaptionPhrases(WORDS, 2).map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+            { start: 0, end: 0.9, text: 'Hello there,' },
+            { start: 1.2, end: 1.55, text: 'how are' },
+            { start: 1.6, end: 2.05, text: 'you?' }
+        ]);
+    });
+
+    it('defaults to four words per phrase', () => {
+        expect(groupCaptionPhrases(WORDS).map(phrase => phrase.words.length)).toEqual([4, 1]);
+    });
+
+    it('puts each word in its own phrase below one word per phrase', () => {
+        expect(groupCaptionPhrases(WORDS, 0)).toHaveLength(WORDS.length);
+    });
+
+    it('returns nothing for no words', () => {
+        expect(groupCaptionPhrases([], 3)).toEqual([]);
+    });
+});
+
+describe('timestamps', () => {
+    it.each([
+        [0, '0:00:00.00'],
+        [1.234, '0:00:01.23'],
+        [59.995, '0:01:00.00'],
+        [3661.5, '1:01:01.50'],
+        [-2, '0:00:00.00']
+    ])('formats %s seconds for ASS as %s', (seconds, expected) => {
+        expect(formatAssTime(seconds)).toBe(expected);
+    });
+
+    it('writes numbered SRT cues with comma milliseconds', () => {
+        expect(generateSrt([{ word: 'Hi', start: 3661.0005, end: 3662.25 }, { word: 'again', start: 3662.3, end: 3662.9 }], 1)).toBe(
+            '1\n01:01:01,001 --> 01:01:02,250\nHi\n\n2\n01:01:02,300 --> 01:01:02,900\nagain\n'
+        );
+    });
+
+    it('writes WebVTT cues with dot milliseconds after the header', () => {
+        expect(generateVtt(WORDS, 5)).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:02.050\nHello there, how are you?\n');
+    });
+});
+
+describe('generateAss', () => {
+    const ass = generateAss(WORDS, STYLE, SIZE);
+
+    it('sizes the script to the video', () => {
+        expect(ass).toContain('PlayResX: 1080');
+        expect(ass).toContain('PlayResY: 1920');
+    });
+
+    it('shows each word until the next one starts, and each phrase until the next phrase', () => {
+        expect(dialogueTimes(ass)).toEqual([
+            ['0:00:00.00', '0:00:00.45'],
+            ['0:00:00.45', '0:00:01.20'],
+            ['0:00:01.20', '0:00:01.40'],
+            ['0:00:01.40', '0:00:01.60'],
+            // The last phrase lingers half a second
+            ['0:00:01.60', '0:00:02.55']
+        ]);
+    });
+
+    it('animates only the first event of each phrase', () => {
+        const animation = compileAssAnimation(STYLE, SIZE);
+        const events = ass.split('\n').filter(line => line.startsWith('Dialogue:'));
+        expect(events.map(line => line.includes(`,,${animation}`))).toEqual([true, false, true, false, true]);
+    });
+
+    it('skips words that have no time on screen', () => {
+        const overlapping = [
+            { word: 'one', start: 0, end: 0.5 },
+            { word: 'two', start: 0, end: 0.5 }
+        ];
+        expect(dialogueTimes(generateAss(overlapping, STYLE, SIZE))).toEqual([['0:00:00.00', '0:00:01.00']]);
+    });
+});
+
+describe('exportCaptions', () => {
+    it.each([
+        ['srt', 'application/x-subrip; charset=utf-8'],
+        ['vtt', 'text/vtt; charset=utf-8'],
+        ['ass', 'text/x-ssa; charset=utf-8'],
+        ['json', 'application/json; charset=utf-8']
+    ] as const)('exports %s as %s', (format, contentType) => {
+        const file = exportCaptions(format, WORDS, STYLE, SIZE);
+        expect(file.contentType).toBe(contentType);
+        expect(file.body.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Caption file export
+ *
+ * Turns the word timings stored on a video into sidecar caption files
+ * (SRT, WebVTT, ASS, JSON) so creators can upload native captions instead of
+ * burning them in. ASS output uses the same compiled style as the ffmpeg
+ * burn-in, so an exported file looks like the rendered captions.
+ */
+
+import {
+    compileAssAnimation,
+    compileAssPhrase,
+    compileAssStyle,
+    CaptionStyle
+} from '@/lib/captionStyles';
+import { joinWords, type WordTiming } from '@/lib/wordTimings';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+export const CAPTION_FORMATS: CaptionFormat[] = ['srt', 'vtt', 'ass', 'json'];
+
+export function isCaptionFormat(value: unknown): value is CaptionFormat {
+    return typeof value === 'string' && CAPTION_FORMATS.includes(value as CaptionFormat);
+}
+
+export interface CaptionPhrase {
+    words: WordTiming[];
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Group words into phrases of `wordsPerPhrase` words
+ */
+export function groupCaptionPhrases(wordTimings: WordTiming[], wordsPerPhrase: number = 4): CaptionPhrase[] {
+    const phrases: CaptionPhrase[] = [];
+    const size = Math.max(1, wordsPerPhrase);
+
+    for (let i = 0; i < wordTimings.length; i += size) {
+        const words = wordTimings.slice(i, i + size);
+        if (words.length === 0) continue;
+        phrases.push({
+            words,
+            start: words[0].start,
+            end: words[words.length - 1].end,
+            text: joinWords(words.map(w => w.word))
+        });
+    }
+
+    return phrases;
+}
+
+// ============ Timestamps ============
+
+function splitTime(seconds: number): { h: string; m: string; s: string; ms: string } {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    return {
+        h: String(Math.floor(totalMs / 3600000)).padStart(2, '0'),
+        m: String(Math.floor((totalMs % 3600000) / 60000)).padStart(2, '0'),
+        s: String(Math.floor((totalMs % 60000) / 1000)).padStart(2, '0'),
+        ms: String(totalMs % 1000).padStart(3, '0')
+    };
+}
+
+// HH:MM:SS,mmm
+function formatSrtTime(seconds: number): string {
+    const { h, m, s, ms } = splitTime(seconds);
+    return `${h}:${m}:${s},${ms}`;
+}
+
+// HH:MM:SS.mmm
+function formatVttTime(seconds: number): string {
+    const { h, m, s, ms } = splitTime(seconds);
+    return `${h}:${m}:${s}.${ms}`;
+}
+
+// H:MM:SS.CC
+export function formatAssTime(seconds: number): string {
+    const totalCs = Math.max(0, Math.round(seconds * 100));
+    const h = Math.floor(totalCs / 360000);
+    const m = Math.floor((totalCs % 360000) / 6000);
+    const s = Math.floor((totalCs % 6000) / 100);
+    const cs = totalCs % 100;
+    return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
+}
+
+// ============ Formats ============
+
+export function generateSrt(wordTimings: WordTiming[], wordsPerPhrase: number = 4): string {
+    return groupCaptionPhrases(wordTimings, wordsPerPhrase).map((phrase, index) =>
+        `${index + 1}\n${formatSrtTime(phrase.start)} --> ${formatSrtTime(phrase.end)}\n${phrase.text}\n`
+    ).join('\n');
+}
+
+export function generateVtt(wordTimings: WordTiming[], wordsPerPhrase: number = 4): string {
+    const cues = groupCaptionPhrases(wordTimings, wordsPerPhrase).map(phrase =>
+        `${formatVttTime(phrase.start)} --> ${formatVttTime(phrase.end)}\n${phrase.text}\n`
+    );
+    return `WEBVTT\n\n${cues.join('\n')}`;
+}
+
+/**
+ * ASS subtitles with the caption style's look: one event per spoken word so
+ * the active word is highlighted, with the entrance animation on the first
+ * event of each phrase.
+ */
+export function generateAss(wordTimings: WordTiming[], style: CaptionStyle, size: { width: number; height: number }): string {
+    const { width, height } = size;
+    const phrases = groupCaptionPhrases(wordTimings, style.maxWordsPerLine);
+
+    let ass = `[Script Info]
+Title: Styled Captions - ${style.name}
+ScriptType: v4.00+
+PlayResX: ${width}
+PlayResY: ${height}
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+Collisions: Normal
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+${compileAssStyle(style, { name: 'Default', width })}
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`;
+
+    const animation = compileAssAnimation(style, { width, height });
+
+    for (let phraseIdx = 0; phraseIdx < phrases.length; phraseIdx++) {
+        const phrase = phrases[phraseIdx];
+        // Phrase ends when next phrase starts, or with buffer at end
+        const phraseEnd = phraseIdx < phrases.length - 1
+            ? phrases[phraseIdx + 1].start
+            : phrase.end + 0.5;
+        const words = phrase.words.map(w => w.word);
+
+        for (let wordIdx = 0; wordIdx < phrase.words.length; wordIdx++) {
+            const start = wordIdx === 0 ? phrase.start : phrase.words[wordIdx].start;
+            const end = wordIdx < phrase.words.length - 1 ? phrase.words[wordIdx + 1].start : phraseEnd;
+            if (end <= start) continue;
+
+            const text = `${wordIdx === 0 ? animation : ''}${compileAssPhrase(style, words, wordIdx)}`;
+            ass += `Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},Default,,0,0,0,,${text}\n`;
+        }
+    }
+
+    return ass;
+}
+
+const CONTENT_TYPES: Record<CaptionFormat, string> = {
+    srt: 'application/x-subrip; charset=utf-8',
+    vtt: 'text/vtt; charset=utf-8',
+    ass: 'text/x-ssa; charset=utf-8',
+    json: 'application/json; charset=utf-8'
+};
+
+/**
+ * Build a caption file in the requested format
+ */
+export function exportCaptions(
+    format: CaptionFormat,
+    wordTimings: WordTiming[],
+    style: CaptionStyle,
+    size: { width: number; height: number }
+): { body: string; contentType: string } {
+    let body: string;
+    switch (format) {
+        case 'srt':
+            body = generateSrt(wordTimings, style.maxWordsPerLine);
+            break;
+        case 'vtt':
+            body = generateVtt(wordTimings, style.maxWordsPerLine);
+            break;
+        case 'ass':
+            body = generateAss(wordTimings, style, size);
+            break;
+        case 'json':
+            body = JSON.stringify({ words: wordTimings }, null, 2);
+            break;
+    }
+    return { body, contentType: CONTENT_TYPES[format] };
+}
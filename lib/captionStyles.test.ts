@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+    CAPTION_POSITIONS,
+    CAPTION_STYLE_IDS,
+    buildCustomCaptionStyle,
+    compileAssAnimation,
+    compileAssPhrase,
+    compileAssStyle,
+    compileJson2VideoSettings,
+    compileRemotionStyle,
+    getCaptionStyle,
+    getRemotionCaptionMotion,
+    validateCustomCaptionStyle,
+    CaptionStyle,
+    CustomCaptionStyleInput
+} from './captionStyles';
+
+const SIZES = [
+    { width: 1080, height: 1920 },
+    { width: 1920, height: 1080 },
+    { width: 1080, height: 1080 }
+];
+
+// A custom style per position, with an uploaded brand font
+function brandDefinition(position: CustomCaptionStyleInput['position']): CustomCaptionStyleInput {
+    return {
+        baseStyle: 'modern-pop',
+        font: 'Brand Sans',
+        fontUrl: 'https://example.com/fonts/brand-sans.ttf',
+        highlightColor: '#FF0066',
+        outlineWidth: 6,
+        position,
+        maxWordsPerLine: 2,
+        animation: 'slide'
+    };
+}
+
+const STYLES: CaptionStyle[] = [
+    ...CAPTION_STYLE_IDS.map(id => getCaptionStyle(id)),
+    ...CAPTION_POSITIONS.map(position => buildCustomCaptionStyle(`test-${position}`, `Test ${position}`, brandDefinition(position)))
+];
+
+describe('caption style registry', () => {
+    it.each(CAPTION_STYLE_IDS)('resolves %s to itself', id => {
+        expect(getCaptionStyle(id).id).toBe(id);
+    });
+
+    it.each(CAPTION_POSITIONS)('accepts a custom style at the %s', position => {
+        expect(validateCustomCaptionStyle(brandDefinition(position))).toBeNull();
+    });
+
+    it('rejects a font name with a comma', () => {
+        expect(validateCustomCaptionStyle({ baseStyle: 'modern-pop', font: 'Bad, Font' })).toBeTruthy();
+    });
+});
+
+describe.each(STYLES.map(style => [style.id, style] as const))('%s', (_, style) => {
+    it.each(SIZES.map(size => [`${size.width}x${size.height}`, size] as const))('compiles to ASS at %s', (__, size) => {
+        const assStyle = compileAssStyle(style, { width: size.width });
+        expect(assStyle.split(',')).toHaveLength(23);
+        expect(assStyle).not.toContain('NaN');
+        expect(() => compileAssAnimation(style, size)).not.toThrow();
+        expect(compileAssPhrase(style, ['one', 'two', 'three'], 1)).toContain('\\1c');
+    });
+
+    it.each(SIZES.map(size => [`${size.width}x${size.height}`, size] as const))('compiles to Remotion at %s', (__, size) => {
+        const remotion = compileRemotionStyle(style, size);
+        expect(remotion.text.fontFamily).toBeTruthy();
+        expect(remotion.text.fontSize).toBeTruthy();
+        for (const frame of [0, 3, 10]) {
+            const motion = getRemotionCaptionMotion(style, frame);
+            expect(Object.values(motion).some(v => Number.isNaN(v))).toBe(false);
+        }
+    });
+
+    it('compiles to JSON2Video', () => {
+        const settings = compileJson2VideoSettings(style);
+        expect(settings['style']).toBeTruthy();
+        expect(settings['font-family']).toBeTruthy();
+        expect(settings['font-size']).toBeTruthy();
+        expect(settings['font-url']).toBe(style.fontUrl);
+    });
+});
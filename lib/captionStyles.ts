@@ -1,168 +1,629 @@
 /**
- * Caption Style Definitions
- * 
- * Each style defines font, colors (in ASS BGR format), and animation effects.
- * These are used by the video rendering API to generate styled captions.
+ * Caption Style Registry
+ *
+ * Single source of truth for caption styles. Each style is defined once,
+ * backend-neutral, and compiled into:
+ *   - ASS styles/override tags (ffmpeg burn-in, render-remotion route)
+ *   - React styles for the Remotion Captions component
+ *   - JSON2Video subtitles settings
+ *
+ * The registry is keyed by CaptionStyleId, so adding an ID without a
+ * definition (or a definition the compilers cannot handle) fails type-check.
+ * lib/captionStyles.test.ts compiles every style for every backend.
+ *
+ * Kept free of server-only imports: the Remotion bundle imports this file.
  */
 
+import type { CSSProperties } from 'react';
+// Relative import: the Remotion bundle does not resolve the @/ alias
+import { wordSeparator } from './wordTimings';
+
+export type CaptionStyleId =
+    | 'bold-classic'
+    | 'clean-cut'
+    | 'modern-pop'
+    | 'minimal'
+    | 'vibrant'
+    | 'neon-glow'
+    | 'handwritten'
+    | 'retro-vhs'
+    | 'gradient-pop';
+
+export type CaptionAnimation = 'pop' | 'fade' | 'bounce' | 'glow' | 'slide' | 'none';
+
+export type CaptionPosition = 'bottom' | 'middle' | 'top';
+
+export const CAPTION_ANIMATIONS: CaptionAnimation[] = ['pop', 'fade', 'bounce', 'glow', 'slide', 'none'];
+export const CAPTION_POSITIONS: CaptionPosition[] = ['bottom', 'middle', 'top'];
+
 export interface CaptionStyle {
     id: string;
     name: string;
     description: string;
+    // Font family for ASS and CSS (ASS needs it installed where ffmpeg runs)
     font: string;
+    // CSS fallback stack
     fontFallback: string;
+    // Closest font JSON2Video hosts
+    json2videoFont: string;
+    // Uploaded font file (custom styles); embedded by every backend
+    fontUrl?: string;
+    // px on a 1080px-wide frame
     fontSize: number;
-    // Colors in ASS format: &HAABBGGRR (Alpha, Blue, Green, Red)
-    primaryColor: string;      // Main text color
-    outlineColor: string;      // Outline/border color
-    shadowColor: string;       // Shadow/back color
+    fontWeight: number;
+    allCaps: boolean;
+    letterSpacing: number;
+    // Colours are #RRGGBB, or #RRGGBBAA where noted
+    textColor: string;          // Words not being spoken
+    highlightColor: string;     // Word being spoken
+    outlineColor: string;
     outlineWidth: number;
+    shadowColor: string;
+    shadowOpacity: number;      // 0-1
     shadowDepth: number;
-    bold: boolean;
-    // Animation effects
-    animation: 'pop' | 'fade' | 'bounce' | 'glow' | 'slide' | 'none';
-    // Preview CSS (for UI rendering)
-    previewCss: {
-        fontFamily: string;
-        color: string;
-        textShadow: string;
-        fontWeight: string;
-    };
+    glowColor?: string;
+    boxColor?: string;          // #RRGGBBAA box behind the line
+    // Keep already-spoken words highlighted
+    progressive: boolean;
+    maxWordsPerLine: number;
+    position: CaptionPosition;
+    animation: CaptionAnimation;
 }
 
-export const CAPTION_STYLES: CaptionStyle[] = [
-    {
-        id: 'bold-classic',
+// Distance from the bottom edge of a 1920px-tall frame
+export const CAPTION_MARGIN_BOTTOM = 200;
+
+// JSON2Video font sizes run larger than px for the same visual size
+const JSON2VIDEO_FONT_SCALE = 1.6;
+
+const CAPTION_STYLE_REGISTRY: Record<CaptionStyleId, Omit<CaptionStyle, 'id'>> = {
+    'bold-classic': {
         name: 'Bold Classic',
         description: 'Clean, professional white text',
         font: 'Impact',
         fontFallback: 'Arial Black, sans-serif',
+        json2videoFont: 'Bangers',
         fontSize: 72,
-        primaryColor: '&H00FFFFFF',  // White
-        outlineColor: '&H00000000',  // Black outline
-        shadowColor: '&H80000000',   // Semi-transparent black
+        fontWeight: 700,
+        allCaps: false,
+        letterSpacing: 2,
+        textColor: '#FFFFFF',
+        highlightColor: '#FFD700',
+        outlineColor: '#000000',
         outlineWidth: 4,
-        shadowDepth: 2,
-        bold: true,
+        shadowColor: '#000000',
+        shadowOpacity: 0.5,
+        shadowDepth: 3,
+        progressive: false,
+        maxWordsPerLine: 3,
+        position: 'bottom',
         animation: 'pop',
-        previewCss: {
-            fontFamily: 'Impact, Arial Black, sans-serif',
-            color: '#FFFFFF',
-            textShadow: '2px 2px 0 #000, -2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000',
-            fontWeight: 'bold',
-        },
     },
-    {
-        id: 'neon-glow',
-        name: 'Neon Glow',
-        description: 'Vibrant cyan with glow effect',
-        font: 'Arial Black',
+    'clean-cut': {
+        name: 'Clean Cut',
+        description: 'Dark text with a white outline',
+        font: 'Noto Sans',
         fontFallback: 'Arial, sans-serif',
-        fontSize: 68,
-        primaryColor: '&H00FFFF00',  // Cyan (BGR)
-        outlineColor: '&H00FF8800',  // Darker cyan
-        shadowColor: '&H8000FFFF',   // Cyan glow
-        outlineWidth: 2,
-        shadowDepth: 8,
-        bold: true,
-        animation: 'glow',
-        previewCss: {
-            fontFamily: 'Arial Black, Arial, sans-serif',
-            color: '#00FFFF',
-            textShadow: '0 0 10px #00FFFF, 0 0 20px #00FFFF, 0 0 30px #0088FF',
-            fontWeight: 'bold',
-        },
+        json2videoFont: 'NotoSans Bold',
+        fontSize: 52,
+        fontWeight: 700,
+        allCaps: false,
+        letterSpacing: 0,
+        textColor: '#555555',
+        highlightColor: '#000000',
+        outlineColor: '#FFFFFF',
+        outlineWidth: 4,
+        shadowColor: '#000000',
+        shadowOpacity: 0,
+        shadowDepth: 0,
+        progressive: true,
+        maxWordsPerLine: 3,
+        position: 'bottom',
+        animation: 'fade',
+    },
+    'modern-pop': {
+        name: 'Modern Pop',
+        description: 'Heavy sans-serif with a yellow highlight',
+        font: 'Roboto',
+        fontFallback: 'Inter, Helvetica, sans-serif',
+        json2videoFont: 'Roboto',
+        fontSize: 56,
+        fontWeight: 900,
+        allCaps: false,
+        letterSpacing: 1,
+        textColor: '#FFFFFF',
+        highlightColor: '#FFFF00',
+        outlineColor: '#000000',
+        outlineWidth: 4,
+        shadowColor: '#000000',
+        shadowOpacity: 0.6,
+        shadowDepth: 4,
+        progressive: true,
+        maxWordsPerLine: 4,
+        position: 'bottom',
+        animation: 'pop',
     },
-    {
-        id: 'minimal',
+    'minimal': {
         name: 'Minimal',
         description: 'Subtle and clean look',
         font: 'Inter',
         fontFallback: 'Helvetica Neue, Arial, sans-serif',
-        fontSize: 56,
-        primaryColor: '&H00FFFFFF',  // White
-        outlineColor: '&H40000000',  // Very subtle outline
-        shadowColor: '&H60000000',   // Soft shadow
-        outlineWidth: 1,
+        json2videoFont: 'Arial',
+        fontSize: 48,
+        fontWeight: 500,
+        allCaps: false,
+        letterSpacing: 0,
+        textColor: '#FFFFFF',
+        highlightColor: '#FFFFFF',
+        outlineColor: '#000000',
+        outlineWidth: 2,
+        shadowColor: '#000000',
+        shadowOpacity: 0.4,
         shadowDepth: 3,
-        bold: false,
+        progressive: false,
+        maxWordsPerLine: 5,
+        position: 'bottom',
         animation: 'fade',
-        previewCss: {
-            fontFamily: 'Inter, Helvetica Neue, Arial, sans-serif',
-            color: '#FFFFFF',
-            textShadow: '0 2px 4px rgba(0,0,0,0.3)',
-            fontWeight: '500',
-        },
     },
-    {
-        id: 'handwritten',
+    'vibrant': {
+        name: 'Vibrant',
+        description: 'Gold capitals on an orange box',
+        font: 'Oswald',
+        fontFallback: 'Arial Black, sans-serif',
+        json2videoFont: 'Oswald Bold',
+        fontSize: 60,
+        fontWeight: 700,
+        allCaps: true,
+        letterSpacing: 3,
+        textColor: '#FFD700',
+        highlightColor: '#FFFFFF',
+        outlineColor: '#000000',
+        outlineWidth: 0,
+        shadowColor: '#000000',
+        shadowOpacity: 0.7,
+        shadowDepth: 3,
+        boxColor: '#FF4500DD',
+        progressive: false,
+        maxWordsPerLine: 3,
+        position: 'bottom',
+        animation: 'pop',
+    },
+    'neon-glow': {
+        name: 'Neon Glow',
+        description: 'Vibrant cyan with glow effect',
+        font: 'Arial Black',
+        fontFallback: 'Arial, sans-serif',
+        json2videoFont: 'Roboto',
+        fontSize: 68,
+        fontWeight: 900,
+        allCaps: false,
+        letterSpacing: 1,
+        textColor: '#00FFFF',
+        highlightColor: '#FFFFFF',
+        outlineColor: '#0088FF',
+        outlineWidth: 2,
+        shadowColor: '#00FFFF',
+        shadowOpacity: 0.5,
+        shadowDepth: 8,
+        glowColor: '#00FFFF',
+        progressive: false,
+        maxWordsPerLine: 3,
+        position: 'bottom',
+        animation: 'glow',
+    },
+    'handwritten': {
         name: 'Handwritten',
         description: 'Playful, personal feel',
         font: 'Birds of Paradise  Personal use',
         fontFallback: 'Comic Sans MS, cursive',
+        json2videoFont: 'Caveat',
         fontSize: 80,
-        primaryColor: '&H00FFFFFF',  // White
-        outlineColor: '&H00000000',  // Black outline
-        shadowColor: '&H80000000',   // Shadow
+        fontWeight: 400,
+        allCaps: false,
+        letterSpacing: 0,
+        textColor: '#FFFFFF',
+        highlightColor: '#FFD700',
+        outlineColor: '#000000',
         outlineWidth: 3,
+        shadowColor: '#000000',
+        shadowOpacity: 0.5,
         shadowDepth: 2,
-        bold: false,
+        progressive: false,
+        maxWordsPerLine: 3,
+        position: 'bottom',
         animation: 'bounce',
-        previewCss: {
-            fontFamily: '"Birds of Paradise", "Comic Sans MS", cursive',
-            color: '#FFFFFF',
-            textShadow: '2px 2px 0 #000',
-            fontWeight: 'normal',
-        },
     },
-    {
-        id: 'retro-vhs',
+    'retro-vhs': {
         name: 'Retro VHS',
         description: 'Nostalgic 80s style',
         font: 'VCR OSD Mono',
         fontFallback: 'Courier New, monospace',
+        json2videoFont: 'VT323',
         fontSize: 60,
-        primaryColor: '&H0000FFFF',  // Yellow (BGR)
-        outlineColor: '&H000066FF',  // Orange outline
-        shadowColor: '&H80000088',   // Red tint shadow
+        fontWeight: 400,
+        allCaps: true,
+        letterSpacing: 2,
+        textColor: '#FFFF00',
+        highlightColor: '#FFFFFF',
+        outlineColor: '#FF6600',
         outlineWidth: 2,
+        shadowColor: '#880000',
+        shadowOpacity: 0.5,
         shadowDepth: 3,
-        bold: false,
+        progressive: false,
+        maxWordsPerLine: 4,
+        position: 'bottom',
         animation: 'none',
-        previewCss: {
-            fontFamily: '"VCR OSD Mono", "Courier New", monospace',
-            color: '#FFFF00',
-            textShadow: '2px 2px 0 #FF6600, -1px -1px 0 rgba(255,0,0,0.5)',
-            fontWeight: 'normal',
-        },
     },
-    {
-        id: 'gradient-pop',
+    'gradient-pop': {
         name: 'Gradient Pop',
         description: 'Trendy TikTok style',
         font: 'Poppins',
         fontFallback: 'Arial, sans-serif',
+        json2videoFont: 'Poppins',
         fontSize: 64,
-        primaryColor: '&H00FF88FF',  // Pink (will use gradient override)
-        outlineColor: '&H00000000',  // Black
-        shadowColor: '&H80000000',   // Shadow
+        fontWeight: 700,
+        allCaps: false,
+        letterSpacing: 1,
+        textColor: '#FFFFFF',
+        highlightColor: '#FF88FF',
+        outlineColor: '#000000',
         outlineWidth: 3,
+        shadowColor: '#000000',
+        shadowOpacity: 0.5,
         shadowDepth: 2,
-        bold: true,
+        progressive: false,
+        maxWordsPerLine: 3,
+        position: 'bottom',
         animation: 'pop',
-        previewCss: {
-            fontFamily: 'Poppins, Arial, sans-serif',
-            color: '#FF88FF',
-            textShadow: '2px 2px 0 #000',
-            fontWeight: 'bold',
-        },
     },
-];
+};
+
+// Default style
+export const DEFAULT_CAPTION_STYLE: CaptionStyleId = 'bold-classic';
+
+export const CAPTION_STYLE_IDS = Object.keys(CAPTION_STYLE_REGISTRY) as CaptionStyleId[];
 
-// Get style by ID
-export function getCaptionStyle(id: string): CaptionStyle {
-    return CAPTION_STYLES.find(s => s.id === id) || CAPTION_STYLES[0];
+export const CAPTION_STYLES: CaptionStyle[] = CAPTION_STYLE_IDS.map(id => ({ id, ...CAPTION_STYLE_REGISTRY[id] }));
+
+export function isCaptionStyleId(id: unknown): id is CaptionStyleId {
+    return typeof id === 'string' && id in CAPTION_STYLE_REGISTRY;
 }
 
-// Default style
-export const DEFAULT_CAPTION_STYLE = 'bold-classic';
+// Get style by ID (unknown IDs fall back to the default, with a warning).
+// Resolved styles (e.g. custom styles snapshotted on a job) pass through.
+export function getCaptionStyle(id: string | CaptionStyle | null | undefined): CaptionStyle {
+    if (id && typeof id === 'object') {
+        return id;
+    }
+    if (isCaptionStyleId(id)) {
+        return { id, ...CAPTION_STYLE_REGISTRY[id] };
+    }
+    if (id) {
+        console.warn(`[CaptionStyles] Unknown caption style "${id}", using ${DEFAULT_CAPTION_STYLE}`);
+    }
+    return { id: DEFAULT_CAPTION_STYLE, ...CAPTION_STYLE_REGISTRY[DEFAULT_CAPTION_STYLE] };
+}
+
+// ============ Custom styles ============
+
+// Custom (per-user) styles are referenced as "custom:<caption_styles.id>"
+export const CUSTOM_CAPTION_STYLE_PREFIX = 'custom:';
+
+export function isCustomCaptionStyleId(id: unknown): id is string {
+    return typeof id === 'string' && id.startsWith(CUSTOM_CAPTION_STYLE_PREFIX);
+}
+
+// What users can change on top of a built-in base style
+export interface CustomCaptionStyleInput {
+    baseStyle: CaptionStyleId;
+    font?: string;
+    fontUrl?: string;
+    fontSize?: number;
+    textColor?: string;
+    highlightColor?: string;
+    outlineColor?: string;
+    outlineWidth?: number;
+    position?: CaptionPosition;
+    maxWordsPerLine?: number;
+    animation?: CaptionAnimation;
+}
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/;
+
+function isIntInRange(value: unknown, min: number, max: number): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a custom style definition. Returns an error message, or null if valid.
+ */
+export function validateCustomCaptionStyle(input: unknown): string | null {
+    if (!input || typeof input !== 'object') return 'Style definition is required';
+    const style = input as Record<string, unknown>;
+
+    if (!isCaptionStyleId(style.baseStyle)) return 'baseStyle must be a built-in caption style';
+    for (const key of ['textColor', 'highlightColor', 'outlineColor'] as const) {
+        if (style[key] !== undefined && (typeof style[key] !== 'string' || !HEX_COLOR.test(style[key] as string))) {
+            return `${key} must be a hex colour like #FFD700`;
+        }
+    }
+    // Commas break ASS style lines; quotes and braces break CSS/ASS text
+    if (style.font !== undefined && (typeof style.font !== 'string' || !/^[^,"{}\\]{1,64}$/.test(style.font))) {
+        return 'font must be a font family name';
+    }
+    if (style.fontUrl !== undefined && (typeof style.fontUrl !== 'string' || !/^https:\/\//.test(style.fontUrl))) {
+        return 'fontUrl must be an https URL';
+    }
+    if (style.fontUrl !== undefined && style.font === undefined) return 'font is required with fontUrl';
+    if (style.fontSize !== undefined && !isIntInRange(style.fontSize, 24, 160)) return 'fontSize must be between 24 and 160';
+    if (style.outlineWidth !== undefined && !isIntInRange(style.outlineWidth, 0, 12)) return 'outlineWidth must be between 0 and 12';
+    if (style.maxWordsPerLine !== undefined && !isIntInRange(style.maxWordsPerLine, 1, 8)) return 'maxWordsPerLine must be between 1 and 8';
+    if (style.position !== undefined && !CAPTION_POSITIONS.includes(style.position as CaptionPosition)) {
+        return `position must be one of: ${CAPTION_POSITIONS.join(', ')}`;
+    }
+    if (style.animation !== undefined && !CAPTION_ANIMATIONS.includes(style.animation as CaptionAnimation)) {
+        return `animation must be one of: ${CAPTION_ANIMATIONS.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * Build a full caption style from a validated custom definition
+ */
+export function buildCustomCaptionStyle(id: string, name: string, input: CustomCaptionStyleInput): CaptionStyle {
+    const base = CAPTION_STYLE_REGISTRY[input.baseStyle] || CAPTION_STYLE_REGISTRY[DEFAULT_CAPTION_STYLE];
+    return {
+        ...base,
+        id: `${CUSTOM_CAPTION_STYLE_PREFIX}${id}`,
+        name,
+        description: `Custom style based on ${base.name}`,
+        font: input.font ?? base.font,
+        // The uploaded file replaces JSON2Video's hosted font too
+        json2videoFont: input.font ?? base.json2videoFont,
+        fontUrl: input.fontUrl,
+        fontSize: input.fontSize ?? base.fontSize,
+        textColor: input.textColor ?? base.textColor,
+        highlightColor: input.highlightColor ?? base.highlightColor,
+        outlineColor: input.outlineColor ?? base.outlineColor,
+        outlineWidth: input.outlineWidth ?? base.outlineWidth,
+        position: input.position ?? base.position,
+        maxWordsPerLine: input.maxWordsPerLine ?? base.maxWordsPerLine,
+        animation: input.animation ?? base.animation,
+    };
+}
+
+function assertNever(value: never): never {
+    throw new Error(`Unhandled caption animation: ${String(value)}`);
+}
+
+// ============ Colours ============
+
+function parseHex(color: string): { r: number; g: number; b: number; a: number } {
+    const hex = color.replace('#', '');
+    return {
+        r: parseInt(hex.slice(0, 2), 16),
+        g: parseInt(hex.slice(2, 4), 16),
+        b: parseInt(hex.slice(4, 6), 16),
+        a: hex.length >= 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+    };
+}
+
+function toHex2(value: number): string {
+    return Math.round(value).toString(16).padStart(2, '0').toUpperCase();
+}
+
+// ASS colours are &HAABBGGRR with inverted alpha (00 = opaque)
+export function toAssColor(color: string, opacity: number = 1): string {
+    const { r, g, b, a } = parseHex(color);
+    const alpha = 255 - Math.round(255 * a * opacity);
+    return `&H${toHex2(alpha)}${toHex2(b)}${toHex2(g)}${toHex2(r)}`;
+}
+
+function toRgba(color: string, opacity: number = 1): string {
+    const { r, g, b, a } = parseHex(color);
+    return `rgba(${r},${g},${b},${+(a * opacity).toFixed(3)})`;
+}
+
+// Which words of a line are drawn in the highlight colour
+export function isWordHighlighted(style: CaptionStyle, wordIndex: number, activeIndex: number): boolean {
+    return style.progressive ? wordIndex <= activeIndex : wordIndex === activeIndex;
+}
+
+export function formatCaptionText(style: CaptionStyle, text: string): string {
+    return style.allCaps ? text.toUpperCase() : text;
+}
+
+// ============ ASS ============
+
+// Numpad alignment: bottom-center, middle-center, top-center
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = { bottom: 2, middle: 5, top: 8 };
+
+/**
+ * ASS "Style:" line. Scales the px font size to the script's PlayResX.
+ */
+export function compileAssStyle(style: CaptionStyle, options: { name?: string; width: number; marginV?: number }): string {
+    const scale = options.width / 1080;
+    const fontSize = Math.round(style.fontSize * scale);
+    const primary = toAssColor(style.textColor);
+    const outline = toAssColor(style.outlineColor);
+    // BorderStyle 3 draws an opaque box in the outline colour
+    const borderStyle = style.boxColor ? 3 : 1;
+    const back = style.boxColor ? toAssColor(style.boxColor) : toAssColor(style.shadowColor, style.shadowOpacity);
+    const boxOutline = style.boxColor ? toAssColor(style.boxColor) : outline;
+    const bold = style.fontWeight >= 600 ? 1 : 0;
+    const marginV = options.marginV ?? CAPTION_MARGIN_BOTTOM;
+
+    const alignment = ASS_ALIGNMENT[style.position];
+
+    return `Style: ${options.name || 'Default'},${style.font},${fontSize},${primary},${primary},${boxOutline},${back},${bold},0,0,0,100,100,${style.letterSpacing},0,${borderStyle},${style.outlineWidth},${style.shadowDepth},${alignment},50,50,${marginV},1`;
+}
+
+/**
+ * Override tags that animate a line in (placed at the start of the first
+ * Dialogue of each phrase)
+ */
+export function compileAssAnimation(style: CaptionStyle, options: { width: number; height: number; marginV?: number }): string {
+    const marginV = options.marginV ?? CAPTION_MARGIN_BOTTOM;
+    const y = style.position === 'top' ? marginV : style.position === 'middle' ? options.height / 2 : options.height - marginV;
+
+    switch (style.animation) {
+        case 'pop':
+            return `{\\fad(150,100)\\t(0,100,\\fscx105\\fscy105)\\t(100,200,\\fscx100\\fscy100)}`;
+        case 'bounce':
+            return `{\\fad(100,100)\\t(0,80,\\fscx110\\fscy110)\\t(80,160,\\fscx95\\fscy95)\\t(160,240,\\fscx100\\fscy100)}`;
+        case 'glow':
+            return `{\\fad(200,150)\\blur2\\t(0,200,\\blur0)}`;
+        case 'slide':
+            return `{\\fad(100,100)\\an${ASS_ALIGNMENT[style.position]}\\move(${options.width / 2 - 50},${y},${options.width / 2},${y},0,150)}`;
+        case 'fade':
+            return `{\\fad(200,150)}`;
+        case 'none':
+            return '';
+        default:
+            return assertNever(style.animation);
+    }
+}
+
+/**
+ * Text of one phrase with the active word(s) recoloured
+ */
+export function compileAssPhrase(style: CaptionStyle, words: string[], activeIndex: number): string {
+    const highlight = toAssColor(style.highlightColor);
+    const base = toAssColor(style.textColor);
+    return words.map((word, index) => {
+        const text = formatCaptionText(style, word.replace(/[{}\\]/g, ''));
+        const separator = index > 0 ? wordSeparator(words[index - 1], word) : '';
+        return separator + (isWordHighlighted(style, index, activeIndex)
+            ? `{\\1c${highlight}}${text}{\\1c${base}}`
+            : text);
+    }).join('');
+}
+
+// ============ Remotion ============
+
+export interface RemotionCaptionStyle {
+    // Style for the full-frame container that positions the line
+    container: CSSProperties;
+    // Style for the caption line
+    text: CSSProperties;
+    highlightColor: string;
+}
+
+const FLEX_POSITION: Record<CaptionPosition, CSSProperties['justifyContent']> = {
+    bottom: 'flex-end',
+    middle: 'center',
+    top: 'flex-start',
+};
+
+export function compileRemotionStyle(style: CaptionStyle, options: { width: number; height: number }): RemotionCaptionStyle {
+    const scale = options.width / 1080;
+    const shadows: string[] = [];
+    if (style.shadowOpacity > 0 && style.shadowDepth > 0) {
+        const depth = style.shadowDepth * scale;
+        shadows.push(`${depth}px ${depth}px ${depth * 2}px ${toRgba(style.shadowColor, style.shadowOpacity)}`);
+    }
+    if (style.glowColor) {
+        shadows.push(`0 0 ${10 * scale}px ${style.glowColor}`, `0 0 ${20 * scale}px ${style.glowColor}`);
+    }
+
+    const text: CSSProperties = {
+        fontFamily: `"${style.font}", ${style.fontFallback}`,
+        fontSize: Math.round(style.fontSize * scale),
+        fontWeight: style.fontWeight,
+        color: style.textColor,
+        letterSpacing: style.letterSpacing,
+        textTransform: style.allCaps ? 'uppercase' : 'none',
+        textShadow: shadows.length > 0 ? shadows.join(', ') : undefined,
+        WebkitTextStroke: style.outlineWidth > 0 ? `${style.outlineWidth * scale}px ${style.outlineColor}` : undefined,
+        paintOrder: 'stroke fill',
+    };
+
+    if (style.boxColor) {
+        text.backgroundColor = style.boxColor;
+        text.padding = `${Math.round(8 * scale)}px ${Math.round(20 * scale)}px`;
+        text.borderRadius = Math.round(8 * scale);
+    }
+
+    const margin = Math.round(CAPTION_MARGIN_BOTTOM * (options.height / 1920));
+
+    return {
+        container: {
+            justifyContent: FLEX_POSITION[style.position],
+            alignItems: 'center',
+            paddingBottom: style.position === 'bottom' ? margin : 0,
+            paddingTop: style.position === 'top' ? margin : 0,
+        },
+        text,
+        highlightColor: style.highlightColor,
+    };
+}
+
+// Scale/opacity/offset for a line `frame` frames after it appeared
+export function getRemotionCaptionMotion(style: CaptionStyle, frame: number): { scale: number; opacity: number; translateY: number; blur: number } {
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+    switch (style.animation) {
+        case 'pop': {
+            const t = clamp(frame / 5);
+            return { scale: 0.8 + 0.2 * t, opacity: t, translateY: 0, blur: 0 };
+        }
+        case 'bounce': {
+            const t = clamp(frame / 8);
+            const scale = t < 0.5 ? 0.8 + 0.6 * t : 1.1 - 0.2 * (t - 0.5);
+            return { scale, opacity: clamp(frame / 3), translateY: 0, blur: 0 };
+        }
+        case 'glow': {
+            const t = clamp(frame / 6);
+            return { scale: 1, opacity: t, translateY: 0, blur: 4 * (1 - t) };
+        }
+        case 'slide': {
+            const t = clamp(frame / 5);
+            return { scale: 1, opacity: t, translateY: 30 * (1 - t), blur: 0 };
+        }
+        case 'fade':
+            return { scale: 1, opacity: clamp(frame / 6), translateY: 0, blur: 0 };
+        case 'none':
+            return { scale: 1, opacity: 1, translateY: 0, blur: 0 };
+        default:
+            return assertNever(style.animation);
+    }
+}
+
+// ============ JSON2Video ============
+
+/**
+ * Settings for a JSON2Video "subtitles" element.
+ * Valid styles: classic, classic-progressive, classic-one-word, boxed-line, boxed-word
+ */
+export function compileJson2VideoSettings(style: CaptionStyle): Record<string, unknown> {
+    const settings: Record<string, unknown> = {
+        'style': style.boxColor ? 'boxed-line' : style.progressive ? 'classic-progressive' : 'classic',
+        'font-family': style.json2videoFont,
+        'font-size': Math.round(style.fontSize * JSON2VIDEO_FONT_SCALE),
+        'font-weight': String(style.fontWeight),
+        'word-color': style.highlightColor,
+        'line-color': style.textColor,
+        'position': `${style.position === 'middle' ? 'center' : style.position}-center`,
+        'max-words-per-line': style.maxWordsPerLine,
+        'all-caps': style.allCaps,
+    };
+
+    if (style.outlineWidth > 0) {
+        settings['outline-color'] = style.outlineColor;
+        settings['outline-width'] = style.outlineWidth;
+    }
+    if (style.shadowOpacity > 0 && style.shadowDepth > 0) {
+        settings['shadow-color'] = style.glowColor || style.shadowColor;
+        settings['shadow-offset'] = style.shadowDepth;
+    }
+    if (style.boxColor) {
+        settings['box-color'] = style.boxColor;
+    }
+    // Uploaded fonts are loaded from their file; font-family names it
+    if (style.fontUrl) {
+        settings['font-url'] = style.fontUrl;
+    }
+
+    return settings;
+}
@@ -0,0 +1,70 @@
+/**
+ * Video clip (B-roll) assets in faceless scenes (client-safe)
+ *
+ * A scene asset is an image unless its URL is a video file. Uploads, ingests
+ * and the faceless job store clips with a video extension, so the URL alone
+ * tells them apart. A clip is trimmed to the cut it fills, or looped when it
+ * is shorter; planClipLoops gives both renderers the same segments. Clips
+ * play muted unless the scene keeps their audio.
+ */
+
+export const VIDEO_ASSET_MIME_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'm4v'];
+
+// Kept clip audio sits under the narration
+export const KEPT_CLIP_AUDIO_VOLUME = 0.4;
+
+export type ClipAudioMode = 'mute' | 'keep';
+
+export interface SceneClipSettings {
+    // Original audio of the scene's clips; omitted = mute
+    clipAudio?: ClipAudioMode;
+}
+
+// One pass of a clip from its beginning (seconds; start is relative to the cut)
+export interface ClipLoop {
+    start: number;
+    duration: number;
+}
+
+export function isVideoAssetUrl(url: string): boolean {
+    if (url.startsWith('data:')) return url.startsWith('data:video/');
+    const path = url.split(/[?#]/)[0].toLowerCase();
+    return VIDEO_EXTENSIONS.some(ext => path.endsWith(`.${ext}`));
+}
+
+// File extension for a stored clip
+export function getVideoExtension(contentType: string): string {
+    if (contentType.includes('webm')) return 'webm';
+    if (contentType.includes('quicktime')) return 'mov';
+    return 'mp4';
+}
+
+export function validateSceneClipSettings(scene: SceneClipSettings): string | null {
+    if (scene.clipAudio !== undefined && scene.clipAudio !== 'mute' && scene.clipAudio !== 'keep') {
+        return 'clipAudio must be mute or keep';
+    }
+    return null;
+}
+
+export function getClipVolume(scene: SceneClipSettings): number {
+    return scene.clipAudio === 'keep' ? KEPT_CLIP_AUDIO_VOLUME : 0;
+}
+
+/**
+ * Fill a cut with a clip: the first part of the clip when it is long
+ * enough, otherwise back-to-back loops with the last one trimmed. A clip of
+ * unknown length (probe failed) plays once from the start.
+ */
+export function planClipLoops(cutDuration: number, clipDuration?: number | null): ClipLoop[] {
+    if (!clipDuration || clipDuration >= cutDuration) {
+        return [{ start: 0, duration: cutDuration }];
+    }
+
+    const loops: ClipLoop[] = [];
+    for (let start = 0; start < cutDuration - 0.01; start += clipDuration) {
+        loops.push({ start, duration: Math.min(clipDuration, cutDuration - start) });
+    }
+    return loops;
+}
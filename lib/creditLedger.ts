@@ -0,0 +1,209 @@
+/**
+ * Credit ledger (see credit_ledger_migration.sql)
+ *
+ * Server-only. Every balance change is a single call to the
+ * apply_credit_operation() database function, which locks the user's
+ * balance row, applies the change and logs the transaction atomically.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { getUserCredits } from '@/lib/supabase';
+
+type CreditOperation = 'debit' | 'credit' | 'reserve' | 'capture' | 'release';
+
+interface CreditOperationParams {
+    operation: CreditOperation;
+    idempotencyKey: string | null;
+    userId?: string;
+    amount?: number;
+    type?: 'purchase' | 'refund' | 'bonus';
+    description?: string;
+    metadata?: Record<string, unknown>;
+    jobId?: string;
+}
+
+export interface CreditOperationResult {
+    success: boolean;
+    balance: number;
+    duplicate?: boolean;
+    error?: string;
+    reservationId?: string | null;
+    jobId?: string | null;
+}
+
+async function callLedger(params: CreditOperationParams): Promise<CreditOperationResult> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase.rpc('apply_credit_operation', {
+        p_operation: params.operation,
+        p_idempotency_key: params.idempotencyKey,
+        p_user_id: params.userId ?? null,
+        p_amount: params.amount ?? 0,
+        p_type: params.type ?? null,
+        p_description: params.description ?? null,
+        p_metadata: params.metadata || {},
+        p_job_id: params.jobId ?? null
+    });
+
+    if (error || !data) {
+        console.error(`[CreditLedger] ${params.operation} failed:`, error);
+        return { success: false, balance: 0, error: error?.message || 'Ledger call failed' };
+    }
+
+    return {
+        success: Boolean(data.success),
+        balance: data.balance ?? 0,
+        duplicate: Boolean(data.duplicate),
+        error: data.error ?? undefined,
+        reservationId: data.reservation_id ?? null,
+        jobId: data.job_id ?? null
+    };
+}
+
+async function applyCreditOperation(params: CreditOperationParams): Promise<CreditOperationResult> {
+    let result = await callLedger(params);
+
+    // First charge for a new user: create the account (with welcome bonus) and retry once
+    if (result.error === 'no_credit_account' && params.userId) {
+        const created = await getUserCredits(params.userId);
+        if (!created) {
+            return { success: false, balance: 0, error: 'Could not get user credits' };
+        }
+        result = await callLedger(params);
+    }
+
+    return result;
+}
+
+/**
+ * Spend credits immediately
+ */
+export async function deductCredits(
+    userId: string,
+    amount: number,
+    description: string,
+    metadata?: Record<string, unknown>,
+    idempotencyKey?: string
+): Promise<{ success: boolean; balance: number; error?: string }> {
+    const result = await applyCreditOperation({
+        operation: 'debit',
+        idempotencyKey: idempotencyKey ?? null,
+        userId,
+        amount,
+        description,
+        metadata
+    });
+
+    if (result.error === 'insufficient_credits') {
+        return {
+            success: false,
+            balance: result.balance,
+            error: `Insufficient credits. Need ${amount}, have ${result.balance}`
+        };
+    }
+    if (!result.success) {
+        return { success: false, balance: result.balance, error: result.error || 'Failed to update balance' };
+    }
+
+    console.log(`[deductCredits] ✅ Deducted ${amount} credits from user ${userId}. New balance: ${result.balance}`);
+    return { success: true, balance: result.balance };
+}
+
+/**
+ * Add credits to a user's balance
+ */
+export async function addCredits(
+    userId: string,
+    amount: number,
+    type: 'purchase' | 'refund' | 'bonus',
+    description: string,
+    metadata?: Record<string, unknown>,
+    idempotencyKey?: string
+): Promise<{ success: boolean; balance: number; duplicate?: boolean }> {
+    const result = await applyCreditOperation({
+        operation: 'credit',
+        idempotencyKey: idempotencyKey ?? null,
+        userId,
+        amount,
+        type,
+        description,
+        metadata
+    });
+
+    return { success: result.success, balance: result.balance, duplicate: result.duplicate };
+}
+
+/**
+ * Hold credits for a job. The balance is reduced now; the hold is later
+ * captured (job completed) or released (job failed). Replaying the same
+ * key returns the original reservation with duplicate = true.
+ */
+export async function reserveCredits(
+    userId: string,
+    amount: number,
+    options: {
+        idempotencyKey: string;
+        jobId?: string;
+        description: string;
+        metadata?: Record<string, unknown>;
+    }
+): Promise<CreditOperationResult> {
+    const result = await applyCreditOperation({
+        operation: 'reserve',
+        idempotencyKey: options.idempotencyKey,
+        userId,
+        amount,
+        jobId: options.jobId,
+        description: options.description,
+        metadata: options.metadata
+    });
+
+    if (result.error === 'insufficient_credits') {
+        return { ...result, error: `Insufficient credits. Need ${amount}, have ${result.balance}` };
+    }
+    if (result.success && !result.duplicate) {
+        console.log(`[CreditLedger] 🔒 Reserved ${amount} credits for user ${userId} (${options.idempotencyKey})`);
+    }
+    return result;
+}
+
+/**
+ * Finalize a reservation once the work it paid for has completed
+ */
+export async function captureReservation(idempotencyKey: string): Promise<CreditOperationResult> {
+    const result = await applyCreditOperation({ operation: 'capture', idempotencyKey });
+    if (result.success && !result.duplicate) {
+        console.log(`[CreditLedger] ✅ Captured reservation ${idempotencyKey}`);
+    } else if (!result.success) {
+        console.error(`[CreditLedger] ❌ Could not capture reservation ${idempotencyKey}: ${result.error}`);
+    }
+    return result;
+}
+
+/**
+ * Return a reservation's credits to the user's balance
+ */
+export async function releaseReservation(
+    idempotencyKey: string,
+    description?: string,
+    metadata?: Record<string, unknown>
+): Promise<CreditOperationResult> {
+    const result = await applyCreditOperation({
+        operation: 'release',
+        idempotencyKey,
+        description,
+        metadata
+    });
+    if (result.success && !result.duplicate) {
+        console.log(`💰 [CreditLedger] Released reservation ${idempotencyKey}. New balance: ${result.balance}`);
+    } else if (!result.success) {
+        console.error(`❌ [CreditLedger] Could not release reservation ${idempotencyKey}: ${result.error}`);
+    }
+    return result;
+}
+
+/**
+ * Reservation key for a video job's credits
+ */
+export function jobReservationKey(jobId: string): string {
+    return `video_job:${jobId}`;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CREDIT_COSTS, VIDEO_JOB_RENDER_FEE, calculateCacheRefund, calculateCancelRefund } from './credits';
+
+// What app/api/video-jobs/create charges
+const facelessCharge = (chargedScenes: number) => chargedScenes * CREDIT_COSTS.AUDIO_PER_1000_CHARS + VIDEO_JOB_RENDER_FEE;
+const faceCharge = (chargedScenes: number) => chargedScenes * CREDIT_COSTS.FACE_VIDEO_SCENE + VIDEO_JOB_RENDER_FEE;
+
+describe('calculateCancelRefund', () => {
+    it('refunds everything when cancelled before any scene', () => {
+        expect(calculateCancelRefund({ creditsCharged: facelessCharge(4), totalScenes: 4, usedScenes: 0, renderStarted: false }))
+            .toBe(facelessCharge(4));
+    });
+
+    it('keeps the used scenes and refunds the rest with the render fee', () => {
+        expect(calculateCancelRefund({ creditsCharged: facelessCharge(4), totalScenes: 4, usedScenes: 1, renderStarted: false }))
+            .toBe(3 * CREDIT_COSTS.AUDIO_PER_1000_CHARS + VIDEO_JOB_RENDER_FEE);
+    });
+
+    it('keeps the render fee once rendering started', () => {
+        expect(calculateCancelRefund({ creditsCharged: facelessCharge(4), totalScenes: 4, usedScenes: 4, renderStarted: true }))
+            .toBe(0);
+        expect(calculateCancelRefund({ creditsCharged: facelessCharge(4), totalScenes: 4, usedScenes: 2, renderStarted: true }))
+            .toBe(2 * CREDIT_COSTS.AUDIO_PER_1000_CHARS);
+    });
+
+    it('refunds only the render fee when no scene was charged', () => {
+        expect(calculateCancelRefund({ creditsCharged: facelessCharge(0), totalScenes: 0, usedScenes: 0, renderStarted: false }))
+            .toBe(VIDEO_JOB_RENDER_FEE);
+        expect(calculateCancelRefund({ creditsCharged: facelessCharge(0), totalScenes: 0, usedScenes: 0, renderStarted: true }))
+            .toBe(0);
+    });
+
+    it('refunds nothing for a job that charged nothing', () => {
+        expect(calculateCancelRefund({ creditsCharged: 0, totalScenes: 3, usedScenes: 0, renderStarted: false })).toBe(0);
+    });
+
+    // Face jobs charge every scene the face rate, asset scenes included
+    it('refunds face job asset scenes at the face rate they were charged', () => {
+        expect(calculateCancelRefund({ creditsCharged: faceCharge(3), totalScenes: 3, usedScenes: 1, renderStarted: true }))
+            .toBe(2 * CREDIT_COSTS.FACE_VIDEO_SCENE);
+    });
+
+    it('never refunds more than was charged', () => {
+        expect(calculateCancelRefund({ creditsCharged: 50, totalScenes: 2, usedScenes: -1, renderStarted: false })).toBe(50);
+    });
+});
+
+describe('calculateCacheRefund', () => {
+    it('refunds the scene share but keeps the render fee when every scene was cached', () => {
+        expect(calculateCacheRefund({ creditsCharged: facelessCharge(3), totalScenes: 3, cachedScenes: 3 }))
+            .toBe(3 * CREDIT_COSTS.AUDIO_PER_1000_CHARS);
+    });
+
+    it('refunds the share of the cached scenes only', () => {
+        expect(calculateCacheRefund({ creditsCharged: faceCharge(4), totalScenes: 4, cachedScenes: 1 }))
+            .toBe(CREDIT_COSTS.FACE_VIDEO_SCENE);
+    });
+
+    it('refunds nothing when no scene was charged', () => {
+        expect(calculateCacheRefund({ creditsCharged: facelessCharge(0), totalScenes: 0, cachedScenes: 0 })).toBe(0);
+    });
+
+    it('refunds nothing when nothing was cached', () => {
+        expect(calculateCacheRefund({ creditsCharged: facelessCharge(3), totalScenes: 3, cachedScenes: 0 })).toBe(0);
+    });
+
+    it('caps the cached count at the scene count', () => {
+        expect(calculateCacheRefund({ creditsCharged: facelessCharge(2), totalScenes: 2, cachedScenes: 5 }))
+            .toBe(2 * CREDIT_COSTS.AUDIO_PER_1000_CHARS);
+    });
+});
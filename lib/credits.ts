@@ -25,6 +25,12 @@ export const CREDIT_COSTS = {
 
 export type CreditOperation = keyof typeof CREDIT_COSTS;
 
+/**
+ * Flat render fee in every video job charge, on top of the per-scene credits.
+ * Refunds split it off before sharing the rest out per scene.
+ */
+export const VIDEO_JOB_RENDER_FEE = CREDIT_COSTS.VIDEO_RENDER;
+
 /**
  * Calculate credits needed for script audio generation
  */
@@ -47,6 +53,48 @@ export function calculateFacelessVideoCredits(sceneCount: number): number {
     return (sceneCount * CREDIT_COSTS.AUDIO_PER_1000_CHARS) + CREDIT_COSTS.VIDEO_RENDER;
 }
 
+/**
+ * Credits to refund when a video job is cancelled part way.
+ * The charge is the render fee plus an equal share per charged scene (face
+ * jobs charge asset scenes the face rate too); scenes already
+ * processed (or in flight at the provider) are kept, and so is the render
+ * fee once the render has started.
+ */
+export function calculateCancelRefund(options: {
+    creditsCharged: number;
+    totalScenes: number;
+    usedScenes: number;
+    renderStarted: boolean;
+}): number {
+    const charged = Math.max(0, options.creditsCharged);
+    if (charged === 0) return 0;
+
+    const renderFee = Math.min(VIDEO_JOB_RENDER_FEE, charged);
+    const sceneCredits = charged - renderFee;
+    const totalScenes = Math.max(1, options.totalScenes);
+    const unusedScenes = Math.min(totalScenes, Math.max(0, totalScenes - options.usedScenes));
+
+    const refund = Math.floor(sceneCredits * unusedScenes / totalScenes) + (options.renderStarted ? 0 : renderFee);
+    return Math.min(charged, refund);
+}
+
+/**
+ * Credits to refund for scenes served from the generation cache: their
+ * share of the charge. The render fee is always kept.
+ */
+export function calculateCacheRefund(options: {
+    creditsCharged: number;
+    totalScenes: number;
+    cachedScenes: number;
+}): number {
+    const charged = Math.max(0, options.creditsCharged);
+    const sceneCredits = charged - Math.min(VIDEO_JOB_RENDER_FEE, charged);
+    const totalScenes = Math.max(1, options.totalScenes);
+    const cachedScenes = Math.min(totalScenes, Math.max(0, options.cachedScenes));
+
+    return Math.floor(sceneCredits * cachedScenes / totalScenes);
+}
+
 /**
  * Estimate total credits for a complete video generation flow
  */
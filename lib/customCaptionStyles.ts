@@ -0,0 +1,122 @@
+/**
+ * Per-user caption styles (see caption_styles_migration.sql)
+ *
+ * Server-only. Styles are stored as overrides on a built-in style and
+ * resolved into a full CaptionStyle before a job is queued, so every render
+ * backend receives the same definition (including the uploaded font URL).
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import {
+    buildCustomCaptionStyle,
+    getCaptionStyle,
+    isCaptionStyleId,
+    isCustomCaptionStyleId,
+    CaptionStyle,
+    CustomCaptionStyleInput,
+    CUSTOM_CAPTION_STYLE_PREFIX
+} from '@/lib/captionStyles';
+
+export interface DbCaptionStyle {
+    id: string;
+    user_id: string;
+    name: string;
+    definition: CustomCaptionStyleInput;
+    created_at: string;
+    updated_at: string;
+}
+
+export function toCaptionStyle(row: DbCaptionStyle): CaptionStyle {
+    return buildCustomCaptionStyle(row.id, row.name, row.definition);
+}
+
+export async function listCaptionStyles(userId: string): Promise<DbCaptionStyle[]> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('caption_styles')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('[CaptionStyles] Failed to list styles:', error);
+        return [];
+    }
+    return data || [];
+}
+
+export async function createCaptionStyle(userId: string, name: string, definition: CustomCaptionStyleInput): Promise<DbCaptionStyle | null> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('caption_styles')
+        .insert({ user_id: userId, name, definition })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[CaptionStyles] Failed to create style:', error);
+        return null;
+    }
+    return data;
+}
+
+export async function updateCaptionStyle(
+    userId: string,
+    styleId: string,
+    updates: { name?: string; definition?: CustomCaptionStyleInput }
+): Promise<DbCaptionStyle | null> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('caption_styles')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', styleId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error('[CaptionStyles] Failed to update style:', error);
+        return null;
+    }
+    return data;
+}
+
+export async function deleteCaptionStyle(userId: string, styleId: string): Promise<boolean> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('caption_styles')
+        .delete()
+        .eq('id', styleId)
+        .eq('user_id', userId)
+        .select('id');
+
+    if (error) {
+        console.error('[CaptionStyles] Failed to delete style:', error);
+        return false;
+    }
+    return (data || []).length > 0;
+}
+
+/**
+ * Resolve a caption style reference for a user: built-in IDs resolve from
+ * the registry, "custom:<id>" from the user's saved styles. Returns null for
+ * unknown IDs and for other users' styles.
+ */
+export async function resolveCaptionStyle(userId: string, styleRef: string | null | undefined): Promise<CaptionStyle | null> {
+    if (!styleRef || isCaptionStyleId(styleRef)) {
+        return getCaptionStyle(styleRef);
+    }
+    if (!isCustomCaptionStyleId(styleRef)) {
+        return null;
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data } = await supabase
+        .from('caption_styles')
+        .select('*')
+        .eq('id', styleRef.slice(CUSTOM_CAPTION_STYLE_PREFIX.length))
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    return data ? toCaptionStyle(data as DbCaptionStyle) : null;
+}
@@ -1,4 +1,5 @@
 import DodoPayments from 'dodopayments';
+import { CREDIT_PACKAGES } from '@/lib/credits';
 
 // Lazy-load DodoPayments client to avoid build-time errors
 let _dodoClient: DodoPayments | null = null;
@@ -24,3 +25,28 @@ export const DODO_PRODUCT_IDS: Record<string, string> = {
     pro: 'pdt_0NWYUSiqPOMyemAR4mWmd',      // Reven Pro - $39 (Live)
     studio: 'pdt_0NWYUXOKtXT9Tp6JrdV7Q',   // Reven Studio - $79 (Live)
 };
+
+// Resolve a DodoPayments product ID to its credit package
+export function getPackageForProduct(productId: string): (typeof CREDIT_PACKAGES)[number] | null {
+    const packageId = Object.keys(DODO_PRODUCT_IDS).find(id => DODO_PRODUCT_IDS[id] === productId);
+    if (!packageId) return null;
+    return CREDIT_PACKAGES.find(p => p.id === packageId) || null;
+}
+
+// Verify a webhook delivery (Standard Webhooks signature) and parse it.
+// Throws if the signature, timestamp or secret is invalid.
+export function verifyDodoWebhook(rawBody: string, headers: Headers): DodoPayments.UnwrapWebhookEvent {
+    const webhookKey = process.env.DODO_PAYMENTS_WEBHOOK_KEY;
+    if (!webhookKey) {
+        throw new Error('DODO_PAYMENTS_WEBHOOK_KEY environment variable is not set');
+    }
+
+    return getDodoClient().webhooks.unwrap(rawBody, {
+        headers: {
+            'webhook-id': headers.get('webhook-id') || '',
+            'webhook-signature': headers.get('webhook-signature') || '',
+            'webhook-timestamp': headers.get('webhook-timestamp') || '',
+        },
+        key: webhookKey,
+    });
+}
@@ -0,0 +1,20 @@
+/**
+ * Dubbing languages (client-safe)
+ *
+ * The languages Qwen TTS can speak, so a translated script can always be
+ * re-narrated in the user's cloned voice. Translation itself lives in
+ * lib/translation.ts (server-only).
+ */
+
+import type { QwenLanguage } from '@/lib/fal';
+
+export type DubLanguage = Exclude<QwenLanguage, 'Auto'>;
+
+export const DUB_LANGUAGES: DubLanguage[] = [
+    'English', 'Spanish', 'German', 'French', 'Italian', 'Portuguese',
+    'Russian', 'Chinese', 'Japanese', 'Korean'
+];
+
+export function isDubLanguage(value: unknown): value is DubLanguage {
+    return typeof value === 'string' && DUB_LANGUAGES.includes(value as DubLanguage);
+}
@@ -1,4 +1,5 @@
 import { fal } from '@fal-ai/client';
+import { alignWordsToTranscript, estimateWordTimings, type WordTiming } from '@/lib/wordTimings';
 
 if (!process.env.FAL_KEY) {
     console.warn("FAL_KEY is missing from environment variables.");
@@ -6,6 +7,10 @@ if (!process.env.FAL_KEY) {
 
 fal.config({ credentials: process.env.FAL_KEY });
 
+// Models whose outputs are cached (see lib/generationCache.ts)
+export const QWEN_TTS_MODEL = 'fal-ai/qwen-3-tts/text-to-speech/1.7b';
+export const FLUX_IMAGE_MODEL = 'fal-ai/flux/dev';
+
 /**
  * Chunk text into segments of max 300 characters, respecting sentence boundaries.
  * Chatterbox has a 300 character limit per API call.
@@ -164,7 +169,7 @@ export async function generateImage(prompt: string, aspectRatio: "16:9" | "9:16"
             : 'square_hd';
 
     try {
-        const result = await fal.subscribe('fal-ai/flux/dev', {
+        const result = await fal.subscribe(FLUX_IMAGE_MODEL, {
             input: {
                 prompt,
                 image_size,
@@ -296,9 +301,11 @@ export async function generateSpeechWithQwen(
         language?: QwenLanguage;
         embeddingUrl?: string;
         referenceText?: string;
+        // Delivery instruction, e.g. "calm and warm" or "excited"
+        styleHint?: string;
     } = {}
 ): Promise<{ audioUrl: string; audioUrls?: string[]; duration: number }> {
-    const { voice, language, embeddingUrl, referenceText } = options;
+    const { voice, language, embeddingUrl, referenceText, styleHint } = options;
 
     console.log(`🎤 Qwen 3 TTS: Generating speech for "${text.substring(0, 50)}..."`);
 
@@ -312,7 +319,7 @@ export async function generateSpeechWithQwen(
         console.log(`  Chunk ${i + 1}/${chunks.length}: "${chunks[i].substring(0, 30)}..."`);
 
         const result = await fal.subscribe(
-            'fal-ai/qwen-3-tts/text-to-speech/1.7b',
+            QWEN_TTS_MODEL,
             {
                 input: {
                     text: chunks[i],
@@ -322,7 +329,8 @@ export async function generateSpeechWithQwen(
                         ? { speaker_voice_embedding_file_url: embeddingUrl, reference_text: referenceText || undefined }
                         : { voice: voice || 'Vivian' }
                     ),
-                    language: language || 'Auto'
+                    language: language || 'Auto',
+                    ...(styleHint ? { prompt: styleHint } : {})
                 },
                 logs: false
             }
@@ -356,7 +364,9 @@ export async function generateSpeechWithQwen(
  */
 export async function generateSceneTTS(
     text: string,
-    voiceOrResource: string
+    voiceOrResource: string,
+    language: QwenLanguage = 'Auto',
+    styleHint?: string
 ): Promise<{ audioUrl: string; audioUrls?: string[]; duration: number }> {
     let embeddingUrl: string | undefined;
     let voice: QwenVoice | undefined;
@@ -389,7 +399,9 @@ export async function generateSceneTTS(
 
     const result = await generateSpeechWithQwen(text, {
         voice,
-        embeddingUrl
+        embeddingUrl,
+        language,
+        styleHint
     });
 
     return {
@@ -398,3 +410,81 @@ export async function generateSceneTTS(
         duration: result.duration
     };
 }
+
+// Whisper language codes for the narration languages. 'Auto' narration is
+// transcribed as English, like before dubbing existed.
+const WHISPER_LANGUAGE_CODES = {
+    English: 'en',
+    Chinese: 'zh',
+    Spanish: 'es',
+    French: 'fr',
+    German: 'de',
+    Italian: 'it',
+    Japanese: 'ja',
+    Korean: 'ko',
+    Portuguese: 'pt',
+    Russian: 'ru'
+} as const satisfies Record<Exclude<QwenLanguage, 'Auto'>, string>;
+
+interface WhisperChunk {
+    text: string;
+    timestamp: [number, number]; // [start, end] in seconds
+}
+
+/**
+ * Word-level timestamps for an audio file using Whisper (chunk_level: 'word')
+ */
+export async function transcribeWordTimings(
+    audioUrl: string,
+    language: QwenLanguage = 'Auto'
+): Promise<{ text: string; wordTimings: WordTiming[] }> {
+    const result = await fal.subscribe('fal-ai/whisper', {
+        input: {
+            audio_url: audioUrl,
+            task: 'transcribe',
+            language: language === 'Auto' ? 'en' : WHISPER_LANGUAGE_CODES[language],
+            chunk_level: 'word',
+            version: '3'
+        },
+        logs: true
+    });
+
+    // Fal sometimes returns { data: { text, chunks } } and sometimes just { text, chunks }
+    const rawData = result.data as any;
+    const whisperData: { text?: string; chunks?: WhisperChunk[] } = rawData.data || rawData;
+
+    const wordTimings: WordTiming[] = [];
+    for (const chunk of whisperData.chunks || []) {
+        const wordText = chunk.text.trim();
+        if (wordText.length === 0) continue;
+        wordTimings.push({
+            word: wordText,
+            start: chunk.timestamp[0],
+            end: chunk.timestamp[1]
+        });
+    }
+
+    return { text: whisperData.text || '', wordTimings };
+}
+
+/**
+ * Align a scene's known script to its narration audio.
+ * Captions keep the script's exact words; Whisper only supplies the timing.
+ * Falls back to syllable estimates if transcription fails.
+ */
+export async function alignTextToAudio(
+    text: string,
+    audioUrl: string,
+    duration?: number,
+    language: QwenLanguage = 'Auto'
+): Promise<WordTiming[]> {
+    try {
+        const { wordTimings } = await transcribeWordTimings(audioUrl, language);
+        const aligned = alignWordsToTranscript(text, wordTimings, duration);
+        console.log(`🕒 Aligned ${aligned.length} words to ${wordTimings.length} Whisper timestamps`);
+        return aligned;
+    } catch (error) {
+        console.warn('⚠️ Word alignment failed, using estimated timings:', error instanceof Error ? error.message : error);
+        return estimateWordTimings(text, duration);
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * Focal point detection for the 'auto' Ken Burns effect (Gemini)
+ *
+ * Asks the vision model for a box around the face, or the main subject when
+ * there is no person, and uses its centre. Detection is best effort: an
+ * image that can't be fetched or analysed gets null and keeps the default
+ * motion (see lib/kenBurns.ts).
+ */
+
+import axios from 'axios';
+import { GoogleGenAI } from '@google/genai';
+import { getGeminiApiKey } from '@/lib/config';
+import { isValidFocalPoint, type FocalPoint } from '@/lib/kenBurns';
+
+const FOCAL_POINT_MODEL = 'gemini-3-flash-preview';
+
+// Images are analysed a few at a time to stay under the worker's time limit
+const DETECTION_CONCURRENCY = 3;
+
+const PROMPT = `Find the most important subject in this image for a vertical video crop.
+If a person is visible, pick the face of the most prominent person. Otherwise pick the main subject.
+
+OUTPUT FORMAT (JSON only):
+{ "box_2d": [ymin, xmin, ymax, xmax] }
+
+Coordinates are normalized to 0-1000. Output ONLY valid JSON. No markdown code blocks.`;
+
+export async function detectFocalPoint(imageUrl: string): Promise<FocalPoint | null> {
+    try {
+        const response = await axios.get(imageUrl, { responseType: 'arraybuffer', timeout: 20000 });
+        const mimeType = String(response.headers['content-type'] || 'image/jpeg').split(';')[0];
+        if (!mimeType.startsWith('image/')) {
+            console.warn(`[FocalPoint] Not an image (${mimeType}): ${imageUrl.slice(0, 80)}`);
+            return null;
+        }
+
+        const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
+        const result = await ai.models.generateContent({
+            model: FOCAL_POINT_MODEL,
+            contents: [{
+                role: 'user',
+                parts: [
+                    { inlineData: { mimeType, data: Buffer.from(response.data).toString('base64') } },
+                    { text: PROMPT }
+                ]
+            }]
+        });
+
+        const raw = (result.text || '').trim()
+            .replace(/```json\s*/g, '')
+            .replace(/```\s*/g, '');
+        const jsonMatch = raw.match(/\{[\s\S]*"box_2d"[\s\S]*\}/);
+        const box = JSON.parse(jsonMatch ? jsonMatch[0] : raw).box_2d;
+        if (!Array.isArray(box) || box.length !== 4 || box.some(v => typeof v !== 'number')) {
+            console.warn('[FocalPoint] Unexpected response:', raw.slice(0, 200));
+            return null;
+        }
+
+        const [ymin, xmin, ymax, xmax] = box as number[];
+        const point = {
+            x: Number(((xmin + xmax) / 2000).toFixed(3)),
+            y: Number(((ymin + ymax) / 2000).toFixed(3))
+        };
+        return isValidFocalPoint(point) ? point : null;
+    } catch (error: unknown) {
+        console.warn('[FocalPoint] Detection failed:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Focal points for a set of images, keyed by URL. Images without a
+ * detected subject are left out.
+ */
+export async function detectFocalPoints(imageUrls: string[]): Promise<Record<string, FocalPoint>> {
+    const unique = Array.from(new Set(imageUrls.filter(url => url.startsWith('http'))));
+    const points: Record<string, FocalPoint> = {};
+
+    for (let i = 0; i < unique.length; i += DETECTION_CONCURRENCY) {
+        const batch = unique.slice(i, i + DETECTION_CONCURRENCY);
+        const results = await Promise.all(batch.map(detectFocalPoint));
+        batch.forEach((url, k) => {
+            if (results[k]) points[url] = results[k] as FocalPoint;
+        });
+    }
+
+    console.log(`🎯 [FocalPoint] Found subjects in ${Object.keys(points).length}/${unique.length} images`);
+    return points;
+}
@@ -0,0 +1,200 @@
+/**
+ * Content-addressed cache for generated media (see generation_cache_migration.sql)
+ *
+ * Server-only. Each entry is keyed by a hash of the model and every input
+ * that shapes its output, so regenerating a video with one edited scene
+ * reuses the narration, images and face clips of the unchanged scenes.
+ * Outputs are copied into the 'videos' bucket under cache/<kind>/ because
+ * provider URLs expire. Cache failures are logged, never thrown: a miss or
+ * an unsaved entry only costs a regeneration.
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { generateImage, generateSceneTTS, FLUX_IMAGE_MODEL, QWEN_TTS_MODEL, type QwenLanguage } from '@/lib/fal';
+
+export type CacheKind = 'tts' | 'image' | 'clip';
+
+export interface DbGenerationCacheEntry {
+    id: string;
+    kind: CacheKind;
+    cache_key: string;
+    model: string;
+    output_url: string;
+    metadata: Record<string, any>;
+    hit_count: number;
+    last_hit_at: string | null;
+    created_at: string;
+}
+
+const CACHE_FOLDER = 'cache';
+
+const EXTENSIONS: Record<string, string> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'video/mp4': 'mp4'
+};
+
+const DEFAULT_EXTENSIONS: Record<CacheKind, string> = { tts: 'mp3', image: 'png', clip: 'mp4' };
+
+export function hashContent(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Cache key for one generation: the kind, the model and its inputs (key
+ * order doesn't matter; undefined inputs are left out)
+ */
+export function generationCacheKey(kind: CacheKind, model: string, inputs: Record<string, unknown>): string {
+    const sorted = Object.keys(inputs).sort()
+        .filter(key => inputs[key] !== undefined)
+        .map(key => [key, inputs[key]]);
+    return hashContent(JSON.stringify([kind, model, sorted]));
+}
+
+/**
+ * Find a cached output, counting the hit
+ */
+export async function lookupCache(cacheKey: string): Promise<DbGenerationCacheEntry | null> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('generation_cache')
+        .select('*')
+        .eq('cache_key', cacheKey)
+        .maybeSingle();
+
+    if (error) {
+        console.error(`❌ [GenerationCache] Lookup failed for ${cacheKey}:`, error);
+        return null;
+    }
+    if (!data) return null;
+
+    const entry = data as DbGenerationCacheEntry;
+    console.log(`♻️ [GenerationCache] ${entry.kind} hit ${cacheKey.substring(0, 12)}`);
+    await supabase
+        .from('generation_cache')
+        .update({ hit_count: entry.hit_count + 1, last_hit_at: new Date().toISOString() })
+        .eq('id', entry.id);
+    return entry;
+}
+
+// Copy a provider output into the cache folder and return its public URL
+async function persistOutput(kind: CacheKind, cacheKey: string, sourceUrl: string, part: number): Promise<string> {
+    const response = await axios.get(sourceUrl, { responseType: 'arraybuffer', timeout: 60000 });
+    const contentType = String(response.headers['content-type'] || '').split(';')[0];
+    const ext = EXTENSIONS[contentType] || DEFAULT_EXTENSIONS[kind];
+    const fileName = `${CACHE_FOLDER}/${kind}/${cacheKey}${part > 0 ? `_${part}` : ''}.${ext}`;
+
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.storage
+        .from('videos')
+        .upload(fileName, Buffer.from(response.data), {
+            contentType: contentType || undefined,
+            upsert: true
+        });
+    if (error) throw new Error(`Failed to upload ${fileName}: ${error.message}`);
+
+    return supabase.storage.from('videos').getPublicUrl(fileName).data.publicUrl;
+}
+
+/**
+ * Store a fresh output (several files for chunked TTS). Returns the stored
+ * URLs, or null when the entry couldn't be saved and the caller should keep
+ * using the provider's URLs.
+ */
+export async function storeInCache(
+    kind: CacheKind,
+    cacheKey: string,
+    model: string,
+    sourceUrls: string[],
+    metadata: Record<string, unknown> = {}
+): Promise<string[] | null> {
+    try {
+        const urls = await Promise.all(sourceUrls.map((url, i) => persistOutput(kind, cacheKey, url, i)));
+
+        // A concurrent miss may have stored the same key first; either copy is fine
+        const { error } = await getSupabaseAdmin()
+            .from('generation_cache')
+            .upsert({
+                kind,
+                cache_key: cacheKey,
+                model,
+                output_url: urls[0],
+                metadata: { ...metadata, ...(urls.length > 1 ? { urls } : {}) }
+            }, { onConflict: 'cache_key', ignoreDuplicates: true });
+
+        if (error) throw new Error(error.message);
+        return urls;
+    } catch (err) {
+        console.error(`❌ [GenerationCache] Failed to store ${kind} ${cacheKey.substring(0, 12)}:`, err instanceof Error ? err.message : err);
+        return null;
+    }
+}
+
+/**
+ * Look up an image by model and inputs, generating and storing it on a miss
+ */
+export async function cachedImage(
+    model: string,
+    inputs: Record<string, unknown>,
+    generate: () => Promise<string>
+): Promise<{ imageUrl: string; cached: boolean }> {
+    const cacheKey = generationCacheKey('image', model, inputs);
+    const entry = await lookupCache(cacheKey);
+    if (entry) return { imageUrl: entry.output_url, cached: true };
+
+    const imageUrl = await generate();
+    const stored = await storeInCache('image', cacheKey, model, [imageUrl]);
+    return { imageUrl: stored?.[0] || imageUrl, cached: false };
+}
+
+/**
+ * generateImage (Flux) through the cache
+ */
+export function cachedGenerateImage(
+    prompt: string,
+    aspectRatio: '16:9' | '9:16' | '1:1' = '9:16'
+): Promise<{ imageUrl: string; cached: boolean }> {
+    return cachedImage(FLUX_IMAGE_MODEL, { prompt, aspectRatio }, () => generateImage(prompt, aspectRatio));
+}
+
+/**
+ * generateSceneTTS through the cache. The voice is the embedding URL or
+ * preset name passed to generateSceneTTS.
+ */
+export async function cachedSceneTTS(
+    text: string,
+    voice: string,
+    language: QwenLanguage = 'Auto',
+    styleHint?: string
+): Promise<{ audioUrl: string; audioUrls?: string[]; duration: number; cached: boolean }> {
+    const cacheKey = generationCacheKey('tts', QWEN_TTS_MODEL, { text, voice, language, styleHint: styleHint || undefined });
+    const entry = await lookupCache(cacheKey);
+    if (entry) {
+        return {
+            audioUrl: entry.output_url,
+            audioUrls: entry.metadata.urls,
+            duration: entry.metadata.duration || 0,
+            cached: true
+        };
+    }
+
+    const result = await generateSceneTTS(text, voice, language, styleHint);
+    const stored = await storeInCache('tts', cacheKey, QWEN_TTS_MODEL, result.audioUrls || [result.audioUrl], {
+        duration: result.duration
+    });
+    if (!stored) return { ...result, cached: false };
+
+    return {
+        audioUrl: stored[0],
+        audioUrls: stored.length > 1 ? stored : undefined,
+        duration: result.duration,
+        cached: false
+    };
+}
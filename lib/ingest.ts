@@ -1,5 +1,7 @@
 import { supabaseAdmin } from './supabase-admin';
 import { v4 as uuidv4 } from 'uuid';
+import { getVideoExtension } from './clipAssets';
+import { probeMediaDuration } from './mediaProbe';
 
 export interface IngestResult {
     assetId: string;
@@ -19,9 +21,9 @@ export async function ingestAsset(
     try {
         console.log(`[Ingest] Starting ingest for ${remoteUrl}`);
 
-        // 1. Download the image
+        // 1. Download the image or video clip
         const response = await fetch(remoteUrl);
-        if (!response.ok) throw new Error(`Failed to fetch remote image: ${response.statusText}`);
+        if (!response.ok) throw new Error(`Failed to fetch remote asset: ${response.statusText}`);
 
         const blob = await response.blob();
         const arrayBuffer = await blob.arrayBuffer();
@@ -29,10 +31,13 @@ export async function ingestAsset(
 
         // Determine mime type and extension
         const contentType = response.headers.get('content-type') || 'image/jpeg';
+        const isVideo = contentType.startsWith('video/');
         let ext = 'jpg';
         if (contentType.includes('png')) ext = 'png';
         if (contentType.includes('webp')) ext = 'webp';
         if (contentType.includes('gif')) ext = 'gif';
+        // Clips keep a video extension so renders can tell them apart (lib/clipAssets.ts)
+        if (isVideo) ext = getVideoExtension(contentType);
 
         // 2. Upload to Supabase Storage (Using Admin Client to bypass RLS for upload if needed, or ensuring bucket exists)
         // Make sure 'assets' bucket exists in Supabase!
@@ -55,18 +60,21 @@ export async function ingestAsset(
             .from('assets')
             .getPublicUrl(fileName);
 
+        // Clip length for trimming/looping (null if ffprobe can't read it)
+        const duration = isVideo ? await probeMediaDuration(publicUrl) : null;
+
         // 4. Save to 'assets' Table
         // We use supabaseAdmin here because this might run in a background job
         const { data: assetRecord, error: dbError } = await supabaseAdmin
             .from('assets')
             .insert({
                 user_id: userId,
-                type: 'image', // simplified for now
+                type: isVideo ? 'video' : 'image',
                 storage_path: fileName,
                 public_url: publicUrl,
                 source_url: remoteUrl,
                 source_name: sourceName,
-                metadata: { original_size: buffer.length }
+                metadata: { original_size: buffer.length, ...(duration && { duration }) }
             })
             .select()
             .single();
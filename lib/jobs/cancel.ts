@@ -0,0 +1,208 @@
+/**
+ * Cancelling and pausing video jobs
+ *
+ * Both take the job off the queue; a worker mid-tick finishes its step and
+ * the next tick sees the new status and stops. Cancelling also stops the
+ * in-flight render where the backend allows it and refunds the credits of
+ * the scenes that were never processed (see calculateCancelRefund).
+ * WaveSpeed has no way to cancel a prediction, so face scenes that are
+ * already generating count as used.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { addCredits, captureReservation, releaseReservation } from '@/lib/creditLedger';
+import { calculateCancelRefund } from '@/lib/credits';
+import { cancelRender, toRenderHandle } from '@/lib/render';
+import { cancelProviderTasks } from '@/lib/providerTasks';
+import { dequeueJob, enqueueJob, type QueueJobType } from './queue';
+
+export interface JobControlResult {
+    success: boolean;
+    status?: string;
+    creditsRefunded?: number;
+    error?: string;
+}
+
+interface StoredJob {
+    id: string;
+    user_id: string;
+    user_uuid?: string | null;
+    job_type?: QueueJobType | null;
+    status: string;
+    input_data: Record<string, any> | null;
+    result_data: Record<string, any> | null;
+    processed_scenes?: { cached?: boolean; reused?: boolean }[] | null;
+}
+
+function getJobType(job: StoredJob): QueueJobType {
+    return job.job_type || (job.input_data?.faceImageUrl ? 'face' : 'faceless');
+}
+
+function getProcessedScenes(job: StoredJob): { cached?: boolean; reused?: boolean }[] {
+    return (getJobType(job) === 'face' ? job.processed_scenes : job.input_data?.processedScenes) || [];
+}
+
+// Scenes reused from the video a re-render edits; they were never charged
+function countReusedScenes(job: StoredJob): number {
+    return getProcessedScenes(job).filter(scene => scene.reused).length;
+}
+
+// Scenes whose provider work has been paid for: finished ones (unless the
+// generation cache served them), plus face clips still generating on WaveSpeed
+function countUsedScenes(job: StoredJob): number {
+    const input = job.input_data || {};
+    const generated = getProcessedScenes(job).filter(scene => !scene.cached && !scene.reused).length;
+    if (getJobType(job) === 'face') {
+        const pending = input.pendingScenes?.length ?? (input.pendingScene ? 1 : 0);
+        return generated + pending;
+    }
+    return generated;
+}
+
+// Typography jobs keep their render in result_data, the others in input_data
+function getPendingRender(job: StoredJob) {
+    if (getJobType(job) === 'typography') {
+        const resultData = job.result_data || {};
+        return toRenderHandle(resultData.render || resultData);
+    }
+    return toRenderHandle(job.input_data?.pendingRender);
+}
+
+// Keep the used part of the charge and return the rest
+async function refundUnusedCredits(job: StoredJob, refund: number): Promise<number> {
+    const input = job.input_data || {};
+    const charged: number = input.creditsCharged || 0;
+    const userId = job.user_uuid || job.user_id;
+    const metadata = { jobId: job.id, reason: 'job_cancelled', creditsCharged: charged };
+
+    if (input.creditReservationKey) {
+        if (refund >= charged) {
+            const released = await releaseReservation(input.creditReservationKey, 'Refund for cancelled video job', metadata);
+            return released.success ? charged : 0;
+        }
+
+        const captured = await captureReservation(input.creditReservationKey);
+        if (!captured.success || refund <= 0) return 0;
+
+        const result = await addCredits(userId, refund, 'refund', 'Partial refund for cancelled video job', metadata, `refund:video_job_cancel:${job.id}`);
+        return result.success ? refund : 0;
+    }
+
+    // Jobs created before reservations: share the failed-job refund key so
+    // the credits can only come back once
+    if (refund <= 0) return 0;
+    const result = await addCredits(userId, refund, 'refund', 'Partial refund for cancelled video job', metadata, `refund:video_job:${job.id}`);
+    return result.success ? refund : 0;
+}
+
+/**
+ * Cancel a pending, processing or paused job and refund its unused credits
+ */
+export async function cancelVideoJob(jobId: string): Promise<JobControlResult> {
+    const supabase = getSupabaseAdmin();
+
+    // Claim the cancellation so a concurrent cancel or completion can't also settle the credits
+    const { data: job, error } = await supabase
+        .from('video_jobs')
+        .update({
+            status: 'cancelled',
+            progress_message: 'Cancelled',
+            cancelled_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+        })
+        .eq('id', jobId)
+        .in('status', ['pending', 'processing', 'paused'])
+        .select('*')
+        .maybeSingle();
+
+    if (error) {
+        console.error(`❌ [JobControl] Failed to cancel job ${jobId}:`, error);
+        return { success: false, error: 'Failed to cancel job' };
+    }
+    if (!job) {
+        return { success: false, error: 'Only pending, processing or paused jobs can be cancelled' };
+    }
+
+    const storedJob = job as StoredJob;
+    await dequeueJob(jobId);
+
+    const render = getPendingRender(storedJob);
+    if (render) {
+        try {
+            await cancelRender(render);
+        } catch (err) {
+            console.warn(`⚠️ [JobControl] Could not cancel render ${render.renderId} for job ${jobId}:`, err instanceof Error ? err.message : err);
+        }
+    }
+
+    await cancelProviderTasks(jobId);
+
+    const input = storedJob.input_data || {};
+    const refund = calculateCancelRefund({
+        creditsCharged: input.creditsCharged || 0,
+        totalScenes: (input.scenes?.length || 1) - countReusedScenes(storedJob),
+        usedScenes: countUsedScenes(storedJob),
+        renderStarted: !!render
+    });
+    const creditsRefunded = await refundUnusedCredits(storedJob, refund);
+
+    await supabase
+        .from('video_jobs')
+        .update({ credits_refunded: creditsRefunded })
+        .eq('id', jobId);
+
+    console.log(`🛑 [JobControl] Cancelled job ${jobId}, refunded ${creditsRefunded}/${input.creditsCharged || 0} credits`);
+    return { success: true, status: 'cancelled', creditsRefunded };
+}
+
+/**
+ * Stop a job between ticks, keeping its progress
+ */
+export async function pauseVideoJob(jobId: string): Promise<JobControlResult> {
+    const supabase = getSupabaseAdmin();
+    const { data: job, error } = await supabase
+        .from('video_jobs')
+        .update({ status: 'paused', progress_message: 'Paused', updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .in('status', ['pending', 'processing'])
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        console.error(`❌ [JobControl] Failed to pause job ${jobId}:`, error);
+        return { success: false, error: 'Failed to pause job' };
+    }
+    if (!job) {
+        return { success: false, error: 'Only pending or processing jobs can be paused' };
+    }
+
+    await dequeueJob(jobId);
+    console.log(`⏸️ [JobControl] Paused job ${jobId}`);
+    return { success: true, status: 'paused' };
+}
+
+/**
+ * Put a paused job back on the queue
+ */
+export async function resumeVideoJob(jobId: string): Promise<JobControlResult> {
+    const supabase = getSupabaseAdmin();
+    const { data: job, error } = await supabase
+        .from('video_jobs')
+        .update({ status: 'processing', progress_message: 'Resuming...', updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('status', 'paused')
+        .select('*')
+        .maybeSingle();
+
+    if (error) {
+        console.error(`❌ [JobControl] Failed to resume job ${jobId}:`, error);
+        return { success: false, error: 'Failed to resume job' };
+    }
+    if (!job) {
+        return { success: false, error: 'Only paused jobs can be resumed' };
+    }
+
+    await enqueueJob(jobId, getJobType(job as StoredJob));
+    console.log(`▶️ [JobControl] Resumed job ${jobId}`);
+    return { success: true, status: 'processing' };
+}
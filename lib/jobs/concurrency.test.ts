@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    firstUnprocessedIndex,
+    mapWithConcurrency,
+    providerSceneLimit,
+    remainingSceneSlots,
+    userSceneLimit
+} from './concurrency';
+
+function delay(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('mapWithConcurrency', () => {
+    it('keeps the order of the items, not of completion', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 3, async ms => {
+            await delay(ms);
+            return ms;
+        });
+        expect(results).toEqual([
+            { status: 'fulfilled', value: 30 },
+            { status: 'fulfilled', value: 10 },
+            { status: 'fulfilled', value: 20 }
+        ]);
+    });
+
+    it('isolates a rejected call from the others', async () => {
+        const error = new Error('scene 2 failed');
+        const results = await mapWithConcurrency([1, 2, 3], 2, async n => {
+            if (n === 2) throw error;
+            return n * 10;
+        });
+        expect(results).toEqual([
+            { status: 'fulfilled', value: 10 },
+            { status: 'rejected', reason: error },
+            { status: 'fulfilled', value: 30 }
+        ]);
+    });
+
+    it('never has more than `limit` calls in flight', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await delay(5);
+            inFlight--;
+        });
+        expect(maxInFlight).toBe(3);
+    });
+
+    it('still runs the items with a limit of 0', async () => {
+        const results = await mapWithConcurrency(['a', 'b'], 0, async item => item);
+        expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled']);
+    });
+
+    it('returns nothing for no items', async () => {
+        expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+});
+
+describe('remainingSceneSlots', () => {
+    it('is the tighter of the provider and user caps', () => {
+        expect(remainingSceneSlots({ provider: 10, user: 3 }, { provider: 2, user: 1 })).toBe(2);
+        expect(remainingSceneSlots({ provider: 4, user: 3 }, { provider: 3, user: 0 })).toBe(1);
+    });
+
+    it('is 0 when either cap is used up', () => {
+        expect(remainingSceneSlots({ provider: 4, user: 3 }, { provider: 4, user: 0 })).toBe(0);
+        expect(remainingSceneSlots({ provider: 4, user: 3 }, { provider: 0, user: 3 })).toBe(0);
+    });
+
+    it('never goes negative when tasks exceed a lowered cap', () => {
+        expect(remainingSceneSlots({ provider: 2, user: 3 }, { provider: 5, user: 4 })).toBe(0);
+    });
+});
+
+describe('scene limits', () => {
+    const saved = { ...process.env };
+    afterEach(() => {
+        process.env = { ...saved };
+    });
+
+    it('uses the defaults without overrides', () => {
+        delete process.env.TTS_SCENE_CONCURRENCY;
+        delete process.env.WAVESPEED_SCENE_CONCURRENCY;
+        delete process.env.USER_SCENE_CONCURRENCY;
+        expect(providerSceneLimit('tts')).toBe(4);
+        expect(providerSceneLimit('wavespeed')).toBe(10);
+        expect(userSceneLimit()).toBe(3);
+    });
+
+    it('reads whole positive overrides and ignores invalid ones', () => {
+        process.env.TTS_SCENE_CONCURRENCY = '6.7';
+        process.env.WAVESPEED_SCENE_CONCURRENCY = '0';
+        process.env.USER_SCENE_CONCURRENCY = 'lots';
+        expect(providerSceneLimit('tts')).toBe(6);
+        expect(providerSceneLimit('wavespeed')).toBe(10);
+        expect(userSceneLimit()).toBe(3);
+    });
+});
+
+describe('firstUnprocessedIndex', () => {
+    it('finds the first gap', () => {
+        expect(firstUnprocessedIndex(5, [{ index: 0 }, { index: 1 }, { index: 3 }])).toBe(2);
+    });
+
+    it('is the total when every scene is done', () => {
+        expect(firstUnprocessedIndex(2, [{ index: 1 }, { index: 0 }])).toBe(2);
+    });
+});
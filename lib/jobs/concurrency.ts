@@ -0,0 +1,148 @@
+/**
+ * Scene fan-out limits for face and faceless jobs
+ *
+ * Jobs start several scenes at once instead of one per tick. Every scene's
+ * TTS call and WaveSpeed prediction is a pending scene task in
+ * provider_tasks while it runs, so both caps are checked against those
+ * tasks: across every job for the provider cap, and across the user's jobs
+ * for the per-user cap.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { recordProviderTask, settleProviderTask } from '@/lib/providerTasks';
+
+export type SceneProvider = 'tts' | 'wavespeed';
+
+// Defaults, overridable with the environment variables below
+const DEFAULT_PROVIDER_LIMITS: Record<SceneProvider, number> = {
+    tts: 4,
+    wavespeed: 10
+};
+const DEFAULT_USER_LIMIT = 3;
+
+const PROVIDER_LIMIT_ENV: Record<SceneProvider, string> = {
+    tts: 'TTS_SCENE_CONCURRENCY',
+    wavespeed: 'WAVESPEED_SCENE_CONCURRENCY'
+};
+const USER_LIMIT_ENV = 'USER_SCENE_CONCURRENCY';
+
+// Tasks older than this no longer hold a slot: WaveSpeed predictions past
+// the face job's scene timeout, TTS calls left pending by a crashed worker
+const SCENE_TASK_WINDOW_MINUTES: Record<SceneProvider, number> = {
+    tts: 3,
+    wavespeed: 10
+};
+
+function readLimit(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+}
+
+export function providerSceneLimit(provider: SceneProvider): number {
+    return readLimit(PROVIDER_LIMIT_ENV[provider], DEFAULT_PROVIDER_LIMITS[provider]);
+}
+
+export function userSceneLimit(): number {
+    return readLimit(USER_LIMIT_ENV, DEFAULT_USER_LIMIT);
+}
+
+// Pending scene tasks on a provider, of one user's jobs or of all jobs
+async function countPendingSceneTasks(provider: SceneProvider, userId?: string): Promise<number> {
+    const cutoff = new Date(Date.now() - SCENE_TASK_WINDOW_MINUTES[provider] * 60000).toISOString();
+    let query = getSupabaseAdmin()
+        .from('provider_tasks')
+        .select(userId ? 'id, video_jobs!inner(user_id)' : 'id', { count: 'exact', head: true })
+        .eq('provider', provider)
+        .eq('kind', 'scene')
+        .eq('status', 'pending')
+        .gte('started_at', cutoff);
+
+    if (userId) {
+        query = query.eq('video_jobs.user_id', userId);
+    }
+
+    const { count, error } = await query;
+    if (error) throw new Error(`Failed to count pending scene tasks: ${error.message}`);
+    return count || 0;
+}
+
+// Slots left under both caps (0 when either is used up)
+export function remainingSceneSlots(
+    limits: { provider: number; user: number },
+    pending: { provider: number; user: number }
+): number {
+    return Math.max(0, Math.min(limits.provider - pending.provider, limits.user - pending.user));
+}
+
+/**
+ * How many scenes a job of `userId` may start on `provider` right now
+ * (0 when every slot is taken)
+ */
+export async function availableSceneSlots(provider: SceneProvider, userId: string): Promise<number> {
+    try {
+        const [providerPending, userPending] = await Promise.all([
+            countPendingSceneTasks(provider),
+            countPendingSceneTasks(provider, userId)
+        ]);
+        return remainingSceneSlots(
+            { provider: providerSceneLimit(provider), user: userSceneLimit() },
+            { provider: providerPending, user: userPending }
+        );
+    } catch (err) {
+        // Keep the job moving one scene at a time rather than stalling it
+        console.error(`❌ [Concurrency] ${err instanceof Error ? err.message : err}`);
+        return 1;
+    }
+}
+
+/**
+ * Run a scene's TTS call as a pending tts scene task, so it holds a slot
+ * (see availableSceneSlots) until it finishes
+ */
+export async function withTtsSceneTask<R>(jobId: string, sceneIndex: number, fn: () => Promise<R>): Promise<R> {
+    const externalId = `${jobId}:${sceneIndex}:${Date.now()}`;
+    await recordProviderTask({ provider: 'tts', externalId, jobId, kind: 'scene', sceneIndex });
+    try {
+        const result = await fn();
+        await settleProviderTask('tts', externalId, 'completed');
+        return result;
+    } catch (error) {
+        await settleProviderTask('tts', externalId, 'failed', { error: error instanceof Error ? error.message : String(error) });
+        throw error;
+    }
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight. Results keep
+ * the order of `items`; a rejected call doesn't stop the others.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    async function worker() {
+        while (next < items.length) {
+            const i = next++;
+            try {
+                results[i] = { status: 'fulfilled', value: await fn(items[i]) };
+            } catch (reason) {
+                results[i] = { status: 'rejected', reason };
+            }
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    return results;
+}
+
+// Lowest scene index without a processed scene (the total when all are done)
+export function firstUnprocessedIndex(totalScenes: number, processedScenes: { index: number }[]): number {
+    const done = new Set(processedScenes.map(scene => scene.index));
+    let index = 0;
+    while (index < totalScenes && done.has(index)) index++;
+    return index;
+}
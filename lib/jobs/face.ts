@@ -0,0 +1,756 @@
+import axios from 'axios';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { addCredits, releaseReservation } from '@/lib/creditLedger';
+import { startRender, pollRender, toRenderHandle, RenderHandle } from '@/lib/render';
+import { cloneVoiceWithQwen, alignTextToAudio } from '@/lib/fal';
+import { cachedGenerateImage, cachedSceneTTS, generationCacheKey, hashContent, lookupCache, storeInCache } from '@/lib/generationCache';
+import { cloneSampleUrl } from '@/lib/voicePreprocessing';
+import { getWavespeedApiKey } from '@/lib/config';
+import type { WordTiming } from '@/lib/wordTimings';
+import type { CaptionStyle } from '@/lib/captionStyles';
+import { resolveBackgroundMusic, type MusicOptions } from '@/lib/backgroundMusic';
+import type { SceneSfxSettings, SoundEffect } from '@/lib/soundEffects';
+import type { SceneTransitionSettings } from '@/lib/sceneTransitions';
+import type { FocalPoint, SceneKenBurnsSettings } from '@/lib/kenBurns';
+import { detectFocalPoints } from '@/lib/focalPoint';
+import { findProviderTask, providerPollDelaySeconds, providerWebhookUrl, recordProviderTask, settleProviderTask } from '@/lib/providerTasks';
+import { DEFAULT_BACKGROUND_MUSIC_URL } from '@/lib/json2video';
+import { finalizeVideoJob } from './finalize';
+import { availableSceneSlots, firstUnprocessedIndex, mapWithConcurrency, withTtsSceneTask } from './concurrency';
+import { RUNNING_JOB_STATUSES, updateJobIfStatus } from './jobStatus';
+import type { JobProcessor, JobTickResult } from './types';
+
+// Configuration
+const POLL_INTERVAL_MS = 4000;
+const MAX_POLL_TIME_MS = 45000; // 45 seconds max polling
+const RENDER_POLL_DELAY_SECONDS = 5;
+// A WaveSpeed prediction still running after this is restarted
+const SCENE_TIMEOUT_MS = 600000;
+// Delay before trying again when every WaveSpeed slot is taken
+const SLOT_WAIT_DELAY_SECONDS = 10;
+// Failed WaveSpeed predictions per scene, and failed or timed-out final
+// renders, before the job fails
+const MAX_SCENE_ATTEMPTS = 3;
+const MAX_RENDER_ATTEMPTS = 3;
+
+const WAVESPEED_MODEL = 'wavespeed-ai/infinitetalk';
+const WAVESPEED_API_URL = `https://api.wavespeed.ai/api/v3/${WAVESPEED_MODEL}`;
+const CLIP_RESOLUTION = '480p';
+
+interface SceneInput extends SceneSfxSettings, SceneTransitionSettings, SceneKenBurnsSettings {
+    text: string;
+    type: 'face' | 'asset';
+    assetUrl?: string;
+}
+
+interface ProcessedScene {
+    index: number;
+    type: 'face' | 'asset';
+    clipUrl: string;
+    audioUrl?: string;
+    duration: number;
+    text: string;
+    // Script words aligned to the narration, relative to scene start
+    wordTimings?: WordTiming[];
+    // Served from the generation cache (clip for face scenes, narration for
+    // asset scenes), so the scene's credits are refunded
+    cached?: boolean;
+    // Copied from the video this job re-renders (see lib/videoProject.ts), never charged
+    reused?: boolean;
+}
+
+interface PendingSceneState {
+    predictionId: string;
+    sceneIndex: number;
+    audioUrl: string;
+    duration: number;
+    text: string;
+    wordTimings?: WordTiming[];
+    startedAt: number;
+    // Where the finished clip is cached (see lib/generationCache)
+    clipCacheKey?: string;
+}
+
+interface JobInputData {
+    scenes: SceneInput[];
+    faceImageUrl: string;
+    voiceId: string;  // Legacy - kept for backward compat
+    voiceSampleUrl?: string;  // New - for Chatterbox TTS
+    enableBackgroundMusic: boolean;
+    // Track, volume and ducking picked in the music library; the track's URL
+    // and length are resolved when the job is created
+    music?: MusicOptions;
+    backgroundMusicUrl?: string;
+    backgroundMusicDuration?: number;
+    // Sound effects library snapshot taken when the job was created
+    sfxLibrary?: SoundEffect[];
+    enableCaptions: boolean;
+    captionStyle?: string;
+    // Custom style resolved when the job was created
+    captionStyleDefinition?: CaptionStyle;
+    creditsCharged?: number;
+    creditReservationKey?: string;
+    // WaveSpeed predictions in flight (older jobs have a single pendingScene)
+    pendingScenes?: PendingSceneState[];
+    pendingScene?: PendingSceneState | null;
+    pendingRender?: RenderHandle | null;
+    // Failed predictions by scene index, failed final renders and the
+    // backends they failed on (the next render fails over, see lib/render)
+    sceneAttempts?: Record<string, number>;
+    renderAttempts?: number;
+    failedRenderBackends?: string[];
+    // Render backend override (see lib/render)
+    renderBackend?: string;
+    // Subjects of the images of 'auto' Ken Burns scenes, found before the render
+    focalPoints?: Record<string, FocalPoint>;
+    // Voice the scenes were narrated with, saved on the video (see lib/jobs/finalize)
+    voiceEmbeddingUrl?: string;
+}
+
+// Release the job's credit reservation when it fails
+async function releaseCreditsForJob(jobId: string, userId: string, input: { creditsCharged?: number; creditReservationKey?: string }) {
+    try {
+        if (input.creditReservationKey) {
+            await releaseReservation(input.creditReservationKey, `Refund for failed face video job`, {
+                jobId,
+                reason: 'job_failed'
+            });
+            return;
+        }
+
+        // Jobs created before reservations were charged up front: refund once
+        if (!input.creditsCharged || input.creditsCharged <= 0) {
+            console.log(`[Refund] No credits to refund for job ${jobId}`);
+            return;
+        }
+        const result = await addCredits(userId, input.creditsCharged, 'refund', `Refund for failed face video job`, {
+            jobId,
+            reason: 'job_failed'
+        }, `refund:video_job:${jobId}`);
+        if (result.success) {
+            console.log(`💰 [Refund] Refunded ${input.creditsCharged} credits to user ${userId} for job ${jobId}`);
+        } else {
+            console.error(`❌ [Refund] Failed to refund credits for job ${jobId}`);
+        }
+    } catch (err) {
+        console.error(`❌ [Refund] Error releasing credits for job ${jobId}:`, err);
+    }
+}
+
+// Start WaveSpeed; it calls the webhook when the clip is done (if configured)
+async function startWaveSpeed(imageDataUrl: string, audio: Buffer, webhookUrl: string | null): Promise<string> {
+    console.log(`🚀 Starting WaveSpeed...`);
+    const audioBase64 = audio.toString('base64');
+
+    const submitUrl = webhookUrl ? `${WAVESPEED_API_URL}?webhook=${encodeURIComponent(webhookUrl)}` : WAVESPEED_API_URL;
+    const response = await axios.post(submitUrl, {
+        image: imageDataUrl,
+        audio: `data:audio/mpeg;base64,${audioBase64}`,
+        resolution: CLIP_RESOLUTION,
+        seed: -1
+    }, {
+        headers: { 'Authorization': `Bearer ${getWavespeedApiKey()}`, 'Content-Type': 'application/json' },
+        timeout: 30000
+    });
+
+    const predictionId = (response.data.data || response.data).id;
+    console.log(`📋 WaveSpeed ID: ${predictionId}`);
+    return predictionId;
+}
+
+// Poll WaveSpeed (at least once, then until `maxPollTimeMs` has passed)
+async function pollWaveSpeed(predictionId: string, maxPollTimeMs: number): Promise<{ completed: boolean; videoUrl?: string; failed?: boolean }> {
+    console.log(`🔍 Polling WaveSpeed: ${predictionId}`);
+    const startTime = Date.now();
+
+    do {
+        try {
+            const resp = await axios.get(
+                `https://api.wavespeed.ai/api/v3/predictions/${predictionId}/result?_t=${Date.now()}`,
+                { headers: { 'Authorization': `Bearer ${getWavespeedApiKey()}` }, timeout: 10000 }
+            );
+            const data = resp.data.data || resp.data;
+            console.log(`📊 Status: ${data.status}`);
+
+            if (data.status === 'completed' && (data.output?.video || data.outputs?.[0])) {
+                return { completed: true, videoUrl: data.output?.video || data.outputs[0] };
+            }
+            if (data.status === 'failed') return { completed: false, failed: true };
+        } catch (e) {
+            console.log(`⚠️ Poll error:`, e instanceof Error ? e.message : e);
+        }
+        if (Date.now() - startTime + POLL_INTERVAL_MS >= maxPollTimeMs) break;
+        await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+    } while (Date.now() - startTime < maxPollTimeMs);
+    return { completed: false };
+}
+
+// Upload to Supabase
+async function uploadToSupabase(videoUrl: string, fileName: string): Promise<string> {
+    try {
+        // Need to use admin client here too? 
+        // Actually, for storage upload, if bucket is public/authenticated, logic is same.
+        // But let's use the admin client from getSupabaseAdmin() if possible, but uploaded buffer needs supabase-js client
+        // We will stick to 'getSupabaseAdmin()' here to be safe and consistent.
+
+        let supabase;
+        try {
+            supabase = getSupabaseAdmin();
+        } catch (e) {
+            console.error("Storage upload auth failed", e);
+            return videoUrl;
+        }
+
+        const response = await axios.get(videoUrl, { responseType: 'arraybuffer', timeout: 60000 });
+        const { error } = await supabase.storage.from('videos').upload(`clips/${fileName}`, Buffer.from(response.data), {
+            contentType: 'video/mp4', upsert: true
+        });
+        if (error) return videoUrl;
+        return supabase.storage.from('videos').getPublicUrl(`clips/${fileName}`).data.publicUrl;
+    } catch {
+        return videoUrl;
+    }
+}
+
+// Prepare face image
+async function prepareFaceImage(url: string): Promise<string> {
+    if (url.startsWith('data:')) return url;
+    const resp = await axios.get(url, { responseType: 'arraybuffer', timeout: 15000 });
+    return `data:${resp.headers['content-type'] || 'image/jpeg'};base64,${Buffer.from(resp.data).toString('base64')}`;
+}
+
+// Mark a running face job failed and release its credits. Nothing happens
+// when a cancel or pause got there first (the cancel already refunded).
+async function markFaceJobFailed(jobId: string, userId: string, inputData: Pick<JobInputData, 'creditsCharged' | 'creditReservationKey'>, reason: string): Promise<boolean> {
+    const claimed = await updateJobIfStatus(jobId, RUNNING_JOB_STATUSES, {
+        status: 'failed',
+        error: reason,
+        progress_message: 'Failed',
+        updated_at: new Date().toISOString()
+    });
+    if (claimed) await releaseCreditsForJob(jobId, userId, inputData);
+    return claimed;
+}
+
+// In-flight predictions; jobs from before parallel scenes keep a single pendingScene
+function getPendingScenes(inputData: JobInputData): PendingSceneState[] {
+    if (inputData.pendingScenes) return inputData.pendingScenes;
+    return inputData.pendingScene ? [inputData.pendingScene] : [];
+}
+
+// Scenes that are neither processed nor generating, in order
+function unstartedSceneIndexes(scenes: SceneInput[], processedScenes: ProcessedScene[], pendingScenes: PendingSceneState[]): number[] {
+    const started = new Set([...processedScenes.map(ps => ps.index), ...pendingScenes.map(p => p.sceneIndex)]);
+    return scenes.map((_, i) => i).filter(i => !started.has(i));
+}
+
+// Where a scene's prediction stands. A webhook may already have reported
+// the clip; otherwise poll for up to `pollTimeMs`.
+async function checkPendingScene(pending: PendingSceneState, pollTimeMs: number): Promise<'running' | 'failed' | { videoUrl: string }> {
+    const task = await findProviderTask('wavespeed', pending.predictionId);
+    const result = task?.status === 'completed' && task.output_url
+        ? { completed: true, videoUrl: task.output_url }
+        : task?.status === 'failed'
+            ? { completed: false, failed: true }
+            : await pollWaveSpeed(pending.predictionId, pollTimeMs);
+
+    if (result.completed && result.videoUrl) {
+        await settleProviderTask('wavespeed', pending.predictionId, 'completed', { outputUrl: result.videoUrl });
+        return { videoUrl: result.videoUrl };
+    }
+    if (result.failed || Date.now() - pending.startedAt > SCENE_TIMEOUT_MS) {
+        await settleProviderTask('wavespeed', pending.predictionId, 'failed', { error: result.failed ? 'Prediction failed' : 'Timed out' });
+        return 'failed';
+    }
+    return 'running';
+}
+
+// Split a long face scene into alternating face/asset sub-scenes, one per audio chunk
+async function splitFaceScene(scene: SceneInput, audioCount: number, faceImageUrl: string): Promise<SceneInput[]> {
+    const subScenes: SceneInput[] = [];
+
+    // Split the text proportionally for display/logging
+    // (the audio is already split by Qwen, text is just for metadata)
+    const words = scene.text.split(/\s+/);
+    const wordsPerChunk = Math.ceil(words.length / audioCount);
+
+    for (let k = 0; k < audioCount; k++) {
+        const chunkWords = words.slice(k * wordsPerChunk, (k + 1) * wordsPerChunk);
+        const chunkText = chunkWords.join(' ');
+
+        if (k % 2 === 0) {
+            // Face scene (odd sub-scenes: 1st, 3rd, 5th...)
+            subScenes.push({ text: chunkText, type: 'face' });
+        } else {
+            // Asset scene (even sub-scenes: 2nd, 4th, 6th...)
+            // Generate an AI image for this asset scene
+            let assetUrl = faceImageUrl; // Fallback to face image
+            try {
+                console.log(`  🎨 Generating AI image for sub-scene ${k + 1}...`);
+                const imagePrompt = `Create a photorealistic, cinematic vertical image. Scene content: "${chunkText}". Requirements: Vertical 9:16 aspect ratio, photorealistic, high-quality, vibrant colors, no text or watermarks, professional broadcast quality.`;
+                ({ imageUrl: assetUrl } = await cachedGenerateImage(imagePrompt, '9:16'));
+                console.log(`  ✅ AI image generated for sub-scene ${k + 1}`);
+            } catch (imgErr) {
+                console.warn(`  ⚠️ AI image generation failed for sub-scene ${k + 1}, using face image fallback:`, imgErr);
+            }
+            subScenes.push({ text: chunkText, type: 'asset', assetUrl });
+        }
+    }
+    return subScenes;
+}
+
+type StartedScene =
+    | { kind: 'pending'; pending: PendingSceneState }
+    | { kind: 'processed'; scene: ProcessedScene }
+    // The narration came back in several chunks, so the scene must be split first
+    | { kind: 'split'; audioCount: number };
+
+// Narrate one scene, then start its WaveSpeed prediction (face scenes) or
+// finish it right away (asset scenes)
+async function startFaceScene(
+    jobId: string,
+    index: number,
+    scene: SceneInput,
+    embeddingUrl: string,
+    imageDataUrl: string | null,
+    faceImageUrl: string
+): Promise<StartedScene> {
+    // Use the qwen_embedding_url fetched earlier (with JIT cloning fallback)
+    const { audioUrl, audioUrls, duration, cached: narrationCached } = await cachedSceneTTS(scene.text, embeddingUrl);
+
+    if (scene.type === 'face' && audioUrls && audioUrls.length > 1) {
+        return { kind: 'split', audioCount: audioUrls.length };
+    }
+
+    // Word timings for captions (shared by every render backend)
+    const wordTimings = await alignTextToAudio(scene.text, audioUrl, duration);
+
+    if (scene.type === 'face' && imageDataUrl) {
+        // The same face and narration make the same clip
+        const audioResponse = await axios.get(audioUrl, { responseType: 'arraybuffer', timeout: 15000 });
+        const audio = Buffer.from(audioResponse.data);
+        const clipCacheKey = generationCacheKey('clip', WAVESPEED_MODEL, {
+            image: hashContent(imageDataUrl),
+            audio: hashContent(audio),
+            resolution: CLIP_RESOLUTION
+        });
+
+        const cachedClip = await lookupCache(clipCacheKey);
+        if (cachedClip) {
+            return {
+                kind: 'processed',
+                scene: {
+                    index, type: 'face', clipUrl: cachedClip.output_url,
+                    duration, text: scene.text, wordTimings, cached: true
+                }
+            };
+        }
+
+        const predictionId = await startWaveSpeed(imageDataUrl, audio, providerWebhookUrl('wavespeed', jobId));
+        await recordProviderTask({ provider: 'wavespeed', externalId: predictionId, jobId, kind: 'scene', sceneIndex: index });
+        return {
+            kind: 'pending',
+            pending: { predictionId, sceneIndex: index, audioUrl, duration, text: scene.text, wordTimings, startedAt: Date.now(), clipCacheKey }
+        };
+    }
+
+    return {
+        kind: 'processed',
+        scene: {
+            index, type: scene.type,
+            clipUrl: scene.assetUrl || faceImageUrl,
+            audioUrl, duration, text: scene.text, wordTimings,
+            cached: narrationCached
+        }
+    };
+}
+
+// Save the scene fan-in: processed scenes in order, the predictions still
+// generating and the first scene not yet done
+async function saveSceneState(
+    jobId: string,
+    inputData: JobInputData,
+    scenes: SceneInput[],
+    processedScenes: ProcessedScene[],
+    pendingScenes: PendingSceneState[],
+    message?: string
+) {
+    processedScenes.sort((a, b) => a.index - b.index);
+    const totalScenes = scenes.length;
+
+    await getSupabaseAdmin().from('video_jobs').update({
+        current_scene_index: firstUnprocessedIndex(totalScenes, processedScenes),
+        processed_scenes: processedScenes,
+        input_data: { ...inputData, scenes, pendingScenes, pendingScene: null },
+        progress: Math.floor(10 + (processedScenes.length / totalScenes) * 70),
+        progress_message: message || (pendingScenes.length > 0
+            ? `Generating ${pendingScenes.length} scene(s), ${processedScenes.length}/${totalScenes} done...`
+            : `${processedScenes.length}/${totalScenes} scenes done`),
+        updated_at: new Date().toISOString()
+    }).eq('id', jobId);
+}
+
+// Run one processing step for a face job. The queue reschedules the
+// job after each step; thrown errors are retried with backoff.
+async function processFaceTick(jobId: string): Promise<JobTickResult> {
+    console.log(`\n========== JOB: ${jobId} ==========`);
+
+    const supabase = getSupabaseAdmin();
+
+    // Fetch job
+    const { data: job, error: fetchErr } = await supabase.from('video_jobs').select('*').eq('id', jobId).single();
+    if (fetchErr || !job) return { next: 'done', body: { error: 'Job not found' }, httpStatus: 404 };
+
+    // CRITICAL: Only process face jobs, NOT typography
+    // Typography jobs have different input structure and use different render pipeline
+    if (job.job_type === 'typography') {
+        console.log(`⚠️ Skipping typography job ${jobId} - wrong processor`);
+        return {
+            next: 'done',
+            body: { skipped: true, reason: 'Typography jobs use their own processor, not face-video' }
+        };
+    }
+
+    // Cancelled and paused jobs leave the queue; resuming re-enqueues them. A
+    // completed job still holding its render hasn't saved its video yet (see finalize).
+    const finishing = job.status === 'completed' && !!job.input_data?.pendingRender;
+    if (!finishing && (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled' || job.status === 'paused')) {
+        return { next: 'done', body: { message: `Already ${job.status}`, status: job.status } };
+    }
+
+    const inputData = job.input_data as JobInputData;
+    const { scenes, faceImageUrl, enableBackgroundMusic, enableCaptions } = inputData;
+    const pendingRender = toRenderHandle(inputData.pendingRender);
+    const totalScenes = scenes.length;
+    const processedScenes: ProcessedScene[] = job.processed_scenes || [];
+    // A legacy pendingScene can outlive its scene; never count a scene twice
+    const pendingScenes = getPendingScenes(inputData).filter(p => !processedScenes.some(ps => ps.index === p.sceneIndex));
+
+    console.log(`State: ${processedScenes.length}/${totalScenes} done, pending: ${pendingScenes.map(p => p.predictionId).join(', ') || 'none'}, render: ${pendingRender?.renderId || 'none'}`);
+
+    // ======== FETCH VOICE EMBEDDING ========
+    // Look up qwen_embedding_url from voices table (instead of using raw voiceSampleUrl)
+    const userId = job.user_uuid || job.user_id;
+    const { data: voiceData } = await supabase
+        .from('voices')
+        .select('qwen_embedding_url, voice_sample_url, cleaned_sample_url')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .single();
+
+    // Re-renders keep the voice of the video they edit
+    let embeddingUrl = inputData.voiceEmbeddingUrl || voiceData?.qwen_embedding_url;
+
+    // JIT Cloning: If we have a sample URL but no Qwen embedding, clone it now
+    if (!embeddingUrl && voiceData?.voice_sample_url) {
+        console.log('⚠️ No Qwen embedding found, triggering JIT cloning...');
+        try {
+            const { embeddingUrl: newUrl } = await cloneVoiceWithQwen(cloneSampleUrl(voiceData));
+            embeddingUrl = newUrl;
+            // Save the embedding to DB so we don't clone again
+            await supabase.from('voices')
+                .update({ qwen_embedding_url: embeddingUrl })
+                .eq('user_id', userId)
+                .eq('is_active', true);
+            console.log('✅ JIT Cloning successful:', embeddingUrl);
+        } catch (cloneError) {
+            console.error('❌ JIT Cloning failed:', cloneError);
+        }
+    }
+
+    // Fail early if no voice
+    if (!embeddingUrl) {
+        const errorMsg = 'No cloned voice found. Please upload a voice sample first.';
+        await markFaceJobFailed(jobId, userId, inputData, errorMsg);
+        return { next: 'done', body: { error: errorMsg }, httpStatus: 400 };
+    }
+
+    console.log(`🎤 Using voice embedding: ${embeddingUrl.substring(0, 60)}...`);
+
+    // ======== CASE A: Pending render - poll the render backend ========
+    if (pendingRender) {
+        console.log(`\n📽️ CHECKING PENDING ${pendingRender.backend} RENDER: ${pendingRender.renderId}`);
+
+        const result = await pollRender(pendingRender);
+
+        if (result.state === 'done' && result.videoUrl) {
+            console.log(`✅ RENDER COMPLETE: ${result.videoUrl}`);
+            await finalizeVideoJob(jobId, { videoUrl: result.videoUrl, duration: result.duration });
+            return { next: 'done', body: { success: true, completed: true, videoUrl: result.videoUrl } };
+        }
+
+        if (result.state === 'failed' || Date.now() - pendingRender.startedAt > 1200000) { // 20 mins timeout
+            console.log(`❌ Render failed or timed out`);
+            const renderAttempts = (inputData.renderAttempts || 0) + 1;
+            if (renderAttempts >= MAX_RENDER_ATTEMPTS) {
+                const errorMsg = `Render failed ${renderAttempts} times: ${result.message || 'timeout'}`;
+                await markFaceJobFailed(jobId, userId, inputData, errorMsg);
+                return { next: 'done', body: { error: errorMsg } };
+            }
+            await supabase.from('video_jobs').update({
+                input_data: {
+                    ...inputData,
+                    pendingRender: null,
+                    renderAttempts,
+                    failedRenderBackends: [...(inputData.failedRenderBackends || []), pendingRender.backend]
+                },
+                progress_message: `Render failed: ${result.message || 'timeout'}`,
+                updated_at: new Date().toISOString()
+            }).eq('id', jobId);
+            return { next: 'continue', body: { retry: true } };
+        }
+
+        // Still rendering
+        const statusMsg = result.message ? `Rendering: ${result.message}` : 'Rendering final video...';
+        // Only update DB if message changed (to save writes)
+        if (job.progress_message !== statusMsg) {
+            await supabase.from('video_jobs').update({
+                progress_message: statusMsg,
+                updated_at: new Date().toISOString()
+            }).eq('id', jobId);
+        }
+
+        return {
+            next: 'continue',
+            delaySeconds: providerPollDelaySeconds(pendingRender.backend, RENDER_POLL_DELAY_SECONDS),
+            body: { stillRendering: true, status: result.message }
+        };
+    }
+
+    // ======== CASE B: Pending scenes - check their WaveSpeed predictions ========
+    const unstarted = unstartedSceneIndexes(scenes, processedScenes, pendingScenes);
+    if (pendingScenes.length > 0) {
+        // Only wait on the predictions when there are no new scenes to start
+        const pollTimeMs = unstarted.length > 0 ? 0 : MAX_POLL_TIME_MS;
+        console.log(`\n🔍 CHECKING ${pendingScenes.length} SCENE(S): ${pendingScenes.map(p => p.sceneIndex + 1).join(', ')}`);
+        const outcomes = await Promise.all(pendingScenes.map(pending => checkPendingScene(pending, pollTimeMs)));
+
+        const finished = pendingScenes.filter((_, i) => outcomes[i] !== 'running');
+        if (finished.length > 0) {
+            // Finished clips go to the generation cache (or just to storage for older jobs)
+            const clips = await Promise.all(pendingScenes.map(async (pending, i) => {
+                const outcome = outcomes[i];
+                if (typeof outcome !== 'object') return null;
+                const stored = pending.clipCacheKey
+                    ? await storeInCache('clip', pending.clipCacheKey, WAVESPEED_MODEL, [outcome.videoUrl])
+                    : null;
+                return stored?.[0] || uploadToSupabase(outcome.videoUrl, `clip_${jobId}_${pending.sceneIndex}.mp4`);
+            }));
+
+            const sceneAttempts = { ...inputData.sceneAttempts };
+            pendingScenes.forEach((pending, i) => {
+                const clipUrl = clips[i];
+                if (clipUrl) {
+                    console.log(`✅ SCENE ${pending.sceneIndex + 1} DONE`);
+                    processedScenes.push({
+                        index: pending.sceneIndex, type: 'face', clipUrl,
+                        duration: pending.duration, text: pending.text,
+                        wordTimings: pending.wordTimings
+                    });
+                } else if (outcomes[i] === 'failed') {
+                    // Dropped from pendingScenes, so a later tick starts it again
+                    console.log(`❌ SCENE ${pending.sceneIndex + 1} failed, retrying`);
+                    sceneAttempts[pending.sceneIndex] = (sceneAttempts[pending.sceneIndex] || 0) + 1;
+                }
+            });
+
+            const exhausted = pendingScenes.find(p => (sceneAttempts[p.sceneIndex] || 0) >= MAX_SCENE_ATTEMPTS);
+            if (exhausted) {
+                const errorMsg = `Scene ${exhausted.sceneIndex + 1} failed to generate ${MAX_SCENE_ATTEMPTS} times`;
+                await markFaceJobFailed(jobId, userId, inputData, errorMsg);
+                return { next: 'done', body: { error: errorMsg } };
+            }
+
+            const stillPending = pendingScenes.filter((_, i) => outcomes[i] === 'running');
+            const failedCount = outcomes.filter(outcome => outcome === 'failed').length;
+            await saveSceneState(jobId, { ...inputData, sceneAttempts }, scenes, processedScenes, stillPending,
+                failedCount > 0 ? `${failedCount} scene(s) failed, retrying...` : undefined);
+
+            return { next: 'continue', body: { scenesCompleted: finished.length - failedCount, scenesFailed: failedCount } };
+        }
+
+        if (unstarted.length === 0) {
+            await supabase.from('video_jobs').update({
+                progress_message: `Generating ${pendingScenes.length} scene(s), ${processedScenes.length}/${totalScenes} done...`,
+                updated_at: new Date().toISOString()
+            }).eq('id', jobId);
+            return { next: 'continue', body: { stillProcessing: true } };
+        }
+    }
+
+    // ======== CASE C: All scenes done - start render ========
+    const allScenesDone = firstUnprocessedIndex(totalScenes, processedScenes) >= totalScenes;
+
+    // Find focal points for 'auto' Ken Burns asset scenes first
+    if (allScenesDone && inputData.focalPoints === undefined && scenes.some(s => s.kenBurns === 'auto')) {
+        const focalPoints = await detectFocalPoints(processedScenes
+            .filter(ps => ps.type === 'asset' && scenes[ps.index]?.kenBurns === 'auto')
+            .map(ps => ps.clipUrl));
+        await supabase.from('video_jobs').update({
+            input_data: { ...inputData, focalPoints },
+            progress_message: 'Framing subjects...',
+            updated_at: new Date().toISOString()
+        }).eq('id', jobId);
+        return { next: 'continue', body: { focalPoints: Object.keys(focalPoints).length } };
+    }
+
+    if (allScenesDone) {
+        console.log(`\n📽️ STARTING FINAL RENDER`);
+
+        await supabase.from('video_jobs').update({
+            progress: 80,
+            progress_message: 'Starting final render...',
+            updated_at: new Date().toISOString()
+        }).eq('id', jobId);
+
+        const render = await startRender({
+            kind: 'face',
+            scenes: processedScenes.map(ps => ({
+                url: ps.clipUrl,
+                duration: ps.duration,
+                text: ps.text,
+                sceneType: ps.type,
+                audioUrl: ps.audioUrl,
+                wordTimings: ps.wordTimings,
+                transitionSfx: scenes[ps.index]?.transitionSfx,
+                transition: scenes[ps.index]?.transition,
+                kenBurns: scenes[ps.index]?.kenBurns
+            })),
+            enableCaptions: enableCaptions ?? true,
+            captionStyle: inputData.captionStyleDefinition || inputData.captionStyle,
+            backgroundMusic: resolveBackgroundMusic(
+                enableBackgroundMusic,
+                inputData.backgroundMusicUrl || DEFAULT_BACKGROUND_MUSIC_URL,
+                inputData.music,
+                inputData.backgroundMusicDuration
+            ),
+            sfxLibrary: inputData.sfxLibrary,
+            focalPoints: inputData.focalPoints
+        }, { jobId, preferred: inputData.renderBackend, failedBackends: inputData.failedRenderBackends });
+
+        await supabase.from('video_jobs').update({
+            input_data: { ...inputData, pendingRender: render, voiceEmbeddingUrl: embeddingUrl },
+            progress: 85,
+            progress_message: 'Rendering final video...',
+            updated_at: new Date().toISOString()
+        }).eq('id', jobId);
+
+        return {
+            next: 'continue',
+            delaySeconds: providerPollDelaySeconds(render.backend, RENDER_POLL_DELAY_SECONDS),
+            body: { renderStarted: true, backend: render.backend, renderId: render.renderId }
+        };
+    }
+
+    // ======== CASE D: Start new scenes (fan out) ========
+    // Every scene needs narration; face scenes also take a WaveSpeed slot,
+    // shared with the user's other jobs
+    const ttsSlots = await availableSceneSlots('tts', userId);
+    let faceSlots = await availableSceneSlots('wavespeed', userId);
+    const batch: number[] = [];
+    for (const index of unstarted) {
+        if (batch.length >= ttsSlots) break;
+        if (scenes[index].type === 'face') {
+            if (faceSlots <= 0) continue;
+            faceSlots--;
+        }
+        batch.push(index);
+    }
+
+    if (batch.length === 0) {
+        console.log(`⏳ No free WaveSpeed slot, waiting...`);
+        const stillRunning = await updateJobIfStatus(jobId, RUNNING_JOB_STATUSES, {
+            status: 'processing',
+            progress_message: pendingScenes.length > 0
+                ? `Generating ${pendingScenes.length} scene(s), ${processedScenes.length}/${totalScenes} done...`
+                : 'Waiting for a free generation slot...',
+            updated_at: new Date().toISOString()
+        });
+        if (!stillRunning) return { next: 'done', body: { message: 'Job is no longer running' } };
+        return { next: 'continue', delaySeconds: SLOT_WAIT_DELAY_SECONDS, body: { waitingForSlot: true } };
+    }
+
+    console.log(`\n🆕 STARTING SCENES ${batch.map(i => i + 1).join(', ')}/${totalScenes}`);
+
+    const claimed = await updateJobIfStatus(jobId, RUNNING_JOB_STATUSES, {
+        status: 'processing',
+        progress: Math.floor(10 + (processedScenes.length / totalScenes) * 70),
+        progress_message: `Starting ${batch.length} scene(s)...`,
+        updated_at: new Date().toISOString()
+    });
+    if (!claimed) return { next: 'done', body: { message: 'Job is no longer running' } };
+
+    const imageDataUrl = batch.some(i => scenes[i].type === 'face') ? await prepareFaceImage(faceImageUrl) : null;
+    const results = await mapWithConcurrency(batch, batch.length,
+        index => withTtsSceneTask(jobId, index,
+            () => startFaceScene(jobId, index, scenes[index], embeddingUrl, imageDataUrl, faceImageUrl)));
+
+    // Fan in: pending predictions, finished asset scenes and scenes to split
+    let updatedScenes = scenes;
+    const sceneAttempts = { ...inputData.sceneAttempts };
+    const splits: { index: number; audioCount: number }[] = [];
+    let firstError: unknown = null;
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            console.error(`❌ Scene ${batch[i] + 1} failed to start:`, result.reason);
+            firstError = firstError || result.reason;
+        } else if (result.value.kind === 'pending') {
+            pendingScenes.push(result.value.pending);
+        } else if (result.value.kind === 'processed') {
+            processedScenes.push(result.value.scene);
+        } else {
+            splits.push({ index: batch[i], audioCount: result.value.audioCount });
+        }
+    });
+
+    // ======== AUTO-SPLIT: If TTS produced multiple audio chunks for a face scene ========
+    // Qwen TTS has a ~15s output cap. Long text gets chunked into ~200-char segments,
+    // each producing a separate audio file. We need to split this single scene into
+    // multiple sub-scenes (alternating face/asset) so each WaveSpeed call gets short audio.
+    // Later scenes shift along, so split from the last one back.
+    for (const split of splits.sort((a, b) => b.index - a.index)) {
+        console.log(`🔀 AUTO-SPLIT: Scene ${split.index + 1} has ${split.audioCount} audio chunks. Splitting into alternating face/asset sub-scenes...`);
+        const subScenes = await splitFaceScene(updatedScenes[split.index], split.audioCount, faceImageUrl);
+        const shift = subScenes.length - 1;
+
+        // Replace the single scene with the expanded sub-scenes; a later tick processes them
+        updatedScenes = [
+            ...updatedScenes.slice(0, split.index),
+            ...subScenes,
+            ...updatedScenes.slice(split.index + 1)
+        ];
+        for (const ps of processedScenes) if (ps.index > split.index) ps.index += shift;
+        for (const pending of pendingScenes) if (pending.sceneIndex > split.index) pending.sceneIndex += shift;
+        for (const index of Object.keys(sceneAttempts).map(Number).sort((a, b) => b - a)) {
+            if (index <= split.index) continue;
+            sceneAttempts[index + shift] = sceneAttempts[index];
+            delete sceneAttempts[index];
+        }
+    }
+    if (splits.length > 0) {
+        console.log(`🔀 AUTO-SPLIT complete: ${scenes.length} scenes → ${updatedScenes.length} scenes`);
+    }
+
+    await saveSceneState(jobId, { ...inputData, sceneAttempts }, updatedScenes, processedScenes, pendingScenes,
+        splits.length > 0 ? `Split into ${updatedScenes.length} scenes. Processing...` : undefined);
+
+    // The queue retries the scenes that failed with backoff
+    if (firstError) throw firstError;
+
+    return { next: 'continue', body: { scenesStarted: batch.map(i => i + 1), autoSplit: splits.length > 0 } };
+}
+
+// Mark the job failed and refund once the queue has given up on it
+async function failFaceJob(jobId: string, reason: string): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    const { data: job } = await supabase.from('video_jobs').select('*').eq('id', jobId).single();
+    if (!job) return;
+
+    const inputData = job.input_data as JobInputData;
+    await markFaceJobFailed(jobId, job.user_uuid || job.user_id, inputData || {}, reason);
+}
+
+export const faceJobProcessor: JobProcessor = {
+    tick: processFaceTick,
+    fail: failFaceJob
+};
@@ -0,0 +1,662 @@
+import axios from 'axios';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { addCredits, releaseReservation } from '@/lib/creditLedger';
+import { generateImage, cloneVoiceWithQwen, alignTextToAudio, type QwenLanguage } from '@/lib/fal';
+import { cachedSceneTTS } from '@/lib/generationCache';
+import { cloneSampleUrl } from '@/lib/voicePreprocessing';
+import { startRender, pollRender, toRenderHandle, RenderHandle } from '@/lib/render';
+import type { WordTiming } from '@/lib/wordTimings';
+import type { CaptionStyle } from '@/lib/captionStyles';
+import { applySceneTiming, isQwenVoicePreset, type SceneVoiceSettings } from '@/lib/sceneVoice';
+import { resolveBackgroundMusic, type MusicOptions } from '@/lib/backgroundMusic';
+import type { SceneSfxSettings, SoundEffect } from '@/lib/soundEffects';
+import type { SceneTransitionSettings } from '@/lib/sceneTransitions';
+import type { FocalPoint, SceneKenBurnsSettings } from '@/lib/kenBurns';
+import { detectFocalPoints } from '@/lib/focalPoint';
+import { getVideoExtension, isVideoAssetUrl, type SceneClipSettings } from '@/lib/clipAssets';
+import { probeClipDurations } from '@/lib/mediaProbe';
+import { DEFAULT_BACKGROUND_MUSIC_URL, planVisualCuts } from '@/lib/json2video';
+import { providerPollDelaySeconds } from '@/lib/providerTasks';
+import { finalizeVideoJob } from './finalize';
+import { availableSceneSlots, firstUnprocessedIndex, mapWithConcurrency, withTtsSceneTask } from './concurrency';
+import { RUNNING_JOB_STATUSES, updateJobIfStatus } from './jobStatus';
+import type { JobProcessor, JobTickResult } from './types';
+
+// Delay between render status checks
+const RENDER_POLL_DELAY_SECONDS = 5;
+// Failed final renders before the job fails
+const MAX_RENDER_ATTEMPTS = 3;
+// Delay before trying again when every TTS slot is taken
+const SLOT_WAIT_DELAY_SECONDS = 10;
+
+interface FacelessSceneInput extends SceneVoiceSettings, SceneSfxSettings, SceneTransitionSettings, SceneKenBurnsSettings, SceneClipSettings {
+    text: string;
+    assetUrl: string;
+}
+
+interface ProcessedScene {
+    index: number;
+    text: string;
+    assetUrl: string;
+    audioUrl: string;
+    // Scene length including pauses
+    duration: number;
+    // Script words aligned to the narration, relative to scene start
+    wordTimings?: WordTiming[];
+    // Narration start within the scene (pauseBefore) and its speed
+    audioOffset?: number;
+    playbackRate?: number;
+    // Narration served from the generation cache, so its credits are refunded
+    cached?: boolean;
+    // Copied from the video this job re-renders (see lib/videoProject.ts), never charged
+    reused?: boolean;
+}
+
+interface FacelessJobInputData {
+    scenes: FacelessSceneInput[];
+    voiceId: string;
+    aspectRatio: '9:16' | '16:9' | '1:1';
+    captionStyle: string;
+    // Custom style resolved when the job was created
+    captionStyleDefinition?: CaptionStyle;
+    enableBackgroundMusic: boolean;
+    enableCaptions: boolean;
+    // Track, volume and ducking picked in the music library; the track's URL
+    // and length are resolved when the job is created
+    music?: MusicOptions;
+    backgroundMusicUrl?: string;
+    backgroundMusicDuration?: number;
+    // Sound effects library snapshot taken when the job was created
+    sfxLibrary?: SoundEffect[];
+    creditsCharged?: number;
+    creditReservationKey?: string;
+    // Dubs: narration language, the voice of the original video and the
+    // video it was dubbed from (see /api/videos/[id]/dub)
+    language?: QwenLanguage;
+    voiceEmbeddingUrl?: string;
+    parentVideoId?: string;
+    // State managed during processing
+    processedScenes?: ProcessedScene[];
+    // First scene not processed yet, and the scenes of the batch in flight
+    currentSceneIndex?: number;
+    activeSceneIndexes?: number[];
+    pendingRender?: RenderHandle | null;
+    // Failed final renders and the backends they failed on (the next render
+    // fails over, see lib/render)
+    renderAttempts?: number;
+    failedRenderBackends?: string[];
+    // Render backend override (see lib/render)
+    renderBackend?: string;
+    allAssets?: string[];
+    // Subjects of the images of 'auto' Ken Burns scenes, found before the render
+    focalPoints?: Record<string, FocalPoint>;
+    // Lengths of the video clip assets, probed before the render
+    clipDurations?: Record<string, number>;
+}
+
+// Update job in Supabase
+async function updateJob(jobId: string, updates: Record<string, unknown>) {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase
+        .from('video_jobs')
+        .update(updates)
+        .eq('id', jobId);
+    if (error) console.error(`Failed to update job ${jobId}: `, error);
+}
+
+// Release the job's credit reservation when it fails
+async function releaseCreditsForJob(jobId: string, userId: string, input: { creditsCharged?: number; creditReservationKey?: string }) {
+    try {
+        if (input.creditReservationKey) {
+            await releaseReservation(input.creditReservationKey, `Refund for failed faceless video job`, {
+                jobId,
+                reason: 'job_failed'
+            });
+            return;
+        }
+
+        // Jobs created before reservations were charged up front: refund once
+        if (!input.creditsCharged || input.creditsCharged <= 0) {
+            console.log(`[Refund] No credits to refund for job ${jobId}`);
+            return;
+        }
+        const result = await addCredits(userId, input.creditsCharged, 'refund', `Refund for failed faceless video job`, {
+            jobId,
+            reason: 'job_failed'
+        }, `refund:video_job:${jobId}`);
+        if (result.success) {
+            console.log(`💰 [Refund] Refunded ${input.creditsCharged} credits to user ${userId} for job ${jobId}`);
+        } else {
+            console.error(`❌ [Refund] Failed to refund credits for job ${jobId}`);
+        }
+    } catch (err) {
+        console.error(`❌ [Refund] Error releasing credits for job ${jobId}:`, err);
+    }
+}
+
+// Mark a running job failed and release its credits. Nothing happens when a
+// cancel or pause got there first (the cancel already refunded).
+async function failRunningJob(jobId: string, userId: string, input: { creditsCharged?: number; creditReservationKey?: string }, reason: string): Promise<boolean> {
+    const claimed = await updateJobIfStatus(jobId, RUNNING_JOB_STATUSES, {
+        status: 'failed',
+        error: reason,
+        progress_message: 'Failed',
+        updated_at: new Date().toISOString()
+    });
+    if (claimed) await releaseCreditsForJob(jobId, userId, input);
+    return claimed;
+}
+
+// Resolve a scene's voice override: a Qwen preset name, or one of the
+// user's cloned voices by id (cloned on first use). Falls back to the job voice.
+async function resolveSceneVoice(userId: string, voice: string | undefined, fallback: string): Promise<string> {
+    if (!voice) return fallback;
+    if (isQwenVoicePreset(voice)) return voice;
+
+    const supabase = getSupabaseAdmin();
+    const { data: voiceRow } = await supabase
+        .from('voices')
+        .select('id, qwen_embedding_url, voice_sample_url, cleaned_sample_url')
+        .eq('id', voice)
+        .eq('user_id', userId)
+        .single();
+
+    if (voiceRow?.qwen_embedding_url) return voiceRow.qwen_embedding_url;
+
+    if (voiceRow?.voice_sample_url) {
+        console.log(`⚠️ Scene voice ${voice} has no Qwen embedding, triggering JIT cloning...`);
+        const { embeddingUrl } = await cloneVoiceWithQwen(cloneSampleUrl(voiceRow));
+        await supabase.from('voices')
+            .update({ qwen_embedding_url: embeddingUrl })
+            .eq('id', voiceRow.id);
+        return embeddingUrl;
+    }
+
+    console.warn(`⚠️ Scene voice ${voice} not found, using the job voice`);
+    return fallback;
+}
+
+// Upload a base64 image or video clip to Supabase and return public URL
+async function uploadBase64Asset(base64Data: string, jobId: string, index: number): Promise<string> {
+    if (!base64Data.startsWith('data:image') && !base64Data.startsWith('data:video')) return base64Data;
+    const supabase = getSupabaseAdmin();
+
+    try {
+        // Updated regex to handle more image types including jpeg
+        const match = base64Data.match(/^data:((?:image|video)\/[a-zA-Z0-9+-]+);base64,(.+)$/);
+        if (!match) {
+            console.error('Invalid base64 format');
+            throw new Error('Invalid base64 asset format');
+        }
+
+        const contentType = match[1];
+        const buffer = Buffer.from(match[2], 'base64');
+        // Clips keep a video extension so renders can tell them apart (lib/clipAssets.ts)
+        let fileName: string;
+        if (contentType.startsWith('video/')) {
+            fileName = `faceless/${jobId}/clip_${index}.${getVideoExtension(contentType)}`;
+        } else {
+            // Handle both 'jpeg' and 'jpg' extensions
+            let ext = contentType.split('/')[1];
+            if (ext === 'jpeg') ext = 'jpg';
+            fileName = `faceless/${jobId}/image_${index}.${ext}`;
+        }
+        console.log(`Uploading asset to: ${fileName}`);
+
+        const { error } = await supabase.storage
+            .from('videos')
+            .upload(fileName, buffer, {
+                contentType,
+                upsert: true
+            });
+
+        if (error) {
+            console.error('Supabase upload error:', error);
+            throw new Error(`Failed to upload asset: ${error.message}`);
+        }
+
+        const { data } = supabase.storage
+            .from('videos')
+            .getPublicUrl(fileName);
+
+        console.log(`Asset uploaded successfully: ${data.publicUrl}`);
+        return data.publicUrl;
+    } catch (e) {
+        console.error('Asset processing error:', e);
+        throw e; // Re-throw to fail the job properly
+    }
+}
+
+// Upload a remote image or video clip URL to Supabase and return public URL
+async function uploadRemoteAsset(url: string, jobId: string, index: number): Promise<string> {
+    const supabase = getSupabaseAdmin();
+
+    // Skip if already a Supabase URL
+    if (url.includes('supabase.co')) {
+        return url;
+    }
+
+    try {
+        console.log(`Downloading remote asset: ${url.substring(0, 50)}...`);
+        const response = await axios.get(url, { responseType: 'arraybuffer' });
+        const buffer = Buffer.from(response.data);
+        const contentType = response.headers['content-type'] || 'image/jpeg';
+
+        let fileName: string;
+        if (contentType.startsWith('video/')) {
+            fileName = `faceless/${jobId}/clip_${index}.${getVideoExtension(contentType)}`;
+        } else {
+            // Handle common extensions
+            let ext = 'jpg';
+            if (contentType.includes('png')) ext = 'png';
+            else if (contentType.includes('webp')) ext = 'webp';
+            fileName = `faceless/${jobId}/image_${index}.${ext}`;
+        }
+        console.log(`Uploading remote asset to: ${fileName}`);
+
+        const { error } = await supabase.storage
+            .from('videos')
+            .upload(fileName, buffer, {
+                contentType,
+                upsert: true
+            });
+
+        if (error) {
+            console.error('Supabase upload error:', error);
+            throw new Error(`Failed to upload remote asset: ${error.message}`);
+        }
+
+        const { data } = supabase.storage
+            .from('videos')
+            .getPublicUrl(fileName);
+
+        console.log(`Remote asset persisted successfully: ${data.publicUrl}`);
+        return data.publicUrl;
+    } catch (e) {
+        console.error('Remote asset processing error:', e);
+        throw e;
+    }
+}
+
+// Upload a scene's asset if needed, narrate it and align its captions.
+// Returns the processed scene and the asset URL it replaced.
+async function processFacelessScene(
+    jobId: string,
+    index: number,
+    sceneInput: FacelessSceneInput,
+    sceneVoice: Promise<string>,
+    language?: QwenLanguage
+): Promise<{ scene: ProcessedScene; originalAssetUrl: string }> {
+    console.log(`Processing scene ${index + 1}: "${sceneInput.text.substring(0, 20)}..."`);
+
+    // 1. Upload the image or clip if needed
+    let assetUrl = sceneInput.assetUrl;
+    if (assetUrl.startsWith('data:')) {
+        console.log(`  📤 Uploading base64 user asset (scene ${index + 1})...`);
+        assetUrl = await uploadBase64Asset(assetUrl, jobId, index);
+    } else if (assetUrl.startsWith('http') && !assetUrl.includes('supabase.co')) {
+        console.log(`  🔄 Persisting remote asset to Supabase (scene ${index + 1})...`);
+        assetUrl = await uploadRemoteAsset(assetUrl, jobId, index);
+    }
+
+    // 2. Generate TTS (per-scene voice and style override the job voice)
+    console.log(`  🎤 Generating TTS (scene ${index + 1})...`);
+    const { audioUrl, duration: audioDuration, cached } = await cachedSceneTTS(
+        sceneInput.text, await sceneVoice, language, sceneInput.styleHint
+    );
+
+    // 3. Word timings for captions (shared by every render backend),
+    // shifted and scaled for the scene's pauses and speed
+    const alignedTimings = await alignTextToAudio(sceneInput.text, audioUrl, audioDuration, language);
+    const { duration, audioOffset, playbackRate, wordTimings } = applySceneTiming(sceneInput, audioDuration, alignedTimings);
+
+    return {
+        scene: {
+            index,
+            text: sceneInput.text,
+            assetUrl, // This is the CLEAN url
+            audioUrl,
+            duration,
+            wordTimings,
+            audioOffset,
+            playbackRate,
+            cached
+        },
+        originalAssetUrl: sceneInput.assetUrl
+    };
+}
+
+// Run one processing step for a faceless job. The queue reschedules the
+// job after each step; thrown errors are retried with backoff.
+async function processFacelessTick(jobId: string): Promise<JobTickResult> {
+    console.log(`\n========== FACELESS JOB: ${jobId} ==========`);
+
+    const supabase = getSupabaseAdmin();
+
+    // Load job state
+    const { data: job, error: fetchError } = await supabase
+        .from('video_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+    if (fetchError || !job) {
+        console.error(`Job ${jobId} not found. Error:`, fetchError);
+        console.error(`Fetch details - Code: ${fetchError?.code}, Message: ${fetchError?.message}`);
+        return { next: 'done', body: { error: 'Job not found', details: fetchError }, httpStatus: 404 };
+    }
+
+    // Cancelled and paused jobs leave the queue; resuming re-enqueues them. A
+    // completed job still holding its render hasn't saved its video yet (see finalize).
+    const finishing = job.status === 'completed' && !!job.input_data?.pendingRender;
+    if (!finishing && (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled' || job.status === 'paused')) {
+        return { next: 'done', body: { message: `Already ${job.status}`, status: job.status } };
+    }
+
+    // Guard: Only process faceless jobs — typography and face have their own processors
+    if (job.job_type && job.job_type !== 'faceless') {
+        console.log(`⚠️ Skipping ${job.job_type} job ${jobId} — wrong processor (faceless)`);
+        return {
+            next: 'done',
+            body: { skipped: true, reason: `${job.job_type} jobs use their own processor` }
+        };
+    }
+
+    if (!finishing) {
+        const claimed = await updateJobIfStatus(jobId, RUNNING_JOB_STATUSES, { status: 'processing', updated_at: new Date().toISOString() });
+        if (!claimed) {
+            return { next: 'done', body: { message: 'Job is no longer running' } };
+        }
+    }
+
+    const input = job.input_data as FacelessJobInputData;
+    const userId = job.user_uuid || job.user_id;
+
+    // Validation
+    if (!input.scenes || input.scenes.length === 0) {
+        const errorMsg = 'No scenes provided for faceless video';
+        await failRunningJob(jobId, userId, input, errorMsg);
+        return { next: 'done', body: { error: errorMsg }, httpStatus: 400 };
+    }
+
+    const totalScenes = input.scenes.length;
+    const processedScenes = input.processedScenes || [];
+
+    console.log(`Status: ${processedScenes.length}/${totalScenes} scenes processed`);
+
+    // ======== FETCH VOICE EMBEDDING ========
+    // Look up qwen_embedding_url from voices table (instead of using voiceId directly)
+    const { data: voiceData } = await supabase
+        .from('voices')
+        .select('qwen_embedding_url, voice_sample_url, cleaned_sample_url')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .single();
+
+    let embeddingUrl = input.voiceEmbeddingUrl || voiceData?.qwen_embedding_url;
+
+    // JIT Cloning: If we have a sample URL but no Qwen embedding, clone it now
+    if (!embeddingUrl && voiceData?.voice_sample_url) {
+        console.log('⚠️ No Qwen embedding found, triggering JIT cloning...');
+        try {
+            const { embeddingUrl: newUrl } = await cloneVoiceWithQwen(cloneSampleUrl(voiceData));
+            embeddingUrl = newUrl;
+            // Save the embedding to DB so we don't clone again
+            await supabase.from('voices')
+                .update({ qwen_embedding_url: embeddingUrl })
+                .eq('user_id', userId)
+                .eq('is_active', true);
+            console.log('✅ JIT Cloning successful:', embeddingUrl);
+        } catch (cloneError) {
+            console.error('❌ JIT Cloning failed:', cloneError);
+        }
+    }
+
+    // Fail early if no voice
+    if (!embeddingUrl) {
+        const errorMsg = 'No cloned voice found. Please upload a voice sample first.';
+        await failRunningJob(jobId, userId, input, errorMsg);
+        return { next: 'done', body: { error: errorMsg }, httpStatus: 400 };
+    }
+
+    console.log(`🎤 Using voice embedding: ${embeddingUrl.substring(0, 60)}...`);
+
+    // CHECK PENDING RENDER
+    const pendingRender = toRenderHandle(input.pendingRender);
+    if (pendingRender) {
+        console.log(`Checking ${pendingRender.backend} render: ${pendingRender.renderId}`);
+
+        const status = await pollRender(pendingRender);
+
+        if (status.state === 'done' && status.videoUrl) {
+            console.log(`✅ Video completed: ${status.videoUrl}`);
+            await finalizeVideoJob(jobId, { videoUrl: status.videoUrl, duration: status.duration });
+            return { next: 'done', body: { completed: true, videoUrl: status.videoUrl } };
+        } else if (status.state === 'failed') {
+            console.error(`❌ Render failed: ${status.message}`);
+            const renderAttempts = (input.renderAttempts || 0) + 1;
+            if (renderAttempts >= MAX_RENDER_ATTEMPTS) {
+                await failRunningJob(jobId, userId, input, status.message || 'Render failed');
+                return { next: 'done', body: { failed: true, error: status.message } };
+            }
+            await updateJob(jobId, {
+                input_data: {
+                    ...input,
+                    pendingRender: null,
+                    renderAttempts,
+                    failedRenderBackends: [...(input.failedRenderBackends || []), pendingRender.backend]
+                },
+                progress_message: `Render failed: ${status.message || 'unknown error'}, retrying...`,
+                updated_at: new Date().toISOString()
+            });
+            return { next: 'continue', body: { retry: true } };
+        } else {
+            console.log('⏳ Still rendering...');
+            await updateJob(jobId, {
+                updated_at: new Date().toISOString(),
+                progress_message: status.message ? `Rendering: ${status.message}` : 'Rendering final video...'
+            });
+            return {
+                next: 'continue',
+                delaySeconds: providerPollDelaySeconds(pendingRender.backend, RENDER_POLL_DELAY_SECONDS),
+                body: { completed: false, status: status.message }
+            };
+        }
+    }
+
+    // PROCESS SCENES: a batch of scenes in parallel, merged into processedScenes
+    const pendingIndices = input.scenes.map((_, i) => i).filter(i => !processedScenes.some(scene => scene.index === i));
+    if (pendingIndices.length > 0) {
+        const batch = pendingIndices.slice(0, await availableSceneSlots('tts', userId));
+        if (batch.length === 0) {
+            console.log(`⏳ No free TTS slot, waiting...`);
+            await updateJob(jobId, {
+                progress_message: 'Waiting for a free generation slot...',
+                updated_at: new Date().toISOString()
+            });
+            return { next: 'continue', delaySeconds: SLOT_WAIT_DELAY_SECONDS, body: { waitingForSlot: true } };
+        }
+        console.log(`Processing scenes ${batch.map(i => i + 1).join(', ')} of ${totalScenes}`);
+
+        await updateJob(jobId, {
+            input_data: { ...input, activeSceneIndexes: batch },
+            progress_message: `Processing ${batch.length} scene${batch.length === 1 ? '' : 's'}...`
+        });
+
+        // Scenes sharing a cloned voice override clone it only once
+        const sceneVoices = new Map<string | undefined, Promise<string>>();
+        const results = await mapWithConcurrency(batch, batch.length, index => {
+            const voice = input.scenes[index].voice;
+            if (!sceneVoices.has(voice)) sceneVoices.set(voice, resolveSceneVoice(userId, voice, embeddingUrl));
+            return withTtsSceneTask(jobId, index,
+                () => processFacelessScene(jobId, index, input.scenes[index], sceneVoices.get(voice)!, input.language));
+        });
+
+        // Fan in: keep every scene that finished, even when others failed
+        let firstError: unknown = null;
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                console.error(`❌ Scene ${batch[i] + 1} failed:`, result.reason);
+                firstError = firstError || result.reason;
+                return;
+            }
+
+            const { scene, originalAssetUrl } = result.value;
+            processedScenes.push(scene);
+            // CRITICAL: Update the input object to remove Base64 from DB state
+            input.scenes[scene.index].assetUrl = scene.assetUrl;
+
+            // Replace ALL occurrences of the old URL (or base64) in allAssets
+            if (scene.assetUrl !== originalAssetUrl && input.allAssets && input.allAssets.length > 0) {
+                input.allAssets = input.allAssets.map(a => a === originalAssetUrl ? scene.assetUrl : a);
+            }
+        });
+        processedScenes.sort((a, b) => a.index - b.index);
+
+        // Progress calculation:
+        // Phase 1: Scenes (0-80%)
+        // Phase 2: Extra Assets (80-90%)
+        // Phase 3: Rendering (90-100%)
+        const progress = Math.min(80, Math.floor((processedScenes.length / totalScenes) * 80));
+
+        await updateJob(jobId, {
+            input_data: {
+                ...input,
+                processedScenes,
+                currentSceneIndex: firstUnprocessedIndex(totalScenes, processedScenes),
+                activeSceneIndexes: [],
+                allAssets: input.allAssets
+            },
+            progress,
+            progress_message: `Processed ${processedScenes.length} of ${totalScenes} scenes`
+        });
+
+        // The queue retries the scenes that failed with backoff
+        if (firstError) throw firstError;
+
+        console.log(`✅ Scenes ${batch.map(i => i + 1).join(', ')} processed`);
+        return { next: 'continue', body: { processed: true, sceneIndexes: batch } };
+    }
+
+    // CHECK FOR REMAINING DIRTY ASSETS IN allAssets
+    // This ensures collected assets (visual cuts) are also uploaded
+    if (input.allAssets && input.allAssets.length > 0) {
+        const dirtyIndices = input.allAssets
+            .map((url, idx) => ({ url, idx }))
+            .filter(({ url }) => url.startsWith('data:') || (url.startsWith('http') && !url.includes('supabase.co')));
+
+        if (dirtyIndices.length > 0) {
+            console.log(`🧹 Found ${dirtyIndices.length} remaining unsaved assets. Processing batch...`);
+
+            // Process a batch (e.g., 3 at a time to avoid timeout)
+            const BATCH_SIZE = 3;
+            const batch = dirtyIndices.slice(0, BATCH_SIZE);
+            let assetsUpdated = false;
+
+            for (const item of batch) {
+                console.log(`  Computing asset ${item.idx}...`);
+                let newUrl = item.url;
+                // A failed upload throws, and the queue retries the batch with backoff
+                if (item.url.startsWith('data:')) {
+                    newUrl = await uploadBase64Asset(item.url, jobId, 1000 + item.idx); // Use high index for extras
+                } else {
+                    newUrl = await uploadRemoteAsset(item.url, jobId, 1000 + item.idx);
+                }
+
+                // Update in array
+                if (input.allAssets) {
+                    input.allAssets[item.idx] = newUrl;
+                    assetsUpdated = true;
+                }
+            }
+
+            if (assetsUpdated) {
+                await updateJob(jobId, {
+                    input_data: { ...input, allAssets: input.allAssets },
+                    progress_message: `Sanitizing assets (${input.allAssets.length - dirtyIndices.length + batch.length}/${input.allAssets.length})...`
+                });
+                return { next: 'continue', body: { sanitized: true, count: batch.length } };
+            }
+        }
+    }
+
+    // PROBE VIDEO CLIP ASSETS so renders can trim or loop them to their cuts
+    const clipUrls = [...processedScenes.map(scene => scene.assetUrl), ...(input.allAssets || [])].filter(isVideoAssetUrl);
+    if (input.clipDurations === undefined && clipUrls.length > 0) {
+        const clipDurations = await probeClipDurations(clipUrls);
+        await updateJob(jobId, {
+            input_data: { ...input, processedScenes, clipDurations },
+            progress_message: 'Preparing video clips...'
+        });
+        return { next: 'continue', body: { clipsProbed: Object.keys(clipDurations).length } };
+    }
+
+    // FIND FOCAL POINTS for 'auto' Ken Burns scenes (every image of their cuts)
+    if (input.focalPoints === undefined && input.scenes.some(scene => scene.kenBurns === 'auto')) {
+        const imageUrls = processedScenes.flatMap((scene, i) =>
+            input.scenes[scene.index]?.kenBurns === 'auto'
+                ? planVisualCuts(scene, i, input.allAssets).map(cut => cut.assetUrl).filter(url => !isVideoAssetUrl(url))
+                : []
+        );
+        const focalPoints = await detectFocalPoints(imageUrls);
+        await updateJob(jobId, {
+            input_data: { ...input, processedScenes, focalPoints },
+            progress_message: 'Framing subjects...'
+        });
+        return { next: 'continue', body: { focalPoints: Object.keys(focalPoints).length } };
+    }
+
+    // ALL SCENES & ASSETS PROCESSED - START RENDER
+    console.log('🎬 All scenes and assets ready. Starting render...');
+    const render = await startRender({
+        kind: 'faceless',
+        scenes: processedScenes.map(scene => ({
+            ...scene,
+            transitionSfx: input.scenes[scene.index]?.transitionSfx,
+            cutSfx: input.scenes[scene.index]?.cutSfx,
+            transition: input.scenes[scene.index]?.transition,
+            kenBurns: input.scenes[scene.index]?.kenBurns,
+            clipAudio: input.scenes[scene.index]?.clipAudio
+        })),
+        aspectRatio: input.aspectRatio,
+        backgroundMusic: resolveBackgroundMusic(
+            input.enableBackgroundMusic,
+            input.backgroundMusicUrl || DEFAULT_BACKGROUND_MUSIC_URL,
+            input.music,
+            input.backgroundMusicDuration
+        ),
+        sfxLibrary: input.sfxLibrary,
+        enableCaptions: input.enableCaptions || false,
+        captionStyle: input.captionStyleDefinition || input.captionStyle,
+        allAssets: input.allAssets || [],
+        focalPoints: input.focalPoints,
+        clipDurations: input.clipDurations
+    }, { jobId, preferred: input.renderBackend, failedBackends: input.failedRenderBackends });
+
+    // Save pending render state
+    await updateJob(jobId, {
+        progress: 95,
+        progress_message: 'Rendering video...',
+        input_data: { ...input, processedScenes, pendingRender: render, voiceEmbeddingUrl: embeddingUrl }
+    });
+
+    return {
+        next: 'continue',
+        delaySeconds: providerPollDelaySeconds(render.backend, RENDER_POLL_DELAY_SECONDS),
+        body: { rendering: true, backend: render.backend, renderId: render.renderId }
+    };
+}
+
+// Mark the job failed and refund once the queue has given up on it
+async function failFacelessJob(jobId: string, reason: string): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    const { data: job } = await supabase.from('video_jobs').select('*').eq('id', jobId).single();
+    if (!job) return;
+
+    await failRunningJob(jobId, job.user_uuid || job.user_id, (job.input_data as FacelessJobInputData) || {}, reason);
+}
+
+export const facelessJobProcessor: JobProcessor = {
+    tick: processFacelessTick,
+    fail: failFacelessJob
+};
@@ -0,0 +1,275 @@
+/**
+ * Finishing a face or faceless job once its render is done
+ *
+ * Called by the job's own render poll and by the JSON2Video webhook,
+ * whichever sees the finished render first, and safe to call again. The job
+ * is claimed as completed before anything is saved, so a job cancelled in
+ * the meantime gets no video and keeps its cancel refund. Until the video is
+ * saved the job keeps its pendingRender, so its render poll can retry. Every
+ * finished job gets exactly one videos row (videos.job_id is unique, see
+ * job_finalize_migration.sql) with a thumbnail, result_data for the
+ * dashboard poller, and its credit reservation captured. Scenes served from
+ * the generation cache (lib/generationCache.ts) are refunded. The video keeps
+ * the job's spec as its project (lib/videoProject.ts) so it can be edited.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { addCredits, captureReservation } from '@/lib/creditLedger';
+import { calculateCacheRefund } from '@/lib/credits';
+import { concatSceneTimings, type WordTiming } from '@/lib/wordTimings';
+import { getCaptionStyle } from '@/lib/captionStyles';
+import { isVideoAssetUrl } from '@/lib/clipAssets';
+import { buildVideoProject } from '@/lib/videoProject';
+
+export interface RenderOutput {
+    videoUrl: string;
+    // Seconds, when the render backend reports it
+    duration?: number;
+}
+
+export interface FinalizeResult {
+    finalized: boolean;
+    videoId?: string;
+    // Why nothing was done (e.g. the job was cancelled)
+    skipped?: string;
+}
+
+// The stored scene fields a finished job is built from
+interface FinishedScene {
+    index: number;
+    text: string;
+    duration: number;
+    wordTimings?: WordTiming[];
+    // Faceless scenes
+    assetUrl?: string;
+    // Face job scenes
+    type?: 'face' | 'asset';
+    clipUrl?: string;
+    // Served from the generation cache, or reused from the video it was edited from
+    cached?: boolean;
+    reused?: boolean;
+}
+
+interface FinishedVideo {
+    video: Record<string, unknown>;
+    resultData: Record<string, unknown>;
+}
+
+// Auto-generate topic from first 5 words of script
+function deriveTopic(script: string): string {
+    const topicWords = script.trim().split(/\s+/).slice(0, 5);
+    return topicWords.join(' ') + (topicWords.length >= 5 ? '...' : '');
+}
+
+function buildFacelessVideo(job: Record<string, any>, output: RenderOutput): FinishedVideo {
+    const input = job.input_data || {};
+    const scenes: FinishedScene[] = input.processedScenes || [];
+    const duration = output.duration || scenes.reduce((acc, s) => acc + s.duration, 0);
+    const script = scenes.map(s => s.text).join('\n\n');
+
+    const sceneAssets = scenes.map(s => ({
+        url: s.assetUrl as string,
+        source: 'collected',
+        text: s.text
+    }));
+    // Prefer an image; an all-clip video uses its first clip
+    const thumbnailUrl = scenes.find(s => s.assetUrl && !isVideoAssetUrl(s.assetUrl))?.assetUrl
+        || scenes[0]?.assetUrl
+        || null;
+
+    return {
+        video: {
+            mode: 'faceless',
+            script,
+            topic: deriveTopic(script),
+            duration: Math.round(duration),
+            has_captions: input.enableCaptions || false,
+            has_music: input.enableBackgroundMusic || false,
+            assets: sceneAssets,
+            thumbnail_url: thumbnailUrl,
+            // Kept for caption file export (see /api/videos/[id]/captions)
+            word_timings: concatSceneTimings(scenes),
+            caption_style: getCaptionStyle(input.captionStyleDefinition || input.captionStyle),
+            aspect_ratio: input.aspectRatio,
+            language: input.language || null,
+            parent_video_id: input.parentVideoId || null
+        },
+        resultData: { videoUrl: output.videoUrl, duration, assets: sceneAssets }
+    };
+}
+
+function buildFaceVideo(job: Record<string, any>, output: RenderOutput): FinishedVideo {
+    const input = job.input_data || {};
+    const scenes: FinishedScene[] = job.processed_scenes || [];
+    const duration = output.duration || scenes.reduce((acc, s) => acc + s.duration, 0);
+    const script = scenes.map(s => s.text).join('\n\n');
+
+    const clipAssets = scenes.filter(s => s.type === 'face').map(s => ({ url: s.clipUrl as string, source: 'wavespeed' }));
+    // First face clip, else the first asset image
+    const thumbnailUrl = scenes.find(s => s.type === 'face')?.clipUrl
+        || scenes.find(s => s.clipUrl)?.clipUrl
+        || null;
+
+    return {
+        video: {
+            mode: 'face',
+            script,
+            topic: deriveTopic(script),
+            duration: Math.round(duration),
+            has_captions: input.enableCaptions || false,
+            has_music: input.enableBackgroundMusic || false,
+            assets: clipAssets,
+            thumbnail_url: thumbnailUrl,
+            word_timings: concatSceneTimings(scenes),
+            caption_style: getCaptionStyle(input.captionStyleDefinition || input.captionStyle),
+            aspect_ratio: '9:16'
+        },
+        resultData: { videoUrl: output.videoUrl, duration, clipAssets }
+    };
+}
+
+// Voice the job was narrated with (stored when the render started; older
+// jobs fall back to the user's active voice)
+async function resolveNarrationVoice(job: Record<string, any>, userId: string): Promise<string | null> {
+    if (job.input_data?.voiceEmbeddingUrl) return job.input_data.voiceEmbeddingUrl;
+
+    const { data: voice } = await getSupabaseAdmin()
+        .from('voices')
+        .select('qwen_embedding_url')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .maybeSingle();
+    return voice?.qwen_embedding_url || null;
+}
+
+// Give back the share of the charge of scenes the cache served. Reused
+// scenes were never charged. Keyed per job, so finalizing twice refunds once.
+async function refundCachedScenes(job: Record<string, any>, userId: string, scenes: FinishedScene[]): Promise<number> {
+    const chargedScenes = scenes.filter(s => !s.reused);
+    const cachedScenes = chargedScenes.filter(s => s.cached).length;
+    const refund = calculateCacheRefund({
+        creditsCharged: job.input_data?.creditsCharged || 0,
+        totalScenes: chargedScenes.length,
+        cachedScenes
+    });
+    if (refund <= 0) return 0;
+
+    const result = await addCredits(userId, refund, 'refund', 'Refund for cached scenes in video job', {
+        jobId: job.id,
+        reason: 'cached_scenes',
+        cachedScenes
+    }, `refund:video_job_cache:${job.id}`);
+    return result.success ? refund : 0;
+}
+
+/**
+ * Mark the job completed and save the finished video. Cancelled and failed
+ * jobs are left alone.
+ */
+export async function finalizeVideoJob(jobId: string, output: RenderOutput): Promise<FinalizeResult> {
+    const supabase = getSupabaseAdmin();
+    const { data: job, error: fetchError } = await supabase
+        .from('video_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+    if (fetchError || !job) {
+        console.error(`❌ [Finalize] Job ${jobId} not found:`, fetchError);
+        return { finalized: false, skipped: 'Job not found' };
+    }
+    if (job.status === 'cancelled' || job.status === 'failed') {
+        console.log(`⚠️ [Finalize] Job ${jobId} is ${job.status}, ignoring finished render`);
+        return { finalized: false, skipped: `Job is ${job.status}` };
+    }
+    if (job.status === 'completed' && !job.input_data?.pendingRender) {
+        return { finalized: false, skipped: 'Job is already completed' };
+    }
+
+    const jobType = job.job_type || (job.input_data?.faceImageUrl ? 'face' : 'faceless');
+    if (jobType !== 'face' && jobType !== 'faceless') {
+        return { finalized: false, skipped: `${jobType} jobs are finished by their own processor` };
+    }
+
+    const userId = job.user_uuid || job.user_id;
+    const finished = jobType === 'face' ? buildFaceVideo(job, output) : buildFacelessVideo(job, output);
+    const scenes: FinishedScene[] = (jobType === 'face' ? job.processed_scenes : job.input_data?.processedScenes) || [];
+    const voiceEmbeddingUrl = await resolveNarrationVoice(job, userId);
+
+    // Claim completion first; a cancel or failure that landed since the read wins.
+    // result_data stays empty until the video is saved, so the dashboard poller
+    // only sees the job finished once it's in the history.
+    const { data: claimed, error: claimError } = await supabase
+        .from('video_jobs')
+        .update({
+            status: 'completed',
+            progress: 99,
+            progress_message: 'Saving video...',
+            result_data: null,
+            updated_at: new Date().toISOString()
+        })
+        .eq('id', jobId)
+        .not('status', 'in', '(cancelled,failed)')
+        .select('id')
+        .maybeSingle();
+
+    if (claimError) {
+        throw new Error(`Failed to claim job ${jobId}: ${claimError.message}`);
+    }
+    if (!claimed) {
+        console.log(`⚠️ [Finalize] Job ${jobId} was cancelled or failed meanwhile, ignoring finished render`);
+        return { finalized: false, skipped: 'Job was cancelled or failed' };
+    }
+
+    // A second call finds the row saved by the first
+    const { error: insertError } = await supabase
+        .from('videos')
+        .upsert({
+            ...finished.video,
+            job_id: jobId,
+            user_id: userId,
+            video_url: output.videoUrl,
+            voice_embedding_url: voiceEmbeddingUrl,
+            project: buildVideoProject(jobType, { ...job.input_data, voiceEmbeddingUrl }, scenes)
+        }, { onConflict: 'job_id', ignoreDuplicates: true });
+
+    if (insertError) {
+        // Thrown so the job's render poll retries (the webhook's task is already settled)
+        throw new Error(`Failed to save ${jobType} video to history: ${insertError.message}`);
+    }
+
+    const { data: video } = await supabase
+        .from('videos')
+        .select('id')
+        .eq('job_id', jobId)
+        .maybeSingle();
+
+    const { error: updateError } = await supabase
+        .from('video_jobs')
+        .update({
+            progress: 100,
+            progress_message: 'Video ready!',
+            result_data: { ...finished.resultData, videoId: video?.id },
+            input_data: { ...job.input_data, pendingRender: null },
+            updated_at: new Date().toISOString()
+        })
+        .eq('id', jobId);
+
+    if (updateError) {
+        throw new Error(`Failed to complete job ${jobId}: ${updateError.message}`);
+    }
+
+    // The job's reserved credits are now spent
+    if (job.input_data?.creditReservationKey) {
+        await captureReservation(job.input_data.creditReservationKey);
+    }
+
+    const creditsRefunded = await refundCachedScenes(job, userId, scenes);
+    if (creditsRefunded > 0) {
+        await supabase.from('video_jobs').update({ credits_refunded: creditsRefunded }).eq('id', jobId);
+        console.log(`♻️ [Finalize] Refunded ${creditsRefunded} credits for cached scenes of job ${jobId}`);
+    }
+
+    console.log(`✅ [Finalize] ${jobType} job ${jobId} finished as video ${video?.id}`);
+    return { finalized: true, videoId: video?.id };
+}
@@ -0,0 +1,35 @@
+/**
+ * Conditional job status updates
+ *
+ * A cancel or pause can land while a worker is mid-tick. Every status change
+ * a tick makes is therefore an update guarded on the statuses it expects,
+ * and the tick (or its credit release) only goes ahead when a row changed.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+
+// Statuses a worker may still move a job out of
+export const RUNNING_JOB_STATUSES = ['pending', 'processing'];
+
+/**
+ * Apply `updates` only while the job is in one of `fromStatuses`. Returns
+ * false when the job had already moved on (or the update failed).
+ */
+export async function updateJobIfStatus(
+    jobId: string,
+    fromStatuses: string[],
+    updates: Record<string, unknown>
+): Promise<boolean> {
+    const { data, error } = await getSupabaseAdmin()
+        .from('video_jobs')
+        .update(updates)
+        .eq('id', jobId)
+        .in('status', fromStatuses)
+        .select('id');
+
+    if (error) {
+        console.error(`❌ [JobStatus] Failed to update job ${jobId}:`, error);
+        return false;
+    }
+    return (data || []).length > 0;
+}
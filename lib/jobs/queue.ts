@@ -0,0 +1,164 @@
+/**
+ * Durable video job queue (see job_queue_migration.sql)
+ *
+ * Every video_jobs row has a matching job_queue row. A worker leases it,
+ * runs one processing tick and then settles the lease: reschedule, done,
+ * retry with backoff, or dead-letter. Unsettled leases expire and the job
+ * becomes claimable again.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+
+export type QueueJobType = 'face' | 'faceless' | 'typography';
+
+export interface JobLease {
+    job_id: string;
+    job_type: QueueJobType;
+    state: 'queued' | 'leased' | 'done' | 'dead';
+    run_at: string;
+    lease_token: string;
+    leased_by: string;
+    lease_expires_at: string;
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+}
+
+// Visibility timeout: process ticks are capped at 55s, WaveSpeed polling
+// can take most of that, so leave generous headroom before reclaiming.
+export const DEFAULT_LEASE_SECONDS = 120;
+
+// Backoff between failed attempts: 10s, 20s, 40s... capped at 5 minutes
+const RETRY_BASE_DELAY_SECONDS = 10;
+const RETRY_MAX_DELAY_SECONDS = 300;
+
+// Add a job to the queue (or re-arm a finished one)
+export async function enqueueJob(jobId: string, jobType: QueueJobType, delaySeconds: number = 0): Promise<boolean> {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.rpc('enqueue_video_job', {
+        p_job_id: jobId,
+        p_job_type: jobType,
+        p_delay_seconds: Math.max(0, Math.round(delaySeconds))
+    });
+
+    if (error) {
+        console.error(`❌ [JobQueue] Failed to enqueue ${jobType} job ${jobId}:`, error);
+        return false;
+    }
+    console.log(`📥 [JobQueue] Enqueued ${jobType} job ${jobId}${delaySeconds > 0 ? ` (in ${delaySeconds}s)` : ''}`);
+    return true;
+}
+
+// Lease up to `limit` due jobs of any type
+export async function claimJobs(workerId: string, limit: number = 1, leaseSeconds: number = DEFAULT_LEASE_SECONDS): Promise<JobLease[]> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase.rpc('claim_video_jobs', {
+        p_worker: workerId,
+        p_limit: limit,
+        p_lease_seconds: leaseSeconds
+    });
+
+    if (error) {
+        console.error('❌ [JobQueue] Failed to claim jobs:', error);
+        return [];
+    }
+    return (data as JobLease[]) || [];
+}
+
+// Lease one specific job, if it is due and nobody else holds it
+export async function claimJob(
+    jobId: string,
+    jobType: QueueJobType,
+    workerId: string,
+    leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<JobLease | null> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase.rpc('claim_video_job', {
+        p_job_id: jobId,
+        p_job_type: jobType,
+        p_worker: workerId,
+        p_lease_seconds: leaseSeconds
+    });
+
+    if (error) {
+        console.error(`❌ [JobQueue] Failed to claim job ${jobId}:`, error);
+        return null;
+    }
+    const rows = (data as JobLease[]) || [];
+    return rows[0] || null;
+}
+
+async function settleJob(
+    lease: JobLease,
+    state: 'queued' | 'done' | 'dead',
+    options: { delaySeconds?: number; error?: string; resetAttempts?: boolean } = {}
+): Promise<boolean> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase.rpc('settle_video_job', {
+        p_job_id: lease.job_id,
+        p_lease_token: lease.lease_token,
+        p_state: state,
+        p_delay_seconds: Math.max(0, Math.round(options.delaySeconds ?? 0)),
+        p_error: options.error ?? null,
+        p_reset_attempts: options.resetAttempts ?? true
+    });
+
+    if (error) {
+        console.error(`❌ [JobQueue] Failed to settle job ${lease.job_id} as ${state}:`, error);
+        return false;
+    }
+    if (!data) {
+        console.warn(`⚠️ [JobQueue] Lease on job ${lease.job_id} was lost before it could be settled`);
+    }
+    return Boolean(data);
+}
+
+// Tick succeeded and the job needs more work
+export function rescheduleJob(lease: JobLease, delaySeconds: number = 0): Promise<boolean> {
+    return settleJob(lease, 'queued', { delaySeconds });
+}
+
+// Job reached a terminal state (completed or failed)
+export function completeJob(lease: JobLease): Promise<boolean> {
+    return settleJob(lease, 'done');
+}
+
+// Tick threw. Schedules a retry with exponential backoff, or dead-letters
+// the job once max_attempts is reached. Returns true if a retry was scheduled.
+export async function retryJob(lease: JobLease, errorMessage: string): Promise<boolean> {
+    if (lease.attempts >= lease.max_attempts) {
+        await settleJob(lease, 'dead', { error: errorMessage, resetAttempts: false });
+        console.error(`💀 [JobQueue] Job ${lease.job_id} dead-lettered after ${lease.attempts} attempts: ${errorMessage}`);
+        return false;
+    }
+
+    const delaySeconds = Math.min(
+        RETRY_MAX_DELAY_SECONDS,
+        RETRY_BASE_DELAY_SECONDS * Math.pow(2, lease.attempts - 1)
+    );
+    await settleJob(lease, 'queued', { delaySeconds, error: errorMessage, resetAttempts: false });
+    console.warn(`🔁 [JobQueue] Job ${lease.job_id} attempt ${lease.attempts}/${lease.max_attempts} failed, retrying in ${delaySeconds}s`);
+    return true;
+}
+
+// Dead-letter a job whose lease kept expiring without being settled
+export function abandonJob(lease: JobLease, errorMessage: string): Promise<boolean> {
+    return settleJob(lease, 'dead', { error: errorMessage, resetAttempts: false });
+}
+
+// Take a waiting job off the queue (cancelled or paused). A worker that
+// holds the lease settles it as usual and its next tick sees the status.
+export async function dequeueJob(jobId: string): Promise<boolean> {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase
+        .from('job_queue')
+        .update({ state: 'done', updated_at: new Date().toISOString() })
+        .eq('job_id', jobId)
+        .eq('state', 'queued');
+
+    if (error) {
+        console.error(`❌ [JobQueue] Failed to dequeue job ${jobId}:`, error);
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,18 @@
+// Shared contract between the job queue worker and the per-type processors
+
+export interface JobTickResult {
+    // 'continue' reschedules the job, 'done' means it reached completed/failed
+    next: 'continue' | 'done';
+    // Delay before the next tick (e.g. throttle provider polling)
+    delaySeconds?: number;
+    // Response body surfaced by the HTTP process routes
+    body: Record<string, unknown>;
+    httpStatus?: number;
+}
+
+export interface JobProcessor {
+    // Run one bounded step of the job. Throwing schedules a retry.
+    tick(jobId: string): Promise<JobTickResult>;
+    // Called once the queue gives up on the job (retries exhausted)
+    fail(jobId: string, reason: string): Promise<void>;
+}
@@ -0,0 +1,161 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { pollRender, toRenderHandle } from '@/lib/render';
+import type { JobProcessor, JobTickResult } from './types';
+
+const RENDER_POLL_DELAY_SECONDS = 5;
+
+// Check the render started by /api/render-typography and finish the job
+// once it is done. The render handle lives in result_data.render.
+async function processTypographyTick(jobId: string): Promise<JobTickResult> {
+    const supabase = getSupabaseAdmin();
+
+    const { data: job, error: fetchError } = await supabase
+        .from('video_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+    if (fetchError || !job) {
+        return { next: 'done', body: { error: 'Job not found' }, httpStatus: 404 };
+    }
+
+    // If already completed/failed, return result
+    if (job.status === 'completed') {
+        const resultData = job.result_data as any || {};
+        return { next: 'done', body: { done: true, videoUrl: resultData.videoUrl || '', status: 'completed' } };
+    }
+    if (job.status === 'failed') {
+        return { next: 'done', body: { done: true, error: job.error, status: 'failed' } };
+    }
+    if (job.status === 'cancelled' || job.status === 'paused') {
+        return { next: 'done', body: { done: false, status: job.status } };
+    }
+
+    const renderData = job.result_data as any || {}; // { render, duration }
+    const render = toRenderHandle(renderData.render || renderData);
+
+    if (!render) {
+        // The start route has not saved render info yet
+        return {
+            next: 'continue',
+            delaySeconds: RENDER_POLL_DELAY_SECONDS,
+            body: { done: false, progress: job.progress || 0, status: 'processing' }
+        };
+    }
+
+    console.log(`[Typography Status] Checking progress for ${jobId} (${render.backend} render: ${render.renderId})`);
+
+    const progress = await pollRender(render);
+
+    if (progress.state === 'done') {
+        console.log('[Typography Status] Render complete!');
+        const outputUrl = progress.videoUrl || '';
+
+        // Store videoUrl in result_data since output_url column doesn't exist
+        const existingResultData = (job.result_data as Record<string, unknown>) || {};
+
+        console.log('[Typography Status] Updating job to completed with videoUrl:', outputUrl);
+
+        const { error: updateError } = await supabase
+            .from('video_jobs')
+            .update({
+                status: 'completed',
+                progress: 100,
+                progress_message: 'Video rendered successfully',
+                updated_at: new Date().toISOString(),
+                result_data: {
+                    ...existingResultData,
+                    videoUrl: outputUrl,
+                    completedAt: new Date().toISOString(),
+                }
+            })
+            .eq('id', jobId);
+
+        if (updateError) {
+            console.error('[Typography Status] Failed to update job completion:', updateError);
+            // Still report success - the video was rendered, just DB update failed
+        } else {
+            console.log('[Typography Status] Job marked as completed in DB:', jobId);
+
+            // Save to history (videos table) so it shows up even if user closes tab
+            const inputData = job.input_data as any || {};
+            const script = inputData.script || inputData.text || ''; // Fallback to text if script empty
+
+            if (script) {
+                const duration = renderData.duration || 0;
+                // Auto-generate topic
+                const topic = script.split(/\s+/).slice(0, 5).join(' ') + (script.length > 30 ? '...' : '');
+
+                const { error: videoInsertError } = await supabase
+                    .from('videos')
+                    .insert({
+                        user_id: job.user_uuid || job.user_id, // Prefer UUID
+                        video_url: outputUrl,
+                        script,
+                        topic,
+                        mode: 'faceless', // Typography is subset of faceless in schema
+                        duration: Math.round(duration),
+                        has_captions: false, // Text is burned in
+                        has_music: false, // For now
+                        word_timings: inputData.wordTimings || null,
+                        aspect_ratio: inputData.aspectRatio || '9:16',
+                        created_at: new Date().toISOString()
+                    });
+
+                if (videoInsertError) {
+                    console.error('[Typography Status] Failed to save video history:', videoInsertError);
+                } else {
+                    console.log('[Typography Status] Video saved to history');
+                }
+            }
+        }
+
+        return { next: 'done', body: { done: true, videoUrl: outputUrl, status: 'completed' } };
+    }
+
+    if (progress.state === 'failed') {
+        console.error('[Typography Status] Fatal error:', progress.message);
+        const errorMsg = progress.message || 'Render failed';
+
+        await supabase
+            .from('video_jobs')
+            .update({ status: 'failed', error: errorMsg })
+            .eq('id', jobId);
+
+        return { next: 'done', body: { done: true, error: errorMsg, status: 'failed' } };
+    }
+
+    // Still going
+    const pct = Math.round((progress.progress || 0) * 100);
+    // Update progress in DB moderately (dont spam DB every poll)
+    if (pct > (job.progress || 0) + 5) {
+        await supabase
+            .from('video_jobs')
+            .update({
+                progress: pct,
+                progress_message: `Rendering: ${pct}%`,
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', jobId);
+    }
+
+    return {
+        next: 'continue',
+        delaySeconds: RENDER_POLL_DELAY_SECONDS,
+        body: { done: false, progress: pct, status: 'processing' }
+    };
+}
+
+async function failTypographyJob(jobId: string, reason: string): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    await supabase
+        .from('video_jobs')
+        .update({ status: 'failed', error: reason, progress_message: 'Failed' })
+        .eq('id', jobId)
+        .in('status', ['pending', 'processing']);
+}
+
+export const typographyJobProcessor: JobProcessor = {
+    tick: processTypographyTick,
+    fail: failTypographyJob
+};
@@ -0,0 +1,103 @@
+/**
+ * Job queue worker
+ *
+ * Runs processor ticks for leased jobs and settles the lease afterwards.
+ * Used both by the cron-driven drain (/api/jobs/worker) and by the
+ * per-job process routes that the dashboard pollers hit.
+ */
+
+import { faceJobProcessor } from './face';
+import { facelessJobProcessor } from './faceless';
+import { typographyJobProcessor } from './typography';
+import {
+    JobLease,
+    QueueJobType,
+    claimJob,
+    claimJobs,
+    rescheduleJob,
+    completeJob,
+    retryJob,
+    abandonJob
+} from './queue';
+import type { JobProcessor, JobTickResult } from './types';
+
+const JOB_PROCESSORS: Record<QueueJobType, JobProcessor> = {
+    face: faceJobProcessor,
+    faceless: facelessJobProcessor,
+    typography: typographyJobProcessor
+};
+
+// Run one tick for a job we hold the lease on, then settle the lease
+async function executeLease(lease: JobLease): Promise<JobTickResult> {
+    const processor = JOB_PROCESSORS[lease.job_type];
+
+    // Lease kept expiring without being settled (tick crashed or timed out)
+    if (lease.attempts > lease.max_attempts) {
+        const reason = lease.last_error || 'Processing repeatedly timed out';
+        console.error(`💀 [JobWorker] Job ${lease.job_id} exceeded ${lease.max_attempts} attempts, failing`);
+        await processor.fail(lease.job_id, reason);
+        await abandonJob(lease, reason);
+        return { next: 'done', body: { failed: true, error: reason } };
+    }
+
+    try {
+        const result = await processor.tick(lease.job_id);
+        if (result.next === 'done') {
+            await completeJob(lease);
+        } else {
+            await rescheduleJob(lease, result.delaySeconds ?? 0);
+        }
+        return result;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ [JobWorker] Tick failed for ${lease.job_type} job ${lease.job_id}:`, error);
+
+        const willRetry = await retryJob(lease, message);
+        if (!willRetry) {
+            await processor.fail(lease.job_id, message);
+        }
+        return {
+            next: willRetry ? 'continue' : 'done',
+            body: { error: message, retrying: willRetry, attempt: lease.attempts },
+            httpStatus: 500
+        };
+    }
+}
+
+// Run one tick for a specific job if it is due and not held by another worker
+export async function runJobTick(jobId: string, jobType: QueueJobType, workerId: string): Promise<JobTickResult> {
+    const lease = await claimJob(jobId, jobType, workerId);
+    if (!lease) {
+        return { next: 'continue', body: { skipped: true, reason: 'Job is leased or not due yet' } };
+    }
+    if (lease.job_type !== jobType) {
+        console.warn(`⚠️ [JobWorker] Job ${jobId} is queued as ${lease.job_type}, not ${jobType}`);
+    }
+    return executeLease(lease);
+}
+
+export interface DrainResult {
+    processed: number;
+    failed: number;
+}
+
+// Claim and run due jobs one at a time until the time budget is spent.
+// Each tick is bounded (~55s), so stop claiming well before the budget
+// runs out instead of leaving a lease to expire mid-tick.
+export async function drainJobQueue(workerId: string, budgetMs: number): Promise<DrainResult> {
+    const MAX_TICK_MS = 60000;
+    const deadline = Date.now() + budgetMs;
+    const result: DrainResult = { processed: 0, failed: 0 };
+
+    while (Date.now() + MAX_TICK_MS < deadline) {
+        const [lease] = await claimJobs(workerId, 1);
+        if (!lease) break;
+
+        const tick = await executeLease(lease);
+        result.processed++;
+        if (tick.httpStatus && tick.httpStatus >= 500) result.failed++;
+    }
+
+    console.log(`🧵 [JobWorker] ${workerId} drained ${result.processed} ticks (${result.failed} failed)`);
+    return result;
+}
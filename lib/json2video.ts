@@ -7,9 +7,47 @@
 
 import axios from 'axios';
 import { getJson2VideoApiKey, getAppUrl } from '@/lib/config';
+import { concatSceneTimings, type WordTiming } from '@/lib/wordTimings';
+import { compileJson2VideoSettings, getCaptionStyle, CaptionStyle } from '@/lib/captionStyles';
+import { generateSrt } from '@/lib/captionExport';
+import {
+    getSpeechRegions,
+    planMusicSegments,
+    resolveBackgroundMusic,
+    type BackgroundMusicSettings,
+    type SpeechRegion
+} from '@/lib/backgroundMusic';
+import {
+    CUT_SOUND_URL,
+    planSoundEffects,
+    type SceneSfxSettings,
+    type SfxCue,
+    type SoundEffect
+} from '@/lib/soundEffects';
+import {
+    resolveSceneTransitions,
+    SCENE_TRANSITIONS,
+    type ResolvedTransition,
+    type SceneTransitionSettings
+} from '@/lib/sceneTransitions';
+import {
+    resolveKenBurns,
+    type FocalPoint,
+    type KenBurnsEffect,
+    type ResolvedKenBurns,
+    type SceneKenBurnsSettings
+} from '@/lib/kenBurns';
+import {
+    getClipVolume,
+    isVideoAssetUrl,
+    planClipLoops,
+    type SceneClipSettings
+} from '@/lib/clipAssets';
 
 const JSON2VIDEO_API_BASE = 'https://api.json2video.com/v2';
 
+export const DEFAULT_BACKGROUND_MUSIC_URL = 'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/Feeling%20Blue.mp3';
+
 // ============ Type Definitions ============
 
 export interface Json2VideoElement {
@@ -56,14 +94,12 @@ export interface Json2VideoElement {
 // ============ API Functions ============
 
 /**
- * Start a JSON2Video render job
+ * Start a JSON2Video render job, with a completion webhook when given
  */
-export async function startJson2VideoRender(payload: Json2VideoMovie): Promise<string> {
+export async function startJson2VideoRender(payload: Json2VideoMovie, webhookUrl?: string | null): Promise<string> {
     console.log('🎬 Starting JSON2Video render...');
 
-    // Add webhook if available
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL;
-    if (appUrl) {
+    if (webhookUrl) {
         if (!payload.exports) payload.exports = [];
         if (payload.exports.length === 0) payload.exports.push({ destinations: [] });
 
@@ -74,7 +110,7 @@ export async function startJson2VideoRender(payload: Json2VideoMovie): Promise<s
         if (!exports[0].destinations.some(d => d.type === 'webhook')) {
             exports[0].destinations.push({
                 type: 'webhook',
-                endpoint: `${appUrl}/api/webhooks/json2video`
+                endpoint: webhookUrl
             });
         }
     }
@@ -188,19 +224,16 @@ export interface SceneInput {
     text: string;
 }
 
-export interface CaptionWord {
-    word: string;
-    start: number;
-    end: number;
-}
+export type CaptionWord = WordTiming;
 
 export interface RenderInput {
     scenes: SceneInput[];
     wordTimings: CaptionWord[];
     enableCaptions: boolean;
-    captionStyle?: string;
+    captionStyle?: string | CaptionStyle;
     enableBackgroundMusic?: boolean;
     backgroundMusicUrl?: string;
+    backgroundMusic?: BackgroundMusicSettings;  // Takes precedence over the two above
     audioUrl?: string;  // Main voiceover audio URL
 }
 
@@ -250,70 +283,42 @@ function getKenBurnsEffect(sceneIndex: number): {
     return effects[sceneIndex % effects.length];
 }
 
+// JSON2Video zoom/pan for an effect picked in the storyboard (the pans match
+// the faceless cut rotation)
+const JSON2VIDEO_KEN_BURNS: Record<KenBurnsEffect, { zoom: number; pan?: string }> = {
+    'zoom-in': { zoom: 3 },
+    'zoom-out': { zoom: -3 },
+    'pan-left': { zoom: 2, pan: 'right-left' },
+    'pan-right': { zoom: 2, pan: 'left-right' },
+    'pan-up': { zoom: 2, pan: 'bottom-top' },
+    'pan-down': { zoom: 2, pan: 'top-bottom' },
+    'zoom-pan': { zoom: 3, pan: 'left-right' }
+};
+
+// Faceless cuts rotate through the pans unless the scene picks an effect
+export const CUT_KEN_BURNS_ROTATION: KenBurnsEffect[] = ['pan-right', 'pan-left', 'pan-down', 'pan-up'];
+
 /**
- * Get caption style settings for JSON2Video subtitles
- * Uses valid style names: classic, classic-progressive, classic-one-word, boxed-line, boxed-word
+ * Image element settings for a resolved Ken Burns effect. With a focal point
+ * the image fills the frame and the zoom pans towards the subject.
  */
-function getCaptionSettings(styleName: string): Record<string, unknown> {
-    const styles: Record<string, Record<string, unknown>> = {
-        'bold-classic': {
-            'style': 'classic', // Use classic style without box
-            'font-family': 'Bangers',
-            'font-size': 150, // Large impact size
-            'word-color': '#FFD700', // Gold/Yellow
-            'line-color': '#FFFFFF', // White for context words
-            'outline-color': '#000000', // Black outline
-            'outline-width': 2,
-            'shadow-color': '#000000',
-            'shadow-offset': 5,
-            'position': 'bottom-center',
-            'max-words-per-line': 3,
-        },
-        'clean-cut': {
-            'style': 'classic-progressive',
-            'font-family': 'NotoSans Bold',
-            'font-size': 90,
-            'word-color': '#000000',
-            'line-color': '#555555',
-            'outline-color': '#FFFFFF',
-            'outline-width': 4,
-            'max-words-per-line': 3
-        },
-        'modern-pop': {
-            'style': 'classic-progressive',
-            'font-size': 85,
-            'font-family': 'Roboto',
-            'font-weight': '900',
-            'word-color': '#FFFF00',
-            'line-color': '#FFFFFF',
-            'outline-color': '#000000',
-            'outline-width': 4,
-            'position': 'bottom-center',
-            'max-words-per-line': 4,
-        },
-        'minimal': {
-            'style': 'classic',
-            'font-size': 70,
-            'font-family': 'Arial',
-            'word-color': '#FFFFFF',
-            'line-color': '#FFFFFF',
-            'outline-color': '#000000',
-            'outline-width': 2,
-            'position': 'bottom-center',
-            'max-words-per-line': 5,
-        },
-        'vibrant': {
-            'style': 'boxed-line',
-            'font-size': 95,
-            'font-family': 'Oswald Bold',
-            'word-color': '#FFD700',
-            'box-color': '#FF4500DD',
-            'position': 'bottom-center',
-            'max-words-per-line': 3,
-            'all-caps': true,
-        },
+function toJson2VideoKenBurns(kenBurns: ResolvedKenBurns): Record<string, unknown> {
+    const point = kenBurns.focalPoint;
+    if (!point) return { ...JSON2VIDEO_KEN_BURNS[kenBurns.effect] };
+
+    const dx = point.x - 0.5;
+    const dy = point.y - 0.5;
+    const vertical = dy > 0.1 ? 'bottom' : dy < -0.1 ? 'top' : '';
+    const horizontal = dx > 0.1 ? 'right' : dx < -0.1 ? 'left' : '';
+    const pan = [vertical, horizontal].filter(Boolean).join('-');
+    return {
+        resize: 'cover',
+        zoom: 3,
+        ...(pan && {
+            pan,
+            'pan-distance': Number(Math.min(0.2, Math.max(Math.abs(dx), Math.abs(dy)) * 0.4).toFixed(2))
+        })
     };
-    return styles[styleName] || styles['bold-classic'];
 }
 
 /**
@@ -348,7 +353,7 @@ export function convertToJson2VideoFormat(input: RenderInput): Json2VideoMovie {
         // Add transition click sound (plays at start of scene)
         elements.push({
             type: 'audio',
-            src: 'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/clickit.mp3',
+            src: CUT_SOUND_URL,
             start: 0,
             volume: 0.4, // Subtle volume
         });
@@ -378,23 +383,17 @@ export function convertToJson2VideoFormat(input: RenderInput): Json2VideoMovie {
         });
     }
 
-    // Add background music at movie level (spans all scenes)
-    if (input.enableBackgroundMusic && input.backgroundMusicUrl) {
-        movieElements.push({
-            type: 'audio',
-            src: input.backgroundMusicUrl,
-            start: 0,
-            duration: -2,  // -2 means match movie duration
-            volume: 0.12,  // Low volume to not overpower voiceover
-            loop: -1,      // -1 means loop indefinitely
-            'fade-in': 1,   // Fade in over 1 second
-            'fade-out': 2,  // Fade out over 2 seconds at end
-        });
+    // Add background music at movie level (spans all scenes), ducked under the voiceover
+    const music = input.backgroundMusic ?? resolveBackgroundMusic(input.enableBackgroundMusic, input.backgroundMusicUrl);
+    if (music) {
+        const movieDuration = input.scenes.reduce((sum, scene) => sum + scene.duration, 0);
+        const regions = getSpeechRegions([{ duration: movieDuration, wordTimings: input.wordTimings }]);
+        movieElements.push(...buildMusicElements(music, regions, movieDuration));
     }
 
     // Add subtitles at movie level (auto-detect from audio, spans all scenes)
     if (input.enableCaptions) {
-        const captionSettings = getCaptionSettings(input.captionStyle || 'bold-classic');
+        const captionSettings = compileJson2VideoSettings(getCaptionStyle(input.captionStyle));
 
         movieElements.push({
             type: 'subtitles',
@@ -417,20 +416,24 @@ export function convertToJson2VideoFormat(input: RenderInput): Json2VideoMovie {
 
 // ============ Face Video Types ============
 
-export interface FaceSceneInput {
+export interface FaceSceneInput extends SceneSfxSettings, SceneTransitionSettings, SceneKenBurnsSettings {
     url: string;  // URL to video clip (face) or image (asset)
     duration: number;
     text: string;
     sceneType: 'face' | 'asset';  // Determines element type
     audioUrl?: string;  // TTS audio URL for this scene (needed for asset scenes)
+    wordTimings?: WordTiming[];  // Aligned narration timings, relative to scene start
 }
 
 export interface FaceVideoRenderInput {
     scenes: FaceSceneInput[];
     enableCaptions: boolean;
-    captionStyle?: string;
+    captionStyle?: string | CaptionStyle;
     enableBackgroundMusic?: boolean;
     backgroundMusicUrl?: string;
+    backgroundMusic?: BackgroundMusicSettings;  // Takes precedence over the two above
+    sfxLibrary?: SoundEffect[];  // Clips for the scenes' sound effects (default: click on every cut)
+    focalPoints?: Record<string, FocalPoint>;  // Subjects of 'auto' Ken Burns images, by URL
     audioUrl?: string;  // Full voiceover audio URL (optional, for subtitle sync)
 }
 
@@ -439,6 +442,7 @@ export interface FaceVideoRenderInput {
  * Uses video elements for face scenes, image elements with Ken Burns for assets
  */
 export function convertFaceVideoToJson2VideoFormat(input: FaceVideoRenderInput): Json2VideoMovie {
+    const transitions = resolveSceneTransitions(input.scenes.map(scene => ({ ...scene, kind: scene.sceneType })));
     const scenes: any[] = input.scenes.map((scene, index) => {
         const elements: Record<string, unknown>[] = [];
 
@@ -454,7 +458,8 @@ export function convertFaceVideoToJson2VideoFormat(input: FaceVideoRenderInput):
         } else {
             // Asset scenes: use image element with Ken Burns
             // Use 'contain' + zoom to preserve aspect ratio (like faceless)
-            const kenBurns = getKenBurnsEffect(index);
+            const picked = resolveKenBurns(scene.kenBurns, input.focalPoints?.[scene.url]);
+            const kenBurns = picked ? toJson2VideoKenBurns(picked) : getKenBurnsEffect(index);
             elements.push({
                 type: 'image',
                 src: scene.url,
@@ -476,17 +481,11 @@ export function convertFaceVideoToJson2VideoFormat(input: FaceVideoRenderInput):
             }
         }
 
-        // Add transition click sound (same as faceless)
-        elements.push({
-            type: 'audio',
-            src: 'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/clickit.mp3',
-            start: 0,
-            volume: 0.4,
-        });
-
         return {
             comment: `Scene ${index + 1}`,
-            duration: scene.duration,
+            // Held under the next scene's transition
+            duration: scene.duration + (transitions[index + 1]?.duration || 0),
+            ...toJson2VideoTransition(transitions[index]),
             elements,
         };
     });
@@ -505,27 +504,23 @@ export function convertFaceVideoToJson2VideoFormat(input: FaceVideoRenderInput):
         });
     }
 
+    // Sound effects on the scene transitions
+    movieElements.push(...buildSfxElements(planFaceSoundEffects(input.scenes, input.sfxLibrary)));
+
     // Add background music
-    if (input.enableBackgroundMusic) {
-        const musicUrl = input.backgroundMusicUrl || 'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/Feeling%20Blue.mp3';
-        movieElements.push({
-            type: 'audio',
-            src: musicUrl,
-            start: 0,
-            duration: -2,
-            volume: 0.12,
-            loop: -1,
-            'fade-in': 1,
-            'fade-out': 2,
-        });
+    const music = input.backgroundMusic
+        ?? resolveBackgroundMusic(input.enableBackgroundMusic, input.backgroundMusicUrl || DEFAULT_BACKGROUND_MUSIC_URL);
+    if (music) {
+        const movieDuration = input.scenes.reduce((sum, scene) => sum + scene.duration, 0);
+        movieElements.push(...buildMusicElements(music, getSpeechRegions(input.scenes), movieDuration));
     }
 
     // Add subtitles
     if (input.enableCaptions) {
-        const captionSettings = getCaptionSettings(input.captionStyle || 'bold-classic');
+        const captionSettings = compileJson2VideoSettings(getCaptionStyle(input.captionStyle));
         movieElements.push({
             type: 'subtitles',
-            language: 'auto',
+            ...getSubtitleSource(input.scenes),
             settings: captionSettings,
         });
     }
@@ -542,39 +537,334 @@ export function convertFaceVideoToJson2VideoFormat(input: FaceVideoRenderInput):
     };
 }
 
+// ============ Faceless Video Types ============
+
+export interface FacelessSceneInput extends SceneSfxSettings, SceneTransitionSettings, SceneKenBurnsSettings, SceneClipSettings {
+    text: string;
+    assetUrl: string;   // Image, or a video clip (see lib/clipAssets.ts)
+    audioUrl: string;
+    duration: number;
+    wordTimings?: WordTiming[];  // Aligned narration timings, relative to scene start
+    audioOffset?: number;        // Pause before the narration, in seconds
+    playbackRate?: number;       // Narration speed (JSON2Video plays audio at 1x only)
+}
+
+export interface FacelessVideoRenderInput {
+    scenes: FacelessSceneInput[];
+    aspectRatio: '9:16' | '16:9' | '1:1';
+    enableBackgroundMusic?: boolean;
+    backgroundMusicUrl?: string;
+    backgroundMusic?: BackgroundMusicSettings;  // Takes precedence over the two above
+    sfxLibrary?: SoundEffect[];  // Clips for the scenes' sound effects (default: click on every cut)
+    enableCaptions?: boolean;
+    captionStyle?: string | CaptionStyle;
+    allAssets?: string[];
+    focalPoints?: Record<string, FocalPoint>;  // Subjects of 'auto' Ken Burns images, by URL
+    clipDurations?: Record<string, number>;    // Lengths of the video clip assets, by URL
+}
+
+export interface VisualCut {
+    assetUrl: string;
+    start: number;      // Seconds from the scene start
+    duration: number;
+    panIndex: number;   // Rotates the pan direction per cut
+}
+
 /**
- * Generate SRT subtitle content from word timings
+ * Split a faceless scene into ~4s visual cuts for better pacing.
+ * Shared by the JSON2Video and Remotion renders so both cut identically.
  */
-export function generateSRT(wordTimings: CaptionWord[], wordsPerPhrase: number = 4): string {
-    const phrases: { text: string; start: number; end: number }[] = [];
-
-    for (let i = 0; i < wordTimings.length; i += wordsPerPhrase) {
-        const phraseWords = wordTimings.slice(i, i + wordsPerPhrase);
-        if (phraseWords.length > 0) {
-            phrases.push({
-                text: phraseWords.map(w => w.word).join(' '),
-                start: phraseWords[0].start,
-                end: phraseWords[phraseWords.length - 1].end,
-            });
+export function planVisualCuts(scene: FacelessSceneInput, sceneIndex: number, allAssets?: string[]): VisualCut[] {
+    const VISUAL_Duration_TARGET = 4; // Target ~4 seconds per visual cut
+    const numCuts = Math.max(1, Math.ceil(scene.duration / VISUAL_Duration_TARGET));
+    const cutDuration = scene.duration / numCuts;
+    const i = sceneIndex;
+
+    const cuts: VisualCut[] = [];
+
+    // Global index shared across cuts within a scene logic (for this scoped map)
+    // Ideally we want a global rotation, but for simplicity per scene we can offset by scene index
+    // To truly use all assets, we can just rotate based on (sceneIndex + cutIndex)
+
+    for (let k = 0; k < numCuts; k++) {
+        // Cut logic:
+        // 1. First cut (k=0) ALWAYS uses the scene's assigned asset (storyboard fidelity)
+        // 2. Subsequent cuts (k>0) try to pick a different asset from the pool
+
+        let effectiveAssetUrl = scene.assetUrl;
+
+        // Only switch assets if we have extra assets available
+        if (k > 0 && allAssets && allAssets.length > 0) {
+            // Use a deterministic hash/index to pick from allAssets to avoid randomness
+            // Offset by scene index to ensure different scenes pick different "extra" assets
+            // CRITICAL: We use (i + k + 1) to avoid picking the asset that belongs to the NEXT scene (i+1)
+            // This prevents the "A -> B, B -> C" pattern where the end of Scene 1 matches start of Scene 2
+            const poolIndex = (i + k + 1) % allAssets.length;
+            const candidate = allAssets[poolIndex];
+
+            // If candidate is valid, use it
+            if (candidate) {
+                effectiveAssetUrl = candidate;
+            }
         }
+
+        cuts.push({
+            assetUrl: effectiveAssetUrl,
+            start: k * cutDuration, // Start time relative to scene
+            duration: cutDuration,
+            panIndex: i + k // Change pan direction for each cut
+        });
     }
 
-    return phrases.map((phrase, index) => {
-        const startTime = formatSrtTime(phrase.start);
-        const endTime = formatSrtTime(phrase.end);
-        return `${index + 1}\n${startTime} --> ${endTime}\n${phrase.text}\n`;
-    }).join('\n');
+    return cuts;
+}
+
+/**
+ * Ken Burns effect for one visual cut: the scene's pick, or the pan rotation.
+ * Shared with the Remotion renders.
+ */
+export function resolveCutKenBurns(scene: FacelessSceneInput, cut: VisualCut, focalPoints?: Record<string, FocalPoint>): ResolvedKenBurns {
+    return resolveKenBurns(scene.kenBurns, focalPoints?.[cut.assetUrl])
+        || { effect: CUT_KEN_BURNS_ROTATION[cut.panIndex % CUT_KEN_BURNS_ROTATION.length] };
+}
+
+/**
+ * Sound effect cues for a faceless video: scene transitions plus the visual
+ * cuts from planVisualCuts. Shared with the Remotion renders.
+ */
+export function planFacelessSoundEffects(scenes: FacelessSceneInput[], allAssets?: string[], library?: SoundEffect[]): SfxCue[] {
+    return planSoundEffects(scenes.map((scene, i) => ({
+        duration: scene.duration,
+        cutOffsets: planVisualCuts(scene, i, allAssets).map(cut => cut.start),
+        transitionSfx: scene.transitionSfx,
+        cutSfx: scene.cutSfx
+    })), library);
+}
+
+/**
+ * Sound effect cues for a face video (scene transitions only). Shared with the Remotion renders.
+ */
+export function planFaceSoundEffects(scenes: FaceSceneInput[], library?: SoundEffect[]): SfxCue[] {
+    return planSoundEffects(scenes.map(scene => ({
+        duration: scene.duration,
+        kind: scene.sceneType,
+        transitionSfx: scene.transitionSfx
+    })), library);
+}
+
+// Scene-level transition from the previous scene (JSON2Video overlaps the
+// two scenes, which the held outgoing scene makes up for)
+function toJson2VideoTransition(transition: ResolvedTransition | null): Record<string, unknown> {
+    const style = transition && SCENE_TRANSITIONS[transition.type].json2videoStyle;
+    if (!transition || !style) return {};
+    return { transition: { style, duration: Number(transition.duration.toFixed(3)) } };
+}
+
+// Movie-level audio elements for sound effect cues
+function buildSfxElements(cues: SfxCue[]): Record<string, unknown>[] {
+    return cues.map(cue => ({
+        type: 'audio',
+        src: cue.url,
+        start: Number(cue.time.toFixed(3)),
+        volume: cue.volume,
+    }));
 }
 
 /**
- * Format seconds to SRT time format (HH:MM:SS,mmm)
+ * Convert processed faceless job scenes to JSON2Video format
+ * Splits each scene into ~4s visual cuts that rotate through the collected assets
  */
-function formatSrtTime(seconds: number): string {
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 1000);
-    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')},${String(ms).padStart(3, '0')}`;
+export function convertFacelessVideoToJson2VideoFormat(input: FacelessVideoRenderInput): Json2VideoMovie {
+    const {
+        scenes,
+        aspectRatio,
+        enableBackgroundMusic: enableBgMusic,
+        backgroundMusicUrl: bgMusicUrl,
+        backgroundMusic,
+        sfxLibrary,
+        enableCaptions,
+        captionStyle,
+        allAssets,
+        focalPoints,
+        clipDurations
+    } = input;
+    const dimensions: Record<string, { width: number; height: number }> = {
+        '9:16': { width: 1080, height: 1920 },
+        '16:9': { width: 1920, height: 1080 },
+        '1:1': { width: 1080, height: 1080 }
+    };
+    const { width, height } = dimensions[aspectRatio] || { width: 1080, height: 1920 };
+
+    // define visual cut generator (no fades where a scene transition takes over).
+    // Video clips are trimmed or looped to the cut instead of getting Ken Burns.
+    const getVisualCutElements = (assetUrl: string, duration: number, kenBurns: ResolvedKenBurns, startTime: number, fadeIn = 0.5, fadeOut = 0.3, clipVolume = 0): any[] => {
+        if (isVideoAssetUrl(assetUrl)) {
+            const loops = planClipLoops(duration, clipDurations?.[assetUrl]);
+            return loops.map((loop, k) => ({
+                type: 'video',
+                src: assetUrl,
+                resize: 'cover',
+                start: Number((startTime + loop.start).toFixed(3)),
+                duration: Number(loop.duration.toFixed(3)),
+                ...(clipVolume > 0 ? { volume: clipVolume } : { muted: true }),
+                ...(k === 0 && { 'fade-in': fadeIn }),
+                ...(k === loops.length - 1 && { 'fade-out': fadeOut })
+            }));
+        }
+
+        const elements: any[] = [
+            {
+                type: 'image',
+                src: assetUrl,
+                resize: 'contain',
+                position: 'center-center',
+                ...toJson2VideoKenBurns(kenBurns),
+                start: startTime,
+                duration: duration,
+                'fade-in': fadeIn,
+                'fade-out': fadeOut
+            }
+        ];
+
+        return elements;
+    };
+
+    // Build scenes with visual cuts for better pacing. A scene followed by a
+    // transition is held for the transition's length (see lib/sceneTransitions).
+    const transitions = resolveSceneTransitions(scenes);
+    const movieScenes: any[] = scenes.map((scene, i) => {
+        const hold = transitions[i + 1]?.duration || 0;
+        const cuts = planVisualCuts(scene, i, allAssets);
+        const visualElements: any[] = cuts.flatMap((cut, k) => {
+            const isLast = k === cuts.length - 1;
+            return getVisualCutElements(
+                cut.assetUrl,
+                cut.duration + (isLast ? hold : 0),
+                resolveCutKenBurns(scene, cut, focalPoints),
+                cut.start,
+                k === 0 && transitions[i] ? 0 : 0.5,
+                isLast && hold ? 0 : 0.3,
+                getClipVolume(scene)
+            );
+        });
+
+        return {
+            comment: `Scene ${i + 1}`,
+            duration: scene.duration + hold,
+            ...toJson2VideoTransition(transitions[i]),
+            'background-color': '#000000',
+            elements: [
+                ...visualElements,
+                // Continuous TTS narration for the scene
+                {
+                    type: 'audio',
+                    src: scene.audioUrl,
+                    volume: 1.0,
+                    start: scene.audioOffset || 0
+                }
+            ]
+        };
+    });
+
+    // Movie-level elements (audio, subtitles)
+    const elements: any[] = [];
+
+    // Sound effects on scene transitions and visual cuts
+    elements.push(...buildSfxElements(planFacelessSoundEffects(scenes, allAssets, sfxLibrary)));
+
+    // Add background music if enabled, ducked under the narration
+    const music = backgroundMusic ?? resolveBackgroundMusic(enableBgMusic, bgMusicUrl || DEFAULT_BACKGROUND_MUSIC_URL);
+    if (music) {
+        console.log(`🎵 Adding background music: ${music.url} (volume ${music.volume}, ducking ${music.ducking ? 'on' : 'off'})`);
+        const movieDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
+        elements.push(...buildMusicElements(music, getSpeechRegions(scenes), movieDuration));
+    }
+
+    // Add captions/subtitles if enabled (using exact reference format)
+    if (enableCaptions) {
+        const style = getCaptionStyle(captionStyle);
+        const captionSettings = compileJson2VideoSettings(style);
+        console.log('📝 Adding captions with style:', style.id);
+        elements.push({
+            type: 'subtitles',
+            ...getSubtitleSource(scenes),
+            settings: captionSettings
+        });
+    }
+
+    return {
+        resolution: 'custom',
+        width,
+        height,
+        fps: 30,
+        quality: 'high',
+        scenes: movieScenes,
+        elements
+    };
+}
+
+// Overlap between ducking segments so level changes don't click
+const MUSIC_CROSSFADE_SECONDS = 0.3;
+
+/**
+ * Background music as movie-level audio elements. JSON2Video has no volume
+ * automation, so ducking is rendered as back-to-back constant-volume copies
+ * of the track that crossfade into each other, each seeked to where the
+ * loop would be at that point.
+ */
+function buildMusicElements(music: BackgroundMusicSettings, regions: SpeechRegion[], movieDuration: number): Record<string, unknown>[] {
+    const segments = planMusicSegments(music, regions, movieDuration);
+    if (segments.length <= 1) {
+        return [{
+            type: 'audio',
+            src: music.url,
+            start: 0,
+            duration: -2,  // -2 means match movie duration
+            volume: music.volume,
+            loop: -1,      // -1 means loop indefinitely
+            'fade-in': 1,
+            'fade-out': 2,
+        }];
+    }
+
+    const overlap = MUSIC_CROSSFADE_SECONDS / 2;
+    return segments.map((segment, index) => {
+        const isFirst = index === 0;
+        const isLast = index === segments.length - 1;
+        const start = isFirst ? 0 : Math.max(0, segment.start - overlap);
+        const end = isLast ? segment.end : segment.end + overlap;
+        return {
+            type: 'audio',
+            src: music.url,
+            start: Number(start.toFixed(3)),
+            duration: Number((end - start).toFixed(3)),
+            seek: Number((music.trackDuration ? start % music.trackDuration : start).toFixed(3)),
+            volume: Number(segment.volume.toFixed(4)),
+            loop: -1,
+            'fade-in': isFirst ? 1 : MUSIC_CROSSFADE_SECONDS,
+            'fade-out': isLast ? 2 : MUSIC_CROSSFADE_SECONDS,
+        };
+    });
+}
+
+/**
+ * Subtitle source for a scene list: inline SRT built from the aligned word
+ * timings when every narrated scene has them, so JSON2Video shows the same
+ * words and timing as the Remotion renders; otherwise JSON2Video transcribes.
+ */
+function getSubtitleSource(scenes: { text: string; duration: number; wordTimings?: WordTiming[] }[]): Record<string, unknown> {
+    const aligned = scenes.every(scene => !scene.text.trim() || (scene.wordTimings && scene.wordTimings.length > 0));
+    if (!aligned) {
+        return { language: 'auto' };
+    }
+    return { captions: generateSRT(concatSceneTimings(scenes)) };
+}
+
+/**
+ * Generate SRT subtitle content from word timings
+ */
+export function generateSRT(wordTimings: CaptionWord[], wordsPerPhrase: number = 4): string {
+    return generateSrt(wordTimings, wordsPerPhrase);
 }
 
 /**
@@ -0,0 +1,67 @@
+/**
+ * Ken Burns motion on asset images (client-safe)
+ *
+ * Each asset scene can pick an effect in the storyboard. Without a pick the
+ * renderers rotate through the effects as before. 'auto' pushes in towards
+ * the image's focal point (the face or main subject, see lib/focalPoint.ts)
+ * and crops around it, so the subject stays in frame in 9:16.
+ */
+
+export type KenBurnsEffect = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down' | 'zoom-pan';
+
+export type KenBurnsChoice = KenBurnsEffect | 'auto';
+
+export const KEN_BURNS_EFFECTS: Record<KenBurnsEffect, { label: string }> = {
+    'zoom-in': { label: 'Zoom in' },
+    'zoom-out': { label: 'Zoom out' },
+    'pan-left': { label: 'Pan left' },
+    'pan-right': { label: 'Pan right' },
+    'pan-up': { label: 'Pan up' },
+    'pan-down': { label: 'Pan down' },
+    'zoom-pan': { label: 'Zoom and pan' }
+};
+
+export const KEN_BURNS_CHOICES: KenBurnsChoice[] = ['auto', ...(Object.keys(KEN_BURNS_EFFECTS) as KenBurnsEffect[])];
+
+// Subject position in the image, 0-1 from the top-left corner
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+export interface SceneKenBurnsSettings {
+    // Omitted = rotate through the effects by scene
+    kenBurns?: KenBurnsChoice;
+}
+
+export interface ResolvedKenBurns {
+    effect: KenBurnsEffect;
+    // Set for 'auto'
+    focalPoint?: FocalPoint;
+}
+
+export function validateSceneKenBurns(scene: SceneKenBurnsSettings): string | null {
+    if (scene.kenBurns !== undefined && !KEN_BURNS_CHOICES.includes(scene.kenBurns)) {
+        return `kenBurns must be one of: ${KEN_BURNS_CHOICES.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * The picked motion for one image, or null to keep the renderer's rotation.
+ * 'auto' zooms in towards the focal point; an image without one (detection
+ * failed) keeps the rotation too.
+ */
+export function resolveKenBurns(choice: KenBurnsChoice | undefined, focalPoint?: FocalPoint | null): ResolvedKenBurns | null {
+    if (choice === 'auto') {
+        return focalPoint ? { effect: 'zoom-in', focalPoint } : null;
+    }
+    return choice ? { effect: choice } : null;
+}
+
+export function isValidFocalPoint(value: unknown): value is FocalPoint {
+    const point = value as FocalPoint;
+    return !!point
+        && typeof point.x === 'number' && point.x >= 0 && point.x <= 1
+        && typeof point.y === 'number' && point.y >= 0 && point.y <= 1;
+}
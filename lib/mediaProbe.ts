@@ -0,0 +1,42 @@
+/**
+ * Media length probing (server-only, uses ffprobe)
+ *
+ * Reads the duration of remote clips without downloading them first.
+ * Probing is best effort: a clip that can't be probed gets no entry and
+ * plays once from the start (see planClipLoops in lib/clipAssets.ts).
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 30000;
+
+export async function probeMediaDuration(source: string): Promise<number | null> {
+    try {
+        const { stdout } = await execFileAsync(
+            'ffprobe',
+            ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', source],
+            { timeout: PROBE_TIMEOUT_MS }
+        );
+        const duration = parseFloat(stdout.trim());
+        return Number.isFinite(duration) && duration > 0 ? duration : null;
+    } catch (error: unknown) {
+        console.warn(`[MediaProbe] Could not probe ${source.slice(0, 80)}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Durations of a set of clips, keyed by URL (clips that fail are left out)
+ */
+export async function probeClipDurations(urls: string[]): Promise<Record<string, number>> {
+    const durations: Record<string, number> = {};
+    for (const url of Array.from(new Set(urls))) {
+        const duration = await probeMediaDuration(url);
+        if (duration) durations[url] = Number(duration.toFixed(3));
+    }
+    console.log(`🎞️ [MediaProbe] Probed ${Object.keys(durations).length} clips`);
+    return durations;
+}
@@ -0,0 +1,132 @@
+/**
+ * Background music library (see music_library_migration.sql)
+ *
+ * Server-only. The built-in catalogue (user_id NULL) plus each user's
+ * uploads, tagged by mood, genre and BPM. Uploaded files live in the
+ * 'videos' bucket under music/<user_id>/ and are removed with the track.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import type { MusicTrack } from '@/lib/backgroundMusic';
+
+const MUSIC_BUCKET = 'videos';
+
+export const MUSIC_TITLE_MAX = 80;
+export const MUSIC_TAGS_MAX = 8;
+export const MUSIC_TAG_MAX_LENGTH = 24;
+
+/**
+ * Normalise mood/genre tags (trimmed, lowercase, unique). Returns null if invalid.
+ */
+export function normalizeMusicTags(tags: unknown): string[] | null {
+    if (!Array.isArray(tags) || tags.some(t => typeof t !== 'string')) return null;
+    const normalized = Array.from(new Set((tags as string[]).map(t => t.trim().toLowerCase()).filter(Boolean)));
+    if (normalized.length > MUSIC_TAGS_MAX || normalized.some(t => t.length > MUSIC_TAG_MAX_LENGTH)) return null;
+    return normalized;
+}
+
+/**
+ * Catalogue tracks and the user's uploads, optionally filtered by tag
+ */
+export async function listMusicTracks(
+    userId: string,
+    filters: { mood?: string; genre?: string } = {}
+): Promise<MusicTrack[]> {
+    let query = getSupabaseAdmin()
+        .from('music_tracks')
+        .select('*')
+        .or(`user_id.is.null,user_id.eq.${userId}`);
+
+    if (filters.mood) query = query.contains('moods', [filters.mood.toLowerCase()]);
+    if (filters.genre) query = query.contains('genres', [filters.genre.toLowerCase()]);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+    if (error) {
+        console.error('[MusicLibrary] Failed to list tracks:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * A catalogue track or one of the user's uploads (null for other users' tracks)
+ */
+export async function getMusicTrack(userId: string, trackId: string): Promise<MusicTrack | null> {
+    const { data } = await getSupabaseAdmin()
+        .from('music_tracks')
+        .select('*')
+        .eq('id', trackId)
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .maybeSingle();
+    return data;
+}
+
+export async function uploadMusicTrack(
+    userId: string,
+    file: { buffer: Buffer; fileName: string; contentType: string },
+    details: { title: string; artist?: string; duration?: number; bpm?: number; moods: string[]; genres: string[] }
+): Promise<MusicTrack | null> {
+    const supabase = getSupabaseAdmin();
+    const ext = file.fileName.split('.').pop()?.toLowerCase() || 'mp3';
+    const path = `music/${userId}/${uuidv4()}.${ext}`;
+
+    const { error: uploadError } = await supabase.storage
+        .from(MUSIC_BUCKET)
+        .upload(path, file.buffer, { contentType: file.contentType, upsert: false });
+    if (uploadError) {
+        throw new Error(`Failed to upload music: ${uploadError.message}`);
+    }
+    const url = supabase.storage.from(MUSIC_BUCKET).getPublicUrl(path).data.publicUrl;
+
+    const { data, error } = await supabase
+        .from('music_tracks')
+        .insert({
+            user_id: userId,
+            title: details.title,
+            artist: details.artist || null,
+            url,
+            duration: details.duration ?? null,
+            bpm: details.bpm ?? null,
+            moods: details.moods,
+            genres: details.genres
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[MusicLibrary] Failed to save track:', error);
+        await supabase.storage.from(MUSIC_BUCKET).remove([path]);
+        return null;
+    }
+    console.log(`🎵 [MusicLibrary] Uploaded track ${data.id} (${details.title})`);
+    return data;
+}
+
+/**
+ * Delete one of the user's uploads and its file. Catalogue tracks can't be deleted.
+ */
+export async function deleteMusicTrack(userId: string, trackId: string): Promise<boolean> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('music_tracks')
+        .delete()
+        .eq('id', trackId)
+        .eq('user_id', userId)
+        .select('url');
+
+    if (error || !data || data.length === 0) {
+        if (error) console.error('[MusicLibrary] Failed to delete track:', error);
+        return false;
+    }
+
+    const marker = `/storage/v1/object/public/${MUSIC_BUCKET}/`;
+    const index = data[0].url.indexOf(marker);
+    if (index >= 0) {
+        const { error: removeError } = await supabase.storage
+            .from(MUSIC_BUCKET)
+            .remove([decodeURIComponent(data[0].url.slice(index + marker.length))]);
+        if (removeError) console.error('[MusicLibrary] Failed to remove music file:', removeError);
+    }
+    return true;
+}
@@ -0,0 +1,275 @@
+/**
+ * DodoPayments event processing (see payment_events_migration.sql)
+ *
+ * Server-only. Verified webhook deliveries are stored raw in payment_events
+ * and processed once. Purchases are credited through the ledger with a
+ * per-payment idempotency key, so the webhook, /api/verify-payment and
+ * admin replays can never credit the same payment twice.
+ */
+
+import DodoPayments from 'dodopayments';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { addCredits } from '@/lib/creditLedger';
+import { getPackageForProduct } from '@/lib/dodo';
+
+export type PaymentEventStatus = 'received' | 'processing' | 'processed' | 'ignored' | 'failed';
+
+// An event still 'processing' this long after it was claimed was left behind
+// by a crashed attempt, and can be replayed
+export const STALE_PROCESSING_MINUTES = 10;
+
+export interface DbPaymentEvent {
+    id: string;
+    webhook_id: string;
+    event_type: string;
+    payment_id: string | null;
+    payload: DodoPayments.UnwrapWebhookEvent;
+    status: PaymentEventStatus;
+    attempts: number;
+    error: string | null;
+    processing_started_at: string | null;
+    processed_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PaymentFulfillment {
+    success: boolean;
+    duplicate?: boolean;
+    balance?: number;
+    credits?: number;
+    packageId?: string;
+    error?: string;
+}
+
+/**
+ * Ledger idempotency key for a Dodo payment
+ */
+export function paymentIdempotencyKey(paymentId: string): string {
+    return `dodo_payment:${paymentId}`;
+}
+
+/**
+ * Work out the credits a payment buys from its product cart.
+ * Amounts come from CREDIT_PACKAGES, never from payment metadata.
+ */
+export function resolvePaymentCredits(payment: DodoPayments.Payment): { credits: number; packageId: string } | null {
+    let credits = 0;
+    const packageIds: string[] = [];
+
+    for (const item of payment.product_cart || []) {
+        const pkg = getPackageForProduct(item.product_id);
+        if (!pkg) {
+            console.warn(`[PaymentEvents] Unknown product ${item.product_id} on payment ${payment.payment_id}`);
+            continue;
+        }
+        credits += (pkg.credits + pkg.bonus) * Math.max(1, item.quantity || 1);
+        packageIds.push(pkg.id);
+    }
+
+    if (credits === 0) return null;
+    return { credits, packageId: packageIds.join(',') };
+}
+
+/**
+ * Credit a succeeded payment to a user. Safe to call any number of times.
+ */
+export async function fulfillPayment(
+    payment: DodoPayments.Payment,
+    userId: string,
+    source: 'webhook' | 'verify' | 'replay'
+): Promise<PaymentFulfillment> {
+    if (payment.status !== 'succeeded') {
+        return { success: false, error: `Payment status is ${payment.status || 'unknown'}` };
+    }
+
+    const resolved = resolvePaymentCredits(payment);
+    if (!resolved) {
+        return { success: false, error: 'No credit package matches this payment' };
+    }
+
+    const { credits, packageId } = resolved;
+    const result = await addCredits(
+        userId,
+        credits,
+        'purchase',
+        `Purchased ${packageId} package`,
+        {
+            package_id: packageId,
+            payment_id: payment.payment_id,
+            source
+        },
+        paymentIdempotencyKey(payment.payment_id)
+    );
+
+    if (!result.success) {
+        return { success: false, error: 'Failed to add credits' };
+    }
+
+    if (result.duplicate) {
+        console.log(`[PaymentEvents] Payment ${payment.payment_id} already credited`);
+    } else {
+        console.log(`[PaymentEvents] ✅ Added ${credits} credits to user ${userId} for ${packageId} (${source}). New balance: ${result.balance}`);
+    }
+
+    return { success: true, duplicate: result.duplicate, balance: result.balance, credits, packageId };
+}
+
+/**
+ * Store a verified webhook delivery. Redeliveries of the same webhook-id
+ * return the row stored the first time.
+ */
+export async function recordPaymentEvent(
+    webhookId: string,
+    event: DodoPayments.UnwrapWebhookEvent
+): Promise<DbPaymentEvent | null> {
+    const supabase = getSupabaseAdmin();
+    const paymentId = event.type.startsWith('payment.')
+        ? (event.data as DodoPayments.Payment).payment_id
+        : null;
+
+    const { error: insertError } = await supabase
+        .from('payment_events')
+        .upsert({
+            webhook_id: webhookId,
+            event_type: event.type,
+            payment_id: paymentId,
+            payload: event
+        }, { onConflict: 'webhook_id', ignoreDuplicates: true });
+
+    if (insertError) {
+        console.error('[PaymentEvents] Failed to store event:', insertError);
+        return null;
+    }
+
+    const { data, error } = await supabase
+        .from('payment_events')
+        .select('*')
+        .eq('webhook_id', webhookId)
+        .single();
+
+    if (error || !data) {
+        console.error('[PaymentEvents] Failed to load stored event:', error);
+        return null;
+    }
+    return data as DbPaymentEvent;
+}
+
+async function handlePaymentEvent(event: DodoPayments.UnwrapWebhookEvent, source: 'webhook' | 'replay'): Promise<PaymentEventStatus> {
+    if (event.type !== 'payment.succeeded') {
+        console.log('[PaymentEvents] Ignoring event type:', event.type);
+        return 'ignored';
+    }
+
+    const payment = event.data;
+    // user_id is set server-side by /api/checkout
+    const userId = payment.metadata?.user_id;
+    if (!userId) {
+        throw new Error(`Payment ${payment.payment_id} has no user_id metadata`);
+    }
+
+    const result = await fulfillPayment(payment, userId, source);
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to fulfill payment');
+    }
+    return 'processed';
+}
+
+function staleProcessingCutoff(): Date {
+    return new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000);
+}
+
+function isStaleProcessing(event: DbPaymentEvent): boolean {
+    return event.status === 'processing'
+        && !!event.processing_started_at
+        && new Date(event.processing_started_at) < staleProcessingCutoff();
+}
+
+/**
+ * Events an admin replay picks up, oldest first: failed events and events
+ * stuck in 'processing' past the stale cutoff.
+ */
+export async function listReplayablePaymentEvents(limit: number): Promise<string[]> {
+    const { data, error } = await getSupabaseAdmin()
+        .from('payment_events')
+        .select('id')
+        .or(`status.eq.failed,and(status.eq.processing,processing_started_at.lt.${staleProcessingCutoff().toISOString()})`)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(row => row.id);
+}
+
+/**
+ * Process a stored event. Only received, failed or stale processing events
+ * are picked up, and the claim is conditional on the status (and claim time)
+ * that was read, so concurrent deliveries and replays cannot process the
+ * same event at the same time.
+ */
+export async function processPaymentEvent(
+    eventId: string,
+    source: 'webhook' | 'replay' = 'webhook'
+): Promise<{ status: PaymentEventStatus; skipped?: boolean; error?: string }> {
+    const supabase = getSupabaseAdmin();
+
+    const { data: current, error: loadError } = await supabase
+        .from('payment_events')
+        .select('*')
+        .eq('id', eventId)
+        .single();
+
+    if (loadError || !current) {
+        throw new Error(`Payment event ${eventId} not found`);
+    }
+
+    const event = current as DbPaymentEvent;
+    if (event.status !== 'received' && event.status !== 'failed' && !isStaleProcessing(event)) {
+        return { status: event.status, skipped: true };
+    }
+
+    let claim = supabase
+        .from('payment_events')
+        .update({
+            status: 'processing',
+            attempts: event.attempts + 1,
+            processing_started_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+        })
+        .eq('id', eventId)
+        .eq('status', event.status);
+    if (event.status === 'processing') {
+        claim = claim.eq('processing_started_at', event.processing_started_at as string);
+    }
+    const { data: claimed } = await claim.select('id');
+
+    if (!claimed || claimed.length === 0) {
+        return { status: 'processing', skipped: true };
+    }
+
+    try {
+        const status = await handlePaymentEvent(event.payload, source);
+        await supabase
+            .from('payment_events')
+            .update({
+                status,
+                error: null,
+                processed_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', eventId);
+        return { status };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[PaymentEvents] ❌ Event ${eventId} failed:`, message);
+        await supabase
+            .from('payment_events')
+            .update({
+                status: 'failed',
+                error: message,
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', eventId);
+        return { status: 'failed', error: message };
+    }
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory provider_tasks and video_jobs tables with the query chains this module uses
+type Row = Record<string, any>;
+const tables: Record<string, Row[]> = { provider_tasks: [], video_jobs: [] };
+
+function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let changes: Row | null = null;
+    const builder = {
+        select: () => builder,
+        update: (values: Row) => {
+            changes = values;
+            return builder;
+        },
+        eq: (column: string, value: unknown) => {
+            filters.push(row => row[column] === value);
+            return builder;
+        },
+        maybeSingle: async () => {
+            const row = tables[table].find(r => filters.every(filter => filter(r)));
+            if (row && changes) Object.assign(row, changes);
+            return { data: row ? { ...row } : null, error: null };
+        }
+    };
+    return builder;
+}
+
+vi.mock('@/lib/supabase-admin', () => ({
+    getSupabaseAdmin: () => ({ from: (table: string) => query(table) })
+}));
+
+vi.mock('@/lib/jobs/queue', () => ({
+    enqueueJob: vi.fn(async () => undefined)
+}));
+
+import { enqueueJob } from '@/lib/jobs/queue';
+import { applyProviderWebhook, settleProviderTask, verifyProviderWebhook } from './providerTasks';
+
+const SECRET = 'test-webhook-secret';
+const JOB_ID = '2b1f4c3e-8a9d-4e6f-9b0a-1c2d3e4f5a6b';
+
+const sign = (provider: string, jobId: string) =>
+    crypto.createHmac('sha256', SECRET).update(`${provider}:${jobId}`).digest('hex');
+
+beforeEach(() => {
+    vi.stubEnv('PROVIDER_WEBHOOK_SECRET', SECRET);
+    tables.provider_tasks = [{ provider: 'wavespeed', external_id: 'pred-1', job_id: JOB_ID, kind: 'scene', status: 'pending' }];
+    tables.video_jobs = [{ id: JOB_ID, status: 'processing', job_type: 'face', input_data: {} }];
+    vi.mocked(enqueueJob).mockClear();
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('verifyProviderWebhook', () => {
+    it('accepts the signature of the provider and job', () => {
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, sign('wavespeed', JOB_ID))).toBe(true);
+    });
+
+    it('rejects a tampered signature', () => {
+        const signature = sign('wavespeed', JOB_ID);
+        const tampered = (signature[0] === 'a' ? 'b' : 'a') + signature.slice(1);
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, tampered)).toBe(false);
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, signature.slice(0, -2))).toBe(false);
+    });
+
+    it('rejects a signature for another job or provider', () => {
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, sign('wavespeed', crypto.randomUUID()))).toBe(false);
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, sign('json2video', JOB_ID))).toBe(false);
+    });
+
+    it('rejects a missing signature', () => {
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, null)).toBe(false);
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, '')).toBe(false);
+    });
+
+    it('rejects everything without a secret', () => {
+        vi.stubEnv('PROVIDER_WEBHOOK_SECRET', '');
+        expect(verifyProviderWebhook('wavespeed', JOB_ID, sign('wavespeed', JOB_ID))).toBe(false);
+    });
+});
+
+describe('settleProviderTask', () => {
+    it('settles a pending task once', async () => {
+        const first = await settleProviderTask('wavespeed', 'pred-1', 'completed', { outputUrl: 'https://example.com/clip.mp4' });
+        expect(first).toMatchObject({ status: 'completed', output_url: 'https://example.com/clip.mp4' });
+
+        expect(await settleProviderTask('wavespeed', 'pred-1', 'failed', { error: 'late failure' })).toBeNull();
+        expect(tables.provider_tasks[0]).toMatchObject({ status: 'completed', output_url: 'https://example.com/clip.mp4', error: null });
+    });
+
+    it('returns null for an unknown task', async () => {
+        expect(await settleProviderTask('wavespeed', 'pred-missing', 'completed')).toBeNull();
+    });
+});
+
+describe('applyProviderWebhook', () => {
+    const outcome = { status: 'completed' as const, outputUrl: 'https://example.com/clip.mp4' };
+
+    it('settles the task, runs the callback and wakes the job once', async () => {
+        const onSettled = vi.fn(async () => undefined);
+        const signature = sign('wavespeed', JOB_ID);
+
+        const first = await applyProviderWebhook('wavespeed', 'pred-1', signature, outcome, { id: 'pred-1' }, onSettled);
+        expect(first.status).toBe('settled');
+
+        const redelivery = await applyProviderWebhook('wavespeed', 'pred-1', signature, outcome, { id: 'pred-1' }, onSettled);
+        expect(redelivery.status).toBe('duplicate');
+        expect(onSettled).toHaveBeenCalledTimes(1);
+        expect(enqueueJob).toHaveBeenCalledTimes(1);
+        expect(enqueueJob).toHaveBeenCalledWith(JOB_ID, 'face');
+    });
+
+    it('leaves the task pending for a tampered or missing signature', async () => {
+        const tampered = await applyProviderWebhook('wavespeed', 'pred-1', sign('wavespeed', crypto.randomUUID()), outcome, {});
+        const missing = await applyProviderWebhook('wavespeed', 'pred-1', null, outcome, {});
+
+        expect([tampered.status, missing.status]).toEqual(['invalid_signature', 'invalid_signature']);
+        expect(tables.provider_tasks[0].status).toBe('pending');
+        expect(enqueueJob).not.toHaveBeenCalled();
+    });
+
+    it('ignores callbacks for unknown tasks', async () => {
+        expect((await applyProviderWebhook('wavespeed', 'pred-missing', sign('wavespeed', JOB_ID), outcome, {})).status).toBe('not_found');
+    });
+});
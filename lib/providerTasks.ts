@@ -0,0 +1,270 @@
+/**
+ * Provider task index (see provider_tasks_migration.sql)
+ *
+ * Server-only. Every render, WaveSpeed prediction or scene TTS call a job starts is recorded
+ * with the provider's ID, so webhooks can find the job without searching
+ * input_data. A task moves from pending to completed, failed or cancelled
+ * exactly once, whichever of the webhook, a worker's poll or a cancel gets
+ * there first. Pending tasks that are too old are stuck provider calls.
+ *
+ * Webhook URLs carry an HMAC of the provider and job ID (keyed with
+ * PROVIDER_WEBHOOK_SECRET), since neither provider signs its callbacks.
+ * Without the secret no webhooks are registered and jobs rely on polling.
+ */
+
+import crypto from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { enqueueJob, type QueueJobType } from '@/lib/jobs/queue';
+import type { RenderBackendName } from '@/lib/render/types';
+
+export type ProviderName = RenderBackendName | 'wavespeed' | 'tts';
+
+export type ProviderTaskStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export interface DbProviderTask {
+    id: string;
+    provider: ProviderName;
+    external_id: string;
+    job_id: string;
+    // 'render' for the final video, 'scene' for a face clip or scene narration
+    kind: 'render' | 'scene';
+    scene_index: number | null;
+    status: ProviderTaskStatus;
+    output_url: string | null;
+    error: string | null;
+    // Last webhook body, kept for debugging
+    webhook_payload: Record<string, unknown> | null;
+    started_at: string;
+    settled_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface StuckProviderTask extends DbProviderTask {
+    video_jobs: { status: string; job_type: string | null; user_id: string } | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Providers that call back when a task finishes (when webhooks are configured)
+const WEBHOOK_PROVIDERS: ProviderName[] = ['json2video', 'wavespeed'];
+
+// Polling is only a fallback while a webhook is expected
+const WEBHOOK_FALLBACK_POLL_SECONDS = 30;
+
+/**
+ * Record a provider call a job just started. Failures are logged, not
+ * thrown: the job keeps the ID itself and can always poll.
+ */
+export async function recordProviderTask(task: {
+    provider: ProviderName;
+    externalId: string;
+    jobId: string;
+    kind: 'render' | 'scene';
+    sceneIndex?: number;
+}): Promise<void> {
+    // Renders without a job row (e.g. typography previews) have nothing to correlate
+    if (!UUID_PATTERN.test(task.jobId)) return;
+
+    const { error } = await getSupabaseAdmin()
+        .from('provider_tasks')
+        .upsert({
+            provider: task.provider,
+            external_id: task.externalId,
+            job_id: task.jobId,
+            kind: task.kind,
+            scene_index: task.sceneIndex ?? null
+        }, { onConflict: 'provider,external_id', ignoreDuplicates: true });
+
+    if (error) {
+        console.error(`❌ [ProviderTasks] Failed to record ${task.provider} task ${task.externalId}:`, error);
+    }
+}
+
+export async function findProviderTask(provider: ProviderName, externalId: string): Promise<DbProviderTask | null> {
+    const { data, error } = await getSupabaseAdmin()
+        .from('provider_tasks')
+        .select('*')
+        .eq('provider', provider)
+        .eq('external_id', externalId)
+        .maybeSingle();
+
+    if (error) {
+        console.error(`❌ [ProviderTasks] Failed to look up ${provider} task ${externalId}:`, error);
+        return null;
+    }
+    return data as DbProviderTask | null;
+}
+
+/**
+ * Move a pending task to its final state. Returns the settled task, or
+ * null when it was already settled (or is unknown), so callers act once.
+ */
+export async function settleProviderTask(
+    provider: ProviderName,
+    externalId: string,
+    status: Exclude<ProviderTaskStatus, 'pending'>,
+    details: { outputUrl?: string; error?: string; webhookPayload?: Record<string, unknown> } = {}
+): Promise<DbProviderTask | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await getSupabaseAdmin()
+        .from('provider_tasks')
+        .update({
+            status,
+            output_url: details.outputUrl ?? null,
+            error: details.error ?? null,
+            ...(details.webhookPayload ? { webhook_payload: details.webhookPayload } : {}),
+            settled_at: now,
+            updated_at: now
+        })
+        .eq('provider', provider)
+        .eq('external_id', externalId)
+        .eq('status', 'pending')
+        .select('*')
+        .maybeSingle();
+
+    if (error) {
+        console.error(`❌ [ProviderTasks] Failed to settle ${provider} task ${externalId} as ${status}:`, error);
+        return null;
+    }
+    if (data) {
+        console.log(`📌 [ProviderTasks] ${provider} task ${externalId} ${status}`);
+    }
+    return data as DbProviderTask | null;
+}
+
+// Mark every pending task of a cancelled job
+export async function cancelProviderTasks(jobId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await getSupabaseAdmin()
+        .from('provider_tasks')
+        .update({ status: 'cancelled', settled_at: now, updated_at: now })
+        .eq('job_id', jobId)
+        .eq('status', 'pending');
+
+    if (error) {
+        console.error(`❌ [ProviderTasks] Failed to cancel tasks of job ${jobId}:`, error);
+    }
+}
+
+/**
+ * Pending tasks started more than `olderThanMinutes` ago, oldest first,
+ * with their job's status
+ */
+export async function getStuckProviderTasks(options: {
+    olderThanMinutes: number;
+    provider?: ProviderName;
+    limit?: number;
+}): Promise<StuckProviderTask[]> {
+    const cutoff = new Date(Date.now() - options.olderThanMinutes * 60000).toISOString();
+    let query = getSupabaseAdmin()
+        .from('provider_tasks')
+        .select('*, video_jobs(status, job_type, user_id)')
+        .eq('status', 'pending')
+        .lt('started_at', cutoff)
+        .order('started_at', { ascending: true })
+        .limit(options.limit ?? 100);
+
+    if (options.provider) {
+        query = query.eq('provider', options.provider);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load stuck provider tasks: ${error.message}`);
+    return (data || []) as StuckProviderTask[];
+}
+
+// ============================================
+// Webhook signatures
+// ============================================
+
+function signWebhook(provider: ProviderName, jobId: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(`${provider}:${jobId}`).digest('hex');
+}
+
+/**
+ * Callback URL to register with a provider for one job, or null when
+ * webhooks are not configured
+ */
+export function providerWebhookUrl(provider: ProviderName, jobId: string): string | null {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+    const secret = process.env.PROVIDER_WEBHOOK_SECRET;
+    if (!appUrl || !secret || !UUID_PATTERN.test(jobId)) return null;
+
+    return `${appUrl}/api/webhooks/${provider}?sig=${signWebhook(provider, jobId, secret)}`;
+}
+
+/**
+ * Delay before a worker polls a provider task again: the given delay, or a
+ * longer fallback when the provider's webhook will report the result
+ */
+export function providerPollDelaySeconds(provider: ProviderName, delaySeconds: number): number {
+    const hasWebhook = WEBHOOK_PROVIDERS.includes(provider)
+        && !!process.env.NEXT_PUBLIC_APP_URL
+        && !!process.env.PROVIDER_WEBHOOK_SECRET;
+    return hasWebhook ? Math.max(delaySeconds, WEBHOOK_FALLBACK_POLL_SECONDS) : delaySeconds;
+}
+
+/**
+ * Check a webhook's signature against the job its task belongs to
+ */
+export function verifyProviderWebhook(provider: ProviderName, jobId: string, signature: string | null): boolean {
+    const secret = process.env.PROVIDER_WEBHOOK_SECRET;
+    if (!secret || !signature) return false;
+
+    const expected = Buffer.from(signWebhook(provider, jobId, secret), 'hex');
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+// ============================================
+// Webhook deliveries
+// ============================================
+
+export type ProviderWebhookResult =
+    | { status: 'settled'; task: DbProviderTask }
+    | { status: 'duplicate' | 'not_found' | 'invalid_signature' };
+
+/**
+ * Apply a provider callback: find the task by the provider's ID, check the
+ * signature against its job, settle it once, run `onSettled` and wake the
+ * job (if still running) so a worker picks up the result without waiting
+ * for its next poll. Redeliveries of a settled task change nothing.
+ */
+export async function applyProviderWebhook(
+    provider: ProviderName,
+    externalId: string,
+    signature: string | null,
+    outcome: { status: 'completed' | 'failed'; outputUrl?: string; error?: string },
+    payload: Record<string, unknown>,
+    onSettled?: (task: DbProviderTask) => Promise<void>
+): Promise<ProviderWebhookResult> {
+    const task = await findProviderTask(provider, externalId);
+    if (!task) return { status: 'not_found' };
+
+    if (!verifyProviderWebhook(provider, task.job_id, signature)) {
+        return { status: 'invalid_signature' };
+    }
+
+    const settled = await settleProviderTask(provider, externalId, outcome.status, {
+        outputUrl: outcome.outputUrl,
+        error: outcome.error,
+        webhookPayload: payload
+    });
+    if (!settled) return { status: 'duplicate' };
+
+    if (onSettled) await onSettled(settled);
+
+    const { data: job } = await getSupabaseAdmin()
+        .from('video_jobs')
+        .select('status, job_type, input_data')
+        .eq('id', task.job_id)
+        .maybeSingle();
+
+    if (job && (job.status === 'pending' || job.status === 'processing')) {
+        const jobType: QueueJobType = job.job_type || (job.input_data?.faceImageUrl ? 'face' : 'faceless');
+        await enqueueJob(task.job_id, jobType);
+    }
+
+    return { status: 'settled', task: settled };
+}
@@ -0,0 +1,221 @@
+// Map render specs onto the Remotion compositions registered in remotion/Root.tsx.
+// Shared by the Lambda and local Remotion backends.
+
+import { planVisualCuts, planFacelessSoundEffects, planFaceSoundEffects, resolveCutKenBurns } from '@/lib/json2video';
+import type { VideoCompositionProps, SceneData, SoundEffectCue } from '@/remotion/compositions/VideoComposition';
+import type { CaptionWord } from '@/remotion/compositions/Captions';
+import { concatSceneTimings, toFrameTimings, type WordTiming } from '@/lib/wordTimings';
+import { DEFAULT_CAPTION_STYLE } from '@/lib/captionStyles';
+import { buildMusicKeyframes, getSpeechRegions } from '@/lib/backgroundMusic';
+import type { SfxCue } from '@/lib/soundEffects';
+import { resolveSceneTransitions, type ResolvedTransition } from '@/lib/sceneTransitions';
+import type { TransitionTiming } from '@/remotion/compositions/SceneTransition';
+import { resolveKenBurns } from '@/lib/kenBurns';
+import { getClipVolume, isVideoAssetUrl, planClipLoops } from '@/lib/clipAssets';
+import type { ClipPlayback } from '@/remotion/compositions/ClipScene';
+import type { RenderSpec } from './types';
+
+const VIDEO_FPS = 30;
+
+const DIMENSIONS: Record<string, { width: number; height: number }> = {
+    '9:16': { width: 1080, height: 1920 },
+    '16:9': { width: 1920, height: 1080 },
+    '1:1': { width: 1080, height: 1080 }
+};
+
+export interface RemotionCompositionInput {
+    compositionId: string;
+    inputProps: Record<string, unknown>;
+    // Output file name offered to the browser
+    fileName: string;
+}
+
+function toFrames(seconds: number): number {
+    return Math.max(1, Math.round(seconds * VIDEO_FPS));
+}
+
+// Caption words on the video timeline, from each scene's aligned timings
+// (syllable estimates for scenes without them)
+function buildCaptionWords(scenes: { text: string; duration: number; wordTimings?: WordTiming[] }[]): CaptionWord[] {
+    return toFrameTimings(concatSceneTimings(scenes), VIDEO_FPS).map(timing => ({
+        word: timing.text,
+        startFrame: timing.startFrame,
+        endFrame: timing.endFrame
+    }));
+}
+
+// Music URL and its ducking/fade envelope, shared by both video kinds
+function buildMusicProps(spec: Extract<RenderSpec, { kind: 'faceless' | 'face' }>): Pick<VideoCompositionProps, 'backgroundMusicUrl' | 'backgroundMusicKeyframes'> {
+    if (!spec.backgroundMusic) return {};
+    return {
+        backgroundMusicUrl: spec.backgroundMusic.url,
+        backgroundMusicKeyframes: buildMusicKeyframes(
+            spec.backgroundMusic,
+            getSpeechRegions(spec.scenes),
+            getSpecDurationSeconds(spec)
+        )
+    };
+}
+
+function toSoundEffectCues(cues: SfxCue[]): SoundEffectCue[] {
+    return cues.map(cue => ({
+        src: cue.url,
+        fromFrame: Math.round(cue.time * VIDEO_FPS),
+        durationInFrames: cue.duration ? Math.max(1, Math.round(cue.duration * VIDEO_FPS)) : undefined,
+        volume: cue.volume
+    }));
+}
+
+function toTransitionTiming(transition: ResolvedTransition | null): TransitionTiming | undefined {
+    if (!transition) return undefined;
+    return { type: transition.type, durationInFrames: toFrames(transition.duration) };
+}
+
+// Clip passes over a cut, in frames (same loops as the JSON2Video video elements)
+function buildClipPlayback(clipDuration: number | undefined, cutFrames: number, volume: number): ClipPlayback {
+    const loops = planClipLoops(cutFrames / VIDEO_FPS, clipDuration).map(loop => ({
+        fromFrame: Math.round(loop.start * VIDEO_FPS),
+        durationInFrames: Math.max(1, Math.round(loop.duration * VIDEO_FPS))
+    }));
+    // The last pass runs to the end of the cut despite rounding
+    const last = loops[loops.length - 1];
+    last.durationInFrames = Math.max(1, cutFrames - last.fromFrame);
+    return { loops, volume };
+}
+
+function buildFacelessProps(spec: Extract<RenderSpec, { kind: 'faceless' }>): VideoCompositionProps {
+    const transitions = resolveSceneTransitions(spec.scenes);
+    const scenes: SceneData[] = spec.scenes.map((scene, i) => {
+        const durationInFrames = toFrames(scene.duration);
+        const plannedCuts = planVisualCuts(scene, i, spec.allAssets);
+        // The last cut is held under the next scene's transition
+        const holdFrames = toTransitionTiming(transitions[i + 1])?.durationInFrames || 0;
+
+        // Whole frames per cut; the last cut absorbs rounding
+        let remaining = durationInFrames;
+        const cuts = plannedCuts.map((cut, k) => {
+            const frames = k === plannedCuts.length - 1
+                ? remaining
+                : Math.min(remaining, Math.round(cut.duration * VIDEO_FPS));
+            remaining -= frames;
+            // Same effect as the JSON2Video cut (pan rotation unless the scene picks one)
+            const kenBurns = resolveCutKenBurns(scene, cut, spec.focalPoints);
+            const clipFrames = frames + (k === plannedCuts.length - 1 ? holdFrames : 0);
+            return {
+                imageUrl: cut.assetUrl,
+                durationInFrames: frames,
+                effectType: kenBurns.effect,
+                focalPoint: kenBurns.focalPoint,
+                clip: isVideoAssetUrl(cut.assetUrl)
+                    ? buildClipPlayback(spec.clipDurations?.[cut.assetUrl], clipFrames, getClipVolume(scene))
+                    : undefined
+            };
+        }).filter(cut => cut.durationInFrames > 0);
+
+        return {
+            type: 'asset',
+            cuts,
+            audioUrl: scene.audioUrl,
+            audioStartFrame: scene.audioOffset ? Math.round(scene.audioOffset * VIDEO_FPS) : undefined,
+            audioPlaybackRate: scene.playbackRate,
+            durationInFrames,
+            text: scene.text,
+            transitionIn: toTransitionTiming(transitions[i])
+        };
+    });
+
+    const { width, height } = getVideoDimensions(spec);
+
+    return {
+        scenes,
+        captions: spec.enableCaptions ? buildCaptionWords(spec.scenes) : [],
+        enableCaptions: spec.enableCaptions,
+        captionStyle: spec.captionStyle || DEFAULT_CAPTION_STYLE,
+        ...buildMusicProps(spec),
+        soundEffects: toSoundEffectCues(planFacelessSoundEffects(spec.scenes, spec.allAssets, spec.sfxLibrary)),
+        width,
+        height
+    };
+}
+
+function buildFaceProps(spec: Extract<RenderSpec, { kind: 'face' }>): VideoCompositionProps {
+    const transitions = resolveSceneTransitions(spec.scenes.map(scene => ({ ...scene, kind: scene.sceneType })));
+    const scenes: SceneData[] = spec.scenes.map((scene, i) => {
+        const durationInFrames = toFrames(scene.duration);
+        const transitionIn = toTransitionTiming(transitions[i]);
+        if (scene.sceneType === 'face') {
+            // WaveSpeed clips already have the narration baked in
+            return { type: 'face', videoUrl: scene.url, durationInFrames, text: scene.text, transitionIn };
+        }
+        // Without a pick, VideoComposition rotates the effects by scene
+        const kenBurns = resolveKenBurns(scene.kenBurns, spec.focalPoints?.[scene.url]);
+        return {
+            type: 'asset',
+            imageUrl: scene.url,
+            effectType: kenBurns?.effect,
+            focalPoint: kenBurns?.focalPoint,
+            audioUrl: scene.audioUrl,
+            durationInFrames,
+            text: scene.text,
+            transitionIn
+        };
+    });
+
+    return {
+        scenes,
+        captions: spec.enableCaptions ? buildCaptionWords(spec.scenes) : [],
+        enableCaptions: spec.enableCaptions,
+        captionStyle: spec.captionStyle || DEFAULT_CAPTION_STYLE,
+        ...buildMusicProps(spec),
+        soundEffects: toSoundEffectCues(planFaceSoundEffects(spec.scenes, spec.sfxLibrary)),
+        ...getVideoDimensions(spec)
+    };
+}
+
+// Output size of a face (always portrait) or faceless video
+export function getVideoDimensions(spec: { kind: 'faceless' | 'face'; aspectRatio?: string | null }): { width: number; height: number } {
+    if (spec.kind === 'face') return DIMENSIONS['9:16'];
+    return DIMENSIONS[spec.aspectRatio || '9:16'] || DIMENSIONS['9:16'];
+}
+
+export function supportsRemotion(spec: RenderSpec): boolean {
+    return getRemotionComposition(spec) !== null;
+}
+
+export function getRemotionComposition(spec: RenderSpec): RemotionCompositionInput | null {
+    switch (spec.kind) {
+        case 'typography':
+            return {
+                compositionId: 'TypographyComposition',
+                inputProps: {
+                    audioUrl: spec.audioUrl,
+                    words: spec.words,
+                    wordsPerGroup: spec.wordsPerGroup,
+                    animationStyle: spec.animationStyle,
+                },
+                fileName: 'typography-video.mp4',
+            };
+        case 'faceless':
+            return {
+                compositionId: 'VideoComposition',
+                inputProps: { ...buildFacelessProps(spec) },
+                fileName: 'faceless-video.mp4',
+            };
+        case 'face':
+            return {
+                compositionId: 'VideoComposition',
+                inputProps: { ...buildFaceProps(spec) },
+                fileName: 'face-video.mp4',
+            };
+        default:
+            return null;
+    }
+}
+
+// Length of the rendered video in seconds (used for cost estimates)
+export function getSpecDurationSeconds(spec: RenderSpec): number {
+    if (spec.kind === 'typography') {
+        return spec.durationInFrames / spec.fps;
+    }
+    return spec.scenes.reduce((acc, scene) => acc + scene.duration, 0);
+}
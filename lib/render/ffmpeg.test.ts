@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { canRenderWithFfmpeg, FfmpegRenderSpec } from './ffmpeg';
+
+// Clip-only scenes with sound effects turned off
+function facelessSpec(sceneEdits: Record<string, any>[] = [{}, {}], extra: Record<string, any> = {}): FfmpegRenderSpec {
+    return {
+        kind: 'faceless',
+        aspectRatio: '9:16',
+        enableCaptions: true,
+        scenes: sceneEdits.map((edit, i) => ({
+            text: `Scene ${i}`,
+            assetUrl: `https://example.com/clip-${i}.mp4`,
+            audioUrl: `https://example.com/audio-${i}.mp3`,
+            duration: 3,
+            transitionSfx: 'none',
+            cutSfx: 'none',
+            ...edit
+        })),
+        ...extra
+    };
+}
+
+function faceSpec(sceneEdits: Record<string, any>[] = [{}, {}]): FfmpegRenderSpec {
+    return {
+        kind: 'face',
+        enableCaptions: false,
+        scenes: sceneEdits.map((edit, i) => ({
+            url: `https://example.com/face-${i}.mp4`,
+            duration: 3,
+            text: `Scene ${i}`,
+            sceneType: 'face' as const,
+            transitionSfx: 'none',
+            ...edit
+        }))
+    };
+}
+
+describe('canRenderWithFfmpeg', () => {
+    it('renders plain clip scenes', () => {
+        expect(canRenderWithFfmpeg(facelessSpec())).toBe(true);
+        expect(canRenderWithFfmpeg(faceSpec())).toBe(true);
+    });
+
+    it('leaves specs with the default sound effects to Remotion', () => {
+        expect(canRenderWithFfmpeg(facelessSpec([{ transitionSfx: undefined }, {}]))).toBe(false);
+        expect(canRenderWithFfmpeg(faceSpec([{}, { transitionSfx: undefined }]))).toBe(false);
+    });
+
+    it('leaves specs with transitions to Remotion', () => {
+        expect(canRenderWithFfmpeg(facelessSpec([{}, { transition: 'crossfade' }]))).toBe(false);
+    });
+
+    it('leaves still images, which get Ken Burns moves, to Remotion', () => {
+        expect(canRenderWithFfmpeg(facelessSpec([{}, { assetUrl: 'https://example.com/still.jpg' }]))).toBe(false);
+        expect(canRenderWithFfmpeg(faceSpec([{}, { sceneType: 'asset', url: 'https://example.com/still.jpg' }]))).toBe(false);
+    });
+
+    it('leaves scenes cut to other assets to Remotion', () => {
+        const spec = facelessSpec([{ duration: 9 }], { allAssets: ['https://example.com/clip-0.mp4', 'https://example.com/other.mp4'] });
+        expect(canRenderWithFfmpeg(spec)).toBe(false);
+    });
+});
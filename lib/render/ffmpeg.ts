@@ -0,0 +1,241 @@
+// ffmpeg renderer for face and faceless videos (server-only), used by the
+// local backend. The same pipeline as the create-caption-video,
+// face-post-process and add-music routes: one segment per scene from its
+// visual and narration, the segments joined, the background music mixed in
+// with its fade and ducking envelope and the captions burned in as ASS.
+// Transitions, sound effects and Ken Burns moves are not rendered, so the
+// local backend only sends specs without them here (see canRenderWithFfmpeg).
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateAss } from '@/lib/captionExport';
+import { getCaptionStyle } from '@/lib/captionStyles';
+import { concatSceneTimings } from '@/lib/wordTimings';
+import { buildFfmpegVolumeExpression, buildMusicKeyframes, getSpeechRegions } from '@/lib/backgroundMusic';
+import { getClipVolume, isVideoAssetUrl } from '@/lib/clipAssets';
+import { planFaceSoundEffects, planFacelessSoundEffects, planVisualCuts } from '@/lib/json2video';
+import { resolveSceneTransitions } from '@/lib/sceneTransitions';
+import { getSpecDurationSeconds, getVideoDimensions } from './compositions';
+import type { RenderSpec } from './types';
+
+const execFileAsync = promisify(execFile);
+
+const VIDEO_FPS = 30;
+const FFMPEG_TIMEOUT_MS = 15 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 30000;
+
+export type FfmpegRenderSpec = Extract<RenderSpec, { kind: 'faceless' | 'face' }>;
+
+interface Segment {
+    visualUrl: string;
+    isVideo: boolean;
+    // Level of the visual's own audio (0 = muted)
+    visualVolume: number;
+    narrationUrl?: string;
+    narrationOffset: number;
+    playbackRate: number;
+    duration: number;
+}
+
+/**
+ * Whether the pipeline renders `spec` as configured: one video clip per
+ * scene, no transitions and no sound effects. Still images always get a
+ * Ken Burns move, and extra visual cuts aren't rendered either.
+ */
+export function canRenderWithFfmpeg(spec: FfmpegRenderSpec): boolean {
+    if (spec.kind === 'faceless') {
+        if (resolveSceneTransitions(spec.scenes).some(Boolean)) return false;
+        if (planFacelessSoundEffects(spec.scenes, spec.allAssets, spec.sfxLibrary).length > 0) return false;
+        return spec.scenes.every((scene, i) => isVideoAssetUrl(scene.assetUrl)
+            && planVisualCuts(scene, i, spec.allAssets).every(cut => cut.assetUrl === scene.assetUrl));
+    }
+    if (resolveSceneTransitions(spec.scenes.map(scene => ({ ...scene, kind: scene.sceneType }))).some(Boolean)) return false;
+    if (planFaceSoundEffects(spec.scenes, spec.sfxLibrary).length > 0) return false;
+    return spec.scenes.every(scene => scene.sceneType === 'face' || isVideoAssetUrl(scene.url));
+}
+
+function toSegments(spec: FfmpegRenderSpec): Segment[] {
+    if (spec.kind === 'faceless') {
+        return spec.scenes.map(scene => ({
+            visualUrl: scene.assetUrl,
+            isVideo: isVideoAssetUrl(scene.assetUrl),
+            visualVolume: getClipVolume(scene),
+            narrationUrl: scene.audioUrl,
+            narrationOffset: scene.audioOffset || 0,
+            playbackRate: scene.playbackRate || 1,
+            duration: scene.duration
+        }));
+    }
+    return spec.scenes.map(scene => scene.sceneType === 'face'
+        // WaveSpeed clips already have the narration baked in
+        ? { visualUrl: scene.url, isVideo: true, visualVolume: 1, narrationOffset: 0, playbackRate: 1, duration: scene.duration }
+        : {
+            visualUrl: scene.url,
+            isVideo: isVideoAssetUrl(scene.url),
+            visualVolume: 0,
+            narrationUrl: scene.audioUrl,
+            narrationOffset: 0,
+            playbackRate: 1,
+            duration: scene.duration
+        });
+}
+
+async function runFfmpeg(args: string[], signal: AbortSignal): Promise<void> {
+    await execFileAsync('ffmpeg', ['-y', '-hide_banner', '-loglevel', 'error', ...args], {
+        timeout: FFMPEG_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+        signal
+    });
+}
+
+async function hasAudioStream(source: string): Promise<boolean> {
+    const { stdout } = await execFileAsync(
+        'ffprobe',
+        ['-v', 'error', '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', source],
+        { timeout: PROBE_TIMEOUT_MS }
+    );
+    return stdout.trim().length > 0;
+}
+
+// atempo takes 0.5-2 per filter, so chain filters for faster narration
+function atempoFilters(rate: number): string[] {
+    const filters: string[] = [];
+    let remaining = rate;
+    while (remaining > 2) {
+        filters.push('atempo=2');
+        remaining /= 2;
+    }
+    while (remaining < 0.5) {
+        filters.push('atempo=0.5');
+        remaining /= 0.5;
+    }
+    if (Math.abs(remaining - 1) > 0.001) filters.push(`atempo=${remaining.toFixed(4)}`);
+    return filters;
+}
+
+// One scene: the visual filling the frame over silence, the visual's own
+// audio and the narration, all cut to the scene's length
+async function renderSegment(
+    segment: Segment,
+    size: { width: number; height: number },
+    outputPath: string,
+    signal: AbortSignal
+): Promise<void> {
+    const { width, height } = size;
+    const duration = segment.duration.toFixed(3);
+    const args = segment.isVideo
+        ? ['-stream_loop', '-1', '-i', segment.visualUrl]
+        : ['-loop', '1', '-i', segment.visualUrl];
+
+    const filters = [
+        `[0:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},fps=${VIDEO_FPS},setsar=1,format=yuv420p[v]`,
+        `anullsrc=r=44100:cl=stereo,atrim=duration=${duration}[silence]`
+    ];
+    const audioLabels = ['[silence]'];
+
+    if (segment.isVideo && segment.visualVolume > 0 && await hasAudioStream(segment.visualUrl)) {
+        filters.push(`[0:a]volume=${segment.visualVolume},aformat=sample_rates=44100:channel_layouts=stereo[clip]`);
+        audioLabels.push('[clip]');
+    }
+    if (segment.narrationUrl) {
+        args.push('-i', segment.narrationUrl);
+        const delayMs = Math.round(segment.narrationOffset * 1000);
+        const narration = [
+            ...atempoFilters(segment.playbackRate),
+            ...(delayMs > 0 ? [`adelay=${delayMs}|${delayMs}`] : []),
+            'aformat=sample_rates=44100:channel_layouts=stereo'
+        ];
+        filters.push(`[1:a]${narration.join(',')}[narration]`);
+        audioLabels.push('[narration]');
+    }
+    filters.push(`${audioLabels.join('')}amix=inputs=${audioLabels.length}:duration=first:normalize=0[a]`);
+
+    await runFfmpeg([
+        ...args,
+        '-filter_complex', filters.join(';'),
+        '-map', '[v]', '-map', '[a]',
+        '-t', duration,
+        '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-r', String(VIDEO_FPS),
+        '-c:a', 'aac', '-b:a', '128k', '-ar', '44100', '-ac', '2',
+        outputPath
+    ], signal);
+}
+
+/**
+ * Render a face or faceless spec in `workDir`. Returns the output file and
+ * its length in seconds.
+ */
+export async function renderWithFfmpeg(
+    spec: FfmpegRenderSpec,
+    workDir: string,
+    options: { signal: AbortSignal; onProgress?: (progress: number) => void }
+): Promise<{ outputPath: string; duration: number }> {
+    const { signal, onProgress } = options;
+    const size = getVideoDimensions(spec);
+    const duration = getSpecDurationSeconds(spec);
+    const segments = toSegments(spec);
+
+    // Segments are most of the work; music and captions take the last 20%
+    const segmentPaths: string[] = [];
+    for (let i = 0; i < segments.length; i++) {
+        const segmentPath = path.join(workDir, `segment_${i}.mp4`);
+        await renderSegment(segments[i], size, segmentPath, signal);
+        segmentPaths.push(segmentPath);
+        onProgress?.(0.8 * (i + 1) / segments.length);
+    }
+
+    const concatListPath = path.join(workDir, 'concat.txt');
+    await fs.writeFile(concatListPath, segmentPaths.map(p => `file '${p}'`).join('\n'));
+    let outputPath = path.join(workDir, 'joined.mp4');
+    await runFfmpeg(['-f', 'concat', '-safe', '0', '-i', concatListPath, '-c', 'copy', outputPath], signal);
+
+    // Music level follows the same fade and ducking envelope as the other backends
+    if (spec.backgroundMusic) {
+        const keyframes = buildMusicKeyframes(spec.backgroundMusic, getSpeechRegions(spec.scenes), duration);
+        const withMusicPath = path.join(workDir, 'with_music.mp4');
+        await runFfmpeg([
+            '-i', outputPath,
+            '-stream_loop', '-1', '-i', spec.backgroundMusic.url,
+            '-filter_complex', `[0:a]volume=1.0[voice];[1:a]volume='${buildFfmpegVolumeExpression(keyframes)}':eval=frame[music];[voice][music]amix=inputs=2:duration=first:dropout_transition=2:normalize=0[aout]`,
+            '-map', '0:v', '-map', '[aout]',
+            '-c:v', 'copy', '-c:a', 'aac', '-b:a', '128k',
+            withMusicPath
+        ], signal);
+        outputPath = withMusicPath;
+    }
+    onProgress?.(0.9);
+
+    if (spec.enableCaptions) {
+        const style = getCaptionStyle(spec.captionStyle);
+        const assPath = path.join(workDir, 'captions.ass');
+        await fs.writeFile(assPath, generateAss(concatSceneTimings(spec.scenes), style, size));
+
+        // Uploaded brand font (libass finds it via fontsdir). libass would
+        // silently fall back to another font, so a missing file fails the render.
+        const fontsDir = path.join(workDir, 'fonts');
+        await fs.mkdir(fontsDir, { recursive: true });
+        if (style.fontUrl) {
+            const fontResponse = await fetch(style.fontUrl, { signal });
+            if (!fontResponse.ok) {
+                throw new Error(`Failed to download caption font ${style.font}: HTTP ${fontResponse.status}`);
+            }
+            const fontExt = style.fontUrl.toLowerCase().endsWith('.otf') ? 'otf' : 'ttf';
+            await fs.writeFile(path.join(fontsDir, `custom-caption-font.${fontExt}`), Buffer.from(await fontResponse.arrayBuffer()));
+        }
+
+        const captionedPath = path.join(workDir, 'output.mp4');
+        await runFfmpeg([
+            '-i', outputPath,
+            '-vf', `ass=filename='${assPath}':fontsdir='${fontsDir}'`,
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-pix_fmt', 'yuv420p',
+            '-c:a', 'copy',
+            '-movflags', '+faststart',
+            captionedPath
+        ], signal);
+        outputPath = captionedPath;
+    }
+
+    return { outputPath, duration };
+}
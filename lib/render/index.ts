@@ -0,0 +1,145 @@
+/**
+ * Render service
+ *
+ * Picks a render backend per job and fails over to the next configured
+ * backend when a render cannot be started, or (on the job's next start)
+ * when a started render failed. Selection order:
+ *   1. the job's own choice (input_data.renderBackend)
+ *   2. RENDER_BACKEND_<KIND> (e.g. RENDER_BACKEND_FACELESS=remotion-lambda)
+ *   3. RENDER_BACKEND
+ *   4. the default order for the kind of video
+ * Backends that cannot render the spec or are not configured are skipped,
+ * and backends that already failed the job are tried last.
+ */
+
+import { json2VideoBackend } from './json2video';
+import { remotionLambdaBackend } from './remotionLambda';
+import { localBackend } from './local';
+import { recordProviderTask, settleProviderTask } from '@/lib/providerTasks';
+import type { RenderBackend, RenderBackendName, RenderHandle, RenderKind, RenderSpec, RenderStatus } from './types';
+
+export type { RenderBackendName, RenderHandle, RenderSpec, RenderStatus } from './types';
+
+const RENDER_BACKENDS: Record<RenderBackendName, RenderBackend> = {
+    json2video: json2VideoBackend,
+    'remotion-lambda': remotionLambdaBackend,
+    local: localBackend
+};
+
+// The local renderer is never a default; select it explicitly in development
+const DEFAULT_BACKEND_ORDER: Record<RenderKind, RenderBackendName[]> = {
+    faceless: ['json2video', 'remotion-lambda'],
+    face: ['json2video', 'remotion-lambda'],
+    typography: ['remotion-lambda']
+};
+
+function isBackendName(value: unknown): value is RenderBackendName {
+    return typeof value === 'string' && value in RENDER_BACKENDS;
+}
+
+export function getRenderBackend(name: RenderBackendName): RenderBackend {
+    return RENDER_BACKENDS[name];
+}
+
+// Backends to try for a spec, in order
+export function resolveRenderBackends(spec: RenderSpec, preferred?: string | null): RenderBackend[] {
+    const candidates = [
+        preferred,
+        process.env[`RENDER_BACKEND_${spec.kind.toUpperCase()}`],
+        process.env.RENDER_BACKEND,
+        ...DEFAULT_BACKEND_ORDER[spec.kind]
+    ];
+
+    const names: RenderBackendName[] = [];
+    for (const candidate of candidates) {
+        if (isBackendName(candidate) && !names.includes(candidate)) {
+            names.push(candidate);
+        }
+    }
+
+    return names
+        .map(name => RENDER_BACKENDS[name])
+        .filter(backend => backend.supports(spec) && backend.isConfigured());
+}
+
+/**
+ * Start a render on the first backend that accepts it. Throws when every
+ * backend fails, so queue processors retry the tick with backoff.
+ * `failedBackends` are the backends whose renders already failed this job.
+ */
+export async function startRender(
+    spec: RenderSpec,
+    options: { jobId: string; preferred?: string | null; failedBackends?: string[] }
+): Promise<RenderHandle> {
+    const failed = options.failedBackends || [];
+    const resolved = resolveRenderBackends(spec, options.preferred);
+    const backends = [
+        ...resolved.filter(backend => !failed.includes(backend.name)),
+        ...resolved.filter(backend => failed.includes(backend.name))
+    ];
+    if (backends.length === 0) {
+        throw new Error(`No render backend is configured for ${spec.kind} videos`);
+    }
+
+    let lastError: unknown = null;
+    for (const backend of backends) {
+        try {
+            const handle = await backend.start(spec, { jobId: options.jobId });
+            console.log(`🎬 [Render] ${spec.kind} render for ${options.jobId} started on ${backend.name} (${handle.renderId})`);
+            await recordProviderTask({ provider: backend.name, externalId: handle.renderId, jobId: options.jobId, kind: 'render' });
+            return handle;
+        } catch (error) {
+            lastError = error;
+            console.error(`❌ [Render] ${backend.name} could not start ${spec.kind} render for ${options.jobId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('All render backends failed');
+}
+
+// Polls the backend; a finished render also settles its provider task
+export async function pollRender(handle: RenderHandle): Promise<RenderStatus> {
+    const status = await getRenderBackend(handle.backend).poll(handle);
+    if (status.state === 'done' && status.videoUrl) {
+        await settleProviderTask(handle.backend, handle.renderId, 'completed', { outputUrl: status.videoUrl });
+    } else if (status.state === 'failed') {
+        await settleProviderTask(handle.backend, handle.renderId, 'failed', { error: status.message });
+    }
+    return status;
+}
+
+export async function cancelRender(handle: RenderHandle): Promise<boolean> {
+    return getRenderBackend(handle.backend).cancel(handle);
+}
+
+// Provider cost estimate (USD) on the backend that would be used first
+export function estimateRenderCost(spec: RenderSpec, preferred?: string | null): number | null {
+    const [backend] = resolveRenderBackends(spec, preferred);
+    return backend ? backend.estimateCost(spec) : null;
+}
+
+/**
+ * Read a render handle stored on a job. Jobs started before render
+ * backends existed stored { projectId } (JSON2Video) or
+ * { renderId, bucketName } (Remotion Lambda).
+ */
+export function toRenderHandle(value: unknown): RenderHandle | null {
+    if (!value || typeof value !== 'object') return null;
+    const stored = value as Record<string, any>;
+
+    if (isBackendName(stored.backend) && stored.renderId) {
+        return stored as RenderHandle;
+    }
+    if (stored.projectId) {
+        return { backend: 'json2video', renderId: stored.projectId, startedAt: stored.startedAt || Date.now() };
+    }
+    if (stored.renderId && stored.bucketName) {
+        return {
+            backend: 'remotion-lambda',
+            renderId: stored.renderId,
+            bucketName: stored.bucketName,
+            startedAt: stored.startedAt || Date.now()
+        };
+    }
+    return null;
+}
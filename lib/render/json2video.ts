@@ -0,0 +1,82 @@
+import {
+    startJson2VideoRender,
+    pollJson2Video,
+    convertFacelessVideoToJson2VideoFormat,
+    convertFaceVideoToJson2VideoFormat,
+    Json2VideoMovie
+} from '@/lib/json2video';
+import { providerWebhookUrl } from '@/lib/providerTasks';
+import { getSpecDurationSeconds } from './compositions';
+import type { RenderBackend, RenderHandle, RenderSpec, RenderStatus } from './types';
+
+// 40 JSON2Video credits (~$0.28) per started minute of output
+const COST_PER_STARTED_MINUTE_USD = 0.28;
+
+function buildMovie(spec: RenderSpec): Json2VideoMovie {
+    switch (spec.kind) {
+        case 'faceless':
+            return convertFacelessVideoToJson2VideoFormat({
+                scenes: spec.scenes,
+                aspectRatio: spec.aspectRatio,
+                backgroundMusic: spec.backgroundMusic,
+                sfxLibrary: spec.sfxLibrary,
+                enableCaptions: spec.enableCaptions,
+                captionStyle: spec.captionStyle,
+                allAssets: spec.allAssets,
+                focalPoints: spec.focalPoints,
+                clipDurations: spec.clipDurations
+            });
+        case 'face':
+            return convertFaceVideoToJson2VideoFormat({
+                scenes: spec.scenes,
+                enableCaptions: spec.enableCaptions,
+                captionStyle: spec.captionStyle,
+                backgroundMusic: spec.backgroundMusic,
+                sfxLibrary: spec.sfxLibrary,
+                focalPoints: spec.focalPoints
+            });
+        default:
+            throw new Error(`JSON2Video cannot render ${spec.kind} videos`);
+    }
+}
+
+async function start(spec: RenderSpec, options: { jobId: string }): Promise<RenderHandle> {
+    const movie = buildMovie(spec);
+    console.log('📦 Video Payload:', JSON.stringify(movie).substring(0, 500) + '...');
+
+    // The webhook finds the job through its provider task (see lib/providerTasks)
+    movie.id = options.jobId;
+
+    const projectId = await startJson2VideoRender(movie, providerWebhookUrl('json2video', options.jobId));
+    return { backend: 'json2video', renderId: projectId, startedAt: Date.now() };
+}
+
+async function poll(handle: RenderHandle): Promise<RenderStatus> {
+    const status = await pollJson2Video(handle.renderId);
+
+    if (status.completed && status.videoUrl) {
+        return { state: 'done', videoUrl: status.videoUrl, duration: status.duration, progress: 1 };
+    }
+    if (status.failed) {
+        return { state: 'failed', message: status.status };
+    }
+    return { state: 'rendering', message: status.status };
+}
+
+// JSON2Video has no cancel endpoint; the movie finishes and is ignored
+async function cancel(handle: RenderHandle): Promise<boolean> {
+    console.warn(`⚠️ JSON2Video project ${handle.renderId} cannot be cancelled, it will run to completion`);
+    return false;
+}
+
+export const json2VideoBackend: RenderBackend = {
+    name: 'json2video',
+    // No audio playback rate in JSON2Video: scenes with a custom speed go to Remotion
+    supports: spec => (spec.kind === 'faceless' && spec.scenes.every(s => (s.playbackRate ?? 1) === 1))
+        || spec.kind === 'face',
+    isConfigured: () => Boolean(process.env.JSON2VIDEO_API_KEY),
+    start,
+    poll,
+    cancel,
+    estimateCost: spec => Math.max(1, Math.ceil(getSpecDurationSeconds(spec) / 60)) * COST_PER_STARTED_MINUTE_USD
+};
@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { getRemotionComposition, supportsRemotion } from './compositions';
+import { canRenderWithFfmpeg, renderWithFfmpeg } from './ffmpeg';
+import { REMOTION_SERVE_URL } from './remotionLambda';
+import type { RenderBackend, RenderHandle, RenderSpec, RenderStatus } from './types';
+
+// In-process renders for development with @remotion/renderer. Face and
+// faceless videos the ffmpeg pipeline renders as configured (no transitions,
+// sound effects or Ken Burns moves, see ./ffmpeg) skip the browser. Render
+// state lives in this process only, so a restart loses in-flight renders
+// (poll reports failed).
+interface LocalRender {
+    status: RenderStatus;
+    abort: AbortController;
+}
+
+const localRenders = new Map<string, LocalRender>();
+
+async function uploadRender(filePath: string, jobId: string): Promise<string> {
+    const supabase = getSupabaseAdmin();
+    const fileName = `renders/${jobId}.mp4`;
+    const buffer = await fs.readFile(filePath);
+
+    const { error } = await supabase.storage
+        .from('videos')
+        .upload(fileName, buffer, { contentType: 'video/mp4', upsert: true });
+
+    if (error) {
+        throw new Error(`Failed to upload local render: ${error.message}`);
+    }
+    return supabase.storage.from('videos').getPublicUrl(fileName).data.publicUrl;
+}
+
+function reportProgress(render: LocalRender, progress: number) {
+    render.status = { state: 'rendering', progress, message: `${Math.round(progress * 100)}%` };
+}
+
+async function renderWithRemotion(
+    render: LocalRender,
+    spec: RenderSpec,
+    tempDir: string
+): Promise<{ outputPath: string; duration: number }> {
+    const composition = getRemotionComposition(spec);
+    if (!composition) throw new Error(`Remotion cannot render ${spec.kind} videos`);
+    const outputPath = path.join(tempDir, composition.fileName);
+
+    // Loaded lazily so production bundles never pull in the renderer
+    const { selectComposition, renderMedia, makeCancelSignal } = await import('@remotion/renderer');
+    const { cancelSignal, cancel } = makeCancelSignal();
+    render.abort.signal.addEventListener('abort', () => cancel());
+
+    const selected = await selectComposition({
+        serveUrl: REMOTION_SERVE_URL,
+        id: composition.compositionId,
+        inputProps: composition.inputProps,
+    });
+
+    await renderMedia({
+        composition: selected,
+        serveUrl: REMOTION_SERVE_URL,
+        codec: 'h264',
+        outputLocation: outputPath,
+        inputProps: composition.inputProps,
+        cancelSignal,
+        onProgress: ({ progress }) => reportProgress(render, progress),
+    });
+
+    return { outputPath, duration: selected.durationInFrames / selected.fps };
+}
+
+async function runRender(renderId: string, spec: RenderSpec, jobId: string) {
+    const render = localRenders.get(renderId);
+    if (!render) return;
+
+    const tempDir = path.join(os.tmpdir(), `render-${renderId}`);
+
+    try {
+        await fs.mkdir(tempDir, { recursive: true });
+
+        const { outputPath, duration } = spec.kind !== 'typography' && canRenderWithFfmpeg(spec)
+            ? await renderWithFfmpeg(spec, tempDir, {
+                signal: render.abort.signal,
+                onProgress: progress => reportProgress(render, progress)
+            })
+            : await renderWithRemotion(render, spec, tempDir);
+
+        const videoUrl = await uploadRender(outputPath, jobId);
+        render.status = { state: 'done', videoUrl, duration, progress: 1 };
+        console.log(`[LocalRender] ✅ ${renderId} done: ${videoUrl}`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[LocalRender] ❌ ${renderId} failed:`, message);
+        render.status = { state: 'failed', message };
+    } finally {
+        try { await fs.rm(tempDir, { recursive: true, force: true }); } catch { }
+    }
+}
+
+function supports(spec: RenderSpec): boolean {
+    return supportsRemotion(spec);
+}
+
+async function start(spec: RenderSpec, options: { jobId: string }): Promise<RenderHandle> {
+    if (!supports(spec)) {
+        throw new Error(`Local renderer cannot render ${spec.kind} videos`);
+    }
+
+    const renderId = `local-${options.jobId}-${Date.now()}`;
+
+    localRenders.set(renderId, { status: { state: 'rendering', progress: 0 }, abort: new AbortController() });
+    console.log(`[LocalRender] Starting ${renderId}`);
+
+    // Not awaited: the job polls the render like any other backend
+    void runRender(renderId, spec, options.jobId);
+
+    return { backend: 'local', renderId, startedAt: Date.now() };
+}
+
+async function poll(handle: RenderHandle): Promise<RenderStatus> {
+    const render = localRenders.get(handle.renderId);
+    if (!render) {
+        return { state: 'failed', message: 'Local render not found (server restarted?)' };
+    }
+    return render.status;
+}
+
+async function cancel(handle: RenderHandle): Promise<boolean> {
+    const render = localRenders.get(handle.renderId);
+    if (!render) return false;
+    render.abort.abort();
+    localRenders.delete(handle.renderId);
+    return true;
+}
+
+export const localBackend: RenderBackend = {
+    name: 'local',
+    supports,
+    // Only used when selected explicitly (RENDER_BACKEND=local in development)
+    isConfigured: () => true,
+    start,
+    poll,
+    cancel,
+    estimateCost: () => 0
+};
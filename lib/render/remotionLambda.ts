@@ -0,0 +1,89 @@
+import { renderMediaOnLambda, getRenderProgress } from '@remotion/lambda/client';
+import { getRemotionComposition, getSpecDurationSeconds, supportsRemotion } from './compositions';
+import type { RenderBackend, RenderHandle, RenderSpec, RenderStatus } from './types';
+
+// Lambda configuration
+export const REMOTION_AWS_REGION = process.env.REMOTION_AWS_REGION || 'eu-north-1';
+export const REMOTION_FUNCTION_NAME = 'remotion-render-4-0-410-mem3008mb-disk2048mb-900sec'; // Upgraded to 15min timeout
+export const REMOTION_SERVE_URL = process.env.REMOTION_SERVE_URL || 'https://remotionlambda-eunorth1-uzdpd4m8du.s3.eu-north-1.amazonaws.com/sites/typography-site-v13/index.html';
+export const REMOTION_BUCKET_NAME = 'remotionlambda-eunorth1-uzdpd4m8du'; // Hardcoded since getOrCreateBucket is not in client
+
+// Increase framesPerLambda to reduce concurrency and avoid Rate Exceeded
+// 1048 frames / 600 = ~2 lambdas. Much safer than 80 (~13 lambdas).
+const FRAMES_PER_LAMBDA = 600;
+
+// Rough Lambda compute cost per minute of output (3008MB function)
+const COST_PER_OUTPUT_MINUTE_USD = 0.05;
+
+async function start(spec: RenderSpec, options: { jobId: string }): Promise<RenderHandle> {
+    const composition = getRemotionComposition(spec);
+    if (!composition) {
+        throw new Error(`Remotion Lambda cannot render ${spec.kind} videos`);
+    }
+
+    console.log(`[RemotionLambda] Starting ${composition.compositionId} render for ${options.jobId}`);
+
+    const renderResult = await renderMediaOnLambda({
+        region: REMOTION_AWS_REGION as any,
+        functionName: REMOTION_FUNCTION_NAME,
+        serveUrl: REMOTION_SERVE_URL,
+        composition: composition.compositionId,
+        inputProps: composition.inputProps,
+        codec: 'h264',
+        framesPerLambda: FRAMES_PER_LAMBDA,
+        privacy: 'public',
+        downloadBehavior: {
+            type: 'download',
+            fileName: composition.fileName,
+        },
+    });
+
+    console.log(`[RemotionLambda] Render ${renderResult.renderId} started in ${renderResult.bucketName}`);
+
+    return {
+        backend: 'remotion-lambda',
+        renderId: renderResult.renderId,
+        bucketName: renderResult.bucketName,
+        startedAt: Date.now()
+    };
+}
+
+async function poll(handle: RenderHandle): Promise<RenderStatus> {
+    const progress = await getRenderProgress({
+        region: REMOTION_AWS_REGION as any,
+        functionName: REMOTION_FUNCTION_NAME,
+        bucketName: handle.bucketName || REMOTION_BUCKET_NAME,
+        renderId: handle.renderId,
+    });
+
+    if (progress.done) {
+        return { state: 'done', videoUrl: progress.outputFile || '', progress: 1 };
+    }
+
+    if (progress.fatalErrorEncountered) {
+        console.error('[RemotionLambda] Fatal error:', progress.errors);
+        return { state: 'failed', message: JSON.stringify(progress.errors) };
+    }
+
+    const pct = Math.round((progress.overallProgress || 0) * 100);
+    return { state: 'rendering', progress: progress.overallProgress || 0, message: `${pct}%` };
+}
+
+// Lambda renders cannot be stopped once started; the output is simply ignored
+async function cancel(handle: RenderHandle): Promise<boolean> {
+    console.warn(`[RemotionLambda] Render ${handle.renderId} cannot be cancelled, it will run to completion`);
+    return false;
+}
+
+export const remotionLambdaBackend: RenderBackend = {
+    name: 'remotion-lambda',
+    supports: supportsRemotion,
+    isConfigured: () => Boolean(
+        (process.env.REMOTION_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) &&
+        (process.env.REMOTION_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY)
+    ),
+    start,
+    poll,
+    cancel,
+    estimateCost: spec => (getSpecDurationSeconds(spec) / 60) * COST_PER_OUTPUT_MINUTE_USD
+};
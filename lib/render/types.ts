@@ -0,0 +1,85 @@
+// Shared contract between the render service and the render backends
+
+import type { FaceSceneInput, FacelessSceneInput } from '@/lib/json2video';
+import type { CaptionStyle } from '@/lib/captionStyles';
+import type { BackgroundMusicSettings } from '@/lib/backgroundMusic';
+import type { SoundEffect } from '@/lib/soundEffects';
+import type { FocalPoint } from '@/lib/kenBurns';
+import type { TypographyWord, TypographyCompositionProps } from '@/remotion/compositions/TypographyComposition';
+
+export type RenderBackendName = 'json2video' | 'remotion-lambda' | 'local';
+
+// What to render, independent of where it is rendered
+export type RenderSpec =
+    | {
+        kind: 'faceless';
+        scenes: FacelessSceneInput[];
+        aspectRatio: '9:16' | '16:9' | '1:1';
+        // Track, volume and ducking; omitted when music is off
+        backgroundMusic?: BackgroundMusicSettings;
+        // Library snapshot for the scenes' sound effects (default: click on every cut)
+        sfxLibrary?: SoundEffect[];
+        enableCaptions: boolean;
+        captionStyle?: string | CaptionStyle;
+        allAssets?: string[];
+        // Subjects of the images of 'auto' Ken Burns scenes, by URL
+        focalPoints?: Record<string, FocalPoint>;
+        // Lengths of the video clip assets, by URL
+        clipDurations?: Record<string, number>;
+    }
+    | {
+        kind: 'face';
+        scenes: FaceSceneInput[];
+        backgroundMusic?: BackgroundMusicSettings;
+        sfxLibrary?: SoundEffect[];
+        enableCaptions: boolean;
+        captionStyle?: string | CaptionStyle;
+        focalPoints?: Record<string, FocalPoint>;
+    }
+    | {
+        kind: 'typography';
+        audioUrl: string;
+        words: TypographyWord[];
+        wordsPerGroup: number;
+        animationStyle: NonNullable<TypographyCompositionProps['animationStyle']>;
+        fps: number;
+        durationInFrames: number;
+    };
+
+export type RenderKind = RenderSpec['kind'];
+
+// Stored on the job (input_data.pendingRender / result_data.render) so any
+// worker can poll the render later
+export interface RenderHandle {
+    backend: RenderBackendName;
+    renderId: string;
+    startedAt: number;
+    // Remotion Lambda output bucket
+    bucketName?: string;
+}
+
+export interface RenderStatus {
+    state: 'rendering' | 'done' | 'failed';
+    videoUrl?: string;
+    // Seconds, when the backend reports it
+    duration?: number;
+    // 0-1, when the backend reports it
+    progress?: number;
+    message?: string;
+}
+
+export interface RenderBackend {
+    name: RenderBackendName;
+    // Whether this backend can render the spec at all
+    supports(spec: RenderSpec): boolean;
+    // Whether credentials/config for this backend are present
+    isConfigured(): boolean;
+    // Submit the render and return immediately. Throwing lets the caller fail over.
+    start(spec: RenderSpec, options: { jobId: string }): Promise<RenderHandle>;
+    // Check a render once. Transient provider errors report 'rendering'.
+    poll(handle: RenderHandle): Promise<RenderStatus>;
+    // Stop the render if the backend allows it; false if it keeps running
+    cancel(handle: RenderHandle): Promise<boolean>;
+    // Approximate provider cost in USD
+    estimateCost(spec: RenderSpec): number;
+}
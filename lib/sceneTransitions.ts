@@ -0,0 +1,70 @@
+/**
+ * Transitions between scenes (client-safe)
+ *
+ * Each scene picks the transition into it; it is stored on the scene in the
+ * job's input_data. A transition plays over the first moments of the
+ * incoming scene while the outgoing scene's visuals are held underneath,
+ * so narration, captions, music and sound effects keep their timing. Both
+ * render paths use resolveSceneTransitions, so they agree on which
+ * boundaries transition and for how long.
+ */
+
+export type SceneTransitionType = 'cut' | 'crossfade' | 'slide' | 'wipe' | 'zoom-through' | 'whip-pan' | 'glitch';
+
+export interface SceneTransitionDefinition {
+    label: string;
+    // Seconds, before clamping to the scene lengths
+    duration: number;
+    // JSON2Video scene transition style (ffmpeg xfade names)
+    json2videoStyle: string | null;
+}
+
+export const SCENE_TRANSITIONS: Record<SceneTransitionType, SceneTransitionDefinition> = {
+    'cut': { label: 'Cut', duration: 0, json2videoStyle: null },
+    'crossfade': { label: 'Crossfade', duration: 0.5, json2videoStyle: 'fade' },
+    'slide': { label: 'Slide', duration: 0.4, json2videoStyle: 'slideleft' },
+    'wipe': { label: 'Wipe', duration: 0.5, json2videoStyle: 'wiperight' },
+    'zoom-through': { label: 'Zoom through', duration: 0.4, json2videoStyle: 'zoomin' },
+    'whip-pan': { label: 'Whip pan', duration: 0.3, json2videoStyle: 'smoothleft' },
+    'glitch': { label: 'Glitch', duration: 0.3, json2videoStyle: 'pixelize' }
+};
+
+export const SCENE_TRANSITION_TYPES = Object.keys(SCENE_TRANSITIONS) as SceneTransitionType[];
+
+export interface SceneTransitionSettings {
+    // Transition into this scene; omitted = cut
+    transition?: SceneTransitionType;
+}
+
+export interface ResolvedTransition {
+    type: SceneTransitionType;
+    duration: number;
+}
+
+export function validateSceneTransition(scene: SceneTransitionSettings): string | null {
+    if (scene.transition !== undefined && !SCENE_TRANSITION_TYPES.includes(scene.transition)) {
+        return `transition must be one of: ${SCENE_TRANSITION_TYPES.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * The transition into each scene (null = hard cut). The first scene never
+ * transitions, and neither does a boundary out of a face clip, since a
+ * lip-synced clip can't be held past its end. Durations are capped at half
+ * of either neighbouring scene.
+ */
+export function resolveSceneTransitions(
+    scenes: Array<SceneTransitionSettings & { duration: number; kind?: 'face' | 'asset' }>
+): Array<ResolvedTransition | null> {
+    return scenes.map((scene, index) => {
+        const previous = scenes[index - 1];
+        if (!previous || !scene.transition || scene.transition === 'cut' || previous.kind === 'face') {
+            return null;
+        }
+        const definition = SCENE_TRANSITIONS[scene.transition];
+        if (!definition) return null;
+        const duration = Math.min(definition.duration, scene.duration / 2, previous.duration / 2);
+        return duration > 0 ? { type: scene.transition, duration } : null;
+    });
+}
@@ -0,0 +1,85 @@
+/**
+ * Per-scene narration settings (client-safe)
+ *
+ * Each faceless scene can override the job's voice, speaking rate, pauses and
+ * delivery style, which is what makes two-voice dialogues and interview
+ * formats possible. Speed and pauses are applied at render time (audio
+ * playback rate and start offset), so word timings stay aligned.
+ */
+
+import type { QwenVoice } from '@/lib/fal';
+
+export const QWEN_VOICE_PRESETS: QwenVoice[] = [
+    'Vivian', 'Serena', 'Uncle_Fu', 'Dylan', 'Eric', 'Ryan', 'Aiden', 'Ono_Anna', 'Sohee'
+];
+
+export const SCENE_SPEED_MIN = 0.5;
+export const SCENE_SPEED_MAX = 2;
+export const SCENE_PAUSE_MAX = 5;
+export const SCENE_STYLE_HINT_MAX = 200;
+
+export interface SceneVoiceSettings {
+    // A QwenVoice preset name or the id of one of the user's cloned voices
+    // (voices.id); omitted = the user's active voice
+    voice?: string;
+    // Speaking rate multiplier (1 = as synthesized)
+    speed?: number;
+    // Silence before and after the narration, in seconds
+    pauseBefore?: number;
+    pauseAfter?: number;
+    // Delivery instruction for the TTS model, e.g. "excited", "whispering"
+    styleHint?: string;
+}
+
+export function isQwenVoicePreset(voice: unknown): voice is QwenVoice {
+    return typeof voice === 'string' && QWEN_VOICE_PRESETS.includes(voice as QwenVoice);
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a scene's narration settings. Returns an error message, or null if valid.
+ */
+export function validateSceneVoiceSettings(scene: SceneVoiceSettings): string | null {
+    if (scene.voice !== undefined && (typeof scene.voice !== 'string' || !scene.voice || scene.voice.length > 64)) {
+        return 'voice must be a voice preset or voice id';
+    }
+    if (scene.speed !== undefined && !isNumberInRange(scene.speed, SCENE_SPEED_MIN, SCENE_SPEED_MAX)) {
+        return `speed must be between ${SCENE_SPEED_MIN} and ${SCENE_SPEED_MAX}`;
+    }
+    if (scene.pauseBefore !== undefined && !isNumberInRange(scene.pauseBefore, 0, SCENE_PAUSE_MAX)) {
+        return `pauseBefore must be between 0 and ${SCENE_PAUSE_MAX} seconds`;
+    }
+    if (scene.pauseAfter !== undefined && !isNumberInRange(scene.pauseAfter, 0, SCENE_PAUSE_MAX)) {
+        return `pauseAfter must be between 0 and ${SCENE_PAUSE_MAX} seconds`;
+    }
+    if (scene.styleHint !== undefined && (typeof scene.styleHint !== 'string' || scene.styleHint.length > SCENE_STYLE_HINT_MAX)) {
+        return `styleHint must be at most ${SCENE_STYLE_HINT_MAX} characters`;
+    }
+    return null;
+}
+
+/**
+ * Place narration inside a scene: the scene lasts pauseBefore + audio/speed +
+ * pauseAfter, and word timings move with the audio.
+ */
+export function applySceneTiming<T extends { start: number; end: number }>(
+    settings: SceneVoiceSettings,
+    audioDuration: number,
+    wordTimings: T[]
+): { duration: number; audioOffset: number; playbackRate: number; wordTimings: T[] } {
+    const playbackRate = settings.speed ?? 1;
+    const audioOffset = settings.pauseBefore ?? 0;
+    return {
+        duration: audioOffset + audioDuration / playbackRate + (settings.pauseAfter ?? 0),
+        audioOffset,
+        playbackRate,
+        wordTimings: wordTimings.map(t => ({
+            ...t,
+            start: audioOffset + t.start / playbackRate,
+            end: audioOffset + t.end / playbackRate
+        }))
+    };
+}
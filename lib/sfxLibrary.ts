@@ -0,0 +1,39 @@
+/**
+ * Sound effects library (see sfx_library_migration.sql)
+ *
+ * Server-only. Jobs snapshot the clips they can use when they are created
+ * (resolveSfxLibrary), so renders never read the table.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { getSceneSfxIds, type SceneSfxSettings, type SoundEffect } from '@/lib/soundEffects';
+
+export async function listSoundEffects(): Promise<SoundEffect[]> {
+    const { data, error } = await getSupabaseAdmin()
+        .from('sound_effects')
+        .select('*')
+        .order('category', { ascending: true })
+        .order('name', { ascending: true });
+    if (error) {
+        console.error('[SfxLibrary] Failed to list sound effects:', error);
+        return [];
+    }
+    return (data || []).map(row => ({ ...row, duration: row.duration === null ? null : Number(row.duration), volume: Number(row.volume) }));
+}
+
+/**
+ * The library snapshot for a job. Returns an error naming the first scene
+ * that picked an unknown clip.
+ */
+export async function resolveSfxLibrary(
+    scenes: SceneSfxSettings[]
+): Promise<{ library: SoundEffect[]; error?: string }> {
+    const library = await listSoundEffects();
+    for (let i = 0; i < scenes.length; i++) {
+        const unknown = getSceneSfxIds(scenes[i]).find(id => !library.some(e => e.id === id));
+        if (unknown) {
+            return { library, error: `Scene ${i + 1}: unknown sound effect ${unknown}` };
+        }
+    }
+    return { library };
+}
@@ -0,0 +1,147 @@
+/**
+ * Sound effects on cuts and scene transitions (see sfx_library_migration.sql)
+ *
+ * Client-safe. Each scene picks an effect for the transition into it and
+ * one for the visual cuts inside it: a clip from the library, none, or
+ * 'auto', which chooses by cut type (impact on the opening shot, whoosh
+ * between scenes, riser when a face video switches between face and asset,
+ * click on cuts within a scene). Both render backends play the same cues.
+ */
+
+export type SfxCategory = 'whoosh' | 'riser' | 'click' | 'impact';
+
+export const SFX_CATEGORIES: SfxCategory[] = ['whoosh', 'riser', 'click', 'impact'];
+
+// A row of sound_effects
+export interface SoundEffect {
+    id: string;
+    name: string;
+    category: SfxCategory;
+    tags: string[];
+    url: string;
+    // Length in seconds; risers need it to end on the cut
+    duration: number | null;
+    volume: number;
+}
+
+// A library clip id, 'auto' or 'none'
+export type SfxChoice = string;
+
+export interface SceneSfxSettings {
+    // Played on the cut into the scene; omitted = 'auto'
+    transitionSfx?: SfxChoice;
+    // Played on the visual cuts inside the scene; omitted = 'auto'
+    cutSfx?: SfxChoice;
+}
+
+// What kind of cut a cue sits on
+export type SfxCutType = 'open' | 'scene' | 'switch' | 'cut';
+
+export const AUTO_SFX_CATEGORY: Record<SfxCutType, SfxCategory> = {
+    open: 'impact',
+    scene: 'whoosh',
+    switch: 'riser',
+    cut: 'click'
+};
+
+export const CUT_SOUND_URL = 'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/clickit.mp3';
+
+// Used when a render has no library snapshot (jobs created before the
+// library existed): the click on every cut, as before
+export const DEFAULT_SOUND_EFFECTS: SoundEffect[] = [
+    { id: 'click', name: 'Click', category: 'click', tags: [], url: CUT_SOUND_URL, duration: null, volume: 0.4 }
+];
+
+// A scene as the planner sees it. cutOffsets are the visual cuts inside
+// the scene, in seconds from the scene start (excluding 0).
+export interface SfxTimelineScene extends SceneSfxSettings {
+    duration: number;
+    kind?: 'face' | 'asset';
+    cutOffsets?: number[];
+}
+
+export interface SfxCue {
+    // Seconds from the start of the video
+    time: number;
+    url: string;
+    volume: number;
+    duration: number | null;
+    cutType: SfxCutType;
+}
+
+function isSfxChoice(value: unknown): boolean {
+    return typeof value === 'string' && value.length > 0 && value.length <= 64;
+}
+
+/**
+ * Validate a scene's effect choices. Returns an error message, or null if valid.
+ */
+export function validateSceneSfxSettings(scene: SceneSfxSettings): string | null {
+    if (scene.transitionSfx !== undefined && !isSfxChoice(scene.transitionSfx)) {
+        return 'transitionSfx must be auto, none or a sound effect id';
+    }
+    if (scene.cutSfx !== undefined && !isSfxChoice(scene.cutSfx)) {
+        return 'cutSfx must be auto, none or a sound effect id';
+    }
+    return null;
+}
+
+/**
+ * Library ids a scene refers to (not 'auto' or 'none')
+ */
+export function getSceneSfxIds(scene: SceneSfxSettings): string[] {
+    return [scene.transitionSfx, scene.cutSfx].filter((c): c is string => !!c && c !== 'auto' && c !== 'none');
+}
+
+/**
+ * Every cue for a video, in time order
+ */
+export function planSoundEffects(scenes: SfxTimelineScene[], library: SoundEffect[] = DEFAULT_SOUND_EFFECTS): SfxCue[] {
+    if (library.length === 0) return [];
+
+    // Rotate through a category's clips so repeated cuts don't all sound the same
+    const used: Partial<Record<SfxCategory, number>> = {};
+    const pickAuto = (cutType: SfxCutType): SoundEffect | null => {
+        const wanted = AUTO_SFX_CATEGORY[cutType];
+        const category = library.some(e => e.category === wanted) ? wanted : 'click';
+        const clips = library.filter(e => e.category === category);
+        if (clips.length === 0) return null;
+        const count = used[category] ?? 0;
+        used[category] = count + 1;
+        return clips[count % clips.length];
+    };
+    const pick = (choice: SfxChoice | undefined, cutType: SfxCutType): SoundEffect | null => {
+        if (choice === 'none') return null;
+        if (choice && choice !== 'auto') {
+            const chosen = library.find(e => e.id === choice);
+            if (chosen) return chosen;
+        }
+        return pickAuto(cutType);
+    };
+
+    const cues: SfxCue[] = [];
+    const addCue = (effect: SoundEffect | null, cutTime: number, cutType: SfxCutType) => {
+        if (!effect) return;
+        // Risers build up to the cut instead of starting on it
+        const time = effect.category === 'riser' && effect.duration ? Math.max(0, cutTime - effect.duration) : cutTime;
+        cues.push({ time, url: effect.url, volume: effect.volume, duration: effect.duration, cutType });
+    };
+
+    let sceneStart = 0;
+    scenes.forEach((scene, index) => {
+        const previous = scenes[index - 1];
+        const cutType: SfxCutType = index === 0
+            ? 'open'
+            : previous.kind && scene.kind && previous.kind !== scene.kind ? 'switch' : 'scene';
+        addCue(pick(scene.transitionSfx, cutType), sceneStart, cutType);
+
+        for (const offset of scene.cutOffsets || []) {
+            if (offset > 0 && offset < scene.duration) {
+                addCue(pick(scene.cutSfx, 'cut'), sceneStart + offset, 'cut');
+            }
+        }
+        sceneStart += scene.duration;
+    });
+
+    return cues.sort((a, b) => a.time - b.time);
+}
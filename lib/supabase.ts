@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import type { WordTiming } from '@/lib/wordTimings';
+import type { CaptionStyle } from '@/lib/captionStyles';
+import type { VideoProject } from '@/lib/videoProject';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -52,6 +55,18 @@ export interface DbVideo {
     has_captions: boolean;
     has_music: boolean;
     thumbnail_url?: string;
+    // Caption export data (see video_captions_migration.sql)
+    word_timings?: WordTiming[] | null;
+    caption_style?: CaptionStyle | null;
+    aspect_ratio?: string | null;
+    // Dubbing (see video_dubbing_migration.sql)
+    voice_embedding_url?: string | null;
+    language?: string | null;
+    parent_video_id?: string | null;
+    // Job that rendered the video (see job_finalize_migration.sql)
+    job_id?: string | null;
+    // Spec of that job, for editing (see video_project_migration.sql)
+    project?: VideoProject | null;
     created_at: string;
 }
 
@@ -64,8 +79,12 @@ export interface DbVoice {
     name?: string;
     ref_text?: string;  // Transcription for F5 TTS (prevents ASR bleed)
     qwen_embedding_url?: string;  // Qwen 3 TTS speaker embedding URL
+    cleaned_sample_url?: string | null;  // Pre-processed copy of voice_sample_url
+    embedding_source?: 'original' | 'cleaned' | null;  // Sample the embedding was cloned from
+    tags?: string[];
     is_active: boolean;
     created_at: string;
+    updated_at?: string;
 }
 
 export interface DbAvatar {
@@ -94,8 +113,8 @@ export interface DbVideoDraft {
 export interface DbVideoJob {
     id: string;
     user_id: string;
-    job_type?: 'face' | 'faceless'; // Type of job for resume functionality
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    job_type?: 'face' | 'faceless' | 'typography'; // Type of job for resume functionality
+    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'paused';
     progress: number;
     progress_message: string;
     input_data: {
@@ -112,9 +131,11 @@ export interface DbVideoJob {
         duration: number;
     };
     error?: string;
+    // Set when the job is cancelled (see lib/jobs/cancel.ts)
+    cancelled_at?: string | null;
+    credits_refunded?: number | null;
     created_at: string;
     updated_at: string;
-    is_processing?: boolean;
 }
 
 
@@ -224,7 +245,7 @@ export async function saveVideo(
 export async function getVideos(userId: string): Promise<DbVideo[]> {
     const { data } = await supabase
         .from('videos')
-        .select('id, user_id, script, topic, mode, duration, has_captions, has_music, thumbnail_url, created_at')
+        .select('id, user_id, script, topic, mode, duration, has_captions, has_music, thumbnail_url, language, parent_video_id, created_at')
         .eq('user_id', userId)
         .order('created_at', { ascending: false })
         .limit(20);
@@ -284,6 +305,8 @@ export async function saveVoice(
     refText?: string,
     options: {
         qwenEmbeddingUrl?: string;
+        cleanedSampleUrl?: string;
+        embeddingSource?: 'original' | 'cleaned';
     } = {},
     client: any = supabase
 ): Promise<DbVoice | null> {
@@ -312,6 +335,8 @@ export async function saveVoice(
             name: name || 'My Voice',
             ref_text: refText || null,
             qwen_embedding_url: options.qwenEmbeddingUrl || null,
+            cleaned_sample_url: options.cleanedSampleUrl || null,
+            embedding_source: options.embeddingSource || null,
             is_active: true,
         })
         .select()
@@ -659,11 +684,10 @@ export async function deleteDraft(draftId: string): Promise<void> {
 // VIDEO JOBS FUNCTIONS (for in-progress face videos)
 // ==========================================
 
-const STALE_JOB_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes - if no update in 15 min, job is stale
 const ABANDONED_JOB_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes - mark as failed
 
 // Get active (processing) video jobs for a user
-// Also cleans up stale jobs that are stuck in processing
+// Also fails jobs that have been stuck in processing for too long
 export async function getActiveVideoJobs(userId: string): Promise<DbVideoJob[]> {
     const { data, error } = await supabase
         .from('video_jobs')
@@ -694,23 +718,12 @@ export async function getActiveVideoJobs(userId: string): Promise<DbVideoJob[]>
                 .from('video_jobs')
                 .update({
                     status: 'failed',
-                    error: 'Job timed out - no progress for 30 minutes',
-                    is_processing: false
+                    error: 'Job timed out - no progress for 30 minutes'
                 })
                 .eq('id', job.id);
             continue; // Don't include in results
         }
 
-        // If job is stale (>15 min) but not abandoned, reset lock so it can be resumed
-        if (age > STALE_JOB_TIMEOUT_MS && job.is_processing) {
-            console.log(`[Cleanup] Resetting stale lock on job ${job.id} (age: ${Math.round(age / 60000)}min)`);
-            await supabase
-                .from('video_jobs')
-                .update({ is_processing: false })
-                .eq('id', job.id);
-            job.is_processing = false;
-        }
-
         validJobs.push(job);
     }
 
@@ -809,116 +822,3 @@ export async function hasEnoughCredits(userId: string, amount: number): Promise<
     return credits !== null && credits.balance >= amount;
 }
 
-/**
- * Deduct credits from a user's balance (atomic operation)
- * Returns the updated balance or null if insufficient credits
- */
-export async function deductCredits(
-    userId: string,
-    amount: number,
-    description: string,
-    metadata?: Record<string, unknown>
-): Promise<{ success: boolean; balance: number; error?: string }> {
-    // Get current balance
-    const credits = await getUserCredits(userId);
-
-    if (!credits) {
-        return { success: false, balance: 0, error: 'Could not get user credits' };
-    }
-
-    if (credits.balance < amount) {
-        return {
-            success: false,
-            balance: credits.balance,
-            error: `Insufficient credits. Need ${amount}, have ${credits.balance}`
-        };
-    }
-
-    const newBalance = credits.balance - amount;
-    const newLifetimeUsed = (credits.lifetime_used || 0) + amount;
-
-    // Update balance
-    const { error: updateError } = await supabase
-        .from('user_credits')
-        .update({
-            balance: newBalance,
-            lifetime_used: newLifetimeUsed,
-            updated_at: new Date().toISOString()
-        })
-        .eq('user_id', userId);
-
-    if (updateError) {
-        console.error('Error deducting credits:', updateError);
-        return { success: false, balance: credits.balance, error: 'Failed to update balance' };
-    }
-
-    // Log transaction
-    console.log(`[deductCredits] Logging transaction: user=${userId}, amount=-${amount}, balance_after=${newBalance}`);
-    const { error: txError } = await supabase.from('credit_transactions').insert({
-        user_id: userId,
-        amount: -amount, // negative for deduction
-        balance_after: newBalance,
-        type: 'usage',
-        description,
-        metadata: metadata || {}
-    });
-
-    if (txError) {
-        console.error('[deductCredits] Failed to log transaction:', txError);
-        // Still return success since credits were deducted, but log the error
-    } else {
-        console.log(`[deductCredits] ✅ Transaction logged successfully`);
-    }
-
-    console.log(`[deductCredits] ✅ Deducted ${amount} credits from user ${userId}. New balance: ${newBalance}`);
-    return { success: true, balance: newBalance };
-}
-
-/**
- * Add credits to a user's balance
- */
-export async function addCredits(
-    userId: string,
-    amount: number,
-    type: 'purchase' | 'refund' | 'bonus',
-    description: string,
-    metadata?: Record<string, unknown>
-): Promise<{ success: boolean; balance: number }> {
-    const credits = await getUserCredits(userId);
-
-    if (!credits) {
-        return { success: false, balance: 0 };
-    }
-
-    const newBalance = credits.balance + amount;
-    const updateData: Record<string, unknown> = {
-        balance: newBalance,
-        updated_at: new Date().toISOString()
-    };
-
-    if (type === 'purchase') {
-        updateData.lifetime_purchased = (credits.lifetime_purchased || 0) + amount;
-    }
-
-    const { error: updateError } = await supabase
-        .from('user_credits')
-        .update(updateData)
-        .eq('user_id', userId);
-
-    if (updateError) {
-        console.error('Error adding credits:', updateError);
-        return { success: false, balance: credits.balance };
-    }
-
-    // Log transaction
-    await supabase.from('credit_transactions').insert({
-        user_id: userId,
-        amount,
-        balance_after: newBalance,
-        type,
-        description,
-        metadata: metadata || {}
-    });
-
-    return { success: true, balance: newBalance };
-}
@@ -0,0 +1,65 @@
+/**
+ * Script translation for dubbing (Gemini)
+ *
+ * Translates a video's scene texts in one request so terminology stays
+ * consistent across scenes. Target languages are listed in lib/dubbing.ts.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { getGeminiApiKey } from '@/lib/config';
+import type { DubLanguage } from '@/lib/dubbing';
+
+const TRANSLATION_MODEL = 'gemini-3-flash-preview';
+
+/**
+ * Translate scene narration into the target language, one output per scene.
+ * Throws if the model does not return exactly one translation per scene.
+ */
+export async function translateScenes(texts: string[], language: DubLanguage): Promise<string[]> {
+    const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
+
+    const prompt = `Translate the narration of these video scenes into ${language}.
+
+SCENES (JSON):
+${JSON.stringify(texts)}
+
+OUTPUT FORMAT (JSON only):
+{
+  "scenes": ["translated scene 1", "translated scene 2"]
+}
+
+RULES:
+1. Return exactly ${texts.length} scenes, in the same order
+2. Keep each scene's meaning and tone; it will be spoken as a voice-over
+3. Keep roughly the same length so the video pacing stays similar
+4. Keep brand and product names unchanged
+5. Write numbers the way a narrator would say them
+
+CRITICAL: Output ONLY valid JSON. No text before or after. No markdown code blocks.`;
+
+    const response = await ai.models.generateContent({
+        model: TRANSLATION_MODEL,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }]
+    });
+
+    const raw = (response.text || '').trim()
+        .replace(/```json\s*/g, '')
+        .replace(/```\s*/g, '');
+    const jsonMatch = raw.match(/\{[\s\S]*"scenes"[\s\S]*\}/);
+
+    let parsed: { scenes?: unknown };
+    try {
+        parsed = JSON.parse(jsonMatch ? jsonMatch[0] : raw);
+    } catch {
+        console.error('[Translation] Unparseable response:', raw.slice(0, 300));
+        throw new Error('Translation returned invalid JSON');
+    }
+
+    const scenes = Array.isArray(parsed.scenes) ? parsed.scenes : [];
+    if (scenes.length !== texts.length || scenes.some(s => typeof s !== 'string' || !s.trim())) {
+        throw new Error(`Translation returned ${scenes.length} scenes, expected ${texts.length}`);
+    }
+
+    console.log(`🌍 [Translation] Translated ${texts.length} scenes into ${language}`);
+    return (scenes as string[]).map(s => s.trim());
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectScene, VideoProject, buildVideoProject, reusableScenes } from './videoProject';
+
+const VOICE = 'https://example.com/voices/embedding.pt';
+
+const FACELESS_SCENES = [
+    { text: 'First scene', assetUrl: 'https://example.com/a.jpg' },
+    { text: 'Second scene', assetUrl: 'https://example.com/b.mp4', voice: 'Ryan', speed: 1.1 },
+    { text: 'Third scene', assetUrl: 'https://example.com/c.jpg', transition: 'crossfade' }
+];
+
+function processed(scenes: Record<string, any>[]): ProjectScene[] {
+    return scenes.map((scene, index) => ({
+        index,
+        text: scene.text,
+        duration: 3,
+        audioUrl: `https://example.com/audio/${index}.mp3`,
+        assetUrl: scene.assetUrl
+    }));
+}
+
+function facelessProject(input: Record<string, any> = {}): VideoProject {
+    return buildVideoProject('faceless', { voiceEmbeddingUrl: VOICE, scenes: FACELESS_SCENES, ...input }, processed(FACELESS_SCENES));
+}
+
+// New job input with scene `index` changed by `edit`
+function withEdit(index: number, edit: Record<string, any>): Record<string, any> {
+    return { voiceEmbeddingUrl: VOICE, scenes: FACELESS_SCENES.map((scene, i) => i === index ? { ...scene, ...edit } : scene) };
+}
+
+const audioOf = (scenes: ProjectScene[]) => scenes.map(scene => [scene.index, scene.audioUrl]);
+
+describe('reusableScenes', () => {
+    it('reuses every scene of an unchanged project', () => {
+        const reused = reusableScenes(facelessProject(), 'faceless', withEdit(0, {}));
+        expect(audioOf(reused)).toEqual([
+            [0, 'https://example.com/audio/0.mp3'],
+            [1, 'https://example.com/audio/1.mp3'],
+            [2, 'https://example.com/audio/2.mp3']
+        ]);
+        expect(reused.every(scene => scene.reused && !scene.cached)).toBe(true);
+    });
+
+    it.each([
+        ['text', { text: 'First scene, rewritten' }],
+        ['voice', { voice: 'Serena' }],
+        ['speed', { speed: 1.25 }],
+        ['asset', { assetUrl: 'https://example.com/z.jpg' }],
+        ['pause', { pauseBefore: 0.5 }]
+    ])('generates a scene again when its %s was edited', (_, edit) => {
+        const reused = reusableScenes(facelessProject(), 'faceless', withEdit(0, edit));
+        expect(reused.map(scene => scene.index)).toEqual([1, 2]);
+    });
+
+    it('treats a removed voice or speed override as an edit', () => {
+        const reused = reusableScenes(facelessProject(), 'faceless', withEdit(1, { voice: undefined, speed: undefined }));
+        expect(reused.map(scene => scene.index)).toEqual([0, 2]);
+    });
+
+    it('still reuses a scene whose render-time settings changed', () => {
+        const reused = reusableScenes(facelessProject(), 'faceless', withEdit(2, { transition: 'slide', kenBurns: 'zoom-in' }));
+        expect(reused.map(scene => scene.index)).toEqual([0, 1, 2]);
+    });
+
+    it('moves reordered scenes to their new positions', () => {
+        const input = { voiceEmbeddingUrl: VOICE, scenes: [FACELESS_SCENES[2], FACELESS_SCENES[0], FACELESS_SCENES[1]] };
+        expect(audioOf(reusableScenes(facelessProject(), 'faceless', input))).toEqual([
+            [0, 'https://example.com/audio/2.mp3'],
+            [1, 'https://example.com/audio/0.mp3'],
+            [2, 'https://example.com/audio/1.mp3']
+        ]);
+    });
+
+    it('reuses a duplicated scene only once', () => {
+        const input = { voiceEmbeddingUrl: VOICE, scenes: [FACELESS_SCENES[0], FACELESS_SCENES[0]] };
+        expect(reusableScenes(facelessProject(), 'faceless', input).map(scene => scene.index)).toEqual([0]);
+    });
+
+    it('reuses nothing across job types, languages or without a recorded voice', () => {
+        expect(reusableScenes(facelessProject(), 'face', withEdit(0, {}))).toEqual([]);
+        expect(reusableScenes(facelessProject(), 'faceless', { ...withEdit(0, {}), language: 'es' })).toEqual([]);
+        expect(reusableScenes(facelessProject({ voiceEmbeddingUrl: undefined }), 'faceless', withEdit(0, {}))).toEqual([]);
+    });
+
+    describe('face jobs', () => {
+        const FACE_SCENES = [
+            { type: 'face', text: 'Hello there' },
+            { type: 'asset', text: 'Look at this', assetUrl: 'https://example.com/b.jpg' }
+        ];
+        const project = buildVideoProject(
+            'face',
+            { voiceEmbeddingUrl: VOICE, faceImageUrl: 'https://example.com/face.jpg', scenes: FACE_SCENES },
+            FACE_SCENES.map((scene, index) => ({ index, text: scene.text, duration: 3, type: scene.type as 'face' | 'asset', clipUrl: `https://example.com/clip/${index}.mp4` }))
+        );
+        const input = (edit: Record<string, any>) => ({ voiceEmbeddingUrl: VOICE, faceImageUrl: 'https://example.com/face.jpg', scenes: FACE_SCENES, ...edit });
+
+        it('reuses unchanged face and asset scenes', () => {
+            expect(reusableScenes(project, 'face', input({})).map(scene => scene.clipUrl)).toEqual([
+                'https://example.com/clip/0.mp4',
+                'https://example.com/clip/1.mp4'
+            ]);
+        });
+
+        it('generates face scenes again for a new face image', () => {
+            expect(reusableScenes(project, 'face', input({ faceImageUrl: 'https://example.com/other.jpg' })).map(scene => scene.index)).toEqual([1]);
+        });
+
+        it('generates a scene again when its type changed', () => {
+            const scenes = [FACE_SCENES[0], { ...FACE_SCENES[1], type: 'face', assetUrl: undefined }];
+            expect(reusableScenes(project, 'face', input({ scenes })).map(scene => scene.index)).toEqual([0]);
+        });
+    });
+});
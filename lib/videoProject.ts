@@ -0,0 +1,161 @@
+/**
+ * Video projects (client-safe)
+ *
+ * A finished face or faceless video keeps the spec of the job that made it
+ * (see video_project_migration.sql): the job's input without its processing
+ * state, plus the processed scenes with their narration and clips. The
+ * dashboard reopens a project for editing, and a re-render (a job created
+ * with sourceVideoId) reuses the processed scenes whose inputs didn't
+ * change, so only edited scenes are narrated and generated again.
+ */
+
+import type { WordTiming } from '@/lib/wordTimings';
+
+export const VIDEO_PROJECT_VERSION = 1;
+
+export type ProjectJobType = 'face' | 'faceless';
+
+// A scene as the job processed it (the fields of both job types)
+export interface ProjectScene {
+    index: number;
+    text: string;
+    duration: number;
+    audioUrl?: string;
+    wordTimings?: WordTiming[];
+    // Faceless scenes
+    assetUrl?: string;
+    audioOffset?: number;
+    playbackRate?: number;
+    // Face job scenes
+    type?: 'face' | 'asset';
+    clipUrl?: string;
+    // Served from the generation cache, or reused from the source video
+    cached?: boolean;
+    reused?: boolean;
+}
+
+export interface VideoProject {
+    version: number;
+    jobType: ProjectJobType;
+    // The job's input_data without its processing state
+    input: Record<string, any>;
+    processedScenes: ProjectScene[];
+}
+
+// input_data fields written while the job runs (or per job), not part of the
+// spec. Only the server sets them; they are stripped from client payloads.
+export const JOB_STATE_FIELDS = [
+    'processedScenes',
+    'currentSceneIndex',
+    'activeSceneIndexes',
+    'pendingRender',
+    'pendingScene',
+    'pendingScenes',
+    'focalPoints',
+    'clipDurations',
+    'sceneAttempts',
+    'renderAttempts',
+    'failedRenderBackends',
+    'creditsCharged',
+    'creditReservationKey',
+    'sourceVideoId'
+];
+
+/**
+ * Project of a finished job. Faceless scenes take their uploaded asset URLs
+ * from the processed scenes, so no base64 upload is kept.
+ */
+export function buildVideoProject(
+    jobType: ProjectJobType,
+    inputData: Record<string, any>,
+    processedScenes: ProjectScene[]
+): VideoProject {
+    const input: Record<string, any> = { ...inputData };
+    for (const field of JOB_STATE_FIELDS) delete input[field];
+
+    if (jobType === 'faceless' && Array.isArray(input.scenes)) {
+        input.scenes = input.scenes.map((scene: Record<string, any>, i: number) => {
+            const processed = processedScenes.find(ps => ps.index === i);
+            return processed?.assetUrl ? { ...scene, assetUrl: processed.assetUrl } : scene;
+        });
+    }
+
+    return {
+        version: VIDEO_PROJECT_VERSION,
+        jobType,
+        input,
+        processedScenes: processedScenes.map(({ cached, reused, ...scene }) => scene)
+    };
+}
+
+// Everything a processed scene was made from. Other settings (sound effects,
+// transitions, Ken Burns) are applied at render time and can change freely.
+function sceneFingerprint(jobType: ProjectJobType, scene: Record<string, any>, input: Record<string, any>): string {
+    if (jobType === 'faceless') {
+        return JSON.stringify([
+            scene.text, scene.assetUrl, scene.voice ?? null, scene.speed ?? null,
+            scene.pauseBefore ?? null, scene.pauseAfter ?? null, scene.styleHint ?? null
+        ]);
+    }
+    return JSON.stringify([
+        scene.type, scene.text,
+        scene.type === 'face' ? input.faceImageUrl : scene.assetUrl ?? null
+    ]);
+}
+
+/**
+ * Processed scenes of `project` that a new job with `input` can reuse,
+ * re-indexed to their position in the new job. Nothing is reusable across
+ * job types or languages, or when the project doesn't record its voice.
+ */
+export function reusableScenes(
+    project: VideoProject,
+    jobType: ProjectJobType,
+    input: Record<string, any>
+): ProjectScene[] {
+    if (project.jobType !== jobType || !project.input.voiceEmbeddingUrl) return [];
+    if ((project.input.language || null) !== (input.language || null)) return [];
+
+    // Unused processed scenes by fingerprint, so a duplicated scene is only reused once
+    const available = new Map<string, ProjectScene[]>();
+    for (const scene of project.processedScenes) {
+        const original = project.input.scenes?.[scene.index];
+        if (!original) continue;
+        const key = sceneFingerprint(jobType, original, project.input);
+        available.set(key, [...(available.get(key) || []), scene]);
+    }
+
+    const reused: ProjectScene[] = [];
+    (input.scenes || []).forEach((scene: Record<string, any>, index: number) => {
+        const match = available.get(sceneFingerprint(jobType, scene || {}, input))?.shift();
+        if (match) reused.push({ ...match, index, cached: false, reused: true });
+    });
+    return reused;
+}
+
+/**
+ * Face job scenes for edited scene texts: each scene keeps the type and
+ * asset of the project scene at its position; added scenes alternate
+ * face and the project's assets.
+ */
+export function editedFaceScenes(
+    project: VideoProject,
+    scenes: Record<string, any>[]
+): Record<string, any>[] {
+    const originals: Record<string, any>[] = project.input.scenes || [];
+    const assetUrls = originals.filter(s => s.type === 'asset' && s.assetUrl).map(s => s.assetUrl as string);
+
+    return scenes.map((scene, i) => {
+        const original = originals[i];
+        const type = original?.type || (i % 2 === 1 && assetUrls.length > 0 ? 'asset' : 'face');
+        const assetUrl = type === 'asset' ? original?.assetUrl || assetUrls[i % Math.max(1, assetUrls.length)] : undefined;
+        return {
+            text: scene.text,
+            type: assetUrl ? type : 'face',
+            assetUrl,
+            transitionSfx: scene.transitionSfx ?? original?.transitionSfx,
+            transition: scene.transition ?? original?.transition,
+            kenBurns: assetUrl ? scene.kenBurns ?? original?.kenBurns : undefined
+        };
+    });
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateVoiceSample, measureVoiceSample, VoiceSampleIssueCode } from './voiceAnalysis';
+
+const SAMPLE_RATE = 48000;
+
+// Deterministic noise so results are stable
+function noiseSource(seed: number) {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296 * 2 - 1;
+    };
+}
+
+function sine(seconds: number, frequency: number, amplitude: number): Float32Array {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+    }
+    return samples;
+}
+
+// Syllable-like bursts (250 ms voiced, 100 ms gaps) over a faint noise bed
+function speechLike(seconds: number, amplitude: number, noiseAmplitude: number, clip = 1): Float32Array {
+    const noise = noiseSource(42);
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        const voiced = (t % 0.35) < 0.25;
+        const tone = voiced ? amplitude * (Math.sin(2 * Math.PI * 180 * t) + 0.5 * Math.sin(2 * Math.PI * 720 * t)) / 1.5 : 0;
+        samples[i] = Math.max(-clip, Math.min(clip, tone + noiseAmplitude * noise()));
+    }
+    return samples;
+}
+
+describe('measureVoiceSample loudness', () => {
+    // A 1 kHz sine at 0 dBFS reads -3.01 LUFS on a mono channel
+    it('reads a full-scale 1 kHz sine at -3 LUFS', () => {
+        expect(Math.abs(measureVoiceSample(sine(5, 1000, 1), SAMPLE_RATE).loudnessLufs - -3.0)).toBeLessThanOrEqual(0.2);
+    });
+
+    it('reads a -20 dBFS sine at -23 LUFS', () => {
+        expect(Math.abs(measureVoiceSample(sine(5, 1000, 0.1), SAMPLE_RATE).loudnessLufs - -23.0)).toBeLessThanOrEqual(0.2);
+    });
+});
+
+describe('evaluateVoiceSample', () => {
+    const cases: Array<{ name: string; samples: () => Float32Array; sampleRate?: number; canClone: boolean; codes: VoiceSampleIssueCode[] }> = [
+        { name: 'clean speech', samples: () => speechLike(20, 0.3, 0.001), canClone: true, codes: [] },
+        { name: 'quiet speech', samples: () => speechLike(20, 0.005, 0.0001), canClone: false, codes: ['too_quiet'] },
+        { name: 'clipped speech', samples: () => speechLike(20, 1.5, 0.001, 1), canClone: false, codes: ['clipping'] },
+        { name: 'noisy speech', samples: () => speechLike(20, 0.3, 0.05), canClone: false, codes: ['noisy'] },
+        { name: 'short speech', samples: () => speechLike(5, 0.3, 0.001), canClone: false, codes: ['too_short'] },
+        { name: 'mostly silence', samples: () => new Float32Array([...speechLike(6, 0.3, 0.001), ...new Float32Array(SAMPLE_RATE * 14)]), canClone: false, codes: ['too_much_silence', 'not_enough_speech'] },
+        { name: 'phone-rate audio', samples: () => speechLike(20, 0.3, 0.001).filter((_, i) => i % 6 === 0), sampleRate: 8000, canClone: false, codes: ['low_sample_rate'] }
+    ];
+
+    it.each(cases)('$name', testCase => {
+        const report = evaluateVoiceSample(measureVoiceSample(testCase.samples(), testCase.sampleRate || SAMPLE_RATE));
+        const codes = report.issues.map(issue => issue.code);
+
+        expect(report.canClone).toBe(testCase.canClone);
+        if (testCase.codes.length === 0) {
+            expect(codes).toEqual([]);
+        } else {
+            expect(codes).toEqual(expect.arrayContaining(testCase.codes));
+        }
+    });
+});
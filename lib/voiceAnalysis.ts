@@ -0,0 +1,325 @@
+/**
+ * Voice sample quality analysis
+ *
+ * Server-only (decodes with ffmpeg). Measures a voice sample before it is
+ * cloned so bad recordings are caught up front instead of showing up later
+ * as poor Qwen clones. Types are safe to import on the client.
+ *
+ * Thresholds default to VOICE_SAMPLE_DEFAULTS and can be overridden with
+ * VOICE_SAMPLE_* environment variables (see getVoiceSampleThresholds).
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+const execAsync = promisify(exec);
+
+// Only the first few minutes matter for cloning
+const MAX_ANALYZED_SECONDS = 180;
+// Frame size for noise floor, silence and speech detection
+const FRAME_SECONDS = 0.05;
+// Samples at or above this magnitude count as clipped
+const CLIP_LEVEL = 0.999;
+// Frames quieter than this are silence regardless of the noise floor
+const SILENCE_DBFS = -50;
+// Speech must be this far above the noise floor
+const SPEECH_ABOVE_NOISE_DB = 10;
+
+export interface VoiceSampleMetrics {
+    durationSeconds: number;
+    sampleRate: number;
+    // Integrated loudness (ITU-R BS.1770, gated)
+    loudnessLufs: number;
+    peakDbfs: number;
+    // Fraction of samples at full scale
+    clippingRatio: number;
+    // Level of the quietest 10% of frames
+    noiseFloorDbfs: number;
+    // Fraction of the sample that is (near) silent
+    silenceRatio: number;
+    // Fraction of the sample that contains speech
+    speechRatio: number;
+}
+
+export interface VoiceSampleThresholds {
+    minDurationSeconds: number;
+    maxDurationSeconds: number;
+    minSampleRate: number;
+    minLoudnessLufs: number;
+    maxLoudnessLufs: number;
+    maxClippingRatio: number;
+    maxNoiseFloorDbfs: number;
+    maxSilenceRatio: number;
+    minSpeechRatio: number;
+}
+
+export type VoiceSampleIssueCode =
+    'too_short' | 'too_long' | 'low_sample_rate' | 'too_quiet' | 'too_loud' |
+    'clipping' | 'noisy' | 'too_much_silence' | 'not_enough_speech';
+
+export interface VoiceSampleIssue {
+    code: VoiceSampleIssueCode;
+    // Errors block cloning; warnings are advice
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface VoiceSampleReport {
+    metrics: VoiceSampleMetrics;
+    issues: VoiceSampleIssue[];
+    canClone: boolean;
+}
+
+export const VOICE_SAMPLE_DEFAULTS: VoiceSampleThresholds = {
+    minDurationSeconds: 10,
+    maxDurationSeconds: 120,
+    minSampleRate: 16000,
+    minLoudnessLufs: -35,
+    maxLoudnessLufs: -8,
+    maxClippingRatio: 0.001,
+    maxNoiseFloorDbfs: -45,
+    maxSilenceRatio: 0.5,
+    minSpeechRatio: 0.4
+};
+
+const THRESHOLD_ENV: Record<keyof VoiceSampleThresholds, string> = {
+    minDurationSeconds: 'VOICE_SAMPLE_MIN_DURATION',
+    maxDurationSeconds: 'VOICE_SAMPLE_MAX_DURATION',
+    minSampleRate: 'VOICE_SAMPLE_MIN_SAMPLE_RATE',
+    minLoudnessLufs: 'VOICE_SAMPLE_MIN_LUFS',
+    maxLoudnessLufs: 'VOICE_SAMPLE_MAX_LUFS',
+    maxClippingRatio: 'VOICE_SAMPLE_MAX_CLIPPING',
+    maxNoiseFloorDbfs: 'VOICE_SAMPLE_MAX_NOISE_FLOOR',
+    maxSilenceRatio: 'VOICE_SAMPLE_MAX_SILENCE',
+    minSpeechRatio: 'VOICE_SAMPLE_MIN_SPEECH'
+};
+
+export function getVoiceSampleThresholds(): VoiceSampleThresholds {
+    const thresholds = { ...VOICE_SAMPLE_DEFAULTS };
+    for (const key of Object.keys(THRESHOLD_ENV) as Array<keyof VoiceSampleThresholds>) {
+        const value = Number(process.env[THRESHOLD_ENV[key]]);
+        if (process.env[THRESHOLD_ENV[key]] && Number.isFinite(value)) {
+            thresholds[key] = value;
+        }
+    }
+    return thresholds;
+}
+
+// ============ Measurement ============
+
+const toDb = (power: number) => power > 0 ? 10 * Math.log10(power) : -Infinity;
+
+// Biquad, direct form I (a[0] normalised to 1)
+function biquad(input: Float32Array, b: number[], a: number[]): Float32Array {
+    const out = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        out[i] = y;
+    }
+    return out;
+}
+
+// BS.1770 K-weighting (high shelf + high pass), with coefficients derived
+// for any sample rate the way libebur128 does
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+    // High shelf: +4 dB above ~1.7 kHz
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelved = biquad(samples, [
+        (Vh + Vb * K / Q + K * K) / a0,
+        2 * (K * K - Vh) / a0,
+        (Vh - Vb * K / Q + K * K) / a0
+    ], [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]);
+
+    // High pass at ~38 Hz
+    K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    return biquad(shelved, [1, -2, 1], [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]);
+}
+
+// Gated integrated loudness over 400 ms blocks with 75% overlap
+function integratedLoudness(samples: Float32Array, sampleRate: number): number {
+    const weighted = kWeight(samples, sampleRate);
+    const blockSize = Math.round(0.4 * sampleRate);
+    const step = Math.round(0.1 * sampleRate);
+    const blockPowers: number[] = [];
+
+    for (let start = 0; start + blockSize <= weighted.length; start += step) {
+        let sum = 0;
+        for (let i = start; i < start + blockSize; i++) sum += weighted[i] * weighted[i];
+        blockPowers.push(sum / blockSize);
+    }
+
+    const loudness = (power: number) => -0.691 + toDb(power);
+    const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+    const absoluteGated = blockPowers.filter(p => loudness(p) > -70);
+    if (absoluteGated.length === 0) return -Infinity;
+    const relativeGate = loudness(mean(absoluteGated)) - 10;
+    const gated = absoluteGated.filter(p => loudness(p) > relativeGate);
+    return loudness(mean(gated));
+}
+
+/**
+ * Measure decoded mono samples (-1..1)
+ */
+export function measureVoiceSample(samples: Float32Array, sampleRate: number): VoiceSampleMetrics {
+    let peak = 0;
+    let clipped = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const magnitude = Math.abs(samples[i]);
+        if (magnitude > peak) peak = magnitude;
+        if (magnitude >= CLIP_LEVEL) clipped++;
+    }
+
+    const frameSize = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+    const frameLevels: number[] = [];
+    for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+        let sum = 0;
+        for (let i = start; i < start + frameSize; i++) sum += samples[i] * samples[i];
+        frameLevels.push(toDb(sum / frameSize));
+    }
+
+    const sorted = [...frameLevels].sort((a, b) => a - b);
+    const noiseFloor = sorted.length > 0 ? sorted[Math.floor(sorted.length * 0.1)] : -Infinity;
+    const speechLevel = Math.max(noiseFloor + SPEECH_ABOVE_NOISE_DB, SILENCE_DBFS);
+    const frameCount = Math.max(1, frameLevels.length);
+
+    const round = (value: number, digits: number) => Number.isFinite(value) ? Number(value.toFixed(digits)) : -120;
+
+    return {
+        durationSeconds: round(samples.length / sampleRate, 2),
+        sampleRate,
+        loudnessLufs: round(integratedLoudness(samples, sampleRate), 1),
+        peakDbfs: round(20 * Math.log10(peak), 1),
+        clippingRatio: samples.length > 0 ? round(clipped / samples.length, 5) : 0,
+        noiseFloorDbfs: round(noiseFloor, 1),
+        silenceRatio: round(frameLevels.filter(level => level < SILENCE_DBFS).length / frameCount, 3),
+        speechRatio: round(frameLevels.filter(level => level >= speechLevel).length / frameCount, 3)
+    };
+}
+
+/**
+ * Compare metrics against thresholds and explain what to fix
+ */
+export function evaluateVoiceSample(
+    metrics: VoiceSampleMetrics,
+    thresholds: VoiceSampleThresholds = VOICE_SAMPLE_DEFAULTS
+): VoiceSampleReport {
+    const issues: VoiceSampleIssue[] = [];
+    const add = (code: VoiceSampleIssueCode, severity: VoiceSampleIssue['severity'], message: string) =>
+        issues.push({ code, severity, message });
+
+    if (metrics.durationSeconds < thresholds.minDurationSeconds) {
+        add('too_short', 'error', `Sample is ${metrics.durationSeconds.toFixed(1)}s. Record at least ${thresholds.minDurationSeconds} seconds of speech.`);
+    } else if (metrics.durationSeconds > thresholds.maxDurationSeconds) {
+        add('too_long', 'warning', `Only the first ${thresholds.maxDurationSeconds} seconds are needed. Trim the sample to your clearest speech.`);
+    }
+
+    if (metrics.sampleRate < thresholds.minSampleRate) {
+        add('low_sample_rate', 'error', `Sample rate is ${metrics.sampleRate} Hz. Use a recording of at least ${thresholds.minSampleRate} Hz (phone-call audio is too low).`);
+    }
+
+    if (metrics.loudnessLufs < thresholds.minLoudnessLufs) {
+        add('too_quiet', 'error', `Recording is too quiet (${metrics.loudnessLufs} LUFS). Move closer to the microphone or raise the input gain.`);
+    } else if (metrics.loudnessLufs > thresholds.maxLoudnessLufs) {
+        add('too_loud', 'warning', `Recording is very loud (${metrics.loudnessLufs} LUFS). Lower the input gain slightly.`);
+    }
+
+    if (metrics.clippingRatio > thresholds.maxClippingRatio) {
+        add('clipping', metrics.clippingRatio > thresholds.maxClippingRatio * 10 ? 'error' : 'warning',
+            `Audio is clipping (${(metrics.clippingRatio * 100).toFixed(2)}% of samples). Lower the input gain or speak further from the microphone.`);
+    }
+
+    if (metrics.noiseFloorDbfs > thresholds.maxNoiseFloorDbfs) {
+        add('noisy', metrics.noiseFloorDbfs > thresholds.maxNoiseFloorDbfs + 10 ? 'error' : 'warning',
+            `Background noise is high (${metrics.noiseFloorDbfs} dBFS). Record in a quieter room and turn off fans or music.`);
+    }
+
+    if (metrics.silenceRatio > thresholds.maxSilenceRatio) {
+        add('too_much_silence', 'warning', `${Math.round(metrics.silenceRatio * 100)}% of the sample is silence. Trim long pauses at the start and end.`);
+    }
+
+    if (metrics.speechRatio < thresholds.minSpeechRatio) {
+        add('not_enough_speech', 'error', `Only ${Math.round(metrics.speechRatio * 100)}% of the sample is speech. Talk continuously, reading a paragraph aloud works well.`);
+    }
+
+    return { metrics, issues, canClone: !issues.some(issue => issue.severity === 'error') };
+}
+
+// ============ Decoding ============
+
+/**
+ * Decode an audio file to mono float samples with ffmpeg, keeping its
+ * original sample rate (read from ffmpeg's stream info).
+ */
+async function decodeAudio(buffer: Buffer, fileName: string): Promise<{ samples: Float32Array; sampleRate: number }> {
+    const workDir = path.join(os.tmpdir(), `voice-analysis-${uuidv4()}`);
+    const ext = path.extname(fileName).replace(/[^.a-zA-Z0-9]/g, '') || '.audio';
+    const inputPath = path.join(workDir, `input${ext}`);
+    const outputPath = path.join(workDir, 'output.raw');
+
+    await fs.mkdir(workDir, { recursive: true });
+    try {
+        await fs.writeFile(inputPath, buffer);
+        const { stderr } = await execAsync(
+            `ffmpeg -y -hide_banner -i "${inputPath}" -t ${MAX_ANALYZED_SECONDS} -vn -ac 1 -f f32le -acodec pcm_f32le "${outputPath}"`,
+            { maxBuffer: 10 * 1024 * 1024 }
+        );
+
+        const rateMatch = stderr.match(/Stream #\d+:\d+.*Audio:.*?(\d+) Hz/);
+        if (!rateMatch) throw new Error('Could not read the sample rate');
+
+        const raw = await fs.readFile(outputPath);
+        // Copy out of the Buffer so the floats are 4-byte aligned
+        const samples = new Float32Array(raw.buffer.slice(raw.byteOffset, raw.byteOffset + Math.floor(raw.byteLength / 4) * 4));
+        return { samples, sampleRate: Number(rateMatch[1]) };
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true }).catch(() => { });
+    }
+}
+
+/**
+ * Decode, measure and evaluate a voice sample
+ */
+export async function analyzeVoiceSample(buffer: Buffer, fileName: string): Promise<VoiceSampleReport> {
+    const { samples, sampleRate } = await decodeAudio(buffer, fileName);
+    const report = evaluateVoiceSample(measureVoiceSample(samples, sampleRate), getVoiceSampleThresholds());
+    const { metrics } = report;
+    console.log(`🔬 [VoiceAnalysis] ${metrics.durationSeconds}s @ ${metrics.sampleRate} Hz, ${metrics.loudnessLufs} LUFS, noise ${metrics.noiseFloorDbfs} dBFS, speech ${Math.round(metrics.speechRatio * 100)}% -> ${report.canClone ? 'ok' : 'blocked'} (${report.issues.length} issues)`);
+    return report;
+}
+
+/**
+ * Analyze a sample that is about to be cloned. Returns null (and lets
+ * cloning go ahead) if the analyzer itself fails, e.g. ffmpeg is missing
+ * or the format can't be decoded; Qwen will reject truly broken audio.
+ */
+export async function screenVoiceSample(buffer: Buffer, fileName: string): Promise<VoiceSampleReport | null> {
+    try {
+        return await analyzeVoiceSample(buffer, fileName);
+    } catch (error) {
+        console.error('[VoiceAnalysis] Analysis failed, skipping quality check:', error);
+        return null;
+    }
+}
+
+/**
+ * Message for a sample that failed screening (its first blocking issue)
+ */
+export function describeRejectedSample(report: VoiceSampleReport): string {
+    const blocking = report.issues.find(issue => issue.severity === 'error');
+    return blocking ? `Voice sample rejected: ${blocking.message}` : 'Voice sample rejected';
+}
@@ -0,0 +1,255 @@
+/**
+ * Voice library (see voice_library_migration.sql)
+ *
+ * Server-only. Rename, tag, re-record and delete a user's cloned voices, and
+ * create their Qwen embeddings and preview clips up front instead of leaving
+ * it to JIT cloning at render time. Samples (original and cleaned, see
+ * lib/voicePreprocessing.ts) and previews live in the 'voices' storage
+ * bucket and are removed when a voice is deleted.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { cloneVoiceWithQwen, generateSpeechWithQwen } from '@/lib/fal';
+import { preprocessVoiceSample, type VoiceSampleSource } from '@/lib/voicePreprocessing';
+import type { DbVoice } from '@/lib/supabase';
+
+const VOICES_BUCKET = 'voices';
+
+// Same sentence for every preview so voices can be compared side by side
+export const VOICE_PREVIEW_TEXT = 'Hi there! This is how I sound when I narrate your videos. Clear, natural, and ready to go.';
+
+export const VOICE_NAME_MAX = 60;
+export const VOICE_TAGS_MAX = 10;
+export const VOICE_TAG_MAX_LENGTH = 24;
+
+/**
+ * Normalise tags (trimmed, lowercase, unique). Returns null if invalid.
+ */
+export function normalizeVoiceTags(tags: unknown): string[] | null {
+    if (!Array.isArray(tags) || tags.some(t => typeof t !== 'string')) return null;
+    const normalized = Array.from(new Set((tags as string[]).map(t => t.trim().toLowerCase()).filter(Boolean)));
+    if (normalized.length > VOICE_TAGS_MAX || normalized.some(t => t.length > VOICE_TAG_MAX_LENGTH)) return null;
+    return normalized;
+}
+
+// Object path of a public URL in the voices bucket, or null for files
+// stored elsewhere (FAL storage, legacy MiniMax previews)
+function voiceStoragePath(url: string | null | undefined): string | null {
+    if (!url) return null;
+    const marker = `/storage/v1/object/public/${VOICES_BUCKET}/`;
+    const index = url.indexOf(marker);
+    return index >= 0 ? decodeURIComponent(url.slice(index + marker.length).split('?')[0]) : null;
+}
+
+async function removeVoiceFiles(urls: Array<string | null | undefined>): Promise<void> {
+    const paths = Array.from(new Set(urls.map(voiceStoragePath).filter((p): p is string => Boolean(p))));
+    if (paths.length === 0) return;
+
+    const { error } = await getSupabaseAdmin().storage.from(VOICES_BUCKET).remove(paths);
+    if (error) {
+        console.error('[VoiceLibrary] Failed to remove voice files:', error);
+    }
+}
+
+async function uploadVoiceFile(path: string, buffer: Buffer, contentType: string): Promise<string> {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.storage
+        .from(VOICES_BUCKET)
+        .upload(path, buffer, { contentType, upsert: true });
+
+    if (error) {
+        throw new Error(`Failed to upload voice file: ${error.message}`);
+    }
+    return supabase.storage.from(VOICES_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Clean a sample and store it next to the original. Returns null if
+ * cleaning fails (e.g. ffmpeg is missing) so cloning can fall back to the
+ * original.
+ */
+export async function storeCleanedSample(
+    userId: string,
+    sample: { buffer: Buffer; fileName: string }
+): Promise<string | null> {
+    try {
+        const cleaned = await preprocessVoiceSample(sample.buffer, sample.fileName);
+        return await uploadVoiceFile(`cleaned/${userId}_${uuidv4()}.wav`, cleaned, 'audio/wav');
+    } catch (error) {
+        console.error('[VoiceLibrary] Sample cleaning failed, using the original:', error);
+        return null;
+    }
+}
+
+export async function listVoices(userId: string): Promise<DbVoice[]> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('voices')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('[VoiceLibrary] Failed to list voices:', error);
+        return [];
+    }
+    return data || [];
+}
+
+export async function getOwnedVoice(userId: string, voiceId: string): Promise<DbVoice | null> {
+    const { data } = await getSupabaseAdmin()
+        .from('voices')
+        .select('*')
+        .eq('id', voiceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+    return data;
+}
+
+async function updateVoice(voiceId: string, updates: Record<string, unknown>): Promise<DbVoice | null> {
+    const { data, error } = await getSupabaseAdmin()
+        .from('voices')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', voiceId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[VoiceLibrary] Failed to update voice:', error);
+        return null;
+    }
+    return data;
+}
+
+export async function updateVoiceDetails(
+    voice: DbVoice,
+    updates: { name?: string; tags?: string[] }
+): Promise<DbVoice | null> {
+    return updateVoice(voice.id, updates);
+}
+
+/**
+ * Clone one of the voice's samples into a fresh Qwen embedding. Uses the
+ * cleaned sample when there is one unless a source is given; asking for
+ * 'cleaned' on an older voice cleans its original first.
+ */
+export async function regenerateVoiceEmbedding(voice: DbVoice, source?: VoiceSampleSource): Promise<DbVoice | null> {
+    let cleanedUrl = voice.cleaned_sample_url || null;
+    if (source === 'cleaned' && !cleanedUrl) {
+        const response = await fetch(voice.voice_sample_url);
+        if (!response.ok) throw new Error(`Failed to download voice sample: ${response.statusText}`);
+        cleanedUrl = await storeCleanedSample(voice.user_id, {
+            buffer: Buffer.from(await response.arrayBuffer()),
+            fileName: new URL(voice.voice_sample_url).pathname.split('/').pop() || 'audio.mp3'
+        });
+        if (!cleanedUrl) throw new Error('Could not clean the voice sample');
+    }
+
+    const embeddingSource: VoiceSampleSource = source || (cleanedUrl ? 'cleaned' : 'original');
+    const sampleUrl = embeddingSource === 'cleaned' && cleanedUrl ? cleanedUrl : voice.voice_sample_url;
+
+    console.log(`🧬 [VoiceLibrary] Re-cloning voice ${voice.id} from its ${embeddingSource} sample`);
+    const { embeddingUrl } = await cloneVoiceWithQwen(sampleUrl, voice.ref_text || undefined);
+    return updateVoice(voice.id, {
+        qwen_embedding_url: embeddingUrl,
+        cleaned_sample_url: cleanedUrl,
+        embedding_source: embeddingSource
+    });
+}
+
+/**
+ * Speak VOICE_PREVIEW_TEXT with the voice and store the clip as its preview.
+ * Clones the voice first if it has no embedding yet.
+ */
+export async function generateVoicePreview(voice: DbVoice): Promise<DbVoice | null> {
+    let current: DbVoice | null = voice;
+    if (!current.qwen_embedding_url) {
+        current = await regenerateVoiceEmbedding(current);
+        if (!current?.qwen_embedding_url) return null;
+    }
+
+    console.log(`🔊 [VoiceLibrary] Generating preview for voice ${current.id}`);
+    const { audioUrl } = await generateSpeechWithQwen(VOICE_PREVIEW_TEXT, {
+        embeddingUrl: current.qwen_embedding_url
+    });
+
+    // FAL URLs expire, so keep a copy in our bucket
+    const response = await fetch(audioUrl);
+    if (!response.ok) throw new Error(`Failed to download preview: ${response.statusText}`);
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const previewUrl = await uploadVoiceFile(
+        `previews/${current.user_id}/${current.id}_${Date.now()}.wav`,
+        buffer,
+        response.headers.get('content-type') || 'audio/wav'
+    );
+
+    const updated = await updateVoice(current.id, { preview_url: previewUrl });
+    // Older voices used the sample itself as their preview
+    if (updated && voice.preview_url !== voice.voice_sample_url) {
+        await removeVoiceFiles([voice.preview_url]);
+    }
+    return updated;
+}
+
+/**
+ * Replace a voice's sample (re-recording), clean it and re-clone it. The
+ * old samples and preview are removed.
+ */
+export async function replaceVoiceSample(
+    voice: DbVoice,
+    sample: { buffer: Buffer; fileName: string; contentType: string },
+    refText?: string
+): Promise<DbVoice | null> {
+    const ext = sample.fileName.split('.').pop()?.toLowerCase() || 'mp3';
+    const sampleUrl = await uploadVoiceFile(`uploads/${voice.user_id}_${uuidv4()}.${ext}`, sample.buffer, sample.contentType);
+
+    const cleanedUrl = await storeCleanedSample(voice.user_id, sample);
+
+    const { embeddingUrl } = await cloneVoiceWithQwen(cleanedUrl || sampleUrl, refText);
+    const updated = await updateVoice(voice.id, {
+        voice_sample_url: sampleUrl,
+        cleaned_sample_url: cleanedUrl,
+        embedding_source: cleanedUrl ? 'cleaned' : 'original',
+        // The old transcript and preview belong to the old sample
+        ref_text: refText || null,
+        qwen_embedding_url: embeddingUrl,
+        preview_url: null
+    });
+
+    if (updated) {
+        await removeVoiceFiles([voice.voice_sample_url, voice.cleaned_sample_url, voice.preview_url]);
+    } else {
+        await removeVoiceFiles([sampleUrl, cleanedUrl]);
+    }
+    return updated;
+}
+
+/**
+ * Delete a voice and its stored samples and preview. If it was the active
+ * voice, the most recent remaining voice becomes active.
+ */
+export async function deleteVoiceWithFiles(voice: DbVoice): Promise<boolean> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+        .from('voices')
+        .delete()
+        .eq('id', voice.id)
+        .eq('user_id', voice.user_id)
+        .select('id');
+
+    if (error || !data || data.length === 0) {
+        if (error) console.error('[VoiceLibrary] Failed to delete voice:', error);
+        return false;
+    }
+
+    await removeVoiceFiles([voice.voice_sample_url, voice.cleaned_sample_url, voice.preview_url]);
+
+    if (voice.is_active) {
+        const [next] = await listVoices(voice.user_id);
+        if (next) await updateVoice(next.id, { is_active: true });
+    }
+
+    console.log(`🗑️ [VoiceLibrary] Deleted voice ${voice.id}`);
+    return true;
+}
@@ -0,0 +1,127 @@
+/**
+ * Voice sample pre-processing (see voice_preprocessing_migration.sql)
+ *
+ * Server-only (uses ffmpeg). Cleans a voice sample before it is cloned:
+ * high-pass filter, spectral noise reduction, leading/trailing silence
+ * trimming, loudness normalisation and resampling to the rate Qwen TTS
+ * works at. The cleaned sample is stored next to the original
+ * (voices.cleaned_sample_url) so clones from either can be compared.
+ *
+ * Settings default to VOICE_CLEANING_DEFAULTS and can be overridden with
+ * VOICE_CLEAN_* environment variables (see getVoiceCleaningSettings).
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+const execAsync = promisify(exec);
+
+// Which stored sample a voice's embedding was cloned from
+export type VoiceSampleSource = 'original' | 'cleaned';
+
+export interface VoiceCleaningSettings {
+    // Integrated loudness target (LUFS)
+    targetLufs: number;
+    // True peak ceiling (dBTP)
+    truePeakDb: number;
+    // Rumble below this is removed
+    highpassHz: number;
+    // How much noise afftdn removes (dB)
+    noiseReductionDb: number;
+    // Leading/trailing audio quieter than this is trimmed (dBFS)
+    silenceThresholdDb: number;
+    // Output sample rate (Qwen TTS works at 24 kHz)
+    sampleRate: number;
+}
+
+export const VOICE_CLEANING_DEFAULTS: VoiceCleaningSettings = {
+    targetLufs: -20,
+    truePeakDb: -1.5,
+    highpassHz: 80,
+    noiseReductionDb: 12,
+    silenceThresholdDb: -45,
+    sampleRate: 24000
+};
+
+const SETTING_ENV: Record<keyof VoiceCleaningSettings, string> = {
+    targetLufs: 'VOICE_CLEAN_TARGET_LUFS',
+    truePeakDb: 'VOICE_CLEAN_TRUE_PEAK',
+    highpassHz: 'VOICE_CLEAN_HIGHPASS_HZ',
+    noiseReductionDb: 'VOICE_CLEAN_NOISE_REDUCTION',
+    silenceThresholdDb: 'VOICE_CLEAN_SILENCE_THRESHOLD',
+    sampleRate: 'VOICE_CLEAN_SAMPLE_RATE'
+};
+
+export function getVoiceCleaningSettings(): VoiceCleaningSettings {
+    const settings = { ...VOICE_CLEANING_DEFAULTS };
+    for (const key of Object.keys(SETTING_ENV) as Array<keyof VoiceCleaningSettings>) {
+        const value = Number(process.env[SETTING_ENV[key]]);
+        if (process.env[SETTING_ENV[key]] && Number.isFinite(value)) {
+            settings[key] = value;
+        }
+    }
+    return settings;
+}
+
+/**
+ * ffmpeg filter chain for the settings. Trailing silence is trimmed by
+ * reversing, trimming the (new) start and reversing back.
+ */
+export function buildCleaningFilter(settings: VoiceCleaningSettings): string {
+    const trim = `silenceremove=start_periods=1:start_duration=0.05:start_threshold=${settings.silenceThresholdDb}dB:start_silence=0.15`;
+    return [
+        `highpass=f=${settings.highpassHz}`,
+        `afftdn=nr=${settings.noiseReductionDb}:nf=-50`,
+        trim,
+        'areverse',
+        trim,
+        'areverse',
+        `loudnorm=I=${settings.targetLufs}:TP=${settings.truePeakDb}:LRA=11`,
+        // loudnorm upsamples internally
+        `aresample=${settings.sampleRate}`
+    ].join(',');
+}
+
+/**
+ * Clean a voice sample. Returns a mono 16-bit WAV.
+ */
+export async function preprocessVoiceSample(
+    buffer: Buffer,
+    fileName: string,
+    settings: VoiceCleaningSettings = getVoiceCleaningSettings()
+): Promise<Buffer> {
+    const workDir = path.join(os.tmpdir(), `voice-clean-${uuidv4()}`);
+    const ext = path.extname(fileName).replace(/[^.a-zA-Z0-9]/g, '') || '.audio';
+    const inputPath = path.join(workDir, `input${ext}`);
+    const outputPath = path.join(workDir, 'cleaned.wav');
+
+    await fs.mkdir(workDir, { recursive: true });
+    try {
+        await fs.writeFile(inputPath, buffer);
+        await execAsync(
+            `ffmpeg -y -hide_banner -i "${inputPath}" -vn -ac 1 -af "${buildCleaningFilter(settings)}" -c:a pcm_s16le "${outputPath}"`,
+            { maxBuffer: 10 * 1024 * 1024 }
+        );
+
+        const cleaned = await fs.readFile(outputPath);
+        // A WAV header alone means everything was trimmed away
+        if (cleaned.length <= 44) {
+            throw new Error('Cleaned sample is empty');
+        }
+        console.log(`🧼 [VoicePreprocessing] ${fileName}: ${buffer.length} -> ${cleaned.length} bytes @ ${settings.sampleRate} Hz, ${settings.targetLufs} LUFS`);
+        return cleaned;
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true }).catch(() => { });
+    }
+}
+
+/**
+ * The sample a voice should be cloned from: the cleaned one when there is one
+ */
+export function cloneSampleUrl(voice: { voice_sample_url: string; cleaned_sample_url?: string | null }): string {
+    return voice.cleaned_sample_url || voice.voice_sample_url;
+}
@@ -0,0 +1,239 @@
+/**
+ * Word-level timing helpers shared by every caption renderer
+ * (Remotion Captions/TypographyComposition, JSON2Video SRT, ASS burn-in).
+ *
+ * Timings are seconds relative to the start of the audio they belong to.
+ * alignWordsToTranscript() maps a known script onto ASR word timestamps so
+ * captions always show the script's exact words; estimateWordTimings() is
+ * the fallback when no transcript is available.
+ */
+
+export interface WordTiming {
+    word: string;
+    start: number;
+    end: number;
+}
+
+export interface FrameWordTiming {
+    text: string;
+    startFrame: number;
+    endFrame: number;
+}
+
+// Chinese and Japanese characters (Korean separates words with spaces)
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const WORD_CHAR = /[\p{L}\p{N}']/u;
+
+// Chinese and Japanese don't put spaces between words, so each character is
+// its own unit; punctuation stays on the unit before it and Latin runs
+// (e.g. "AI") stay whole
+function splitCjkToken(token: string): string[] {
+    if (!CJK_CHAR.test(token)) return [token];
+
+    const units: string[] = [];
+    let afterCjk = false;
+    for (const char of Array.from(token)) {
+        const cjk = CJK_CHAR.test(char);
+        const wordChar = WORD_CHAR.test(char);
+        if (units.length === 0 || cjk || (wordChar && afterCjk)) {
+            units.push(char);
+        } else {
+            units[units.length - 1] += char;
+        }
+        if (cjk || wordChar) afterCjk = cjk;
+    }
+    return units;
+}
+
+export function splitWords(text: string): string[] {
+    return text.split(/\s+/).filter(w => w.length > 0).flatMap(splitCjkToken);
+}
+
+// What goes between two caption words: nothing next to a Chinese or Japanese character
+export function wordSeparator(previous: string, next: string): string {
+    const last = Array.from(previous).reverse().find(char => WORD_CHAR.test(char)) || '';
+    return CJK_CHAR.test(last) || CJK_CHAR.test(Array.from(next)[0] || '') ? '' : ' ';
+}
+
+// Words back into display text (the inverse of splitWords)
+export function joinWords(words: string[]): string {
+    return words.map((word, i) => (i > 0 ? wordSeparator(words[i - 1], word) : '') + word).join('');
+}
+
+// Letters and digits of any script, so accented and non-Latin words still match
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+export function estimateSyllables(word: string): number {
+    // Accents are dropped so "canción" counts like "cancion"; a CJK character is one syllable
+    const cleaned = word.normalize('NFD').replace(/[^a-zA-Z]/g, '').toLowerCase();
+    if (cleaned.length <= 2) return 1;
+    const vowelGroups = cleaned.match(/[aeiouy]+/gi);
+    return Math.max(1, vowelGroups ? vowelGroups.length : Math.ceil(cleaned.length / 3));
+}
+
+// Spread words over [start, end] in proportion to their syllables
+function distributeWords(words: string[], start: number, end: number): WordTiming[] {
+    const syllables = words.map(estimateSyllables);
+    const total = syllables.reduce((a, b) => a + b, 0) || 1;
+    const span = Math.max(0, end - start);
+
+    const timings: WordTiming[] = [];
+    let current = start;
+    for (let i = 0; i < words.length; i++) {
+        const wordDuration = (syllables[i] / total) * span;
+        timings.push({ word: words[i], start: current, end: current + wordDuration });
+        current += wordDuration;
+    }
+    return timings;
+}
+
+/**
+ * Estimate timings from syllable counts (used when no transcript is available)
+ */
+export function estimateWordTimings(script: string, duration?: number): WordTiming[] {
+    const words = splitWords(script);
+    const totalSyllables = words.map(estimateSyllables).reduce((a, b) => a + b, 0);
+    const finalDuration = duration || (totalSyllables / 3.5);
+    return distributeWords(words, 0, finalDuration);
+}
+
+// Split transcript words the way splitWords splits the script (a Chinese or
+// Japanese "word" from the ASR becomes one entry per character), sharing
+// each word's time evenly
+function splitTranscriptWords(transcript: WordTiming[]): WordTiming[] {
+    return transcript.flatMap(t => {
+        const units = splitWords(t.word);
+        if (units.length <= 1) return [t];
+        const step = (t.end - t.start) / units.length;
+        return units.map((word, i) => ({ word, start: t.start + i * step, end: t.start + (i + 1) * step }));
+    });
+}
+
+/**
+ * Force-align known script text to ASR word timestamps.
+ *
+ * Runs an edit-distance alignment between the script words and the
+ * transcript words. Matched and substituted words take the transcript
+ * timing; script words the ASR dropped are spread over the gap between
+ * their aligned neighbours.
+ */
+export function alignWordsToTranscript(script: string, transcript: WordTiming[], duration?: number): WordTiming[] {
+    const words = splitWords(script);
+    if (words.length === 0) return [];
+    if (transcript.length === 0) return estimateWordTimings(script, duration);
+
+    transcript = splitTranscriptWords(transcript);
+    const a = words.map(normalizeWord);
+    const b = transcript.map(t => normalizeWord(t.word));
+    const n = a.length;
+    const m = b.length;
+
+    // cost[i][j] = edit distance between a[0..i) and b[0..j)
+    const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = 0; i <= n; i++) cost[i][0] = i;
+    for (let j = 0; j <= m; j++) cost[0][j] = j;
+    for (let i = 1; i <= n; i++) {
+        for (let j = 1; j <= m; j++) {
+            const sub = a[i - 1] === b[j - 1] ? 0 : 1;
+            cost[i][j] = Math.min(
+                cost[i - 1][j - 1] + sub,
+                cost[i - 1][j] + 1,
+                cost[i][j - 1] + 1
+            );
+        }
+    }
+
+    // Backtrack: script word index -> transcript word index
+    const matched: (number | null)[] = new Array(n).fill(null);
+    let i = n;
+    let j = m;
+    while (i > 0 && j > 0) {
+        const sub = a[i - 1] === b[j - 1] ? 0 : 1;
+        if (cost[i][j] === cost[i - 1][j - 1] + sub) {
+            matched[i - 1] = j - 1;
+            i--;
+            j--;
+        } else if (cost[i][j] === cost[i - 1][j] + 1) {
+            i--;
+        } else {
+            j--;
+        }
+    }
+
+    const audioEnd = Math.max(duration || 0, transcript[transcript.length - 1].end);
+    const result: WordTiming[] = new Array(n);
+
+    let k = 0;
+    while (k < n) {
+        const t = matched[k];
+        if (t !== null) {
+            result[k] = { word: words[k], start: transcript[t].start, end: transcript[t].end };
+            k++;
+            continue;
+        }
+
+        // Run of unmatched script words between two aligned neighbours
+        let runEnd = k;
+        while (runEnd < n && matched[runEnd] === null) runEnd++;
+        const gapStart = k > 0 ? result[k - 1].end : 0;
+        const next = runEnd < n ? matched[runEnd] : null;
+        const gapEnd = next !== null ? transcript[next].start : audioEnd;
+        const filled = distributeWords(words.slice(k, runEnd), gapStart, Math.max(gapStart, gapEnd));
+        for (let r = 0; r < filled.length; r++) result[k + r] = filled[r];
+        k = runEnd;
+    }
+
+    // Keep timings monotonic even if the ASR reported overlapping words
+    for (let w = 1; w < result.length; w++) {
+        if (result[w].start < result[w - 1].start) {
+            result[w] = { ...result[w], start: result[w - 1].start };
+        }
+        if (result[w].end < result[w].start) {
+            result[w] = { ...result[w], end: result[w].start };
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Shift per-scene timings onto one timeline
+ */
+export function concatSceneTimings(scenes: { wordTimings?: WordTiming[]; duration: number; text: string }[]): WordTiming[] {
+    const timings: WordTiming[] = [];
+    let offset = 0;
+    for (const scene of scenes) {
+        const sceneTimings = scene.wordTimings && scene.wordTimings.length > 0
+            ? scene.wordTimings
+            : estimateWordTimings(scene.text, scene.duration);
+        for (const t of sceneTimings) {
+            timings.push({ word: t.word, start: t.start + offset, end: t.end + offset });
+        }
+        offset += scene.duration;
+    }
+    return timings;
+}
+
+/**
+ * Convert timings (seconds) to frame-based timing for Remotion.
+ * Each word is extended to the next word's start when the gap is under a
+ * second, so the highlight does not blink off during natural pauses.
+ */
+export function toFrameTimings(wordTimings: WordTiming[], fps: number = 30): FrameWordTiming[] {
+    return wordTimings.map((wt, index) => {
+        const startFrame = Math.max(0, Math.round(wt.start * fps));
+        let endFrame = Math.max(0, Math.round(wt.end * fps));
+
+        if (index < wordTimings.length - 1) {
+            const nextStartFrame = Math.max(0, Math.round(wordTimings[index + 1].start * fps));
+            const gap = nextStartFrame - endFrame;
+            if (gap > 0 && gap < fps) {
+                endFrame = nextStartFrame;
+            }
+        }
+
+        return { text: wt.word, startFrame, endFrame };
+    });
+}
@@ -1,6 +1,16 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
 
-const isPublicRoute = createRouteMatcher(['/', '/sign-in(.*)', '/sign-up(.*)', '/terms', '/privacy']);
+const isPublicRoute = createRouteMatcher([
+    '/',
+    '/sign-in(.*)',
+    '/sign-up(.*)',
+    '/terms',
+    '/privacy',
+    '/api/jobs/worker', // Cron worker, authenticated with CRON_SECRET
+    '/api/webhooks/dodo', // Verified with the DodoPayments webhook signature
+    '/api/webhooks/json2video', // Verified with the provider webhook signature (lib/providerTasks)
+    '/api/webhooks/wavespeed',
+]);
 
 export default clerkMiddleware(async (auth, request) => {
     if (!isPublicRoute(request)) {
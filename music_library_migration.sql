@@ -0,0 +1,41 @@
+-- Background Music Library Migration
+-- Run this in your Supabase SQL Editor
+
+-- ============================================
+-- MUSIC TRACKS TABLE
+-- ============================================
+
+-- Built-in catalogue (user_id NULL) plus per-user uploads. Uploaded files
+-- live in the 'videos' bucket under music/<user_id>/. Jobs reference a
+-- track by id and snapshot its URL, so deleting a track never changes
+-- videos already queued (see lib/musicLibrary.ts).
+CREATE TABLE IF NOT EXISTS music_tracks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    artist TEXT,
+    url TEXT NOT NULL,
+    duration NUMERIC,
+    bpm INTEGER CHECK (bpm IS NULL OR bpm BETWEEN 20 AND 300),
+    moods TEXT[] NOT NULL DEFAULT '{}',
+    genres TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_music_tracks_user ON music_tracks(user_id);
+CREATE INDEX IF NOT EXISTS idx_music_tracks_moods ON music_tracks USING GIN (moods);
+CREATE INDEX IF NOT EXISTS idx_music_tracks_genres ON music_tracks USING GIN (genres);
+
+-- Only the service role (API routes) reads and writes music tracks
+ALTER TABLE music_tracks ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- CATALOGUE
+-- ============================================
+
+-- The track every video used before the library existed
+INSERT INTO music_tracks (title, url, duration, bpm, moods, genres)
+SELECT 'Feeling Blue',
+       'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/Feeling%20Blue.mp3',
+       NULL, NULL, ARRAY['upbeat', 'energetic'], ARRAY['pop']
+WHERE NOT EXISTS (SELECT 1 FROM music_tracks WHERE user_id IS NULL AND title = 'Feeling Blue');
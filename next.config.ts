@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+    // Local renders load the Remotion renderer (native binaries) at runtime
+    serverExternalPackages: ['@remotion/renderer'],
     images: {
         remotePatterns: [
             {
@@ -0,0 +1,54 @@
+-- Payment Events Migration
+-- Run this in your Supabase SQL Editor (after credit_ledger_migration.sql)
+
+-- ============================================
+-- PAYMENT EVENTS TABLE
+-- ============================================
+
+-- Every verified DodoPayments webhook delivery, stored raw so it can be
+-- audited and replayed. webhook_id is the Standard Webhooks message ID,
+-- which stays the same across Dodo's delivery retries.
+CREATE TABLE IF NOT EXISTS payment_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    webhook_id TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL,
+    payment_id TEXT,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'ignored', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    -- When the current attempt claimed the event; a 'processing' event older
+    -- than the replay cutoff belongs to a crashed attempt
+    processing_started_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment ON payment_events(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_events_status ON payment_events(status);
+
+-- Only the service role (which bypasses RLS) touches payment events
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- BACKFILL PAYMENT IDEMPOTENCY KEYS
+-- ============================================
+
+-- Purchases are credited with idempotency key 'dodo_payment:<payment_id>'.
+-- Tag the earliest existing purchase per payment so payments credited
+-- before this migration are not credited again.
+UPDATE credit_transactions ct
+SET idempotency_key = 'dodo_payment:' || first_tx.payment_id
+FROM (
+    SELECT DISTINCT ON (metadata->>'payment_id') id, metadata->>'payment_id' AS payment_id
+    FROM credit_transactions
+    WHERE type = 'purchase' AND metadata->>'payment_id' IS NOT NULL
+    ORDER BY metadata->>'payment_id', created_at
+) first_tx
+WHERE ct.id = first_tx.id
+  AND ct.idempotency_key IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM credit_transactions existing
+      WHERE existing.idempotency_key = 'dodo_payment:' || first_tx.payment_id
+  );
@@ -0,0 +1,68 @@
+-- Provider Tasks Migration
+-- Run this in your Supabase SQL Editor (after job_cancel_migration.sql)
+
+-- ============================================
+-- PROVIDER TASKS TABLE
+-- ============================================
+
+-- One row per render or WaveSpeed prediction a video job starts, keyed by
+-- the provider's own ID, so webhooks find the job with an index lookup
+-- instead of searching input_data. Scene TTS calls are recorded too (keyed
+-- by job, scene and start time) so they count against the concurrency caps. Pending rows older than a few minutes
+-- are stuck provider calls (see /api/admin/provider-tasks).
+CREATE TABLE IF NOT EXISTS provider_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider TEXT NOT NULL CHECK (provider IN ('json2video', 'remotion-lambda', 'local', 'wavespeed', 'tts')),
+    external_id TEXT NOT NULL,
+    job_id UUID NOT NULL REFERENCES video_jobs(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('render', 'scene')),
+    scene_index INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed', 'cancelled')),
+    output_url TEXT,
+    error TEXT,
+    webhook_payload JSONB,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    settled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (provider, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_tasks_job ON provider_tasks(job_id);
+CREATE INDEX IF NOT EXISTS idx_provider_tasks_pending ON provider_tasks(started_at) WHERE status = 'pending';
+
+-- Only the service role (which bypasses RLS) touches provider tasks
+ALTER TABLE provider_tasks ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- BACKFILL IN-FLIGHT CALLS
+-- ============================================
+
+-- Renders of unfinished jobs (older JSON2Video handles stored { projectId })
+INSERT INTO provider_tasks (provider, external_id, job_id, kind)
+SELECT
+    COALESCE(input_data->'pendingRender'->>'backend', 'json2video'),
+    COALESCE(input_data->'pendingRender'->>'renderId', input_data->'pendingRender'->>'projectId'),
+    id,
+    'render'
+FROM video_jobs
+WHERE status IN ('pending', 'processing', 'paused')
+  AND COALESCE(input_data->'pendingRender'->>'renderId', input_data->'pendingRender'->>'projectId') IS NOT NULL
+ON CONFLICT (provider, external_id) DO NOTHING;
+
+-- Typography renders live in result_data
+INSERT INTO provider_tasks (provider, external_id, job_id, kind)
+SELECT result_data->'render'->>'backend', result_data->'render'->>'renderId', id, 'render'
+FROM video_jobs
+WHERE status IN ('pending', 'processing', 'paused')
+  AND result_data->'render'->>'backend' IS NOT NULL
+  AND result_data->'render'->>'renderId' IS NOT NULL
+ON CONFLICT (provider, external_id) DO NOTHING;
+
+-- Face clips still generating on WaveSpeed
+INSERT INTO provider_tasks (provider, external_id, job_id, kind, scene_index)
+SELECT 'wavespeed', input_data->'pendingScene'->>'predictionId', id, 'scene', (input_data->'pendingScene'->>'sceneIndex')::INTEGER
+FROM video_jobs
+WHERE status IN ('pending', 'processing', 'paused')
+  AND input_data->'pendingScene'->>'predictionId' IS NOT NULL
+ON CONFLICT (provider, external_id) DO NOTHING;
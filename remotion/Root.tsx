@@ -1,23 +1,13 @@
 import { Composition } from 'remotion';
-import { VideoComposition } from './compositions/VideoComposition';
+import { VideoComposition, VideoCompositionProps } from './compositions/VideoComposition';
 import { TypographyComposition, TypographyWord } from './compositions/TypographyComposition';
 
 // Default props for the composition
-const defaultVideoProps = {
-    scenes: [] as Array<{
-        id: string;
-        imageUrl: string;
-        audioUrl: string;
-        durationInFrames: number;
-        text: string;
-    }>,
-    captions: [] as Array<{
-        text: string;
-        startMs: number;
-        endMs: number;
-    }>,
+const defaultVideoProps: VideoCompositionProps = {
+    scenes: [],
+    captions: [],
     enableCaptions: true,
-    captionStyle: 'bold-classic' as string
+    captionStyle: 'bold-classic'
 };
 
 // Default props for typography composition
@@ -41,13 +31,15 @@ export const RemotionRoot: React.FC = () => {
                 height={1920}
                 defaultProps={defaultVideoProps}
                 calculateMetadata={async ({ props }) => {
-                    const typedProps = props as typeof defaultVideoProps;
+                    const typedProps = props as unknown as VideoCompositionProps;
                     const totalDuration = typedProps.scenes.reduce(
                         (acc, scene) => acc + scene.durationInFrames,
                         0
                     );
                     return {
                         durationInFrames: Math.max(totalDuration, 30),
+                        width: typedProps.width || 1080,
+                        height: typedProps.height || 1920,
                     };
                 }}
             />
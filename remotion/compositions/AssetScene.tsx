@@ -1,16 +1,22 @@
 import React from 'react';
 import { AbsoluteFill, Img, interpolate, useCurrentFrame } from 'remotion';
+import type { FocalPoint, KenBurnsEffect } from '../../lib/kenBurns';
+
+export type AssetEffectType = KenBurnsEffect;
 
 interface AssetSceneProps {
     imageUrl: string;
     durationInFrames: number;
-    effectType?: 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'zoom-pan';
+    effectType?: AssetEffectType;
+    // Crop around this point and zoom towards it (see lib/kenBurns.ts)
+    focalPoint?: FocalPoint;
 }
 
 export const AssetScene: React.FC<AssetSceneProps> = ({
     imageUrl,
     durationInFrames,
-    effectType = 'zoom-in'
+    effectType = 'zoom-in',
+    focalPoint
 }) => {
     const frame = useCurrentFrame();
     const progress = frame / durationInFrames;
@@ -29,6 +35,18 @@ export const AssetScene: React.FC<AssetSceneProps> = ({
             scale = interpolate(frame, [0, durationInFrames], [zoomStart, zoomEnd], {
                 extrapolateRight: 'clamp'
             });
+            if (focalPoint) {
+                // Drift the subject towards the centre, as far as the zoom
+                // allows without showing the image edges
+                const maxShift = 50 - 50 / zoomEnd;
+                const clampShift = (offset: number) => Math.max(-maxShift, Math.min(maxShift, -offset));
+                translateX = interpolate(frame, [0, durationInFrames], [0, clampShift((focalPoint.x - 0.5) * 100)], {
+                    extrapolateRight: 'clamp'
+                });
+                translateY = interpolate(frame, [0, durationInFrames], [0, clampShift((focalPoint.y - 0.5) * 100)], {
+                    extrapolateRight: 'clamp'
+                });
+            }
             break;
 
         case 'zoom-out':
@@ -51,6 +69,20 @@ export const AssetScene: React.FC<AssetSceneProps> = ({
             });
             break;
 
+        case 'pan-up':
+            scale = 1.15;
+            translateY = interpolate(frame, [0, durationInFrames], [5, -5], {
+                extrapolateRight: 'clamp'
+            });
+            break;
+
+        case 'pan-down':
+            scale = 1.15;
+            translateY = interpolate(frame, [0, durationInFrames], [-5, 5], {
+                extrapolateRight: 'clamp'
+            });
+            break;
+
         case 'zoom-pan':
             scale = interpolate(frame, [0, durationInFrames], [zoomStart, zoomEnd], {
                 extrapolateRight: 'clamp'
@@ -68,7 +100,9 @@ export const AssetScene: React.FC<AssetSceneProps> = ({
                 style={{
                     width: '100%',
                     height: '100%',
-                    objectFit: 'contain',
+                    // With a focal point, fill the frame and keep the subject in it
+                    objectFit: focalPoint ? 'cover' : 'contain',
+                    objectPosition: focalPoint ? `${focalPoint.x * 100}% ${focalPoint.y * 100}%` : undefined,
                     transform: `scale(${scale}) translate(${translateX}%, ${translateY}%)`,
                     transformOrigin: 'center center'
                 }}
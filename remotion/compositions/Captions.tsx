@@ -1,5 +1,15 @@
-import React from 'react';
-import { AbsoluteFill, interpolate, useCurrentFrame } from 'remotion';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AbsoluteFill, cancelRender, continueRender, delayRender, useCurrentFrame, useVideoConfig } from 'remotion';
+// Relative import: the Remotion bundle does not resolve the @/ alias
+import {
+    compileRemotionStyle,
+    getCaptionStyle,
+    getRemotionCaptionMotion,
+    isWordHighlighted,
+    CaptionStyle,
+    DEFAULT_CAPTION_STYLE
+} from '../../lib/captionStyles';
+import { wordSeparator } from '../../lib/wordTimings';
 
 export interface CaptionWord {
     word: string;
@@ -9,23 +19,25 @@ export interface CaptionWord {
 
 interface CaptionsProps {
     words: CaptionWord[];
+    // Defaults to the style's maxWordsPerLine
     wordsPerPhrase?: number;
-    style?: 'bold-classic' | 'modern-pop' | 'minimal' | 'vibrant';
+    // Caption style ID from lib/captionStyles, or a resolved (custom) style
+    style?: string | CaptionStyle;
 }
 
 // Group words into phrases
 function groupWordsIntoPhrases(words: CaptionWord[], wordsPerPhrase: number): {
-    text: string;
+    words: CaptionWord[];
     startFrame: number;
     endFrame: number;
 }[] {
-    const phrases: { text: string; startFrame: number; endFrame: number }[] = [];
+    const phrases: { words: CaptionWord[]; startFrame: number; endFrame: number }[] = [];
 
     for (let i = 0; i < words.length; i += wordsPerPhrase) {
         const phraseWords = words.slice(i, i + wordsPerPhrase);
         if (phraseWords.length > 0) {
             phrases.push({
-                text: phraseWords.map(w => w.word).join(' '),
+                words: phraseWords,
                 startFrame: phraseWords[0].startFrame,
                 endFrame: phraseWords[phraseWords.length - 1].endFrame
             });
@@ -35,47 +47,32 @@ function groupWordsIntoPhrases(words: CaptionWord[], wordsPerPhrase: number): {
     return phrases;
 }
 
-// Style definitions
-const styles = {
-    'bold-classic': {
-        fontFamily: 'Impact, Arial Black, sans-serif',
-        fontSize: 64,
-        color: '#FFFFFF',
-        textShadow: '3px 3px 6px rgba(0,0,0,0.8), -2px -2px 4px rgba(0,0,0,0.5)',
-        letterSpacing: 2
-    },
-    'modern-pop': {
-        fontFamily: 'Inter, Helvetica, sans-serif',
-        fontSize: 56,
-        color: '#FFFFFF',
-        textShadow: '0 4px 12px rgba(0,0,0,0.6)',
-        letterSpacing: 1,
-        fontWeight: 800
-    },
-    'minimal': {
-        fontFamily: 'Georgia, serif',
-        fontSize: 48,
-        color: '#FFFFFF',
-        textShadow: '2px 2px 4px rgba(0,0,0,0.5)',
-        letterSpacing: 0
-    },
-    'vibrant': {
-        fontFamily: 'Arial Black, sans-serif',
-        fontSize: 60,
-        color: '#FFD700',
-        textShadow: '3px 3px 0 #FF4500, 6px 6px 8px rgba(0,0,0,0.7)',
-        letterSpacing: 3
-    }
-};
-
 export const Captions: React.FC<CaptionsProps> = ({
     words,
-    wordsPerPhrase = 4,
-    style = 'bold-classic'
+    wordsPerPhrase,
+    style = DEFAULT_CAPTION_STYLE
 }) => {
     const frame = useCurrentFrame();
-    const phrases = groupWordsIntoPhrases(words, wordsPerPhrase);
-    const captionStyle = styles[style] || styles['bold-classic'];
+    const { width, height } = useVideoConfig();
+    const captionStyle = useMemo(() => getCaptionStyle(style), [style]);
+    const compiled = compileRemotionStyle(captionStyle, { width, height });
+
+    // Uploaded fonts must be loaded before the first frame is captured; a
+    // video in the wrong font is a failed render, not a fallback
+    const [fontHandle] = useState(() => captionStyle.fontUrl ? delayRender(`Loading caption font ${captionStyle.font}`) : null);
+    useEffect(() => {
+        if (fontHandle === null || !captionStyle.fontUrl) return;
+        const font = new FontFace(captionStyle.font, `url(${captionStyle.fontUrl})`);
+        font.load()
+            .then(loaded => {
+                document.fonts.add(loaded);
+                continueRender(fontHandle);
+            })
+            .catch(err => {
+                cancelRender(new Error(`Caption font ${captionStyle.fontUrl} failed to load: ${err instanceof Error ? err.message : err}`));
+            });
+    }, [fontHandle, captionStyle.font, captionStyle.fontUrl]);
+    const phrases = groupWordsIntoPhrases(words, wordsPerPhrase || captionStyle.maxWordsPerLine);
 
     // Find current phrase
     const currentPhrase = phrases.find(
@@ -86,38 +83,35 @@ export const Captions: React.FC<CaptionsProps> = ({
         return null;
     }
 
-    // Calculate animation progress within this phrase
-    const phraseProgress = interpolate(
-        frame,
-        [currentPhrase.startFrame, currentPhrase.startFrame + 5],
-        [0, 1],
-        { extrapolateRight: 'clamp' }
-    );
+    // Entrance animation within this phrase
+    const motion = getRemotionCaptionMotion(captionStyle, frame - currentPhrase.startFrame);
 
-    // Pop-in animation
-    const scale = interpolate(phraseProgress, [0, 1], [0.8, 1]);
-    const opacity = interpolate(phraseProgress, [0, 1], [0, 1]);
+    // Word being spoken (the last one that has started)
+    let activeIndex = -1;
+    currentPhrase.words.forEach((word, index) => {
+        if (frame >= word.startFrame) activeIndex = index;
+    });
 
     return (
-        <AbsoluteFill
-            style={{
-                justifyContent: 'flex-end',
-                alignItems: 'center',
-                paddingBottom: 150
-            }}
-        >
+        <AbsoluteFill style={compiled.container}>
             <div
                 style={{
-                    ...captionStyle,
+                    ...compiled.text,
                     textAlign: 'center',
                     maxWidth: '90%',
-                    transform: `scale(${scale})`,
-                    opacity,
-                    WebkitTextStroke: '2px black',
-                    paintOrder: 'stroke fill'
+                    transform: `translateY(${motion.translateY}px) scale(${motion.scale})`,
+                    opacity: motion.opacity,
+                    filter: motion.blur > 0 ? `blur(${motion.blur}px)` : undefined
                 }}
             >
-                {currentPhrase.text}
+                {currentPhrase.words.map((word, index) => (
+                    <span
+                        key={index}
+                        style={isWordHighlighted(captionStyle, index, activeIndex) ? { color: compiled.highlightColor } : undefined}
+                    >
+                        {index > 0 ? wordSeparator(currentPhrase.words[index - 1].word, word.word) : ''}{word.word}
+                    </span>
+                ))}
             </div>
         </AbsoluteFill>
     );
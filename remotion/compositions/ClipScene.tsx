@@ -0,0 +1,33 @@
+import React from 'react';
+import { AbsoluteFill, OffthreadVideo, Sequence } from 'remotion';
+
+// A video clip filling a cut, as back-to-back passes from its start
+// (see planClipLoops in lib/clipAssets.ts)
+export interface ClipPlayback {
+    loops: { fromFrame: number; durationInFrames: number }[];
+    volume: number;     // 0 = muted
+}
+
+interface ClipSceneProps {
+    videoUrl: string;
+    clip: ClipPlayback;
+}
+
+export const ClipScene: React.FC<ClipSceneProps> = ({ videoUrl, clip }) => (
+    <AbsoluteFill style={{ backgroundColor: '#000' }}>
+        {clip.loops.map((loop, index) => (
+            <Sequence key={index} from={loop.fromFrame} durationInFrames={loop.durationInFrames}>
+                <OffthreadVideo
+                    src={videoUrl}
+                    muted={clip.volume === 0}
+                    volume={clip.volume}
+                    style={{
+                        width: '100%',
+                        height: '100%',
+                        objectFit: 'cover'
+                    }}
+                />
+            </Sequence>
+        ))}
+    </AbsoluteFill>
+);
@@ -0,0 +1,106 @@
+import React from 'react';
+import { AbsoluteFill, Easing, interpolate, useCurrentFrame } from 'remotion';
+import type { SceneTransitionType } from '../../lib/sceneTransitions';
+
+export interface TransitionTiming {
+    type: SceneTransitionType;
+    durationInFrames: number;
+}
+
+interface SceneTransitionProps {
+    // Transition into this scene, over its first frames
+    transitionIn?: TransitionTiming;
+    // Next scene's transition, played while this scene is held past its end
+    transitionOut?: TransitionTiming;
+    // Scene length without the hold
+    durationInFrames: number;
+    children: React.ReactNode;
+}
+
+// Deterministic per-frame jitter in [-1, 1] for the glitch
+function jitter(frame: number, seed: number): number {
+    const x = Math.sin(frame * 12.9898 + seed * 78.233) * 43758.5453;
+    return (x - Math.floor(x)) * 2 - 1;
+}
+
+function progress(frame: number, start: number, length: number): number {
+    return interpolate(frame, [start, start + length], [0, 1], {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+        easing: Easing.inOut(Easing.cubic)
+    });
+}
+
+/**
+ * Animates a scene's visuals in and out for the transitions at its boundaries
+ */
+export const SceneTransition: React.FC<SceneTransitionProps> = ({ transitionIn, transitionOut, durationInFrames, children }) => {
+    const frame = useCurrentFrame();
+    const transforms: string[] = [];
+    const filters: string[] = [];
+    let opacity = 1;
+    let clipPath: string | undefined;
+
+    if (transitionIn) {
+        const p = progress(frame, 0, transitionIn.durationInFrames);
+        switch (transitionIn.type) {
+            case 'crossfade':
+                opacity *= p;
+                break;
+            case 'slide':
+                transforms.push(`translateX(${(1 - p) * 100}%)`);
+                break;
+            case 'wipe':
+                clipPath = `inset(0 ${(1 - p) * 100}% 0 0)`;
+                break;
+            case 'zoom-through':
+                opacity *= p;
+                transforms.push(`scale(${1.3 - 0.3 * p})`);
+                break;
+            case 'whip-pan':
+                transforms.push(`translateX(${(1 - p) * 100}%)`);
+                filters.push(`blur(${(1 - p) * 24}px)`);
+                break;
+            case 'glitch':
+                if (p < 1) {
+                    transforms.push(`translate(${jitter(frame, 1) * 4 * (1 - p)}%, ${jitter(frame, 2) * 2 * (1 - p)}%)`);
+                    filters.push(`hue-rotate(${jitter(frame, 3) * 90 * (1 - p)}deg)`);
+                    opacity *= frame % 2 === 0 ? 1 : p;
+                }
+                break;
+        }
+    }
+
+    if (transitionOut && frame >= durationInFrames) {
+        const q = progress(frame, durationInFrames, transitionOut.durationInFrames);
+        switch (transitionOut.type) {
+            case 'slide':
+                transforms.push(`translateX(${-q * 100}%)`);
+                break;
+            case 'zoom-through':
+                transforms.push(`scale(${1 + 0.6 * q})`);
+                break;
+            case 'whip-pan':
+                transforms.push(`translateX(${-q * 100}%)`);
+                filters.push(`blur(${q * 24}px)`);
+                break;
+            case 'glitch':
+                transforms.push(`translate(${jitter(frame, 4) * 4 * q}%, 0)`);
+                break;
+            // Crossfade and wipe reveal the next scene over this one
+        }
+    }
+
+    return (
+        <AbsoluteFill
+            style={{
+                opacity,
+                transform: transforms.length > 0 ? transforms.join(' ') : undefined,
+                filter: filters.length > 0 ? filters.join(' ') : undefined,
+                clipPath
+            }}
+        >
+            {children}
+        </AbsoluteFill>
+    );
+};
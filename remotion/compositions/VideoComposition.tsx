@@ -1,35 +1,102 @@
 import React from 'react';
-import { AbsoluteFill, Sequence, Audio, OffthreadVideo } from 'remotion';
-import { AssetScene } from './AssetScene';
+import { AbsoluteFill, Sequence, Audio, OffthreadVideo, interpolate, useVideoConfig } from 'remotion';
+import { AssetScene, AssetEffectType, getEffectForScene } from './AssetScene';
 import { Captions, CaptionWord } from './Captions';
+import { SceneTransition, TransitionTiming } from './SceneTransition';
+import { ClipScene, ClipPlayback } from './ClipScene';
+import type { CaptionStyle } from '../../lib/captionStyles';
+import type { FocalPoint } from '../../lib/kenBurns';
+import { musicVolumeAt, type MusicKeyframe } from '../../lib/backgroundMusic';
+
+// A visual cut within an asset scene (image shown for part of the scene)
+export interface SceneCut {
+    imageUrl: string;       // The clip's URL when clip is set
+    durationInFrames: number;
+    effectType?: AssetEffectType;
+    focalPoint?: FocalPoint;
+    clip?: ClipPlayback;    // Video clip asset (loops already cover the hold)
+}
 
 // Scene types
 export interface SceneData {
     type: 'face' | 'asset';
     videoUrl?: string;      // For face scenes (WaveSpeed video)
     imageUrl?: string;      // For asset scenes
-    audioUrl: string;       // TTS audio for this scene
+    cuts?: SceneCut[];      // For asset scenes split into several cuts (replaces imageUrl)
+    effectType?: AssetEffectType;
+    focalPoint?: FocalPoint;    // Subject to keep in frame (imageUrl only; cuts carry their own)
+    audioUrl?: string;      // TTS audio for this scene (face videos carry their own)
+    audioStartFrame?: number;   // Pause before the narration
+    audioPlaybackRate?: number; // Narration speed
     durationInFrames: number;
     text: string;           // Scene text for captions
+    transitionIn?: TransitionTiming;   // From the previous scene (see lib/sceneTransitions.ts)
 }
 
 export interface VideoCompositionProps {
     scenes: SceneData[];
     captions: CaptionWord[];
     enableCaptions: boolean;
-    captionStyle: string;
+    captionStyle: string | CaptionStyle;   // Caption style ID from lib/captionStyles, or a resolved custom style
     backgroundColor?: string;
+    backgroundMusicUrl?: string;
+    backgroundMusicVolume?: number;
+    // Ducking and fade envelope in seconds (replaces backgroundMusicVolume)
+    backgroundMusicKeyframes?: MusicKeyframe[];
+    soundEffects?: SoundEffectCue[];   // Whooshes, clicks etc. on cuts and transitions
+    // Output size, applied through calculateMetadata in Root.tsx
+    width?: number;
+    height?: number;
+}
+
+// A sound effect placed on the video timeline (see lib/soundEffects.ts)
+export interface SoundEffectCue {
+    src: string;
+    fromFrame: number;
+    durationInFrames?: number;
+    volume: number;
 }
 
+// holdFrames extends the last cut under the next scene's transition
+const SceneCuts: React.FC<{ cuts: SceneCut[]; holdFrames: number }> = ({ cuts, holdFrames }) => {
+    let cutStart = 0;
+    return (
+        <>
+            {cuts.map((cut, cutIndex) => {
+                const from = cutStart;
+                cutStart += cut.durationInFrames;
+                const durationInFrames = cut.durationInFrames + (cutIndex === cuts.length - 1 ? holdFrames : 0);
+                return (
+                    <Sequence key={cutIndex} from={from} durationInFrames={durationInFrames}>
+                        {cut.clip ? (
+                            <ClipScene videoUrl={cut.imageUrl} clip={cut.clip} />
+                        ) : (
+                            <AssetScene
+                                imageUrl={cut.imageUrl}
+                                durationInFrames={durationInFrames}
+                                effectType={cut.effectType}
+                                focalPoint={cut.focalPoint}
+                            />
+                        )}
+                    </Sequence>
+                );
+            })}
+        </>
+    );
+};
+
 export const VideoComposition: React.FC<VideoCompositionProps> = ({
     scenes,
     captions,
     enableCaptions,
     captionStyle,
-    backgroundColor = '#000000'
+    backgroundColor = '#000000',
+    backgroundMusicUrl,
+    backgroundMusicVolume = 0.12,
+    backgroundMusicKeyframes,
+    soundEffects = []
 }) => {
-    const supportedCaptionStyles = new Set(['bold-classic', 'modern-pop', 'minimal', 'vibrant']);
-    const resolvedCaptionStyle = supportedCaptionStyles.has(captionStyle) ? captionStyle as 'bold-classic' | 'modern-pop' | 'minimal' | 'vibrant' : 'bold-classic';
+    const { fps, durationInFrames } = useVideoConfig();
 
     // Calculate frame offsets for each scene
     let currentFrame = 0;
@@ -40,15 +107,32 @@ export const VideoComposition: React.FC<VideoCompositionProps> = ({
         currentFrame += scene.durationInFrames;
     }
 
+    // Fade music in over 1s and out over the last 2s (or follow the ducking envelope)
+    const musicVolume = (frame: number) => backgroundMusicKeyframes ? musicVolumeAt(backgroundMusicKeyframes, frame / fps) : interpolate(
+        frame,
+        [0, fps, Math.max(fps + 1, durationInFrames - 2 * fps), Math.max(fps + 2, durationInFrames)],
+        [0, backgroundMusicVolume, backgroundMusicVolume, 0],
+        { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' }
+    );
+
     return (
         <AbsoluteFill style={{ backgroundColor }}>
-            {/* Render each scene in sequence */}
-            {scenes.map((scene, index) => (
+            {/* Render each scene in sequence. A scene followed by a transition
+                is held underneath the next one while it plays. */}
+            {scenes.map((scene, index) => {
+                const transitionOut = scenes[index + 1]?.transitionIn;
+                const holdFrames = transitionOut?.durationInFrames || 0;
+                return (
                 <Sequence
                     key={index}
                     from={sceneFrameStarts[index]}
-                    durationInFrames={scene.durationInFrames}
+                    durationInFrames={scene.durationInFrames + holdFrames}
                 >
+                    <SceneTransition
+                        transitionIn={scene.transitionIn}
+                        transitionOut={transitionOut}
+                        durationInFrames={scene.durationInFrames}
+                    >
                     {scene.type === 'face' && scene.videoUrl ? (
                         // Face scene: render WaveSpeed video
                         <AbsoluteFill>
@@ -61,22 +145,45 @@ export const VideoComposition: React.FC<VideoCompositionProps> = ({
                                 }}
                             />
                         </AbsoluteFill>
+                    ) : scene.type === 'asset' && scene.cuts && scene.cuts.length > 0 ? (
+                        // Asset scene with visual cuts: one Ken Burns image per cut
+                        <SceneCuts cuts={scene.cuts} holdFrames={holdFrames} />
                     ) : scene.type === 'asset' && scene.imageUrl ? (
                         // Asset scene: render Ken Burns effect
                         <AssetScene
                             imageUrl={scene.imageUrl}
-                            durationInFrames={scene.durationInFrames}
+                            durationInFrames={scene.durationInFrames + holdFrames}
+                            effectType={scene.effectType || getEffectForScene(index)}
+                            focalPoint={scene.focalPoint}
                         />
                     ) : null}
+                    </SceneTransition>
 
                     {/* Audio for this scene */}
-                    <Audio src={scene.audioUrl} />
+                    {scene.audioUrl && (
+                        <Sequence from={scene.audioStartFrame || 0}>
+                            <Audio src={scene.audioUrl} playbackRate={scene.audioPlaybackRate || 1} />
+                        </Sequence>
+                    )}
+                </Sequence>
+                );
+            })}
+
+            {/* Sound effects on cuts and scene transitions */}
+            {soundEffects.map((cue, index) => (
+                <Sequence key={`sfx-${index}`} from={cue.fromFrame} durationInFrames={cue.durationInFrames}>
+                    <Audio src={cue.src} volume={cue.volume} />
                 </Sequence>
             ))}
 
+            {/* Background music under the whole video */}
+            {backgroundMusicUrl && (
+                <Audio src={backgroundMusicUrl} loop volume={musicVolume} />
+            )}
+
             {/* Captions overlay - rendered on top of all scenes */}
             {enableCaptions && captions.length > 0 && (
-                <Captions words={captions} style={resolvedCaptionStyle} />
+                <Captions words={captions} style={captionStyle} />
             )}
         </AbsoluteFill>
     );
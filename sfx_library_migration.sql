@@ -0,0 +1,39 @@
+-- Sound Effects Library Migration
+-- Run this in your Supabase SQL Editor
+
+-- ============================================
+-- SOUND EFFECTS TABLE
+-- ============================================
+
+-- Whooshes, risers, clicks and impacts played on cuts and scene transitions.
+-- Jobs snapshot the library when they are created, so edits here never
+-- change videos already queued (see lib/soundEffects.ts).
+CREATE TABLE IF NOT EXISTS sound_effects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    category TEXT NOT NULL CHECK (category IN ('whoosh', 'riser', 'click', 'impact')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    url TEXT NOT NULL,
+    -- Seconds; risers need it so they end on the cut
+    duration NUMERIC,
+    volume NUMERIC NOT NULL DEFAULT 0.4 CHECK (volume > 0 AND volume <= 1),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sound_effects_category ON sound_effects(category);
+
+-- Only the service role (API routes) reads and writes sound effects
+ALTER TABLE sound_effects ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- CATALOGUE
+-- ============================================
+
+-- The click every cut used before the library existed. Upload more clips to
+-- the Bgmusic bucket and insert them here; 'auto' falls back to clicks for
+-- any category without clips.
+INSERT INTO sound_effects (name, category, tags, url, duration, volume)
+SELECT 'Click', 'click', ARRAY['cut', 'subtle'],
+       'https://tfaumdiiljwnjmfnonrc.supabase.co/storage/v1/object/public/Bgmusic/clickit.mp3',
+       NULL, 0.4
+WHERE NOT EXISTS (SELECT 1 FROM sound_effects WHERE name = 'Click');
@@ -0,0 +1,14 @@
+-- Video Captions Migration
+-- Run this in your Supabase SQL Editor
+
+-- ============================================
+-- CAPTION DATA ON VIDEOS
+-- ============================================
+
+-- Word timings of the narration and the caption style the video was rendered
+-- with, so finished videos can be exported as SRT/VTT/ASS/JSON captions
+-- (see /api/videos/[id]/captions). Videos saved before this migration have
+-- no timings and cannot be exported.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS word_timings JSONB;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS caption_style JSONB;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS aspect_ratio TEXT;
@@ -0,0 +1,16 @@
+-- Video Dubbing Migration
+-- Run this in your Supabase SQL Editor (after video_captions_migration.sql)
+
+-- ============================================
+-- DUBBED VIDEOS
+-- ============================================
+
+-- A dub is a new video rendered from a parent video's assets and caption
+-- style with translated narration in the same cloned voice.
+-- voice_embedding_url records the voice a video was narrated with so its
+-- dubs keep it even if the user switches their active voice later.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS voice_embedding_url TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS language TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS parent_video_id UUID REFERENCES videos(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_videos_parent ON videos(parent_video_id) WHERE parent_video_id IS NOT NULL;
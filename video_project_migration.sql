@@ -0,0 +1,13 @@
+-- Video Project Migration
+-- Run this in your Supabase SQL Editor (after generation_cache_migration.sql)
+
+-- ============================================
+-- EDITABLE VIDEO PROJECTS
+-- ============================================
+
+-- The spec of the job that rendered the video (see lib/videoProject.ts):
+-- its scenes, voice, caption style, aspect ratio and music, plus the
+-- processed scenes with their narration and clip URLs. The dashboard
+-- reopens it for editing, and a re-render reuses the unchanged scenes.
+-- Videos saved before this migration have no project and can't be edited.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS project JSONB;
@@ -0,0 +1,15 @@
+-- Voice Library Migration
+-- Run this in your Supabase SQL Editor
+
+-- ============================================
+-- VOICE TAGS
+-- ============================================
+
+-- Free-form labels for organising cloned voices (e.g. "narrator", "calm").
+-- Managed through /api/voice/[id]; normalised to lowercase.
+ALTER TABLE voices ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Last time the sample, embedding or preview was replaced
+ALTER TABLE voices ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_voices_tags ON voices USING GIN (tags);
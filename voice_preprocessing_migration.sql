@@ -0,0 +1,16 @@
+-- Voice Pre-processing Migration
+-- Run this in your Supabase SQL Editor
+
+-- ============================================
+-- CLEANED VOICE SAMPLES
+-- ============================================
+
+-- Silence-trimmed, denoised, loudness-normalised copy of voice_sample_url
+-- (see lib/voicePreprocessing.ts). Cloning prefers it; NULL for voices
+-- recorded before pre-processing or when cleaning failed.
+ALTER TABLE voices ADD COLUMN IF NOT EXISTS cleaned_sample_url TEXT;
+
+-- Which sample qwen_embedding_url was cloned from, so clones of the
+-- original and cleaned samples can be compared
+ALTER TABLE voices ADD COLUMN IF NOT EXISTS embedding_source TEXT
+    CHECK (embedding_source IN ('original', 'cleaned'));